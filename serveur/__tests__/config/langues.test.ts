@@ -0,0 +1,74 @@
+/// <reference path="../types/jest.d.ts" />
+
+import config from '../../config/config';
+import { LANGUES } from '../../config/langues';
+
+describe('Registre des langues', () => {
+  const langues = Object.values(LANGUES);
+
+  it('devrait prendre en charge toutes les langues du registre', () => {
+    expect(config.SUPPORTED_LANGUAGES).toEqual(['fr', 'en', 'es', 'de', 'it', 'pt', 'ar']);
+    expect(config.DEFAULT_LANGUAGE).toBe('fr');
+  });
+
+  it('devrait définir tous les styles, libellés et messages dans chaque langue', () => {
+    const styles = Object.keys(LANGUES.fr.prompts.styles).sort();
+    const messages = Object.keys(LANGUES.fr.messages).sort();
+    const questions = Object.keys(LANGUES.fr.prompts.questions).sort();
+
+    langues.forEach((langue) => {
+      expect(Object.keys(langue.prompts.styles).sort()).toEqual(styles);
+      expect(Object.keys(langue.messages).sort()).toEqual(messages);
+      expect(Object.keys(langue.prompts.questions).sort()).toEqual(questions);
+      Object.values({
+        ...langue.prompts.styles,
+        ...langue.prompts.questions,
+        ...langue.messages
+      }).forEach((texte) => {
+        expect(texte.trim()).not.toBe('');
+      });
+    });
+  });
+
+  it('devrait définir les indices d\'entités et les mots de chaque thème', () => {
+    const themes = Object.keys(LANGUES.fr.themes).sort();
+
+    langues.forEach((langue) => {
+      expect(Object.keys(langue.entites).sort()).toEqual(['lieux', 'organisations', 'titres']);
+      expect(Object.keys(langue.themes).sort()).toEqual(themes);
+      Object.values(langue.themes).forEach((racines) => {
+        expect(racines.length).toBeGreaterThan(0);
+        // Les racines sont comparées aux mots en minuscules
+        racines.forEach((racine) => expect(racine).toBe(racine.toLowerCase()));
+      });
+    });
+  });
+
+  it('devrait insérer la longueur et la position du segment dans les prompts', () => {
+    langues.forEach((langue) => {
+      // Act
+      const longueur = langue.prompts.mots(120);
+      const segment = langue.prompts.segment(2, 5, longueur);
+
+      // Assert
+      expect(longueur).toContain('120');
+      expect(langue.prompts.phrases(3)).toContain('3');
+      expect(langue.prompts.resume(longueur)).toContain(longueur);
+      expect(segment).toContain('2/5');
+      expect(segment).toContain(longueur);
+      expect(langue.prompts.fusion(longueur)).toContain(longueur);
+    });
+  });
+
+  it('devrait utiliser des locales et des codes de sous-titres valides', () => {
+    langues.forEach((langue) => {
+      expect(Intl.DateTimeFormat.supportedLocalesOf([langue.locale])).toEqual([langue.locale]);
+      expect(langue.sousTitres).toMatch(/^[a-z]{2}$/);
+    });
+  });
+
+  it('devrait exposer les messages du registre dans la configuration', () => {
+    expect(config.MESSAGES.de.erreurNonTrouve).toBe('Ressource nicht gefunden');
+    expect(config.MESSAGES.ar).toBe(LANGUES.ar.messages);
+  });
+});
@@ -124,6 +124,22 @@ describe('Security Middleware', () => {
       expect(next).not.toHaveBeenCalledWith(expect.any(AppError));
     });
 
+    it('devrait accepter les envois de fichiers en multipart/form-data', () => {
+      // Arrange
+      const req = createMockRequest();
+      const res = createMockResponse();
+      const next = jest.fn() as jest.MockedFunction<NextFunction>;
+
+      req.method = 'POST';
+      req.headers['content-type'] = 'multipart/form-data; boundary=----limite';
+
+      // Act
+      checkContentType(req, res, next);
+
+      // Assert
+      expect(next).toHaveBeenCalledWith();
+    });
+
     it('devrait rejeter les autres types de contenu', () => {
       // Arrange
       const req = createMockRequest();
@@ -138,6 +138,63 @@ describe('Validation Middleware', () => {
       });
     });
 
+    describe('integer', () => {
+      it('devrait valider un entier borné', () => {
+        const schema = validationSchemas.integer('longueur', { min: 8, max: 128, optional: true });
+        expect(Array.isArray(schema)).toBe(true);
+        expect(schema.length).toBeGreaterThan(0);
+      });
+    });
+
+    describe('choice', () => {
+      it('devrait valider une valeur parmi une liste', () => {
+        const schema = validationSchemas.choice('mode', ['abstractif', 'extractif'], { optional: true });
+        expect(Array.isArray(schema)).toBe(true);
+        expect(schema.length).toBeGreaterThan(0);
+      });
+    });
+
+    describe('summaryFormat', () => {
+      it('devrait valider le style, la longueur et son unité', () => {
+        const schema = validationSchemas.summaryFormat();
+        expect(Array.isArray(schema)).toBe(true);
+        expect(schema).toHaveLength(3);
+      });
+    });
+
+    describe('summaryProvider', () => {
+      const { validationResult: resultatReel } = jest.requireActual('express-validator');
+
+      const erreurs = async (body: Record<string, unknown>) => {
+        const req = createMockRequest();
+        req.body = body;
+        await Promise.all(validationSchemas.summaryProvider().map((chain) => chain.run(req)));
+        return resultatReel(req).array().map((erreur: { msg: string }) => erreur.msg);
+      };
+
+      it('devrait accepter un modèle autorisé pour le fournisseur demandé', async () => {
+        // Act & Assert
+        expect(await erreurs({ fournisseur: 'local', modele: 'llama3' })).toEqual([]);
+        expect(await erreurs({ fournisseur: 'openai' })).toEqual([]);
+      });
+
+      it('devrait rejeter un modèle d\'un autre fournisseur', async () => {
+        // Act & Assert
+        expect(await erreurs({ fournisseur: 'openai', modele: 'llama3' }))
+          .toEqual(['Modèle non autorisé pour le fournisseur openai']);
+        expect(await erreurs({ fournisseur: 'extractif', modele: 'gpt-4' }))
+          .toEqual(['Modèle non autorisé pour le fournisseur extractif']);
+      });
+    });
+
+    describe('summaryBatch', () => {
+      it('devrait valider la liste des éléments et chacun de leurs champs', () => {
+        const schema = validationSchemas.summaryBatch();
+        expect(Array.isArray(schema)).toBe(true);
+        expect(schema).toHaveLength(5);
+      });
+    });
+
     describe('text', () => {
       it('devrait valider un texte avec des options personnalisées', () => {
         const schema = validationSchemas.text('titre', { min: 3, max: 100 });
@@ -145,6 +202,12 @@ describe('Validation Middleware', () => {
         expect(schema.length).toBeGreaterThan(0);
       });
 
+      it('devrait accepter un champ texte optionnel', () => {
+        const schema = validationSchemas.text('notes', { optional: true });
+        expect(Array.isArray(schema)).toBe(true);
+        expect(schema.length).toBeGreaterThan(0);
+      });
+
       it('devrait valider la longueur du texte', async () => {
         // Arrange
         const req = createMockRequest();
@@ -0,0 +1,90 @@
+/// <reference path="../types/jest.d.ts" />
+
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import jwt from 'jsonwebtoken';
+import app from '../../app';
+import config from '../../config/config';
+import db from '../../utils/db';
+import { authService } from '../../services/auth';
+import { deriveVaultKey, encryptSecret } from '../../utils/vault';
+
+// Mock des dépendances
+jest.mock('../../utils/db');
+jest.mock('../../services/common');
+jest.mock('../../services/auth', () => ({
+  authService: {
+    verifyPin: jest.fn().mockResolvedValue(undefined)
+  }
+}));
+
+describe('Routes des mots de passe', () => {
+  const sel = '00112233445566778899aabbccddeeff';
+  let server: Server;
+  let url: string;
+  const jeton = jwt.sign(
+    { id: 1, email: 'test@example.com', identifiant: 'test', est_verifie: true, role: 'utilisateur' },
+    config.JWT_SECRET
+  );
+
+  const envoyer = (chemin: string, body: Record<string, unknown>) => fetch(`${url}${chemin}`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${jeton}`,
+      'X-API-Key': config.API_KEY,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify(body)
+  });
+
+  beforeAll((done) => {
+    server = app.listen(0, () => {
+      url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      done();
+    });
+  });
+
+  afterAll((done) => {
+    server.close(done);
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (db.query as jest.Mock).mockReset();
+  });
+
+  describe('POST /api/mots-de-passe/:id/reveler', () => {
+    it('devrait vérifier le code PIN une seule fois', async () => {
+      // Arrange
+      const cle = await deriveVaultKey('123456', sel);
+      (db.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [{ sel_coffre: sel }] })
+        .mockResolvedValueOnce({ rows: [{ mot_de_passe_crypte: encryptSecret('Secret123!', cle) }] });
+
+      // Act
+      const reponse = await envoyer('/api/mots-de-passe/4/reveler', { id: 4, code_pin: '123456' });
+
+      // Assert
+      expect(reponse.status).toBe(200);
+      expect(await reponse.json()).toEqual({ success: true, data: { id: 4, mot_de_passe: 'Secret123!' } });
+      expect(authService.verifyPin).toHaveBeenCalledTimes(1);
+      expect(authService.verifyPin).toHaveBeenCalledWith(1, '123456');
+    });
+  });
+
+  describe('POST /api/mots-de-passe/migration', () => {
+    it('devrait vérifier le code PIN une seule fois', async () => {
+      // Arrange
+      (db.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [{ sel_coffre: sel }] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      // Act
+      const reponse = await envoyer('/api/mots-de-passe/migration', { code_pin: '123456' });
+
+      // Assert
+      expect(reponse.status).toBe(200);
+      expect(authService.verifyPin).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,85 @@
+/// <reference path="../types/jest.d.ts" />
+
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import jwt from 'jsonwebtoken';
+import app from '../../app';
+import config from '../../config/config';
+import { resumeService } from '../../services/resume';
+import { jobService } from '../../services/job';
+
+// Mock des dépendances
+jest.mock('../../utils/db');
+jest.mock('../../services/common');
+jest.mock('../../services/resume');
+jest.mock('../../services/job');
+
+describe('Routes des résumés', () => {
+  let server: Server;
+  let url: string;
+  const jeton = jwt.sign(
+    { id: 1, email: 'test@example.com', identifiant: 'test', est_verifie: true, role: 'utilisateur' },
+    config.JWT_SECRET
+  );
+
+  // Envoi d'un fichier au format multipart/form-data, comme depuis un formulaire
+  const envoyer = (chemin: string, contenu: string) => {
+    const formulaire = new FormData();
+    formulaire.append('fichier', new Blob([contenu], { type: 'text/plain' }), 'notes.txt');
+    formulaire.append('langue', 'fr');
+    return fetch(`${url}${chemin}`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${jeton}`, 'X-API-Key': config.API_KEY },
+      body: formulaire
+    });
+  };
+
+  beforeAll((done) => {
+    server = app.listen(0, () => {
+      url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      done();
+    });
+  });
+
+  afterAll((done) => {
+    server.close(done);
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('POST /api/resumes/fichier', () => {
+    it('devrait accepter un fichier envoyé en multipart/form-data', async () => {
+      // Arrange
+      (resumeService.summarizeFile as jest.Mock).mockResolvedValueOnce({ id: 3, resume: 'Résumé' });
+
+      // Act
+      const reponse = await envoyer('/api/resumes/fichier', 'Le compost se prépare en automne.');
+
+      // Assert
+      expect(reponse.status).toBe(200);
+      expect(await reponse.json()).toEqual({ success: true, data: { id: 3, resume: 'Résumé' } });
+      const [utilisateur_id, fichier, langue, , nomFichier] = (resumeService.summarizeFile as jest.Mock)
+        .mock.calls[0];
+      expect(utilisateur_id).toBe(1);
+      expect(fichier.toString()).toBe('Le compost se prépare en automne.');
+      expect(langue).toBe('fr');
+      expect(nomFichier).toBe('notes.txt');
+    });
+
+    it('devrait mettre en file un fichier envoyé avec ?async=true', async () => {
+      // Arrange
+      (resumeService.detectFileFormat as jest.Mock).mockReturnValueOnce('texte');
+      (jobService.enqueue as jest.Mock).mockResolvedValueOnce({ id: 7, statut: 'en_attente' });
+
+      // Act
+      const reponse = await envoyer('/api/resumes/fichier?async=true', 'Le compost se prépare en automne.');
+
+      // Assert
+      expect(reponse.status).toBe(202);
+      expect((jobService.enqueue as jest.Mock).mock.calls[0][3].toString())
+        .toBe('Le compost se prépare en automne.');
+    });
+  });
+});
@@ -194,4 +194,49 @@ describe('Auth Service', () => {
         .toThrow('Token de vérification expiré');
     });
   });
+
+  describe('preferredLanguage', () => {
+    it('devrait retourner la langue préférée de l\'utilisateur', async () => {
+      // Arrange
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [{ langue: 'de' }] });
+
+      // Act
+      const langue = await authService.preferredLanguage(1);
+
+      // Assert
+      expect(langue).toBe('de');
+    });
+
+    it('devrait retourner la langue par défaut pour une langue inconnue', async () => {
+      // Arrange
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [{ langue: 'xx' }] });
+
+      // Act & Assert
+      await expect(authService.preferredLanguage(1)).resolves.toBe('fr');
+    });
+  });
+
+  describe('updateLanguage', () => {
+    it('devrait enregistrer la nouvelle langue préférée', async () => {
+      // Arrange
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [{ id: 1 }] });
+
+      // Act
+      await authService.updateLanguage(1, 'es');
+
+      // Assert
+      expect(db.query).toHaveBeenCalledWith(expect.stringContaining('SET langue = $1'), ['es', 1]);
+      expect(logService.info).toHaveBeenCalledWith('language_updated', { utilisateur_id: 1, langue: 'es' });
+    });
+
+    it('devrait rejeter si l\'utilisateur n\'existe pas', async () => {
+      // Arrange
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
+
+      // Act & Assert
+      await expect(authService.updateLanguage(99, 'es'))
+        .rejects
+        .toThrow('Utilisateur non trouvé');
+    });
+  });
 });
@@ -0,0 +1,104 @@
+/// <reference path="../types/jest.d.ts" />
+
+import {
+  createMemoryCacheStore,
+  createPostgresCacheStore,
+  getCacheStore
+} from '../../services/cache';
+import db from '../../utils/db';
+import config from '../../config/config';
+
+// Mock des dépendances
+jest.mock('../../utils/db');
+jest.mock('../../services/common');
+
+describe('Cache Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (db.query as jest.Mock).mockReset();
+  });
+
+  describe('createMemoryCacheStore', () => {
+    it('devrait retourner une valeur enregistrée', async () => {
+      // Arrange
+      const store = createMemoryCacheStore<string>(10);
+
+      // Act
+      await store.set('cle', 'valeur', 60);
+
+      // Assert
+      expect(await store.get('cle')).toBe('valeur');
+      expect(await store.get('inconnue')).toBeNull();
+    });
+
+    it('devrait évincer l\'entrée la moins récemment utilisée', async () => {
+      // Arrange
+      const store = createMemoryCacheStore<number>(2);
+      await store.set('a', 1, 60);
+      await store.set('b', 2, 60);
+
+      // Act
+      await store.get('a');
+      await store.set('c', 3, 60);
+
+      // Assert
+      expect(await store.get('a')).toBe(1);
+      expect(await store.get('b')).toBeNull();
+      expect(await store.get('c')).toBe(3);
+    });
+
+    it('devrait ignorer et purger les entrées expirées', async () => {
+      // Arrange
+      jest.useFakeTimers();
+      const store = createMemoryCacheStore<string>(10);
+      await store.set('courte', 'a', 1);
+      await store.set('longue', 'b', 60);
+
+      // Act
+      jest.advanceTimersByTime(2000);
+
+      // Assert
+      expect(await store.purge()).toBe(1);
+      expect(await store.get('courte')).toBeNull();
+      expect(await store.get('longue')).toBe('b');
+      jest.useRealTimers();
+    });
+  });
+
+  describe('createPostgresCacheStore', () => {
+    it('devrait lire une entrée non expirée', async () => {
+      // Arrange
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [{ valeur: { resume: 'Résumé' } }] });
+      const store = createPostgresCacheStore<{ resume: string }>();
+
+      // Act
+      const result = await store.get('cle');
+
+      // Assert
+      expect(result).toEqual({ resume: 'Résumé' });
+      expect(db.query).toHaveBeenCalledWith(expect.stringContaining('expire_le > NOW()'), ['cle']);
+    });
+
+    it('devrait remplacer une entrée existante', async () => {
+      // Arrange
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
+      const store = createPostgresCacheStore<{ resume: string }>();
+
+      // Act
+      await store.set('cle', { resume: 'Résumé' }, 3600);
+
+      // Assert
+      expect(db.query).toHaveBeenCalledWith(
+        expect.stringContaining('ON CONFLICT (cle) DO UPDATE'),
+        ['cle', JSON.stringify({ resume: 'Résumé' }), 3600]
+      );
+    });
+  });
+
+  describe('getCacheStore', () => {
+    it('devrait utiliser le stockage de la configuration et réutiliser l\'instance', () => {
+      expect(getCacheStore().nom).toBe(config.CACHE_STOCKAGE);
+      expect(getCacheStore('postgres')).toBe(getCacheStore('postgres'));
+    });
+  });
+});
@@ -0,0 +1,237 @@
+/// <reference path="../types/jest.d.ts" />
+
+import { collectionService } from '../../services/collection';
+import { resumeService } from '../../services/resume';
+import db from '../../utils/db';
+import { logService } from '../../services/common';
+
+// Mock des dépendances
+jest.mock('../../utils/db');
+jest.mock('../../services/common');
+jest.mock('../../services/resume', () => ({
+  resumeService: {
+    findByCollection: jest.fn()
+  }
+}));
+
+describe('Collection Service', () => {
+  const collection = {
+    id: 3,
+    utilisateur_id: 1,
+    nom: 'Projet Été',
+    description: 'Veille sur la rénovation',
+    cree_le: new Date('2024-05-01'),
+    modifie_le: new Date('2024-05-01')
+  };
+  const resumes = [
+    {
+      id: 7,
+      type: 'article',
+      titre: 'Rénover une école',
+      source_url: 'https://example.com/ecole',
+      resume: 'La commune rénove son école.\n',
+      tags: [
+        { libelle: 'rénovation', type: 'mot_cle', score: 0.2 },
+        { libelle: 'Priorité', type: 'utilisateur', score: null }
+      ],
+      cree_le: new Date('2024-05-02T10:00:00Z')
+    },
+    {
+      id: 8,
+      type: 'texte',
+      titre: null,
+      resume: 'Le budget est voté.',
+      tags: [],
+      cree_le: new Date('2024-05-03T10:00:00Z')
+    }
+  ];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (db.query as jest.Mock).mockReset();
+  });
+
+  describe('create', () => {
+    it('devrait créer une collection vide', async () => {
+      // Arrange
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [collection] });
+
+      // Act
+      const result = await collectionService.create(1, { nom: 'Projet Été' });
+
+      // Assert
+      expect(result).toEqual({ ...collection, nombre_resumes: 0 });
+      expect(db.query).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO collections'),
+        [1, 'Projet Été', null]
+      );
+    });
+
+    it('devrait refuser un nom déjà utilisé par l\'utilisateur', async () => {
+      // Arrange
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
+
+      // Act & Assert
+      await expect(collectionService.create(1, { nom: 'Projet Été' }))
+        .rejects.toMatchObject({ status: 409 });
+    });
+  });
+
+  describe('findById', () => {
+    it('devrait retourner la collection et son nombre de résumés', async () => {
+      // Arrange
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [{ ...collection, nombre_resumes: 2 }] });
+
+      // Act
+      const result = await collectionService.findById(3, 1);
+
+      // Assert
+      expect(result).toEqual({ ...collection, nombre_resumes: 2 });
+      expect(db.query).toHaveBeenCalledWith(expect.stringContaining('AS nombre_resumes'), [3, 1]);
+    });
+
+    it('devrait rejeter la collection d\'un autre utilisateur', async () => {
+      // Arrange
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
+
+      // Act & Assert
+      await expect(collectionService.findById(3, 2)).rejects.toMatchObject({ status: 404 });
+    });
+  });
+
+  describe('update', () => {
+    it('devrait renommer la collection', async () => {
+      // Arrange
+      (db.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [{ ...collection, nom: 'Projet Automne' }] });
+
+      // Act
+      const result = await collectionService.update(3, 1, { nom: 'Projet Automne' });
+
+      // Assert
+      expect(result.nom).toBe('Projet Automne');
+      expect(db.query).toHaveBeenLastCalledWith(
+        expect.stringContaining('SET nom = $3'),
+        [3, 1, 'Projet Automne']
+      );
+    });
+
+    it('devrait refuser le nom d\'une autre collection', async () => {
+      // Arrange
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [{ id: 4 }] });
+
+      // Act & Assert
+      await expect(collectionService.update(3, 1, { nom: 'Projet Hiver' }))
+        .rejects.toMatchObject({ status: 409 });
+      expect(db.query).toHaveBeenCalledTimes(1);
+    });
+
+    it('devrait rejeter une mise à jour sans donnée', async () => {
+      await expect(collectionService.update(3, 1, {})).rejects.toMatchObject({ status: 400 });
+    });
+  });
+
+  describe('delete', () => {
+    it('devrait supprimer la collection sans supprimer ses résumés', async () => {
+      // Arrange
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [{ id: 3 }] });
+
+      // Act
+      await collectionService.delete(3, 1);
+
+      // Assert
+      expect(db.query).toHaveBeenCalledTimes(1);
+      expect(db.query).toHaveBeenCalledWith(
+        expect.stringContaining('DELETE FROM collections WHERE'),
+        [3, 1]
+      );
+      expect(logService.info).toHaveBeenCalledWith('collection_deleted', { id: 3, utilisateur_id: 1 });
+    });
+  });
+
+  describe('addResumes', () => {
+    it('devrait ajouter en lot les seuls résumés de l\'utilisateur', async () => {
+      // Arrange
+      (db.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [{ id: 3 }] })
+        .mockResolvedValueOnce({ rowCount: 2 });
+
+      // Act
+      const ajoutes = await collectionService.addResumes(3, 1, [7, 8, 99]);
+
+      // Assert
+      expect(ajoutes).toBe(2);
+      expect(db.query).toHaveBeenLastCalledWith(
+        expect.stringContaining('r.utilisateur_id = $3'),
+        [3, [7, 8, 99], 1]
+      );
+    });
+
+    it('devrait rejeter l\'ajout à la collection d\'un autre utilisateur', async () => {
+      // Arrange
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
+
+      // Act & Assert
+      await expect(collectionService.addResumes(3, 2, [7])).rejects.toMatchObject({ status: 404 });
+      expect(db.query).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('removeResumes', () => {
+    it('devrait retirer les résumés de la collection sans les supprimer', async () => {
+      // Arrange
+      (db.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [{ id: 3 }] })
+        .mockResolvedValueOnce({ rowCount: 1 });
+
+      // Act
+      const retires = await collectionService.removeResumes(3, 1, [7]);
+
+      // Assert
+      expect(retires).toBe(1);
+      expect(db.query).toHaveBeenLastCalledWith(
+        expect.stringContaining('DELETE FROM collections_resumes'),
+        [3, [7]]
+      );
+    });
+  });
+
+  describe('export', () => {
+    beforeEach(() => {
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [{ ...collection, nombre_resumes: 2 }] });
+      (resumeService.findByCollection as jest.Mock).mockResolvedValueOnce(resumes);
+    });
+
+    it('devrait exporter la collection en Markdown', async () => {
+      // Act
+      const fichier = await collectionService.export(3, 1, 'markdown');
+
+      // Assert
+      expect(fichier.nomFichier).toBe('projet-ete.md');
+      expect(fichier.typeContenu).toContain('text/markdown');
+      expect(fichier.contenu).toBe([
+        '# Projet Été',
+        'Veille sur la rénovation',
+        '## Rénover une école',
+        '_article · 2024-05-02_  \n<https://example.com/ecole>  \n`rénovation` `Priorité`',
+        'La commune rénove son école.',
+        '## texte #8',
+        '_texte · 2024-05-03_',
+        'Le budget est voté.\n'
+      ].join('\n\n'));
+    });
+
+    it('devrait exporter la collection en JSON', async () => {
+      // Act
+      const fichier = await collectionService.export(3, 1, 'json');
+
+      // Assert
+      expect(fichier.nomFichier).toBe('projet-ete.json');
+      const contenu = JSON.parse(fichier.contenu);
+      expect(contenu.collection).toMatchObject({ id: 3, nom: 'Projet Été', nombre_resumes: 2 });
+      expect(contenu.resumes.map((resume: { id: number }) => resume.id)).toEqual([7, 8]);
+      expect(resumeService.findByCollection).toHaveBeenCalledWith(3, 1);
+    });
+  });
+});
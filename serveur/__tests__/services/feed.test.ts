@@ -0,0 +1,279 @@
+/// <reference path="../types/jest.d.ts" />
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { feedService } from '../../services/feed';
+import { resumeService } from '../../services/resume';
+import db from '../../utils/db';
+import { logService } from '../../services/common';
+import { safeFetch } from '../../utils/safe-fetch';
+import config from '../../config/config';
+import { AppError, FeedEntryModel, FeedSubscriptionModel, SafeFetchResponse } from '../../types';
+
+// Mock des dépendances
+jest.mock('../../utils/db');
+jest.mock('../../services/common');
+jest.mock('../../services/resume', () => ({
+  resumeService: {
+    summarizeUrl: jest.fn()
+  }
+}));
+jest.mock('../../utils/safe-fetch', () => ({
+  ...jest.requireActual('../../utils/safe-fetch'),
+  safeFetch: jest.fn()
+}));
+
+const URL_FLUX = 'https://www.lequotidien.example/sciences/rss.xml';
+
+// Réponse HTTP contenant un flux enregistré
+const reponseFlux = (donnees: Partial<SafeFetchResponse> = {}): SafeFetchResponse => ({
+  url: URL_FLUX,
+  statut: 200,
+  typeContenu: 'application/rss+xml',
+  charset: null,
+  etag: '"v2"',
+  derniereModification: 'Tue, 05 Mar 2024 08:00:00 GMT',
+  corps: readFileSync(join(__dirname, '../fixtures/flux/rss.xml')),
+  ...donnees
+});
+
+describe('Feed Service', () => {
+  const abonnement = (donnees: Partial<FeedSubscriptionModel> = {}): FeedSubscriptionModel => ({
+    id: 3,
+    utilisateur_id: 1,
+    url: URL_FLUX,
+    titre: 'Le Quotidien - Sciences',
+    parametres: { langue: 'fr', style: 'puces' },
+    etag: '"v1"',
+    derniere_modification: 'Mon, 04 Mar 2024 08:00:00 GMT',
+    verifie_le: null,
+    prochaine_verification: new Date(),
+    erreur: null,
+    cree_le: new Date(),
+    modifie_le: new Date(),
+    ...donnees
+  });
+
+  const entree = (id: number, lien: string, publie_le: string): FeedEntryModel => ({
+    id,
+    abonnement_id: 3,
+    guid: lien,
+    titre: null,
+    lien,
+    publie_le: new Date(publie_le),
+    resume_id: null,
+    erreur: null,
+    cree_le: new Date()
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (db.query as jest.Mock).mockReset();
+    (safeFetch as jest.Mock).mockReset();
+  });
+
+  describe('subscribe', () => {
+    it('devrait vérifier le flux et enregistrer l\'abonnement avec son titre', async () => {
+      // Arrange
+      (safeFetch as jest.Mock).mockResolvedValueOnce(reponseFlux());
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [abonnement()] });
+
+      // Act
+      const result = await feedService.subscribe(1, URL_FLUX, { langue: 'fr', style: 'puces' });
+
+      // Assert
+      expect(result).toHaveProperty('id', 3);
+      expect(db.query).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO abonnements_flux'),
+        [1, URL_FLUX, 'Le Quotidien - Sciences', JSON.stringify({ langue: 'fr', style: 'puces' })]
+      );
+      expect(logService.info).toHaveBeenCalledWith('feed_subscribed', expect.any(Object));
+    });
+
+    it('devrait rejeter une adresse qui ne sert pas un flux', async () => {
+      // Arrange
+      (safeFetch as jest.Mock).mockResolvedValueOnce(reponseFlux({
+        typeContenu: 'text/xml',
+        corps: Buffer.from('<html><body>Page</body></html>')
+      }));
+
+      // Act & Assert
+      await expect(feedService.subscribe(1, URL_FLUX, { langue: 'fr' }))
+        .rejects
+        .toMatchObject({ status: 422 });
+      expect(db.query).not.toHaveBeenCalled();
+    });
+
+    it('devrait rejeter un abonnement existant', async () => {
+      // Arrange
+      (safeFetch as jest.Mock).mockResolvedValueOnce(reponseFlux());
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
+
+      // Act & Assert
+      await expect(feedService.subscribe(1, URL_FLUX, { langue: 'fr' }))
+        .rejects
+        .toMatchObject({ status: 409 });
+    });
+  });
+
+  describe('findEntries', () => {
+    it('devrait rejeter si l\'abonnement n\'appartient pas à l\'utilisateur', async () => {
+      // Arrange
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
+
+      // Act & Assert
+      await expect(feedService.findEntries(3, 2)).rejects.toThrow('Abonnement non trouvé');
+    });
+  });
+
+  describe('poll', () => {
+    it('devrait envoyer une requête conditionnelle et s\'arrêter si le flux est inchangé', async () => {
+      // Arrange
+      (safeFetch as jest.Mock).mockResolvedValueOnce(reponseFlux({
+        statut: 304,
+        etag: null,
+        derniereModification: null,
+        corps: Buffer.alloc(0)
+      }));
+      (db.query as jest.Mock).mockResolvedValue({ rows: [] });
+
+      // Act
+      const resumes = await feedService.poll(abonnement());
+
+      // Assert
+      expect(resumes).toBe(0);
+      expect(safeFetch).toHaveBeenCalledWith(URL_FLUX, expect.objectContaining({
+        entetes: expect.objectContaining({
+          'If-None-Match': '"v1"',
+          'If-Modified-Since': 'Mon, 04 Mar 2024 08:00:00 GMT'
+        })
+      }));
+      expect(db.query).toHaveBeenCalledTimes(1);
+      expect(db.query).toHaveBeenCalledWith(
+        expect.stringContaining('UPDATE abonnements_flux'),
+        [3, null, null, null]
+      );
+      expect(resumeService.summarizeUrl).not.toHaveBeenCalled();
+    });
+
+    it('devrait résumer uniquement les entrées jamais vues', async () => {
+      // Arrange
+      const lien = 'https://www.lequotidien.example/sciences/nouveau-corail';
+      const nouvelle = entree(11, lien, '2024-03-04');
+      (safeFetch as jest.Mock).mockResolvedValueOnce(reponseFlux());
+      (db.query as jest.Mock)
+        // Seule l'entrée sans GUID connu est insérée
+        .mockResolvedValueOnce({ rows: [nouvelle] })
+        .mockResolvedValue({ rows: [] });
+      (resumeService.summarizeUrl as jest.Mock).mockResolvedValueOnce({ id: 42 });
+
+      // Act
+      const resumes = await feedService.poll(abonnement());
+
+      // Assert
+      expect(resumes).toBe(1);
+      const [, [, entrees]] = (db.query as jest.Mock).mock.calls[0];
+      expect(JSON.parse(entrees).map((e: { guid: string }) => e.guid)).toEqual([
+        'lequotidien-48213',
+        lien
+      ]);
+      expect(resumeService.summarizeUrl).toHaveBeenCalledTimes(1);
+      expect(resumeService.summarizeUrl).toHaveBeenCalledWith(1, lien, 'fr', { style: 'puces' });
+      expect(db.query).toHaveBeenCalledWith(expect.stringContaining('SET resume_id'), [42, 11]);
+      expect(db.query).toHaveBeenCalledWith(
+        expect.stringContaining('UPDATE abonnements_flux'),
+        [3, '"v2"', 'Tue, 05 Mar 2024 08:00:00 GMT', 'Le Quotidien - Sciences']
+      );
+    });
+
+    it('devrait limiter les résumés aux entrées les plus récentes', async () => {
+      // Arrange
+      const nouvelles = Array.from({ length: config.FLUX_ENTREES_MAX + 2 }, (_, index) => (
+        entree(index + 1, `https://exemple.fr/${index}`, `2024-01-${String(index + 1).padStart(2, '0')}`)
+      ));
+      (safeFetch as jest.Mock).mockResolvedValueOnce(reponseFlux());
+      (db.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: nouvelles })
+        .mockResolvedValue({ rows: [] });
+      (resumeService.summarizeUrl as jest.Mock).mockResolvedValue({ id: 42 });
+
+      // Act
+      await feedService.poll(abonnement());
+
+      // Assert
+      const liens = (resumeService.summarizeUrl as jest.Mock).mock.calls.map(([, lien]) => lien);
+      expect(liens).toHaveLength(config.FLUX_ENTREES_MAX);
+      expect(liens).not.toContain('https://exemple.fr/0');
+      expect(liens).not.toContain('https://exemple.fr/1');
+    });
+
+    it('devrait enregistrer l\'échec d\'une entrée sans interrompre les autres', async () => {
+      // Arrange
+      (safeFetch as jest.Mock).mockResolvedValueOnce(reponseFlux());
+      (db.query as jest.Mock)
+        .mockResolvedValueOnce({
+          rows: [
+            entree(11, 'https://exemple.fr/a', '2024-03-05'),
+            entree(12, 'https://exemple.fr/b', '2024-03-04')
+          ]
+        })
+        .mockResolvedValue({ rows: [] });
+      (resumeService.summarizeUrl as jest.Mock)
+        .mockRejectedValueOnce(new AppError('Aucun contenu exploitable trouvé à cette adresse', 422))
+        .mockResolvedValueOnce({ id: 43 });
+
+      // Act
+      const resumes = await feedService.poll(abonnement());
+
+      // Assert
+      expect(resumes).toBe(1);
+      expect(db.query).toHaveBeenCalledWith(
+        expect.stringContaining('SET erreur'),
+        ['Aucun contenu exploitable trouvé à cette adresse', 11]
+      );
+      expect(db.query).toHaveBeenCalledWith(expect.stringContaining('SET resume_id'), [43, 12]);
+    });
+
+    it('devrait enregistrer l\'erreur de relevé sans rejeter', async () => {
+      // Arrange
+      (safeFetch as jest.Mock).mockRejectedValueOnce(
+        new AppError('L\'adresse distante a répondu avec le statut 404', 502)
+      );
+      (db.query as jest.Mock).mockResolvedValue({ rows: [] });
+
+      // Act
+      const resumes = await feedService.poll(abonnement());
+
+      // Assert
+      expect(resumes).toBe(0);
+      expect(db.query).toHaveBeenCalledWith(
+        expect.stringContaining('SET erreur'),
+        ['L\'adresse distante a répondu avec le statut 404', 3]
+      );
+      expect(logService.error).toHaveBeenCalledWith('feed_poll_error', expect.any(Object));
+    });
+  });
+
+  describe('pollDue', () => {
+    it('devrait réserver et relever les flux arrivés à échéance', async () => {
+      // Arrange
+      (safeFetch as jest.Mock).mockResolvedValue(
+        reponseFlux({ statut: 304, corps: Buffer.alloc(0) })
+      );
+      (db.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [abonnement(), abonnement({ id: 4 })] })
+        .mockResolvedValue({ rows: [] });
+
+      // Act
+      await feedService.pollDue();
+
+      // Assert
+      expect(db.query).toHaveBeenNthCalledWith(
+        1,
+        expect.stringContaining('FOR UPDATE SKIP LOCKED'),
+        [config.FLUX_FREQUENCE_MINUTES, expect.any(Number)]
+      );
+      expect(safeFetch).toHaveBeenCalledTimes(2);
+    });
+  });
+});
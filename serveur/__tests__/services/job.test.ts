@@ -0,0 +1,224 @@
+/// <reference path="../types/jest.d.ts" />
+
+import { jobService } from '../../services/job';
+import { resumeService } from '../../services/resume';
+import db from '../../utils/db';
+import { logService } from '../../services/common';
+import config from '../../config/config';
+import { AppError, SummaryJobModel } from '../../types';
+
+// Mock des dépendances
+jest.mock('../../utils/db');
+jest.mock('../../services/common');
+jest.mock('../../services/resume', () => ({
+  resumeService: {
+    summarizeUrl: jest.fn(),
+    summarizeText: jest.fn(),
+    summarizePdf: jest.fn(),
+    summarizeYoutube: jest.fn()
+  }
+}));
+
+describe('Job Service', () => {
+  const tache = (donnees: Partial<SummaryJobModel> = {}): SummaryJobModel => ({
+    id: 7,
+    utilisateur_id: 1,
+    type: 'texte',
+    statut: 'en_cours',
+    parametres: { langue: 'fr', texte: 'Un long texte à résumer', style: 'puces' },
+    progression: null,
+    tentatives: 1,
+    erreur: null,
+    resume_id: null,
+    disponible_le: new Date(),
+    demarre_le: new Date(),
+    termine_le: null,
+    cree_le: new Date(),
+    modifie_le: new Date(),
+    ...donnees
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (db.query as jest.Mock).mockReset();
+  });
+
+  describe('enqueue', () => {
+    it('devrait enregistrer la demande en file d\'attente', async () => {
+      // Arrange
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [tache({ statut: 'en_attente' })] });
+
+      // Act
+      const result = await jobService.enqueue(1, 'texte', { langue: 'fr', texte: 'Texte' });
+
+      // Assert
+      expect(result).toHaveProperty('statut', 'en_attente');
+      expect(db.query).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO taches_resume'),
+        [1, 'texte', JSON.stringify({ langue: 'fr', texte: 'Texte' }), null]
+      );
+      expect(logService.info).toHaveBeenCalledWith('summary_job_queued', expect.any(Object));
+    });
+  });
+
+  describe('findById', () => {
+    it('devrait rejeter si la tâche n\'existe pas', async () => {
+      // Arrange
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
+
+      // Act & Assert
+      await expect(jobService.findById(7, 1))
+        .rejects
+        .toThrow('Tâche non trouvée');
+    });
+  });
+
+  describe('claimNext', () => {
+    it('devrait retourner null lorsque la file est vide', async () => {
+      // Arrange
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
+
+      // Act & Assert
+      expect(await jobService.claimNext()).toBeNull();
+      expect(db.query).toHaveBeenCalledWith(expect.stringContaining('FOR UPDATE SKIP LOCKED'));
+    });
+  });
+
+  describe('requeueStale', () => {
+    it('devrait remettre en file les tâches sans avancement récent', async () => {
+      // Arrange
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [{ id: 7 }], rowCount: 1 });
+
+      // Act
+      const count = await jobService.requeueStale();
+
+      // Assert
+      expect(count).toBe(1);
+      expect(db.query).toHaveBeenCalledWith(
+        expect.stringContaining('modifie_le < NOW()'),
+        [config.TACHES_EXPIRATION_MS, config.TACHES_TENTATIVES_MAX]
+      );
+    });
+  });
+
+  describe('process', () => {
+    it('devrait rejouer la demande et enregistrer le résumé produit', async () => {
+      // Arrange
+      (resumeService.summarizeText as jest.Mock).mockResolvedValueOnce({ id: 42 });
+      (db.query as jest.Mock).mockResolvedValue({ rows: [], rowCount: 1 });
+
+      // Act
+      await jobService.process(tache());
+
+      // Assert
+      expect(resumeService.summarizeText).toHaveBeenCalledWith(
+        1,
+        'Un long texte à résumer',
+        'fr',
+        expect.objectContaining({ style: 'puces', onProgress: expect.any(Function) })
+      );
+      expect(db.query).toHaveBeenCalledWith(expect.stringContaining("statut = 'termine'"), [42, 7, 1]);
+      expect(logService.info).toHaveBeenCalledWith('summary_job_completed', expect.any(Object));
+    });
+
+    it('devrait ignorer le résultat d\'une tâche réservée à nouveau entre-temps', async () => {
+      // Arrange
+      (resumeService.summarizeText as jest.Mock).mockResolvedValueOnce({ id: 42 });
+      (db.query as jest.Mock).mockResolvedValue({ rows: [], rowCount: 0 });
+
+      // Act
+      await jobService.process(tache());
+
+      // Assert
+      expect(logService.warn).toHaveBeenCalledWith('summary_job_superseded', expect.any(Object));
+      expect(logService.info).not.toHaveBeenCalledWith('summary_job_completed', expect.any(Object));
+    });
+
+    it('devrait replanifier une tâche en échec temporaire', async () => {
+      // Arrange
+      (resumeService.summarizeText as jest.Mock).mockRejectedValueOnce(new Error('API indisponible'));
+      (db.query as jest.Mock).mockResolvedValue({ rows: [] });
+
+      // Act
+      await jobService.process(tache({ tentatives: 2 }));
+
+      // Assert
+      expect(db.query).toHaveBeenCalledWith(
+        expect.stringContaining("statut = 'en_attente'"),
+        ['API indisponible', config.TACHES_DELAI_RELANCE_MS * 2, 7, 2]
+      );
+      expect(logService.error).toHaveBeenCalledWith('summary_job_retry', expect.any(Object));
+    });
+
+    it('devrait marquer la tâche en échec après la dernière tentative', async () => {
+      // Arrange
+      (resumeService.summarizeText as jest.Mock).mockRejectedValueOnce(new Error('API indisponible'));
+      (db.query as jest.Mock).mockResolvedValue({ rows: [] });
+
+      // Act
+      await jobService.process(tache({ tentatives: config.TACHES_TENTATIVES_MAX }));
+
+      // Assert
+      expect(db.query).toHaveBeenCalledWith(
+        expect.stringContaining("statut = 'echec'"),
+        ['API indisponible', 7, config.TACHES_TENTATIVES_MAX]
+      );
+      expect(logService.error).toHaveBeenCalledWith('summary_job_failed', expect.any(Object));
+    });
+
+    it('devrait ne pas relancer une erreur de la demande', async () => {
+      // Arrange
+      (resumeService.summarizeYoutube as jest.Mock).mockRejectedValueOnce(
+        new AppError('URL YouTube invalide', 400)
+      );
+      (db.query as jest.Mock).mockResolvedValue({ rows: [] });
+
+      // Act
+      await jobService.process(tache({
+        type: 'youtube',
+        parametres: { langue: 'fr', videoUrl: 'https://example.com' }
+      }));
+
+      // Assert
+      expect(db.query).toHaveBeenCalledWith(
+        expect.stringContaining("statut = 'echec'"),
+        ['URL YouTube invalide', 7, 1]
+      );
+    });
+
+    it('devrait refuser un fichier vide sans le transmettre au résumé', async () => {
+      // Arrange
+      (db.query as jest.Mock).mockResolvedValue({ rows: [] });
+
+      // Act
+      await jobService.process(tache({
+        type: 'pdf',
+        parametres: { langue: 'fr' },
+        fichier: Buffer.alloc(0)
+      }));
+
+      // Assert
+      expect(resumeService.summarizePdf).not.toHaveBeenCalled();
+      expect(db.query).toHaveBeenCalledWith(
+        expect.stringContaining("statut = 'echec'"),
+        ['Fichier PDF introuvable', 7, 1]
+      );
+    });
+  });
+
+  describe('tick', () => {
+    it('devrait traiter les tâches disponibles dans la limite de la concurrence', async () => {
+      // Arrange
+      (resumeService.summarizeText as jest.Mock).mockReturnValue(new Promise(() => undefined));
+      (db.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [], rowCount: 0 })
+        .mockResolvedValue({ rows: [tache()] });
+
+      // Act
+      await jobService.tick();
+
+      // Assert
+      expect(resumeService.summarizeText).toHaveBeenCalledTimes(config.TACHES_CONCURRENCE);
+    });
+  });
+});
@@ -1,6 +1,7 @@
 /// <reference path="../types/jest.d.ts" />
 
-import { noteService } from '../../services/note';
+import { LISTE_NOTES, noteService } from '../../services/note';
+import { parseListQuery } from '../../utils/pagination';
 import db from '../../utils/db';
 import { logService } from '../../services/common';
 import { AppError, NotFoundError } from '../../types';
@@ -67,17 +68,46 @@ describe('Note Service', () => {
         }
       ];
 
-      (db.query as jest.Mock).mockResolvedValueOnce({
-        rows: mockNotes
+      (db.queryWithPagination as jest.Mock).mockResolvedValueOnce({
+        rows: mockNotes,
+        total: 2,
+        pages: 1
       });
 
       // Act
       const result = await noteService.findAll(utilisateur_id);
 
       // Assert
-      expect(result).toHaveLength(2);
-      expect(result).toEqual(mockNotes);
-      expect(db.query).toHaveBeenCalledTimes(1);
+      expect(result.rows).toEqual(mockNotes);
+      expect(result.total).toBe(2);
+      expect(db.queryWithPagination).toHaveBeenCalledWith(
+        'SELECT * FROM notes WHERE utilisateur_id = $1',
+        [utilisateur_id],
+        1,
+        20,
+        { tri: "date_trunc('milliseconds', cree_le) DESC, id DESC" }
+      );
+    });
+
+    it('devrait filtrer les notes archivées et les trier par titre', async () => {
+      // Arrange
+      (db.queryWithPagination as jest.Mock).mockResolvedValueOnce({ rows: [], total: 0, pages: 0 });
+      const requete = parseListQuery(
+        { est_archive: 'true', sort: 'titre', page: '2', limit: '5' },
+        LISTE_NOTES
+      );
+
+      // Act
+      await noteService.findAll(1, requete);
+
+      // Assert
+      expect(db.queryWithPagination).toHaveBeenCalledWith(
+        'SELECT * FROM notes WHERE utilisateur_id = $1 AND est_archive = $2',
+        [1, true],
+        2,
+        5,
+        { tri: 'titre ASC, id ASC' }
+      );
     });
   });
 
@@ -1,14 +1,22 @@
 /// <reference path="../types/jest.d.ts" />
 
-import { passwordService } from '../../services/password';
+import { LISTE_MOTS_DE_PASSE, passwordService } from '../../services/password';
+import { authService } from '../../services/auth';
 import db from '../../utils/db';
 import { logService } from '../../services/common';
+import { deriveVaultKey, encryptSecret, decryptSecret } from '../../utils/vault';
+import { parseListQuery } from '../../utils/pagination';
 import { testData } from '../setup';
 import { AppError, NotFoundError } from '../../types';
 
 // Mock des dépendances
 jest.mock('../../utils/db');
 jest.mock('../../services/common');
+jest.mock('../../services/auth', () => ({
+  authService: {
+    verifyPin: jest.fn().mockResolvedValue(undefined)
+  }
+}));
 jest.mock('bcrypt', () => ({
   genSalt: jest.fn().mockResolvedValue('salt'),
   hash: jest.fn().mockResolvedValue('hashed_password'),
@@ -16,6 +24,8 @@ jest.mock('bcrypt', () => ({
 }));
 
 describe('Password Service', () => {
+  const sel = '00112233445566778899aabbccddeeff';
+
   beforeEach(() => {
     jest.clearAllMocks();
   });
@@ -28,28 +38,79 @@ describe('Password Service', () => {
         site_web: 'example.com',
         identifiant: 'testuser',
         mot_de_passe: 'Password123!',
-        notes: 'Test notes'
+        notes: 'Test notes',
+        code_pin: '123456'
       };
 
-      (db.query as jest.Mock).mockResolvedValueOnce({
-        rows: [{
-          id: 1,
-          ...passwordData,
-          mot_de_passe_crypte: 'hashed_password',
-          cree_le: new Date(),
-          modifie_le: new Date()
-        }]
-      });
+      (db.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [{ sel_coffre: sel }] }) // Sel du coffre
+        .mockImplementationOnce((_query: string, params: any[]) => Promise.resolve({
+          rows: [{
+            id: 1,
+            utilisateur_id: params[0],
+            site_web: params[1],
+            identifiant: params[2],
+            notes: params[4],
+            cree_le: new Date(),
+            modifie_le: new Date()
+          }]
+        }));
 
       // Act
       const result = await passwordService.create(passwordData);
 
       // Assert
+      const [requete, params] = (db.query as jest.Mock).mock.calls[1];
+      const motDePasseCrypte = params[3];
       expect(result).toHaveProperty('id', 1);
-      expect(result).toHaveProperty('mot_de_passe_crypte', 'hashed_password');
-      expect(db.query).toHaveBeenCalledTimes(1);
+      expect(requete).toContain('RETURNING id, utilisateur_id, site_web');
+      expect(motDePasseCrypte).toMatch(/^v1:/);
+      expect(motDePasseCrypte).not.toContain('Password123!');
+      const cle = await deriveVaultKey('123456', sel);
+      expect(decryptSecret(motDePasseCrypte, cle)).toBe('Password123!');
+      expect(authService.verifyPin).toHaveBeenCalledWith(1, '123456');
+      expect(db.query).toHaveBeenCalledTimes(2);
       expect(logService.info).toHaveBeenCalledWith('password_created', expect.any(Object));
     });
+
+    it('devrait générer le sel du coffre lors du premier usage', async () => {
+      // Arrange
+      (db.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [{ sel_coffre: null }] })
+        .mockResolvedValueOnce({ rows: [{ sel_coffre: sel }] })
+        .mockResolvedValueOnce({ rows: [{ id: 1 }] });
+
+      // Act
+      await passwordService.create({
+        utilisateur_id: 1,
+        site_web: 'example.com',
+        identifiant: 'testuser',
+        mot_de_passe: 'Password123!',
+        code_pin: '123456'
+      });
+
+      // Assert
+      expect(db.query).toHaveBeenCalledTimes(3);
+      expect((db.query as jest.Mock).mock.calls[1][0]).toContain('sel_coffre = COALESCE');
+    });
+
+    it('devrait rejeter si le code PIN est incorrect', async () => {
+      // Arrange
+      (authService.verifyPin as jest.Mock)
+        .mockRejectedValueOnce(new AppError('Code PIN incorrect', 401));
+
+      // Act & Assert
+      await expect(passwordService.create({
+        utilisateur_id: 1,
+        site_web: 'example.com',
+        identifiant: 'testuser',
+        mot_de_passe: 'Password123!',
+        code_pin: '000000'
+      }))
+        .rejects
+        .toThrow('Code PIN incorrect');
+      expect(db.query).not.toHaveBeenCalled();
+    });
   });
 
   describe('findAll', () => {
@@ -73,17 +134,43 @@ describe('Password Service', () => {
         }
       ];
 
-      (db.query as jest.Mock).mockResolvedValueOnce({
-        rows: mockPasswords
+      (db.queryWithPagination as jest.Mock).mockResolvedValueOnce({
+        rows: mockPasswords,
+        total: 2,
+        pages: 1
       });
 
       // Act
       const result = await passwordService.findAll(utilisateur_id);
 
       // Assert
-      expect(result).toHaveLength(2);
-      expect(result).toEqual(mockPasswords);
-      expect(db.query).toHaveBeenCalledTimes(1);
+      expect(result.rows).toEqual(mockPasswords);
+      expect(result.pages).toBe(1);
+      expect(db.queryWithPagination).toHaveBeenCalledTimes(1);
+    });
+
+    it('devrait reprendre la liste après le curseur reçu', async () => {
+      // Arrange
+      (db.queryWithPagination as jest.Mock).mockResolvedValueOnce({ rows: [], total: 3, pages: 1 });
+      const cursor = Buffer.from(JSON.stringify(['site_web', 'asc', 'example.com', 7]))
+        .toString('base64url');
+      const requete = parseListQuery({ sort: 'site_web', cursor }, LISTE_MOTS_DE_PASSE);
+
+      // Act
+      await passwordService.findAll(1, requete);
+
+      // Assert
+      expect(db.queryWithPagination).toHaveBeenCalledWith(
+        'SELECT id, utilisateur_id, site_web, identifiant, notes, cree_le, modifie_le '
+          + 'FROM mots_de_passe WHERE utilisateur_id = $1',
+        [1],
+        1,
+        20,
+        {
+          tri: 'site_web ASC, id ASC',
+          apres: { condition: '(site_web, id) > ($2, $3)', params: ['example.com', 7] }
+        }
+      );
     });
   });
 
@@ -96,8 +183,7 @@ describe('Password Service', () => {
         id,
         utilisateur_id,
         site_web: 'example.com',
-        identifiant: 'testuser',
-        mot_de_passe_crypte: 'hashed_password'
+        identifiant: 'testuser'
       };
 
       (db.query as jest.Mock).mockResolvedValueOnce({
@@ -110,6 +196,7 @@ describe('Password Service', () => {
       // Assert
       expect(result).toEqual(mockPassword);
       expect(db.query).toHaveBeenCalledTimes(1);
+      expect((db.query as jest.Mock).mock.calls[0][0]).not.toContain('mot_de_passe_crypte');
     });
 
     it('devrait rejeter si le mot de passe n\'existe pas', async () => {
@@ -131,7 +218,8 @@ describe('Password Service', () => {
       const updateData = {
         site_web: 'updated.com',
         identifiant: 'newuser',
-        mot_de_passe: 'NewPassword123!'
+        mot_de_passe: 'NewPassword123!',
+        code_pin: '123456'
       };
 
       const mockUpdatedPassword = {
@@ -142,19 +230,29 @@ describe('Password Service', () => {
         modifie_le: new Date()
       };
 
-      (db.query as jest.Mock).mockResolvedValueOnce({
-        rows: [mockUpdatedPassword]
-      });
+      (db.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [{ sel_coffre: sel }] })
+        .mockResolvedValueOnce({
+          rows: [mockUpdatedPassword]
+        });
 
       // Act
       const result = await passwordService.update(id, utilisateur_id, updateData);
 
       // Assert
       expect(result).toEqual(mockUpdatedPassword);
-      expect(db.query).toHaveBeenCalledTimes(1);
+      expect(db.query).toHaveBeenCalledTimes(2);
       expect(logService.info).toHaveBeenCalledWith('password_updated', expect.any(Object));
     });
 
+    it('devrait exiger le code PIN pour changer le mot de passe', async () => {
+      // Act & Assert
+      await expect(passwordService.update(1, 1, { mot_de_passe: 'NewPassword123!' }))
+        .rejects
+        .toThrow('Code PIN requis');
+      expect(db.query).not.toHaveBeenCalled();
+    });
+
     it('devrait rejeter si aucune donnée à mettre à jour', async () => {
       // Act & Assert
       await expect(passwordService.update(1, 1, {}))
@@ -189,6 +287,96 @@ describe('Password Service', () => {
     });
   });
 
+  describe('reveal', () => {
+    it('devrait déchiffrer un mot de passe après vérification du PIN', async () => {
+      // Arrange
+      const cle = await deriveVaultKey('123456', sel);
+      (db.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [{ sel_coffre: sel }] })
+        .mockResolvedValueOnce({
+          rows: [{ id: 1, utilisateur_id: 1, mot_de_passe_crypte: encryptSecret('Secret123!', cle) }]
+        });
+
+      // Act
+      const result = await passwordService.reveal(1, 1, '123456');
+
+      // Assert
+      expect(result).toEqual({ id: 1, mot_de_passe: 'Secret123!' });
+      expect(authService.verifyPin).toHaveBeenCalledWith(1, '123456');
+      expect(logService.info).toHaveBeenCalledWith('password_revealed', expect.any(Object));
+    });
+
+    it('devrait signaler les anciens hash bcrypt comme irrécupérables', async () => {
+      // Arrange
+      (db.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [{ sel_coffre: sel }] })
+        .mockResolvedValueOnce({
+          rows: [{ id: 1, utilisateur_id: 1, mot_de_passe_crypte: '$2b$10$abcdefghijklmnopqrstuv' }]
+        });
+
+      // Act & Assert
+      await expect(passwordService.reveal(1, 1, '123456'))
+        .rejects
+        .toMatchObject({ status: 409 });
+    });
+
+    it('devrait rejeter si le code PIN est incorrect', async () => {
+      // Arrange
+      (authService.verifyPin as jest.Mock)
+        .mockRejectedValueOnce(new AppError('Code PIN incorrect', 401));
+
+      // Act & Assert
+      await expect(passwordService.reveal(1, 1, '000000'))
+        .rejects
+        .toThrow('Code PIN incorrect');
+      expect(db.query).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('migrateLegacy', () => {
+    it('devrait lister les entrées à ressaisir', async () => {
+      // Arrange
+      const cle = await deriveVaultKey('123456', sel);
+      (db.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [{ sel_coffre: sel }] })
+        .mockResolvedValueOnce({
+          rows: [
+            { id: 1, mot_de_passe_crypte: '$2b$10$abcdefghijklmnopqrstuv' },
+            { id: 2, mot_de_passe_crypte: encryptSecret('Secret123!', cle) }
+          ]
+        });
+
+      // Act
+      const result = await passwordService.migrateLegacy(1, '123456');
+
+      // Assert
+      expect(result).toEqual({ migres: 0, a_ressaisir: [1] });
+      expect(db.query).toHaveBeenCalledTimes(2);
+    });
+
+    it('devrait poursuivre la migration quand une ancienne entrée est illisible', async () => {
+      // Arrange
+      (db.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [{ sel_coffre: sel }] })
+        .mockResolvedValueOnce({
+          rows: [
+            { id: 3, mot_de_passe_crypte: 'abcd:ef:0123' },
+            { id: 4, mot_de_passe_crypte: '$2b$10$abcdefghijklmnopqrstuv' }
+          ]
+        });
+
+      // Act
+      const result = await passwordService.migrateLegacy(1, '123456');
+
+      // Assert
+      expect(result).toEqual({ migres: 0, a_ressaisir: [3, 4] });
+      expect(logService.warn).toHaveBeenCalledWith(
+        'password_migration_entry_error',
+        expect.objectContaining({ utilisateur_id: 1, id: 3 })
+      );
+    });
+  });
+
   describe('generateSecurePassword', () => {
     it('devrait générer un mot de passe sécurisé de la longueur spécifiée', () => {
       // Act
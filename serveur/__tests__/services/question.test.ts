@@ -0,0 +1,208 @@
+/// <reference path="../types/jest.d.ts" />
+
+import { questionService } from '../../services/question';
+import { resumeService } from '../../services/resume';
+import db from '../../utils/db';
+import { logService } from '../../services/common';
+import { LANGUES } from '../../config/langues';
+import * as retrieval from '../../utils/retrieval';
+
+// Mock des dépendances
+jest.mock('../../utils/db');
+jest.mock('../../services/common');
+jest.mock('../../services/resume', () => ({
+  resumeService: {
+    findById: jest.fn()
+  }
+}));
+const mockSummarize = jest.fn();
+const mockSummarizeExtractive = jest.fn();
+jest.mock('../../services/summarization', () => ({
+  getSummarizationProvider: jest.fn((nom: string = 'openai') => ({
+    nom,
+    modele: nom === 'extractif' ? 'textrank' : 'gpt-4',
+    contexteTokens: 3000,
+    summarize: (...args: any[]) => (
+      nom === 'extractif' ? mockSummarizeExtractive(...args) : mockSummarize(...args)
+    )
+  }))
+}));
+
+describe('Question Service', () => {
+  // Phrases sans rapport avec les questions, qui séparent les passages
+  const remplissage = 'La séance a duré plusieurs heures devant de nombreux habitants. '.repeat(20);
+  const texteSource = [
+    'Le conseil municipal a présenté hier le budget de la commune pour l\'année prochaine.',
+    'Le maire a annoncé que la piscine municipale serait entièrement rénovée.',
+    'Les travaux de la bibliothèque commenceront au printemps et coûteront deux millions d\'euros.'
+  ].join(` ${remplissage}`);
+
+  const resume = {
+    id: 1,
+    utilisateur_id: 1,
+    langue: 'fr',
+    resume: 'La commune rénove ses équipements.',
+    texte_source: texteSource
+  };
+
+  // Réponse de la base à l'enregistrement d'une question
+  const enregistrement = (): void => {
+    (db.query as jest.Mock).mockImplementationOnce((_sql: string, params: any[]) => Promise.resolve({
+      rows: [{
+        id: 7,
+        resume_id: params[0],
+        question: params[1],
+        reponse: params[2],
+        citations: JSON.parse(params[3]),
+        repondu: params[4],
+        moteur: params[5],
+        modele: params[6]
+      }]
+    }));
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (db.query as jest.Mock).mockReset();
+    (resumeService.findById as jest.Mock).mockResolvedValue(resume);
+  });
+
+  describe('ask', () => {
+    it('devrait répondre à partir des passages pertinents et citer ceux utilisés', async () => {
+      // Arrange
+      mockSummarize.mockResolvedValueOnce('Les travaux coûteront deux millions d\'euros [1].');
+      (db.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [{ id: 1 }] })
+        .mockResolvedValueOnce({ rows: [] });
+      enregistrement();
+
+      // Act
+      const result = await questionService.ask(1, 1, 'Combien coûteront les travaux de la bibliothèque ?');
+
+      // Assert
+      expect(result.repondu).toBe(true);
+      expect(result.moteur).toBe('openai');
+      expect(result.citations).toEqual([
+        expect.objectContaining({ numero: 1, texte: expect.stringContaining('deux millions') })
+      ]);
+      const requete = mockSummarize.mock.calls[0][0];
+      expect(requete.prompt).toContain(LANGUES.fr.prompts.questions.consigne);
+      expect(requete.prompt).toContain('Les travaux de la bibliothèque');
+      expect(requete.prompt).not.toContain('piscine');
+      expect(logService.info).toHaveBeenCalledWith('question_answered', expect.objectContaining({ repondu: true }));
+    });
+
+    it('devrait chercher les passages dans la langue du document source', async () => {
+      // Arrange
+      const classement = jest.spyOn(retrieval, 'rankPassages');
+      const filler = 'The meeting lasted several hours in front of many residents. '.repeat(20);
+      (resumeService.findById as jest.Mock).mockResolvedValueOnce({
+        ...resume,
+        langue_source: 'en',
+        texte_source: [
+          'The city council presented the town budget for next year yesterday.',
+          'The mayor announced that the municipal swimming pool would be fully renovated.',
+          'Renovations of the libraries will begin in spring and cost two million euros.'
+        ].join(` ${filler}`)
+      });
+      mockSummarize.mockResolvedValueOnce('Les travaux coûteront deux millions d\'euros [1].');
+      (db.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [{ id: 1 }] })
+        .mockResolvedValueOnce({ rows: [] });
+      enregistrement();
+
+      // Act
+      const result = await questionService.ask(1, 1, 'How much will the library renovation cost?');
+
+      // Assert
+      expect(result.repondu).toBe(true);
+      expect(result.citations).toEqual([
+        expect.objectContaining({ texte: expect.stringContaining('two million euros') })
+      ]);
+      expect(classement).toHaveBeenCalledWith(expect.any(Array), expect.any(String), 'en');
+      expect(mockSummarize.mock.calls[0][0].prompt).toContain(LANGUES.fr.prompts.questions.consigne);
+      classement.mockRestore();
+    });
+
+    it('devrait refuser de répondre lorsque aucun passage n\'est pertinent', async () => {
+      // Arrange
+      (db.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [{ id: 1 }] })
+        .mockResolvedValueOnce({ rows: [] });
+      enregistrement();
+
+      // Act
+      const result = await questionService.ask(1, 1, 'Qui a gagné le match de football ?');
+
+      // Assert
+      expect(mockSummarize).not.toHaveBeenCalled();
+      expect(result).toMatchObject({
+        repondu: false,
+        reponse: LANGUES.fr.prompts.questions.sansReponse,
+        citations: [],
+        moteur: null
+      });
+    });
+
+    it('devrait s\'appuyer sur les échanges précédents pour une question de relance', async () => {
+      // Arrange
+      mockSummarize.mockResolvedValueOnce('Pour moderniser les équipements [1].');
+      (db.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [{ id: 1 }] })
+        .mockResolvedValueOnce({
+          rows: [{ question: 'Que va devenir la piscine ?', reponse: 'Elle sera rénovée [1].' }]
+        });
+      enregistrement();
+
+      // Act
+      const result = await questionService.ask(1, 1, 'Et pourquoi ?');
+
+      // Assert
+      expect(result.repondu).toBe(true);
+      const { prompt } = mockSummarize.mock.calls[0][0];
+      expect(prompt).toContain('Échanges précédents :\nQuestion : Que va devenir la piscine ?');
+      expect(prompt).toContain('la piscine municipale');
+      expect(prompt.endsWith('Question : Et pourquoi ?')).toBe(true);
+    });
+
+    it('devrait se replier sur le moteur extractif si le fournisseur échoue', async () => {
+      // Arrange
+      mockSummarize.mockRejectedValueOnce(new Error('API indisponible'));
+      mockSummarizeExtractive.mockResolvedValueOnce('La piscine municipale sera entièrement rénovée.');
+      (db.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [{ id: 1 }] })
+        .mockResolvedValueOnce({ rows: [] });
+      enregistrement();
+
+      // Act
+      const result = await questionService.ask(1, 1, 'Que va devenir la piscine ?');
+
+      // Assert
+      expect(result.moteur).toBe('extractif');
+      expect(result.citations).toHaveLength(1);
+      expect(logService.warn).toHaveBeenCalledWith('question_fallback', expect.any(Object));
+    });
+
+    it('devrait rejeter si le texte source n\'est plus conservé', async () => {
+      // Arrange
+      (resumeService.findById as jest.Mock).mockResolvedValueOnce({ ...resume, texte_source: null });
+
+      // Act & Assert
+      await expect(questionService.ask(1, 1, 'Que va devenir la piscine ?'))
+        .rejects
+        .toMatchObject({ status: 410 });
+      expect(db.query).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findAll', () => {
+    it('devrait rejeter si le résumé n\'appartient pas à l\'utilisateur', async () => {
+      // Arrange
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
+
+      // Act & Assert
+      await expect(questionService.findAll(1, 2)).rejects.toThrow('Résumé non trouvé');
+      expect(db.query).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -1,30 +1,52 @@
 /// <reference path="../types/jest.d.ts" />
 
-import { resumeService } from '../../services/resume';
+import { LISTE_RESUMES, resumeService } from '../../services/resume';
+import { parseListQuery } from '../../utils/pagination';
 import db from '../../utils/db';
 import { logService } from '../../services/common';
 import { testData } from '../setup';
 import { AppError, NotFoundError, SupportedLanguage } from '../../types';
 import { OpenAI } from 'openai';
+import { fetchText } from '../../utils/safe-fetch';
+import config from '../../config/config';
 
 // Mock des dépendances
 jest.mock('../../utils/db');
 jest.mock('../../services/common');
+jest.mock('../../services/tag');
 jest.mock('openai');
-jest.mock('cheerio', () => ({
-  load: jest.fn().mockReturnValue({
-    text: jest.fn().mockReturnValue('Article content')
-  })
+const mockSummarize = jest.fn();
+const mockSummarizeExtractive = jest.fn();
+jest.mock('../../services/summarization', () => ({
+  getSummarizationProvider: jest.fn((nom: string = 'openai') => ({
+    nom,
+    modele: nom === 'extractif' ? 'textrank' : 'gpt-4',
+    contexteTokens: 3000,
+    summarize: (...args: any[]) => (
+      nom === 'extractif' ? mockSummarizeExtractive(...args) : mockSummarize(...args)
+    )
+  }))
+}));
+const mockCacheStore = {
+  get: jest.fn().mockResolvedValue(null),
+  set: jest.fn().mockResolvedValue(undefined)
+};
+jest.mock('../../services/cache', () => ({
+  getCacheStore: jest.fn(() => mockCacheStore)
+}));
+jest.mock('../../utils/safe-fetch', () => ({
+  fetchText: jest.fn()
 }));
 jest.mock('pdf-parse', () => jest.fn().mockResolvedValue({
   text: 'PDF content',
   numpages: 2
 }));
+const mockGetSubtitles = jest.fn().mockResolvedValue([
+  { text: 'Caption 1' },
+  { text: 'Caption 2' }
+]);
 jest.mock('youtube-captions-scraper', () => ({
-  getSubtitles: jest.fn().mockResolvedValue([
-    { text: 'Caption 1' },
-    { text: 'Caption 2' }
-  ])
+  getSubtitles: (...args: any[]) => mockGetSubtitles(...args)
 }));
 
 describe('Resume Service', () => {
@@ -32,15 +54,20 @@ describe('Resume Service', () => {
 
   beforeEach(() => {
     jest.clearAllMocks();
+    // Les réponses non consommées d'un test ne doivent pas fuiter dans le suivant
+    (db.query as jest.Mock).mockReset();
+    mockSummarize.mockResolvedValue('Test summary');
   });
 
   describe('summarizeUrl', () => {
+    const mockPage = (url: string, html: string): void => {
+      (fetchText as jest.Mock).mockResolvedValueOnce({ url, typeContenu: 'text/html', texte: html });
+    };
+
     it('devrait résumer un article web avec succès', async () => {
       // Arrange
       const urlData = testData.resumes.article;
-      global.fetch = jest.fn().mockResolvedValueOnce({
-        text: () => Promise.resolve('<article>Test content</article>')
-      });
+      mockPage(urlData.url, '<article>Test content</article>');
 
       (db.query as jest.Mock).mockResolvedValueOnce({
         rows: [{
@@ -65,12 +92,44 @@ describe('Resume Service', () => {
 
     it('devrait rejeter si l\'URL est invalide', async () => {
       // Arrange
-      global.fetch = jest.fn().mockRejectedValueOnce(new Error('Invalid URL'));
+      (fetchText as jest.Mock).mockRejectedValueOnce(new AppError('URL invalide', 400));
 
       // Act & Assert
       await expect(resumeService.summarizeUrl(1, 'invalid-url', defaultLanguage))
         .rejects
-        .toThrow('Erreur lors de la récupération de l\'article');
+        .toThrow('URL invalide');
+      expect(db.query).not.toHaveBeenCalled();
+    });
+
+    it('devrait résumer le contenu principal sans la navigation', async () => {
+      // Arrange
+      mockPage(
+        'https://exemple.fr/article',
+        '<nav><a href="/">Accueil</a></nav><article><p>Contenu de l\'article à résumer.</p></article>'
+      );
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [{ id: 1 }] });
+
+      // Act
+      await resumeService.summarizeUrl(1, 'https://exemple.fr/article', defaultLanguage);
+
+      // Assert
+      expect(fetchText).toHaveBeenCalledWith('https://exemple.fr/article', expect.objectContaining({
+        typesAcceptes: expect.arrayContaining(['text/html'])
+      }));
+      expect(mockSummarize).toHaveBeenCalledWith(expect.objectContaining({
+        texte: 'Contenu de l\'article à résumer.'
+      }));
+    });
+
+    it('devrait rejeter une page sans contenu exploitable', async () => {
+      // Arrange
+      mockPage('https://exemple.fr/vide', '<html><body><nav>Menu</nav></body></html>');
+
+      // Act & Assert
+      await expect(resumeService.summarizeUrl(1, 'https://exemple.fr/vide', defaultLanguage))
+        .rejects
+        .toThrow('Aucun contenu exploitable trouvé à cette adresse');
+      expect(db.query).not.toHaveBeenCalled();
     });
   });
 
@@ -97,6 +156,41 @@ describe('Resume Service', () => {
       expect(db.query).toHaveBeenCalledTimes(1);
       expect(logService.info).toHaveBeenCalledWith('text_summarized', expect.any(Object));
     });
+
+    it('devrait enregistrer le style et la longueur utilisés', async () => {
+      // Arrange
+      mockSummarize.mockResolvedValueOnce('1. Point clé');
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [{ id: 1 }] });
+
+      // Act
+      await resumeService.summarizeText(1, 'Test content to summarize', defaultLanguage, {
+        style: 'points_cles',
+        longueur: 120
+      });
+
+      // Assert
+      expect(db.query).toHaveBeenCalledWith(
+        expect.stringContaining('style, longueur,'),
+        expect.arrayContaining([1, 'texte', '1. Point clé', defaultLanguage, 'openai', 'points_cles', 120, 'mots'])
+      );
+    });
+
+    it('devrait enregistrer la langue détectée du texte source', async () => {
+      // Arrange
+      const texte = 'The city council voted last night on the town budget for next year. '
+        + 'The councillors decided to renovate the swimming pool and to extend the library.';
+      mockSummarize.mockResolvedValueOnce('Le conseil a voté le budget.');
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [{ id: 1 }] });
+
+      // Act
+      await resumeService.summarizeText(1, texte, 'fr');
+
+      // Assert
+      const [requete, parametres] = (db.query as jest.Mock).mock.calls[0];
+      expect(requete).toContain('langue_source, langue_source_confiance');
+      expect(parametres[4]).toBe('fr');
+      expect(parametres.slice(-2)).toEqual(['en', expect.any(Number)]);
+    });
   });
 
   describe('summarizePdf', () => {
@@ -122,9 +216,86 @@ describe('Resume Service', () => {
       expect(db.query).toHaveBeenCalledTimes(1);
       expect(logService.info).toHaveBeenCalledWith('pdf_summarized', expect.any(Object));
     });
+
+    it('devrait enregistrer le texte source et les métadonnées du document', async () => {
+      // Arrange
+      mockSummarize.mockResolvedValueOnce('Résumé');
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [{ id: 1 }] });
+
+      // Act
+      await resumeService.summarizePdf(1, Buffer.from('PDF content'), defaultLanguage);
+
+      // Assert
+      const [requete, parametres] = (db.query as jest.Mock).mock.calls[0];
+      expect(requete).toContain('INSERT INTO sources_resume');
+      expect(parametres).toEqual([
+        1, 'pdf', 'Résumé', null, defaultLanguage, 'openai', 'gpt-4',
+        'paragraphe', expect.any(Number), 'mots',
+        null, null, 2, 2, 1, 0.5,
+        'PDF content',
+        null,
+        null,
+        null,
+        null
+      ]);
+    });
+  });
+
+  describe('summarizeFile', () => {
+    it('devrait résumer un fichier Markdown avec ses métadonnées', async () => {
+      // Arrange
+      mockSummarize.mockResolvedValueOnce('Résumé');
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [{ id: 1, type: 'markdown' }] });
+      const markdown = Buffer.from('# Le compost\n\nLe **compost** se prépare en automne.');
+
+      // Act
+      const result = await resumeService.summarizeFile(1, markdown, defaultLanguage, {}, 'notes.md');
+
+      // Assert
+      expect(result).toHaveProperty('type', 'markdown');
+      const [, parametres] = (db.query as jest.Mock).mock.calls[0];
+      expect(parametres[1]).toBe('markdown');
+      expect(parametres[10]).toBe('Le compost');
+      expect(parametres[16]).toBe('# Le compost\n\nLe compost se prépare en automne.');
+      expect(logService.info).toHaveBeenCalledWith('file_summarized', expect.objectContaining({
+        format: 'markdown'
+      }));
+    });
+
+    it('devrait confier un fichier PDF à l\'extraction PDF', async () => {
+      // Arrange
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [{ id: 1, type: 'pdf' }] });
+
+      // Act
+      await resumeService.summarizeFile(1, Buffer.from('%PDF-1.7 contenu'), defaultLanguage);
+
+      // Assert
+      const [, parametres] = (db.query as jest.Mock).mock.calls[0];
+      expect(parametres[1]).toBe('pdf');
+      expect(parametres[16]).toBe('PDF content');
+    });
+
+    it('devrait rejeter un fichier binaire non pris en charge', async () => {
+      // Arrange
+      const image = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00]);
+
+      // Act & Assert
+      await expect(resumeService.summarizeFile(1, image, defaultLanguage, {}, 'photo.png'))
+        .rejects.toMatchObject({ status: 415 });
+      expect(db.query).not.toHaveBeenCalled();
+    });
   });
 
   describe('summarizeYoutube', () => {
+    // Page d'une vidéo déclarant les pistes de sous-titres données
+    const mockVideoPage = (...pistes: Array<{ languageCode: string; kind?: string }>): void => {
+      (fetchText as jest.Mock).mockResolvedValueOnce({
+        url: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ',
+        typeContenu: 'text/html',
+        texte: `<script>var ytInitialPlayerResponse = {"captionTracks":${JSON.stringify(pistes)}};</script>`
+      });
+    };
+
     it('devrait résumer une vidéo YouTube avec succès', async () => {
       // Arrange
       const youtubeData = testData.resumes.youtube;
@@ -149,6 +320,75 @@ describe('Resume Service', () => {
       expect(logService.info).toHaveBeenCalledWith('youtube_summarized', expect.any(Object));
     });
 
+    it('devrait résumer chaque chapitre avec son horodatage et son lien', async () => {
+      // Arrange
+      mockVideoPage({ languageCode: 'fr' });
+      mockGetSubtitles.mockResolvedValueOnce(Array.from({ length: 12 }, (_, index) => ({
+        start: String(index * 30),
+        dur: '30',
+        text: `Passage ${index}`
+      })));
+      mockSummarize.mockImplementation(({ texte }: { texte: string }) => Promise.resolve(
+        texte.startsWith('Passage 0 ') ? 'Résumé du début' : 'Résumé'
+      ));
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [{ id: 1 }] });
+
+      // Act
+      await resumeService.summarizeYoutube(1, 'https://youtu.be/dQw4w9WgXcQ', defaultLanguage, {
+        chapitres: 'duree'
+      });
+
+      // Assert
+      const [requete, parametres] = (db.query as jest.Mock).mock.calls[0];
+      expect(requete).toContain('chapitres');
+      expect(JSON.parse(parametres[17])).toEqual([
+        {
+          debut: 0,
+          fin: 300,
+          horodatage: '00:00:00',
+          lien: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ&t=0s',
+          resume: 'Résumé du début'
+        },
+        {
+          debut: 300,
+          fin: 360,
+          horodatage: '00:05:00',
+          lien: 'https://www.youtube.com/watch?v=dQw4w9WgXcQ&t=300s',
+          resume: 'Résumé'
+        }
+      ]);
+      // Deux chapitres et le résumé de la vidéo entière
+      expect(mockSummarize).toHaveBeenCalledTimes(3);
+    });
+
+    it('devrait résumer en français une vidéo sous-titrée seulement en anglais', async () => {
+      // Arrange
+      mockVideoPage({ languageCode: 'de', kind: 'asr' }, { languageCode: 'en' });
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [{ id: 1 }] });
+
+      // Act
+      await resumeService.summarizeYoutube(1, 'https://youtu.be/dQw4w9WgXcQ', 'fr');
+
+      // Assert
+      expect(mockGetSubtitles).toHaveBeenCalledWith({ videoID: 'dQw4w9WgXcQ', lang: 'en' });
+      expect(mockSummarize).toHaveBeenCalledWith(expect.objectContaining({
+        prompt: expect.stringContaining('en français')
+      }));
+      const [, parametres] = (db.query as jest.Mock).mock.calls[0];
+      expect(parametres[4]).toBe('fr');
+      expect(JSON.parse(parametres[18])).toEqual({ langue: 'en', nom: null, automatique: false });
+    });
+
+    it('devrait rejeter une vidéo sans sous-titres', async () => {
+      // Arrange
+      mockVideoPage();
+
+      // Act & Assert
+      await expect(resumeService.summarizeYoutube(1, 'https://youtu.be/dQw4w9WgXcQ', 'fr'))
+        .rejects.toMatchObject({ status: 422 });
+      expect(mockGetSubtitles).not.toHaveBeenCalled();
+    });
+
     it('devrait rejeter si l\'URL YouTube est invalide', async () => {
       // Act & Assert
       await expect(resumeService.summarizeYoutube(1, 'invalid-youtube-url', defaultLanguage))
@@ -157,6 +397,88 @@ describe('Resume Service', () => {
     });
   });
 
+  describe('summarizeBatch', () => {
+    const texteLong = 'Un texte suffisamment long pour être résumé. '.repeat(5);
+
+    beforeEach(() => {
+      // Chaque insertion retourne le résumé enregistré avec ses paramètres
+      let id = 0;
+      (db.query as jest.Mock).mockImplementation((_sql: string, params: any[]) => Promise.resolve({
+        rows: [{ id: ++id, type: params[1], resume: params[2], titre: params[10] }]
+      }));
+    });
+
+    it('devrait rapporter l\'échec d\'un élément sans interrompre les autres', async () => {
+      // Arrange
+      (fetchText as jest.Mock).mockRejectedValueOnce(new AppError('Adresse non autorisée', 400));
+
+      // Act
+      const lot = await resumeService.summarizeBatch(1, [
+        { type: 'texte', texte: texteLong },
+        { type: 'article', url: 'http://intranet.example/' },
+        { type: 'youtube', url: 'invalid-youtube-url' },
+        { type: 'texte', texte: texteLong }
+      ], defaultLanguage);
+
+      // Assert
+      expect(lot.reussis).toBe(2);
+      expect(lot.echecs).toBe(2);
+      expect(lot.synthese).toBeNull();
+      expect(lot.resultats.map(({ index, statut }) => [index, statut])).toEqual([
+        [0, 'succes'], [1, 'echec'], [2, 'echec'], [3, 'succes']
+      ]);
+      expect(lot.resultats[0].resume).toMatchObject({ type: 'texte', resume: 'Test summary' });
+      expect(lot.resultats[1].erreur).toEqual({ message: 'Adresse non autorisée', status: 400 });
+      expect(lot.resultats[2].erreur).toEqual({ message: 'URL YouTube invalide', status: 400 });
+    });
+
+    it('devrait masquer le détail des erreurs inattendues', async () => {
+      // Arrange
+      (fetchText as jest.Mock).mockRejectedValueOnce(new Error('ECONNRESET 10.0.0.8:443'));
+
+      // Act
+      const lot = await resumeService.summarizeBatch(1, [
+        { type: 'article', url: 'http://site.example/' }
+      ], defaultLanguage);
+
+      // Assert
+      expect(lot.resultats[0]).toEqual({
+        index: 0,
+        type: 'article',
+        statut: 'echec',
+        erreur: { message: 'Erreur lors de la génération du résumé', status: 500 }
+      });
+    });
+
+    it('devrait produire une synthèse commune des résumés obtenus', async () => {
+      // Arrange
+      (fetchText as jest.Mock).mockResolvedValueOnce({
+        url: 'http://site.example/',
+        typeContenu: 'text/html',
+        texte: '<html><head><title>Article</title></head><body><p>Contenu de l\'article.</p></body></html>'
+      });
+      mockSummarize.mockImplementation(({ texte }: { texte: string }) => Promise.resolve(
+        texte.startsWith('# Article') ? 'Synthèse du lot'
+          : texte.includes('article') ? 'Résumé de l\'article' : 'Résumé du texte'
+      ));
+
+      // Act
+      const lot = await resumeService.summarizeBatch(1, [
+        { type: 'article', url: 'http://site.example/' },
+        { type: 'texte', texte: texteLong }
+      ], defaultLanguage, { synthese: true });
+
+      // Assert
+      expect(lot.synthese).toMatchObject({ resume: 'Synthèse du lot', moteur: 'openai' });
+      expect(mockSummarize).toHaveBeenCalledTimes(3);
+      expect(mockSummarize.mock.calls[2][0].texte).toBe(
+        '# Article\n\nRésumé de l\'article\n\nRésumé du texte'
+      );
+      // La synthèse n'est pas enregistrée
+      expect(db.query).toHaveBeenCalledTimes(2);
+    });
+  });
+
   describe('findAll', () => {
     it('devrait récupérer tous les résumés d\'un utilisateur', async () => {
       // Arrange
@@ -176,17 +498,113 @@ describe('Resume Service', () => {
         }
       ];
 
-      (db.query as jest.Mock).mockResolvedValueOnce({
-        rows: mockResumes
+      (db.queryWithPagination as jest.Mock).mockResolvedValueOnce({
+        rows: mockResumes,
+        total: 2,
+        pages: 1
       });
 
       // Act
       const result = await resumeService.findAll(utilisateur_id);
 
       // Assert
-      expect(result).toHaveLength(2);
-      expect(result).toEqual(mockResumes);
-      expect(db.query).toHaveBeenCalledTimes(1);
+      expect(result.rows).toEqual(mockResumes);
+      expect(result.total).toBe(2);
+      expect(db.queryWithPagination).toHaveBeenCalledTimes(1);
+    });
+
+    it('devrait filtrer les résumés par étiquette, type et date', async () => {
+      // Arrange
+      (db.queryWithPagination as jest.Mock).mockResolvedValueOnce({ rows: [], total: 0, pages: 0 });
+      const requete = parseListQuery(
+        { tag: 'Climat', type_tag: 'mot_cle', type: 'pdf', cree_apres: '2024-01-01', sort: '-titre' },
+        LISTE_RESUMES
+      );
+
+      // Act
+      await resumeService.findAll(1, requete);
+
+      // Assert
+      const [texte, params, page, limit, options] = (db.queryWithPagination as jest.Mock).mock.calls[0];
+      expect(texte).toContain('r.type = $2');
+      expect(texte).toContain('r.cree_le >= $3');
+      expect(texte).toContain('LOWER(t.libelle) = LOWER($4)');
+      expect(texte).toContain('($5::text IS NULL OR t.type = $5::text)');
+      expect(params).toEqual([1, 'pdf', '2024-01-01T00:00:00.000Z', 'Climat', 'mot_cle']);
+      expect([page, limit]).toEqual([1, 20]);
+      expect(options).toEqual({ tri: "COALESCE(titre, '') DESC, id DESC" });
+    });
+
+    it('devrait lister les résumés d\'une collection', async () => {
+      // Arrange
+      (db.queryWithPagination as jest.Mock).mockResolvedValueOnce({ rows: [], total: 0, pages: 0 });
+
+      // Act
+      await resumeService.findAll(1, parseListQuery({ collection: '3' }, LISTE_RESUMES));
+
+      // Assert
+      expect(db.queryWithPagination).toHaveBeenCalledWith(
+        expect.stringContaining('c.collection_id = $2'),
+        [1, 3],
+        1,
+        20,
+        expect.any(Object)
+      );
+    });
+  });
+
+  describe('search', () => {
+    it('devrait retourner les résultats paginés avec les termes surlignés', async () => {
+      // Arrange
+      (db.queryWithPagination as jest.Mock).mockResolvedValueOnce({
+        rows: [{
+          id: 4,
+          titre: 'Le climat & nous',
+          titre_surligne: 'Le \u0002climat\u0003 & nous',
+          extrait: 'Les <b>rapports</b> sur le \u0002climat\u0003 … le \u0002climat\u0003 change',
+          rang: 0.6
+        }],
+        total: 11,
+        pages: 2
+      });
+
+      // Act
+      const result = await resumeService.search(1, 'climat', { page: 2, limit: 10, langue: 'fr' });
+
+      // Assert
+      expect(result.total).toBe(11);
+      expect(result.pages).toBe(2);
+      expect(result.rows[0].titre_surligne).toBe('Le <mark>climat</mark> &amp; nous');
+      expect(result.rows[0].extrait).toBe(
+        'Les &lt;b&gt;rapports&lt;/b&gt; sur le <mark>climat</mark> … le <mark>climat</mark> change'
+      );
+      expect(db.queryWithPagination).toHaveBeenCalledWith(
+        expect.stringContaining('d.document @@ q.requete'),
+        [1, 'climat', 'fr', expect.any(String), expect.any(String)],
+        2,
+        10
+      );
+    });
+
+    it('devrait chercher dans toutes les langues par défaut', async () => {
+      // Arrange
+      (db.queryWithPagination as jest.Mock).mockResolvedValueOnce({
+        rows: [{ id: 4, titre: null, titre_surligne: null, extrait: 'Sans titre', rang: 0.1 }],
+        total: 1,
+        pages: 1
+      });
+
+      // Act
+      const result = await resumeService.search(1, '"budget municipal" -piscine');
+
+      // Assert
+      expect(result.rows[0].titre_surligne).toBeNull();
+      expect(db.queryWithPagination).toHaveBeenCalledWith(
+        expect.any(String),
+        [1, '"budget municipal" -piscine', null, expect.any(String), expect.any(String)],
+        1,
+        config.RECHERCHE_PAR_PAGE
+      );
     });
   });
 
@@ -210,6 +628,7 @@ describe('Resume Service', () => {
       // Assert
       expect(result).toEqual(mockResume);
       expect(db.query).toHaveBeenCalledTimes(1);
+      expect(db.query).toHaveBeenCalledWith(expect.stringContaining('LEFT JOIN sources_resume'), [1, 1]);
     });
 
     it('devrait rejeter si le résumé n\'existe pas', async () => {
@@ -223,6 +642,137 @@ describe('Resume Service', () => {
     });
   });
 
+  describe('regenerate', () => {
+    const resumeActuel = {
+      id: 1,
+      utilisateur_id: 1,
+      langue: 'fr',
+      resume: 'Ancien résumé',
+      style: 'puces',
+      longueur: 5,
+      unite_longueur: 'phrases',
+      mots_source: 10,
+      version: 1,
+      texte_source: 'Texte source conservé du résumé à régénérer.'
+    };
+
+    it('devrait enregistrer une nouvelle version avec les options demandées', async () => {
+      // Arrange
+      mockSummarize.mockResolvedValueOnce('Nouveau résumé');
+      (db.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [resumeActuel] })
+        .mockResolvedValueOnce({ rows: [{ id: 1, resume: 'Nouveau résumé', version: 2 }] });
+
+      // Act
+      const result = await resumeService.regenerate(1, 1, { longueur: 50 });
+
+      // Assert
+      expect(result).toHaveProperty('version', 2);
+      expect(mockCacheStore.get).not.toHaveBeenCalled();
+      expect(db.query).toHaveBeenLastCalledWith(
+        expect.stringContaining('INSERT INTO resume_versions'),
+        [1, 1, 'Nouveau résumé', 'openai', 'gpt-4', 'puces', 50, 'mots', 0.2]
+      );
+      expect(logService.info).toHaveBeenCalledWith('resume_regenerated', expect.objectContaining({ version: 2 }));
+    });
+
+    it('devrait reprendre le format de la version courante par défaut', async () => {
+      // Arrange
+      mockSummarizeExtractive.mockResolvedValueOnce('Résumé extractif');
+      (db.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [resumeActuel] })
+        .mockResolvedValueOnce({ rows: [{ id: 1, version: 2 }] });
+
+      // Act
+      await resumeService.regenerate(1, 1, { fournisseur: 'extractif' });
+
+      // Assert
+      expect(mockSummarizeExtractive).toHaveBeenCalled();
+      expect((db.query as jest.Mock).mock.calls[1][1].slice(3, 8))
+        .toEqual(['extractif', 'textrank', 'puces', 5, 'phrases']);
+    });
+
+    it('devrait rejeter si le texte source n\'est plus conservé', async () => {
+      // Arrange
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [{ ...resumeActuel, texte_source: null }] });
+
+      // Act & Assert
+      await expect(resumeService.regenerate(1, 1)).rejects.toMatchObject({ status: 410 });
+      expect(mockSummarize).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('versions', () => {
+    const versions = [
+      { id: 1, resume_id: 1, numero: 1, resume: 'Le premier résumé du document.' },
+      { id: 2, resume_id: 1, numero: 2, resume: 'Le second résumé du document.' }
+    ];
+
+    it('devrait lister les versions d\'un résumé', async () => {
+      // Arrange
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: versions });
+
+      // Act
+      const result = await resumeService.findVersions(1, 1);
+
+      // Assert
+      expect(result).toEqual(versions);
+      expect(db.query).toHaveBeenCalledWith(expect.stringContaining('ORDER BY v.numero'), [1, 1]);
+    });
+
+    it('devrait comparer deux versions', async () => {
+      // Arrange
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: versions });
+
+      // Act
+      const result = await resumeService.diffVersions(1, 1, 1, 2);
+
+      // Assert
+      expect(result).toEqual({
+        de: 1,
+        vers: 2,
+        segments: [
+          { type: 'egal', texte: 'Le ' },
+          { type: 'ajout', texte: 'second ' },
+          { type: 'suppression', texte: 'premier ' },
+          { type: 'egal', texte: 'résumé du document.' }
+        ]
+      });
+    });
+
+    it('devrait rejeter la comparaison d\'une version inexistante', async () => {
+      // Arrange
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: versions });
+
+      // Act & Assert
+      await expect(resumeService.diffVersions(1, 1, 1, 3)).rejects.toThrow('Version non trouvée');
+    });
+
+    it('devrait restaurer une version précédente', async () => {
+      // Arrange
+      (db.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [{ id: 1, version: 2 }] })
+        .mockResolvedValueOnce({ rows: [{ id: 1, version: 1, resume: versions[0].resume }] });
+
+      // Act
+      const result = await resumeService.restoreVersion(1, 1, 1);
+
+      // Assert
+      expect(result).toHaveProperty('version', 1);
+      expect(db.query).toHaveBeenLastCalledWith(expect.stringContaining('FROM resume_versions v'), [1, 1, 1]);
+    });
+
+    it('devrait rejeter la restauration d\'une version inexistante', async () => {
+      // Arrange
+      (db.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [{ id: 1, version: 2 }] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      // Act & Assert
+      await expect(resumeService.restoreVersion(1, 1, 5)).rejects.toThrow('Version non trouvée');
+    });
+  });
+
   describe('delete', () => {
     it('devrait supprimer un résumé avec succès', async () => {
       // Arrange
@@ -248,4 +798,253 @@ describe('Resume Service', () => {
         .toThrow('Résumé non trouvé');
     });
   });
+
+  describe('purgeSourceTexts', () => {
+    it('devrait supprimer les textes sources au-delà de la durée de conservation', async () => {
+      // Arrange
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [], rowCount: 3 });
+
+      // Act
+      const supprimes = await resumeService.purgeSourceTexts();
+
+      // Assert
+      expect(supprimes).toBe(3);
+      expect(db.query).toHaveBeenCalledWith(
+        expect.stringContaining('DELETE FROM sources_resume'),
+        [config.SOURCES_RETENTION_JOURS]
+      );
+    });
+  });
+
+  describe('generateSummary', () => {
+    beforeEach(() => {
+      mockSummarize.mockReset();
+      mockSummarizeExtractive.mockReset();
+    });
+
+    it('devrait résumer un texte court en un seul appel', async () => {
+      // Arrange
+      mockSummarize.mockResolvedValueOnce('Résumé court');
+      const onProgress = jest.fn();
+
+      // Act
+      const result = await resumeService.generateSummary('Un texte court.', 'fr', { onProgress });
+
+      // Assert
+      expect(result).toEqual({
+        resume: 'Résumé court',
+        moteur: 'openai',
+        modele: 'gpt-4',
+        format: { style: 'paragraphe', longueur: 500, unite_longueur: 'mots' },
+        cache: false
+      });
+      expect(mockCacheStore.set).toHaveBeenCalledWith(
+        expect.stringMatching(/^[0-9a-f]{64}$/),
+        expect.objectContaining({ resume: 'Résumé court', moteur: 'openai' }),
+        expect.any(Number)
+      );
+      expect(mockSummarize).toHaveBeenCalledTimes(1);
+      expect(mockSummarize).toHaveBeenCalledWith(expect.objectContaining({
+        texte: 'Un texte court.',
+        langue: 'fr'
+      }));
+      expect(onProgress).not.toHaveBeenCalled();
+    });
+
+    it('devrait découper un texte long et fusionner les résumés partiels', async () => {
+      // Arrange
+      const texteLong = Array.from(
+        { length: 1000 },
+        (_, i) => `Phrase numéro ${i} d'un très long document à résumer.`
+      ).join(' ');
+      mockSummarize.mockImplementation(({ prompt }) => Promise.resolve(
+        prompt.startsWith('Les textes suivants') ? 'Résumé final' : 'Résumé partiel'
+      ));
+      const onProgress = jest.fn();
+
+      // Act
+      const result = await resumeService.generateSummary(texteLong, 'fr', { onProgress });
+
+      // Assert
+      expect(result.resume).toBe('Résumé final');
+      expect(result.moteur).toBe('openai');
+      const prompts = mockSummarize.mock.calls.map(([request]) => request.prompt);
+      const segments = prompts.filter((prompt: string) => prompt.startsWith('Voici la partie'));
+      expect(segments.length).toBeGreaterThan(1);
+      expect(prompts[prompts.length - 1]).toContain('Résumé partiel');
+      expect(onProgress).toHaveBeenCalledWith({
+        etape: 'segments',
+        termine: segments.length,
+        total: segments.length
+      });
+      expect(onProgress).toHaveBeenLastCalledWith({ etape: 'fusion', termine: 1, total: 1 });
+    });
+
+    it('devrait appliquer le style et la longueur demandés', async () => {
+      // Arrange
+      mockSummarize.mockResolvedValueOnce('- Point 1\n- Point 2');
+
+      // Act
+      const result = await resumeService.generateSummary('Un texte court.', 'fr', {
+        style: 'puces',
+        longueur: 3,
+        unite_longueur: 'phrases'
+      });
+
+      // Assert
+      expect(result.format).toEqual({ style: 'puces', longueur: 3, unite_longueur: 'phrases' });
+      const [request] = mockSummarize.mock.calls[0];
+      expect(request.prompt).toContain('en 3 phrases maximum');
+      expect(request.prompt).toContain('liste à puces');
+      expect(request).toMatchObject({ phrases: 3, style: 'puces', mots: 75 });
+    });
+
+    it('devrait limiter un TL;DR à une phrase par défaut', async () => {
+      // Arrange
+      mockSummarize.mockResolvedValueOnce('En bref.');
+
+      // Act
+      const result = await resumeService.generateSummary('Un texte court.', 'en', { style: 'tldr' });
+
+      // Assert
+      expect(result.format).toEqual({ style: 'tldr', longueur: 1, unite_longueur: 'phrases' });
+      expect(mockSummarize.mock.calls[0][0].prompt).toContain('in 1 sentence or less');
+    });
+
+    it('devrait rédiger le prompt dans la langue demandée', async () => {
+      // Arrange
+      mockSummarize.mockResolvedValueOnce('Resumen.');
+
+      // Act
+      await resumeService.generateSummary('Un texto corto.', 'es', {
+        style: 'puces',
+        longueur: 2,
+        unite_longueur: 'phrases'
+      });
+
+      // Assert
+      const [request] = mockSummarize.mock.calls[0];
+      expect(request.prompt).toContain('Resume el siguiente texto en español en 2 frases como máximo.');
+      expect(request.prompt).toContain('lista de viñetas');
+      expect(request.langue).toBe('es');
+    });
+
+    it('devrait servir un résumé déjà produit depuis le cache', async () => {
+      // Arrange
+      const format = { style: 'paragraphe', longueur: 500, unite_longueur: 'mots' };
+      mockCacheStore.get.mockResolvedValueOnce({ resume: 'Résumé en cache', moteur: 'openai', format });
+      const onToken = jest.fn();
+
+      // Act
+      const result = await resumeService.generateSummary('Un   texte court. ', 'fr', { onToken });
+
+      // Assert
+      expect(result).toEqual({ resume: 'Résumé en cache', moteur: 'openai', format, cache: true });
+      expect(onToken).toHaveBeenCalledWith('Résumé en cache');
+      expect(mockSummarize).not.toHaveBeenCalled();
+    });
+
+    it('devrait utiliser la même clé pour un texte aux espaces près', async () => {
+      // Arrange
+      mockSummarize.mockResolvedValue('Résumé');
+
+      // Act
+      await resumeService.generateSummary('Un texte\n\ncourt.', 'fr');
+      await resumeService.generateSummary('  Un texte court.', 'fr');
+      await resumeService.generateSummary('Un texte court.', 'en');
+
+      // Assert
+      const cles = mockCacheStore.get.mock.calls.map(([cle]) => cle);
+      expect(cles[0]).toBe(cles[1]);
+      expect(cles[2]).not.toBe(cles[0]);
+    });
+
+    it('devrait utiliser le moteur extractif lorsque le mode est demandé', async () => {
+      // Arrange
+      mockSummarizeExtractive.mockResolvedValueOnce('Phrases extraites');
+
+      // Act
+      const result = await resumeService.generateSummary('Un texte court.', 'fr', { mode: 'extractif' });
+
+      // Assert
+      expect(result).toMatchObject({ resume: 'Phrases extraites', moteur: 'extractif' });
+      expect(mockSummarize).not.toHaveBeenCalled();
+    });
+
+    it('devrait se replier sur le moteur extractif si le fournisseur échoue', async () => {
+      // Arrange
+      mockSummarize.mockRejectedValueOnce(new Error('API indisponible'));
+      mockSummarizeExtractive.mockResolvedValueOnce('Phrases extraites');
+
+      // Act
+      const result = await resumeService.generateSummary('Un texte court.', 'fr');
+
+      // Assert
+      expect(result).toMatchObject({ resume: 'Phrases extraites', moteur: 'extractif' });
+      expect(mockCacheStore.set).not.toHaveBeenCalled();
+      expect(logService.error).toHaveBeenCalledWith('summarization_provider_error', expect.any(Object));
+      expect(logService.warn).toHaveBeenCalledWith('summarization_fallback', expect.any(Object));
+    });
+
+    it('devrait ne pas diffuser le résumé de repli à la suite du résumé interrompu', async () => {
+      // Arrange
+      const onToken = jest.fn();
+      mockSummarize.mockImplementationOnce(({ onToken: diffuser }) => {
+        diffuser('Début du résu');
+        return Promise.reject(new Error('Connexion perdue'));
+      });
+      mockSummarizeExtractive.mockResolvedValueOnce('Phrases extraites');
+
+      // Act
+      const result = await resumeService.generateSummary('Un texte court.', 'fr', { onToken });
+
+      // Assert
+      expect(result).toMatchObject({ resume: 'Phrases extraites', moteur: 'extractif' });
+      expect(mockSummarizeExtractive).toHaveBeenCalledWith(expect.objectContaining({ onToken: undefined }));
+      expect(onToken).toHaveBeenCalledTimes(1);
+      expect(onToken).toHaveBeenCalledWith('Début du résu');
+    });
+
+    it('devrait transmettre le signal et diffuser le résumé final', async () => {
+      // Arrange
+      mockSummarize.mockResolvedValueOnce('Résumé court');
+      const controller = new AbortController();
+      const onToken = jest.fn();
+
+      // Act
+      await resumeService.generateSummary('Un texte court.', 'fr', { onToken, signal: controller.signal });
+
+      // Assert
+      expect(mockSummarize).toHaveBeenCalledWith(expect.objectContaining({
+        onToken,
+        signal: controller.signal
+      }));
+    });
+
+    it('devrait ne pas se replier si la génération est annulée', async () => {
+      // Arrange
+      const controller = new AbortController();
+      mockSummarize.mockImplementationOnce(() => {
+        controller.abort();
+        return Promise.reject(new Error('Request was aborted.'));
+      });
+
+      // Act & Assert
+      await expect(resumeService.generateSummary('Un texte court.', 'fr', { signal: controller.signal }))
+        .rejects
+        .toThrow('Génération du résumé annulée');
+      expect(mockSummarizeExtractive).not.toHaveBeenCalled();
+    });
+
+    it('devrait rejeter si le fournisseur et le repli échouent', async () => {
+      // Arrange
+      mockSummarize.mockRejectedValueOnce(new Error('API indisponible'));
+      mockSummarizeExtractive.mockRejectedValueOnce(new Error('Texte vide'));
+
+      // Act & Assert
+      await expect(resumeService.generateSummary('Un texte court.', 'fr'))
+        .rejects
+        .toThrow('Erreur lors de la génération du résumé');
+    });
+  });
 });
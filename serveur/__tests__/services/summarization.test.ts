@@ -0,0 +1,164 @@
+/// <reference path="../types/jest.d.ts" />
+
+import OpenAI from 'openai';
+import {
+  createOpenAICompatibleProvider,
+  createExtractiveProvider,
+  getSummarizationProvider
+} from '../../services/summarization';
+import config from '../../config/config';
+
+// Mock des dépendances
+const mockCreate = jest.fn();
+jest.mock('openai', () => jest.fn().mockImplementation(() => ({
+  chat: { completions: { create: (...args: any[]) => mockCreate(...args) } }
+})));
+
+describe('Summarization Service', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createOpenAICompatibleProvider', () => {
+    it('devrait envoyer le prompt au modèle configuré', async () => {
+      // Arrange
+      mockCreate.mockResolvedValueOnce({ choices: [{ message: { content: 'Résumé' } }] });
+      const provider = createOpenAICompatibleProvider({
+        nom: 'local',
+        modele: 'llama3',
+        contexteTokens: 1500,
+        apiKey: 'local',
+        baseURL: 'http://localhost:11434/v1'
+      });
+
+      // Act
+      const result = await provider.summarize({
+        texte: 'Texte',
+        prompt: 'Résume : Texte',
+        langue: 'fr',
+        mots: 100
+      });
+
+      // Assert
+      expect(result).toBe('Résumé');
+      expect(OpenAI).toHaveBeenCalledWith({ apiKey: 'local', baseURL: 'http://localhost:11434/v1' });
+      expect(mockCreate).toHaveBeenCalledWith(expect.objectContaining({
+        model: 'llama3',
+        messages: [{ role: 'user', content: 'Résume : Texte' }],
+        max_tokens: 200
+      }), { signal: undefined });
+    });
+
+    it('devrait diffuser les fragments lorsque onToken est fourni', async () => {
+      // Arrange
+      mockCreate.mockResolvedValueOnce((async function* () {
+        yield { choices: [{ delta: { content: 'Résumé ' } }] };
+        yield { choices: [{ delta: {} }] };
+        yield { choices: [{ delta: { content: 'diffusé' } }] };
+      })());
+      const provider = createOpenAICompatibleProvider({
+        nom: 'openai',
+        modele: 'gpt-4',
+        contexteTokens: 3000,
+        apiKey: 'cle'
+      });
+      const onToken = jest.fn();
+      const controller = new AbortController();
+
+      // Act
+      const result = await provider.summarize({
+        texte: 'Texte',
+        prompt: 'Résume : Texte',
+        langue: 'fr',
+        mots: 100,
+        onToken,
+        signal: controller.signal
+      });
+
+      // Assert
+      expect(result).toBe('Résumé diffusé');
+      expect(onToken.mock.calls).toEqual([['Résumé '], ['diffusé']]);
+      expect(mockCreate).toHaveBeenCalledWith(
+        expect.objectContaining({ stream: true }),
+        { signal: controller.signal }
+      );
+    });
+  });
+
+  describe('createExtractiveProvider', () => {
+    it('devrait produire un résumé déterministe sans appel réseau', async () => {
+      // Arrange
+      const provider = createExtractiveProvider();
+      const texte = 'Le chat dort sur le canapé. Le chat mange des croquettes. '
+        + 'Il pleut dehors depuis ce matin. Le chat aime le canapé et les croquettes.';
+      const request = { texte, prompt: '', langue: 'fr' as const, mots: 12 };
+
+      // Act
+      const premier = await provider.summarize(request);
+      const second = await provider.summarize(request);
+
+      // Assert
+      expect(premier).toBe(second);
+      expect(premier.length).toBeGreaterThan(0);
+      expect(premier).not.toContain('Il pleut');
+      expect(mockCreate).not.toHaveBeenCalled();
+    });
+
+    it('devrait respecter le nombre de phrases et les styles en liste', async () => {
+      // Arrange
+      const provider = createExtractiveProvider();
+      const texte = 'Le chat dort sur le canapé. Le chat mange des croquettes. '
+        + 'Il pleut dehors depuis ce matin. Le chat aime le canapé et les croquettes.';
+
+      // Act
+      const result = await provider.summarize({
+        texte,
+        prompt: '',
+        langue: 'fr',
+        mots: 100,
+        phrases: 2,
+        style: 'puces'
+      });
+
+      // Assert
+      const lignes = result.split('\n');
+      expect(lignes).toHaveLength(2);
+      lignes.forEach((ligne) => expect(ligne).toMatch(/^- /));
+    });
+
+    it('devrait utiliser sa propre taille de segment', () => {
+      expect(createExtractiveProvider().contexteTokens).toBe(config.EXTRACTIF_TOKENS_PAR_SEGMENT);
+    });
+  });
+
+  describe('getSummarizationProvider', () => {
+    it('devrait utiliser le fournisseur de la configuration par défaut', () => {
+      expect(getSummarizationProvider().nom).toBe(config.RESUME_FOURNISSEUR);
+    });
+
+    it('devrait réutiliser la même instance', () => {
+      expect(getSummarizationProvider('extractif')).toBe(getSummarizationProvider('extractif'));
+    });
+
+    it('devrait configurer le fournisseur local', () => {
+      const provider = getSummarizationProvider('local');
+      expect(provider.modele).toBe(config.LOCAL_LLM_MODELE);
+      expect(provider.contexteTokens).toBe(config.LOCAL_LLM_TOKENS_PAR_SEGMENT);
+      expect(OpenAI).toHaveBeenCalledWith(expect.objectContaining({ baseURL: config.LOCAL_LLM_URL }));
+    });
+
+    it('devrait instancier un fournisseur distinct pour un autre modèle', () => {
+      // Act
+      const provider = getSummarizationProvider('openai', 'gpt-4o-mini');
+
+      // Assert
+      expect(provider.modele).toBe('gpt-4o-mini');
+      expect(provider).not.toBe(getSummarizationProvider('openai'));
+      expect(getSummarizationProvider('openai').modele).toBe(config.MODELE_GPT);
+    });
+
+    it('devrait rejeter un fournisseur inconnu', () => {
+      expect(() => getSummarizationProvider('inconnu' as any)).toThrow('Fournisseur de résumé inconnu');
+    });
+  });
+});
@@ -0,0 +1,177 @@
+/// <reference path="../types/jest.d.ts" />
+
+import { tagService } from '../../services/tag';
+import db from '../../utils/db';
+import { logService } from '../../services/common';
+import config from '../../config/config';
+import { ResumeModel } from '../../types';
+
+// Mock des dépendances
+jest.mock('../../utils/db');
+jest.mock('../../services/common');
+
+describe('Tag Service', () => {
+  const resume = { id: 4, utilisateur_id: 1, langue: 'fr', langue_source: 'fr' } as ResumeModel;
+  const texte = 'Le réchauffement du climat fait fondre les glaciers des Alpes. '
+    + 'Selon le climatologue Jean Jouzel, les émissions de carbone doivent baisser. '
+    + 'Le climat des Alpes change plus vite que la moyenne, et le carbone en est la cause.';
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (db.query as jest.Mock).mockReset();
+  });
+
+  describe('tagResume', () => {
+    it('devrait enregistrer les mots-clés, les entités et le thème du document', async () => {
+      // Arrange
+      (db.query as jest.Mock)
+        .mockResolvedValueOnce({
+          rows: [
+            { terme: 'climat', documents: 5, corpus: 6 },
+            { terme: 'alpes', documents: 1, corpus: 6 },
+            { terme: 'carbone', documents: 2, corpus: 6 }
+          ]
+        })
+        .mockResolvedValueOnce({ rows: [] });
+
+      // Act
+      const tags = await tagService.tagResume(resume, texte);
+
+      // Assert
+      const [frequencesSql, frequencesParams] = (db.query as jest.Mock).mock.calls[0];
+      expect(frequencesSql).toContain('INSERT INTO termes_resume');
+      expect(frequencesSql).toContain('JOIN resumes r ON r.id = t.resume_id');
+      expect(frequencesParams[0]).toBe(4);
+      expect(frequencesParams[1]).toEqual(expect.arrayContaining(['climat', 'glaciers', 'carbone']));
+      expect(frequencesParams[2]).toBe(1);
+
+      expect(tags.filter((tag) => tag.type === 'mot_cle')).toHaveLength(config.TAGS_MOTS_CLES_MAX);
+      expect(tags).toContainEqual({ libelle: 'Jean Jouzel', type: 'personne', score: 1 });
+      expect(tags).toContainEqual(expect.objectContaining({ libelle: 'environnement', type: 'theme' }));
+
+      const [tagsSql, tagsParams] = (db.query as jest.Mock).mock.calls[1];
+      expect(tagsSql).toContain('INSERT INTO tags_resume');
+      expect(tagsParams[0]).toBe(4);
+      expect(tagsParams[1]).toHaveLength(tags.length);
+    });
+
+    it('devrait privilégier les termes rares dans les documents de l\'utilisateur', async () => {
+      // Arrange
+      (db.query as jest.Mock)
+        .mockResolvedValueOnce({
+          rows: [
+            { terme: 'climat', documents: 50, corpus: 50 },
+            { terme: 'alpes', documents: 1, corpus: 50 }
+          ]
+        })
+        .mockResolvedValueOnce({ rows: [] });
+
+      // Act
+      const tags = await tagService.tagResume(resume, texte);
+
+      // Assert
+      const motsCles = tags.filter((tag) => tag.type === 'mot_cle').map((tag) => tag.libelle);
+      expect(motsCles[0]).toBe('alpes');
+      expect(motsCles).not.toContain('climat');
+    });
+
+    it('devrait ne pas faire échouer l\'enregistrement du résumé en cas d\'erreur', async () => {
+      // Arrange
+      (db.query as jest.Mock).mockRejectedValueOnce(new Error('Database error'));
+
+      // Act
+      const tags = await tagService.tagResume(resume, texte);
+
+      // Assert
+      expect(tags).toEqual([]);
+      expect(logService.warn).toHaveBeenCalledWith('resume_tagging_error', expect.objectContaining({ id: 4 }));
+    });
+  });
+
+  describe('addUserTags', () => {
+    it('devrait ajouter les étiquettes nettoyées au résumé', async () => {
+      // Arrange
+      const ajoutees = [{ libelle: 'Projet Été', type: 'utilisateur', score: null }];
+      (db.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [{ id: 4 }] })
+        .mockResolvedValueOnce({ rows: ajoutees });
+
+      // Act
+      const result = await tagService.addUserTags(4, 1, ['  Projet   Été ', 'Projet Été', ' ']);
+
+      // Assert
+      expect(result).toEqual(ajoutees);
+      expect(db.query).toHaveBeenLastCalledWith(
+        expect.stringContaining("'utilisateur'"),
+        [4, ['Projet Été']]
+      );
+    });
+
+    it('devrait ignorer les étiquettes qui ne diffèrent que par la casse', async () => {
+      // Arrange
+      (db.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [{ id: 4 }] })
+        .mockResolvedValueOnce({ rows: [{ libelle: 'Projet', type: 'utilisateur', score: null }] });
+
+      // Act
+      await tagService.addUserTags(4, 1, ['Projet', 'projet', 'PROJET ', 'Été', 'été']);
+
+      // Assert
+      expect(db.query).toHaveBeenLastCalledWith(
+        expect.stringContaining('ON CONFLICT DO NOTHING'),
+        [4, ['Projet', 'Été']]
+      );
+    });
+
+    it('devrait rejeter le résumé d\'un autre utilisateur', async () => {
+      // Arrange
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
+
+      // Act & Assert
+      await expect(tagService.addUserTags(4, 2, ['Projet'])).rejects.toMatchObject({ status: 404 });
+      expect(db.query).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('removeUserTag', () => {
+    it('devrait retirer une étiquette de l\'utilisateur', async () => {
+      // Arrange
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [{ libelle: 'Projet' }] });
+
+      // Act
+      await tagService.removeUserTag(4, 1, 'projet');
+
+      // Assert
+      expect(db.query).toHaveBeenCalledWith(
+        expect.stringContaining("t.type = 'utilisateur'"),
+        [4, 1, 'projet']
+      );
+    });
+
+    it('devrait signaler une étiquette absente', async () => {
+      // Arrange
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: [] });
+
+      // Act & Assert
+      await expect(tagService.removeUserTag(4, 1, 'climat')).rejects.toMatchObject({ status: 404 });
+    });
+  });
+
+  describe('findCloud', () => {
+    it('devrait retourner les étiquettes les plus fréquentes de l\'utilisateur', async () => {
+      // Arrange
+      const nuage = [{ libelle: 'climat', type: 'mot_cle', resumes: 3 }];
+      (db.query as jest.Mock).mockResolvedValueOnce({ rows: nuage });
+
+      // Act
+      const result = await tagService.findCloud(1, 'mot_cle');
+
+      // Assert
+      expect(result).toEqual(nuage);
+      expect(db.query).toHaveBeenCalledWith(
+        expect.stringContaining('GROUP BY t.libelle, t.type'),
+        [1, 'mot_cle', config.TAGS_NUAGE_MAX]
+      );
+    });
+  });
+});
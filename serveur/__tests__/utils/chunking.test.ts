@@ -0,0 +1,65 @@
+/// <reference path="../types/jest.d.ts" />
+
+import { estimateTokens, splitSentences, splitIntoChunks } from '../../utils/chunking';
+
+describe('Chunking Utils', () => {
+  describe('estimateTokens', () => {
+    it('devrait estimer environ un token pour quatre caractères', () => {
+      expect(estimateTokens('')).toBe(0);
+      expect(estimateTokens('abcd')).toBe(1);
+      expect(estimateTokens('a'.repeat(401))).toBe(101);
+    });
+  });
+
+  describe('splitSentences', () => {
+    it('devrait découper un texte en phrases', () => {
+      const phrases = splitSentences('Première phrase. Deuxième phrase ! Troisième ?\n\nParagraphe');
+      expect(phrases).toEqual([
+        'Première phrase.',
+        'Deuxième phrase !',
+        'Troisième ?',
+        'Paragraphe'
+      ]);
+    });
+  });
+
+  describe('splitIntoChunks', () => {
+    const phrase = (n: number) => `Ceci est la phrase numéro ${n} du document de test.`;
+    const texte = Array.from({ length: 200 }, (_, i) => phrase(i)).join(' ');
+
+    it('devrait retourner un seul segment pour un texte court', () => {
+      expect(splitIntoChunks('Un texte court.', { maxTokens: 100 })).toEqual(['Un texte court.']);
+    });
+
+    it('devrait respecter la taille maximale des segments', () => {
+      const segments = splitIntoChunks(texte, { maxTokens: 200, overlapTokens: 30 });
+      expect(segments.length).toBeGreaterThan(1);
+      segments.forEach((segment) => {
+        expect(estimateTokens(segment)).toBeLessThanOrEqual(200 + segments.length);
+      });
+    });
+
+    it('devrait faire chevaucher les segments consécutifs', () => {
+      const segments = splitIntoChunks(texte, { maxTokens: 200, overlapTokens: 30 });
+      for (let i = 1; i < segments.length; i++) {
+        const premierePhrase = splitSentences(segments[i])[0];
+        expect(segments[i - 1]).toContain(premierePhrase);
+      }
+    });
+
+    it('devrait couvrir tout le texte sans chevauchement', () => {
+      const segments = splitIntoChunks(texte, { maxTokens: 200, overlapTokens: 0 });
+      expect(segments.join(' ')).toBe(texte);
+    });
+
+    it('devrait découper un texte sans ponctuation par groupes de mots', () => {
+      const transcription = Array.from({ length: 2000 }, (_, i) => `mot${i}`).join(' ');
+      const segments = splitIntoChunks(transcription, { maxTokens: 300, overlapTokens: 50 });
+      expect(segments.length).toBeGreaterThan(1);
+      segments.forEach((segment) => {
+        expect(estimateTokens(segment)).toBeLessThanOrEqual(300 + segments.length);
+      });
+      expect(segments[segments.length - 1]).toContain('mot1999');
+    });
+  });
+});
@@ -252,5 +252,29 @@ describe('Database Utility', () => {
       expect(result.total).toBe(10);
       expect(result.pages).toBe(5);
     });
+
+    it('devrait trier la requête et reprendre après le curseur', async () => {
+      // Arrange
+      (mockPool.query as jest.Mock)
+        .mockResolvedValueOnce({ rows: [{ id: 3 }] })
+        .mockResolvedValueOnce({ rows: [{ count: '3' }] });
+
+      // Act
+      await db.queryWithPagination('SELECT * FROM test WHERE a = $1', ['x'], 1, 2, {
+        tri: 'nom ASC, id ASC',
+        apres: { condition: '(nom, id) > ($2, $3)', params: ['b', 2] }
+      });
+
+      // Assert
+      expect(mockPool.query).toHaveBeenCalledWith(
+        'SELECT * FROM (SELECT * FROM test WHERE a = $1) AS liste WHERE (nom, id) > ($2, $3) '
+          + 'ORDER BY nom ASC, id ASC LIMIT $4 OFFSET $5',
+        ['x', 'b', 2, 2, 0]
+      );
+      expect(mockPool.query).toHaveBeenCalledWith(
+        'SELECT COUNT(*) FROM (SELECT * FROM test WHERE a = $1) AS count',
+        ['x']
+      );
+    });
   });
 });
@@ -0,0 +1,46 @@
+/// <reference path="../types/jest.d.ts" />
+
+import { diffWords } from '../../utils/diff';
+
+describe('Diff Utils', () => {
+  describe('diffWords', () => {
+    it('devrait repérer les mots ajoutés et supprimés', () => {
+      // Act
+      const segments = diffWords(
+        'Le chat dort sur le canapé.',
+        'Le chat noir dort sur le lit.'
+      );
+
+      // Assert
+      expect(segments).toEqual([
+        { type: 'egal', texte: 'Le chat ' },
+        { type: 'ajout', texte: 'noir ' },
+        { type: 'egal', texte: 'dort sur le ' },
+        { type: 'ajout', texte: 'lit.' },
+        { type: 'suppression', texte: 'canapé.' }
+      ]);
+    });
+
+    it('devrait reconstituer chacun des deux textes', () => {
+      // Arrange
+      const avant = 'Premier point.\nDeuxième point.\nTroisième point.';
+      const apres = 'Premier point.\nTroisième point.\nQuatrième point.';
+
+      // Act
+      const segments = diffWords(avant, apres);
+
+      // Assert
+      const texte = (types: string[]): string => segments
+        .filter((segment) => types.includes(segment.type))
+        .map((segment) => segment.texte)
+        .join('');
+      expect(texte(['egal', 'ajout'])).toBe(apres);
+      expect(texte(['egal', 'suppression']).replace(/\s+/g, ' ')).toBe(avant.replace(/\s+/g, ' '));
+    });
+
+    it('devrait retourner un seul segment pour des textes identiques', () => {
+      expect(diffWords('Même texte', 'Même texte')).toEqual([{ type: 'egal', texte: 'Même texte' }]);
+      expect(diffWords('', '')).toEqual([]);
+    });
+  });
+});
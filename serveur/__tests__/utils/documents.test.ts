@@ -0,0 +1,124 @@
+/// <reference path="../types/jest.d.ts" />
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { detectDocumentFormat, extractDocument } from '../../utils/documents';
+
+// Documents servant de corpus de référence
+const fixture = (nom: string): Buffer => (
+  readFileSync(join(__dirname, '../fixtures/documents', nom))
+);
+
+describe('Documents Utils', () => {
+  describe('detectDocumentFormat', () => {
+    it('devrait reconnaître les formats d\'après leur contenu', () => {
+      // Assert
+      expect(detectDocumentFormat(Buffer.from('%PDF-1.7\n'))).toBe('pdf');
+      expect(detectDocumentFormat(fixture('rapport.docx'), 'rapport.bin')).toBe('docx');
+      expect(detectDocumentFormat(fixture('livre.epub'))).toBe('epub');
+      expect(detectDocumentFormat(Buffer.from('<!DOCTYPE html><html></html>'))).toBe('html');
+      expect(detectDocumentFormat(Buffer.from('# Titre\n\nTexte.'))).toBe('markdown');
+      expect(detectDocumentFormat(fixture('menu.txt'))).toBe('txt');
+    });
+
+    it('devrait distinguer le Markdown du texte brut par l\'extension', () => {
+      // Arrange
+      const texte = Buffer.from('Une simple ligne de texte.');
+
+      // Assert
+      expect(detectDocumentFormat(texte, 'notes.md')).toBe('markdown');
+      expect(detectDocumentFormat(texte, 'notes.txt')).toBe('txt');
+    });
+
+    it('devrait rejeter un fichier binaire ou vide', () => {
+      // Arrange
+      const image = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00]);
+
+      // Assert
+      expect(() => detectDocumentFormat(image, 'photo.png')).toThrow('Type de fichier non pris en charge');
+      expect(() => detectDocumentFormat(Buffer.alloc(0))).toThrow('Type de fichier non pris en charge');
+    });
+  });
+
+  describe('extractDocument', () => {
+    it('devrait extraire les paragraphes et les propriétés d\'un document Word', () => {
+      // Act
+      const document = extractDocument(fixture('rapport.docx'), 'docx');
+
+      // Assert
+      expect(document).toEqual({
+        format: 'docx',
+        texte: [
+          '# Rapport annuel',
+          'La coopérative a doublé sa production cette année.',
+          '## Perspectives',
+          '- Ouvrir un second entrepôt'
+        ].join('\n\n'),
+        titre: 'Rapport annuel 2024',
+        auteur: 'Claire Martin',
+        pages: 3
+      });
+    });
+
+    it('devrait extraire les chapitres d\'un livre EPUB dans l\'ordre de lecture', () => {
+      // Act
+      const document = extractDocument(fixture('livre.epub'), 'epub');
+
+      // Assert
+      expect(document.titre).toBe('Le Jardin d\'hiver');
+      expect(document.auteur).toBe('Jean Dupont, Marie Curie');
+      expect(document.texte.indexOf('Premier chapitre'))
+        .toBeLessThan(document.texte.indexOf('Deuxième chapitre'));
+      expect(document.texte).toContain('Les semis lèvent au printemps.');
+      expect(document.texte).not.toContain('color: red');
+    });
+
+    it('devrait ignorer un chapitre EPUB dont le lien est mal encodé', () => {
+      // Act
+      const document = extractDocument(fixture('livre-lien-invalide.epub'), 'epub');
+
+      // Assert
+      expect(document.texte).toContain('Premier chapitre');
+      expect(document.texte).toContain('Deuxième chapitre');
+    });
+
+    it('devrait retirer la syntaxe Markdown et lire l\'en-tête', () => {
+      // Act
+      const document = extractDocument(fixture('notes.md'), 'markdown');
+
+      // Assert
+      expect(document.titre).toBe('Notes de lecture');
+      expect(document.auteur).toBe('Paul Durand');
+      expect(document.texte).toBe([
+        '# Chapitre un',
+        'Le compost se prépare en automne, avec des feuilles mortes.',
+        '- Retourner le tas chaque mois\n- Garder le tas humide',
+        'arroser --doucement'
+      ].join('\n\n'));
+    });
+
+    it('devrait décoder un texte brut encodé en Windows-1252', () => {
+      // Act
+      const document = extractDocument(fixture('menu.txt'), 'txt');
+
+      // Assert
+      expect(document.texte).toBe('Café crème et thé : le menu du jour.\nDeuxième ligne.');
+    });
+
+    it('devrait extraire le contenu principal d\'une page HTML', () => {
+      // Arrange
+      const html = Buffer.from(`<html><head><title>Le potager</title></head><body>
+        <nav>Accueil</nav>
+        <article><h1>Le potager</h1><p>${'Les tomates aiment le soleil. '.repeat(10)}</p></article>
+      </body></html>`);
+
+      // Act
+      const document = extractDocument(html, 'html');
+
+      // Assert
+      expect(document.titre).toBe('Le potager');
+      expect(document.texte).toContain('Les tomates aiment le soleil.');
+      expect(document.texte).not.toContain('Accueil');
+    });
+  });
+});
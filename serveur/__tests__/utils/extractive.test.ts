@@ -0,0 +1,97 @@
+/// <reference path="../types/jest.d.ts" />
+
+import {
+  countWords,
+  splitSentences,
+  rankSentences,
+  extractSentences,
+  summarizeExtractive
+} from '../../utils/extractive';
+
+describe('Extractive Utils', () => {
+  const article = [
+    'Le réchauffement climatique modifie les océans de la planète.',
+    'Les océans absorbent la chaleur et le carbone émis par les activités humaines.',
+    'Mon voisin a repeint sa porte en bleu hier.',
+    'La chaleur absorbée par les océans accélère la fonte des glaces polaires.',
+    'Les glaces polaires fondent et le niveau des océans augmente chaque année.'
+  ].join(' ');
+
+  describe('countWords', () => {
+    it('devrait compter les mots en ignorant les espaces multiples', () => {
+      expect(countWords('  un   deux\ntrois ')).toBe(3);
+      expect(countWords('')).toBe(0);
+    });
+  });
+
+  describe('splitSentences', () => {
+    it('devrait ne pas couper après une abréviation française', () => {
+      const phrases = splitSentences('M. Dupont est arrivé. Il a salué Mme Martin.', 'fr');
+      expect(phrases).toEqual(['M. Dupont est arrivé.', 'Il a salué Mme Martin.']);
+    });
+
+    it('devrait ne pas couper après une abréviation anglaise ou un sigle', () => {
+      const phrases = splitSentences('Dr. Smith moved to the U.S.A. Last year. He works e.g. on AI.', 'en');
+      expect(phrases).toEqual(['Dr. Smith moved to the U.S.A. Last year.', 'He works e.g. on AI.']);
+    });
+
+    it('devrait ne pas couper après une abréviation espagnole', () => {
+      const phrases = splitSentences('La Sra. García llegó ayer. Habló con el Dr. López.', 'es');
+      expect(phrases).toEqual(['La Sra. García llegó ayer.', 'Habló con el Dr. López.']);
+    });
+
+    it('devrait couper sur le point d\'interrogation arabe', () => {
+      const phrases = splitSentences('كيف حالك؟ أنا بخير.', 'ar');
+      expect(phrases).toEqual(['كيف حالك؟', 'أنا بخير.']);
+    });
+
+    it('devrait couper sur les paragraphes et les points d\'exclamation', () => {
+      const phrases = splitSentences('Bonjour ! Comment allez-vous ?\n\nTitre sans point', 'fr');
+      expect(phrases).toEqual(['Bonjour !', 'Comment allez-vous ?', 'Titre sans point']);
+    });
+  });
+
+  describe('rankSentences', () => {
+    it('devrait donner le score le plus faible à la phrase hors sujet', () => {
+      const phrases = splitSentences(article, 'fr');
+      const scores = rankSentences(phrases, 'fr');
+      expect(scores).toHaveLength(5);
+      expect(Math.min(...scores)).toBe(scores[2]);
+    });
+  });
+
+  describe('extractSentences', () => {
+    it('devrait limiter le nombre de phrases retenues', () => {
+      const phrases = extractSentences(article, { maxWords: 500, maxSentences: 2, langue: 'fr' });
+      expect(phrases).toHaveLength(2);
+      phrases.forEach((phrase) => expect(article).toContain(phrase));
+    });
+  });
+
+  describe('summarizeExtractive', () => {
+    it('devrait conserver les phrases centrales dans leur ordre d\'origine', () => {
+      const resume = summarizeExtractive(article, { maxWords: 30, langue: 'fr' });
+      expect(resume).not.toContain('voisin');
+      expect(countWords(resume)).toBeLessThanOrEqual(30);
+      const phrases = splitSentences(resume, 'fr');
+      const positions = phrases.map((phrase) => article.indexOf(phrase));
+      expect(positions).toEqual([...positions].sort((a, b) => a - b));
+    });
+
+    it('devrait être déterministe', () => {
+      const options = { maxWords: 25, langue: 'fr' as const };
+      expect(summarizeExtractive(article, options)).toBe(summarizeExtractive(article, options));
+    });
+
+    it('devrait découper une transcription sans ponctuation', () => {
+      const transcription = Array.from({ length: 200 }, (_, i) => `mot${i}`).join(' ');
+      const resume = summarizeExtractive(transcription, { maxWords: 40, langue: 'fr' });
+      expect(countWords(resume)).toBeLessThanOrEqual(40);
+      expect(countWords(resume)).toBeGreaterThan(0);
+    });
+
+    it('devrait retourner une chaîne vide pour un texte vide', () => {
+      expect(summarizeExtractive('   ', { maxWords: 50 })).toBe('');
+    });
+  });
+});
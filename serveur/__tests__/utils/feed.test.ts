@@ -0,0 +1,66 @@
+/// <reference path="../types/jest.d.ts" />
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { parseFeed } from '../../utils/feed';
+
+// Flux enregistrés servant de corpus de référence
+const fixture = (nom: string): string => (
+  readFileSync(join(__dirname, '../fixtures/flux', nom), 'utf8')
+);
+
+describe('Feed Utils', () => {
+  describe('parseFeed', () => {
+    it('devrait analyser un flux RSS 2.0', () => {
+      // Act
+      const flux = parseFeed(fixture('rss.xml'), 'https://www.lequotidien.example/sciences/rss.xml');
+
+      // Assert
+      expect(flux.format).toBe('rss');
+      expect(flux.titre).toBe('Le Quotidien - Sciences');
+      expect(flux.entrees).toEqual([
+        {
+          guid: 'lequotidien-48213',
+          titre: 'Les océans se réchauffent plus vite que prévu',
+          lien: 'https://www.lequotidien.example/sciences/oceans-rechauffement',
+          publie_le: '2024-03-05T07:30:00.000Z'
+        },
+        {
+          // Sans guid, le lien sert d'identifiant
+          guid: 'https://www.lequotidien.example/sciences/nouveau-corail',
+          titre: 'Une nouvelle espèce de corail découverte',
+          lien: 'https://www.lequotidien.example/sciences/nouveau-corail',
+          publie_le: '2024-03-04T17:00:00.000Z'
+        }
+      ]);
+    });
+
+    it('devrait analyser un flux Atom et retenir le lien alternatif', () => {
+      // Act
+      const flux = parseFeed(fixture('atom.xml'), 'https://devnotes.example/atom.xml');
+
+      // Assert
+      expect(flux.format).toBe('atom');
+      expect(flux.titre).toBe('Dev Notes');
+      expect(flux.entrees).toEqual([
+        {
+          guid: 'tag:devnotes.example,2023:event-loop',
+          titre: 'Understanding Event Loops in Node.js',
+          lien: 'https://devnotes.example/posts/event-loop',
+          publie_le: '2023-11-20T10:00:00.000Z'
+        },
+        {
+          guid: 'tag:devnotes.example,2023:streams',
+          titre: 'Streams in depth',
+          lien: 'https://devnotes.example/posts/streams',
+          publie_le: '2023-10-02T08:00:00.000Z'
+        }
+      ]);
+    });
+
+    it('devrait rejeter un document qui n\'est pas un flux', () => {
+      expect(() => parseFeed('<html><body><p>Page</p></body></html>'))
+        .toThrow('Flux RSS ou Atom invalide');
+    });
+  });
+});
@@ -15,7 +15,8 @@ import {
   formatFileSize,
   generateUniqueId,
   debounce,
-  throttle
+  throttle,
+  mapWithConcurrency
 } from '../../utils/helpers';
 
 describe('Helper Functions', () => {
@@ -104,6 +105,12 @@ describe('Helper Functions', () => {
       expect(formatted).toMatch(/December 25, 2023/);
       expect(formatted).toMatch(/12:30/);
     });
+
+    it('devrait formater les dates selon la locale de chaque langue', () => {
+      const date = new Date('2023-12-25T12:30:00');
+      expect(formatDate(date, 'es')).toMatch(/25 de diciembre de 2023/);
+      expect(formatDate(date, 'de')).toMatch(/25\. Dezember 2023/);
+    });
   });
 
   describe('truncateText', () => {
@@ -243,4 +250,26 @@ describe('Helper Functions', () => {
       expect(fn).toHaveBeenCalledTimes(2);
     });
   });
+
+  describe('mapWithConcurrency', () => {
+    it('devrait conserver l\'ordre des résultats', async () => {
+      const result = await mapWithConcurrency([3, 1, 2], 2, async (n) => n * 10);
+      expect(result).toEqual([30, 10, 20]);
+    });
+
+    it('devrait limiter le nombre d\'appels simultanés', async () => {
+      let enCours = 0;
+      let maximum = 0;
+
+      await mapWithConcurrency([1, 2, 3, 4, 5], 2, async (n) => {
+        enCours++;
+        maximum = Math.max(maximum, enCours);
+        await Promise.resolve();
+        enCours--;
+        return n;
+      });
+
+      expect(maximum).toBe(2);
+    });
+  });
 });
@@ -0,0 +1,39 @@
+/// <reference path="../types/jest.d.ts" />
+
+import { detectLanguage } from '../../utils/language';
+
+describe('Language Utils', () => {
+  describe('detectLanguage', () => {
+    const textes = {
+      fr: 'Le conseil municipal a voté hier soir le budget de la commune pour l\'année prochaine. Les élus ont décidé de rénover la piscine et d\'agrandir la bibliothèque du centre-ville.',
+      en: 'The city council voted last night on the town budget for next year. The councillors decided to renovate the swimming pool and to extend the library in the city centre.',
+      es: 'El ayuntamiento votó anoche el presupuesto del municipio para el año que viene. Los concejales decidieron renovar la piscina y ampliar la biblioteca del centro de la ciudad.',
+      de: 'Der Stadtrat hat gestern Abend den Haushalt der Gemeinde für das nächste Jahr beschlossen. Die Abgeordneten wollen das Schwimmbad renovieren und die Bibliothek in der Innenstadt erweitern.',
+      it: 'Il consiglio comunale ha votato ieri sera il bilancio del comune per il prossimo anno. I consiglieri hanno deciso di ristrutturare la piscina e di ampliare la biblioteca del centro.',
+      pt: 'A câmara municipal votou ontem à noite o orçamento do município para o próximo ano. Os vereadores decidiram reformar a piscina e ampliar a biblioteca do centro da cidade.',
+      ar: 'صوت المجلس البلدي مساء أمس على ميزانية البلدية للعام المقبل. وقرر الأعضاء تجديد المسبح وتوسيع المكتبة في وسط المدينة.'
+    };
+
+    it('devrait reconnaître chacune des langues du registre', () => {
+      Object.entries(textes).forEach(([langue, texte]) => {
+        expect(detectLanguage(texte)?.langue).toBe(langue);
+      });
+    });
+
+    it('devrait indiquer une confiance plus élevée pour un texte sans ambiguïté', () => {
+      // Act
+      const francais = detectLanguage(textes.fr);
+      const melange = detectLanguage(`${textes.fr} ${textes.en}`);
+
+      // Assert
+      expect(francais?.confiance).toBeGreaterThan(0);
+      expect(francais?.confiance).toBeLessThanOrEqual(1);
+      expect(melange?.confiance).toBeLessThan(francais?.confiance as number);
+    });
+
+    it('devrait retourner null pour un texte trop court ou sans lettres', () => {
+      expect(detectLanguage('Bonjour')).toBeNull();
+      expect(detectLanguage('12 345 678 — 90 % / 2024-01-01 12:30:00')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,226 @@
+/// <reference path="../types/jest.d.ts" />
+
+import type { Request, Response } from 'express';
+import { listClauses, paginate, parseListQuery, parsePage } from '../../utils/pagination';
+import { ListDefinition } from '../../types';
+
+// Liste de test : tri par date ou par titre, filtres sur l'archivage et le type
+const LISTE: ListDefinition = {
+  tris: {
+    cree_le: { nature: 'date', expression: "date_trunc('milliseconds', cree_le)" },
+    titre: { nature: 'texte', expression: 'titre' }
+  },
+  triParDefaut: '-cree_le',
+  filtres: {
+    est_archive: { nature: 'booleen', condition: 'est_archive = {est_archive}' },
+    cree_apres: { nature: 'date', condition: 'cree_le >= {cree_apres}' },
+    type: { nature: 'texte', valeurs: ['article', 'texte'], condition: 'type = {type}' },
+    tag: { nature: 'texte', condition: 'tag = {tag} AND ({type}::text IS NULL OR 1 = 1)' }
+  }
+};
+
+// Curseur tel que le client le reçoit
+const cursorOf = (contenu: unknown[]): string => Buffer
+  .from(JSON.stringify(contenu))
+  .toString('base64url');
+
+const createRequest = (originalUrl: string) => ({ originalUrl }) as Request;
+const createResponse = () => ({ set: jest.fn() });
+
+describe('Pagination Utils', () => {
+  describe('parseListQuery', () => {
+    it('devrait appliquer la pagination et le tri par défaut', () => {
+      // Act
+      const requete = parseListQuery({}, LISTE);
+
+      // Assert
+      expect(requete).toEqual({
+        page: 1,
+        limit: 20,
+        sort: { champ: 'cree_le', ordre: 'desc' },
+        filtres: {}
+      });
+    });
+
+    it('devrait lire la page, le tri et les filtres', () => {
+      // Act
+      const requete = parseListQuery({
+        page: '3',
+        limit: '5',
+        sort: 'titre',
+        est_archive: 'false',
+        cree_apres: '2024-03-01',
+        type: 'article',
+        q: 'ignoré'
+      }, LISTE);
+
+      // Assert
+      expect(requete).toEqual({
+        page: 3,
+        limit: 5,
+        sort: { champ: 'titre', ordre: 'asc' },
+        filtres: { est_archive: false, cree_apres: '2024-03-01T00:00:00.000Z', type: 'article' }
+      });
+    });
+
+    it('devrait rejeter un tri, une limite ou un filtre invalides', () => {
+      // Act & Assert
+      expect(() => parseListQuery({ sort: 'mot_de_passe' }, LISTE)).toThrow('Tri invalide');
+      expect(() => parseListQuery({ limit: '500' }, LISTE)).toThrow('Paramètre limit invalide');
+      expect(() => parseListQuery({ page: '0' }, LISTE)).toThrow('Paramètre page invalide');
+      expect(() => parseListQuery({ est_archive: 'oui' }, LISTE)).toThrow('Filtre est_archive');
+      expect(() => parseListQuery({ cree_apres: 'hier' }, LISTE)).toThrow('Filtre cree_apres');
+      expect(() => parseListQuery({ type: 'video' }, LISTE)).toThrow('Filtre type');
+      expect(() => parseListQuery({ type: ['article', 'texte'] }, LISTE)).toThrow('Filtre type');
+    });
+
+    it('devrait lire le curseur du tri demandé', () => {
+      // Act
+      const requete = parseListQuery({ sort: 'titre', cursor: cursorOf(['titre', 'asc', 'B', 4]) }, LISTE);
+
+      // Assert
+      expect(requete.cursor).toEqual({ champ: 'titre', ordre: 'asc', valeur: 'B', id: 4 });
+    });
+
+    it('devrait rejeter un curseur invalide ou d\'un autre tri', () => {
+      // Act & Assert
+      expect(() => parseListQuery({ cursor: 'abc' }, LISTE)).toThrow('Curseur invalide');
+      expect(() => parseListQuery({ cursor: cursorOf(['titre', 'asc', 'B', 4]) }, LISTE))
+        .toThrow('Curseur invalide pour ce tri');
+      expect(() => parseListQuery({ page: '2', cursor: cursorOf(['cree_le', 'desc', 'x', 1]) }, LISTE))
+        .toThrow('ne peuvent pas être combinés');
+    });
+
+    it('devrait rejeter un curseur dont la valeur ne convient pas au tri', () => {
+      // Act & Assert
+      expect(() => parseListQuery({ cursor: cursorOf(['cree_le', 'desc', 'hier', 1]) }, LISTE))
+        .toThrow('Curseur invalide');
+      expect(() => parseListQuery({ cursor: cursorOf(['cree_le', 'desc', '1', 1]) }, LISTE))
+        .toThrow('Curseur invalide');
+      expect(() => parseListQuery({ sort: 'titre', cursor: cursorOf(['titre', 'asc', 12, 1]) }, LISTE))
+        .toThrow('Curseur invalide');
+    });
+  });
+
+  describe('parsePage', () => {
+    it('devrait appliquer la taille de page donnée', () => {
+      // Act & Assert
+      expect(parsePage({}, 10, 50)).toEqual({ page: 1, limit: 10 });
+      expect(() => parsePage({ limit: '60' }, 10, 50)).toThrow('entier de 1 à 50');
+    });
+  });
+
+  describe('listClauses', () => {
+    it('devrait numéroter les filtres à la suite des paramètres', () => {
+      // Arrange
+      const params: unknown[] = [1];
+      const requete = parseListQuery({ tag: 'climat', est_archive: 'true' }, LISTE);
+
+      // Act
+      const { conditions, options } = listClauses(requete, LISTE, params);
+
+      // Assert
+      expect(conditions).toBe(' AND est_archive = $2 AND tag = $3 AND ($4::text IS NULL OR 1 = 1)');
+      expect(params).toEqual([1, true, 'climat', null]);
+      expect(options).toEqual({ tri: "date_trunc('milliseconds', cree_le) DESC, id DESC" });
+    });
+
+    it('devrait reprendre après le curseur, dans l\'ordre du tri', () => {
+      // Arrange
+      const params: unknown[] = [1];
+      const requete = parseListQuery({
+        cursor: cursorOf(['cree_le', 'desc', '2024-05-02T10:00:00.000Z', 9])
+      }, LISTE);
+
+      // Act
+      const { options } = listClauses(requete, LISTE, params);
+
+      // Assert
+      expect(options.apres).toEqual({
+        condition: "(date_trunc('milliseconds', cree_le), id) < ($2, $3)",
+        params: ['2024-05-02T10:00:00.000Z', 9]
+      });
+      expect(params).toEqual([1]);
+    });
+  });
+
+  describe('paginate', () => {
+    it('devrait donner les liens des pages voisines et le curseur suivant', () => {
+      // Arrange
+      const res = createResponse();
+      const requete = parseListQuery({ page: '2', limit: '2' }, LISTE);
+      const resultat = {
+        rows: [{ id: 5 }, { id: 4, cree_le: new Date('2024-05-02T10:00:00Z') }],
+        total: 7,
+        pages: 4
+      };
+
+      // Act
+      const meta = paginate(
+        createRequest('/api/notes?page=2&limit=2'),
+        res as unknown as Response,
+        requete,
+        resultat
+      );
+
+      // Assert
+      expect(meta).toEqual({
+        page: 2,
+        limit: 2,
+        total: 7,
+        pages: 4,
+        curseur_suivant: cursorOf(['cree_le', 'desc', '2024-05-02T10:00:00.000Z', 4])
+      });
+      expect(res.set).toHaveBeenCalledWith('Link', [
+        '</api/notes?page=1&limit=2>; rel="first"',
+        '</api/notes?page=1&limit=2>; rel="prev"',
+        '</api/notes?page=3&limit=2>; rel="next"',
+        '</api/notes?page=4&limit=2>; rel="last"'
+      ].join(', '));
+    });
+
+    it('devrait donner la page suivante par curseur', () => {
+      // Arrange
+      const res = createResponse();
+      const cursor = cursorOf(['titre', 'asc', 'B', 4]);
+      const requete = parseListQuery({ sort: 'titre', limit: '1', cursor }, LISTE);
+
+      // Act
+      const meta = paginate(
+        createRequest(`/api/notes?sort=titre&limit=1&cursor=${cursor}`),
+        res as unknown as Response,
+        requete,
+        { rows: [{ id: 2, titre: 'C' }], total: 3, pages: 3 }
+      );
+
+      // Assert
+      const suivant = cursorOf(['titre', 'asc', 'C', 2]);
+      expect(meta).toEqual({ limit: 1, total: 3, pages: 3, curseur_suivant: suivant });
+      expect(res.set).toHaveBeenCalledWith('Link', [
+        '</api/notes?sort=titre&limit=1>; rel="first"',
+        `</api/notes?sort=titre&limit=1&cursor=${suivant}>; rel="next"`
+      ].join(', '));
+    });
+
+    it('devrait se limiter à la première et à la dernière page d\'une liste vide', () => {
+      // Arrange
+      const res = createResponse();
+
+      // Act
+      const meta = paginate(
+        createRequest('/api/resumes/recherche?q=climat'),
+        res as unknown as Response,
+        { page: 1, limit: 10 },
+        { rows: [], total: 0, pages: 0 }
+      );
+
+      // Assert
+      expect(meta.curseur_suivant).toBeNull();
+      expect(res.set).toHaveBeenCalledWith(
+        'Link',
+        '</api/resumes/recherche?q=climat&page=1>; rel="first", '
+          + '</api/resumes/recherche?q=climat&page=1>; rel="last"'
+      );
+    });
+  });
+});
@@ -0,0 +1,106 @@
+/// <reference path="../types/jest.d.ts" />
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { extractArticle } from '../../utils/readability';
+
+// Pages HTML enregistrées servant de corpus de référence
+const fixture = (nom: string): string => (
+  readFileSync(join(__dirname, '../fixtures/html', nom), 'utf8')
+);
+
+describe('Readability Utils', () => {
+  describe('extractArticle', () => {
+    describe('article de presse', () => {
+      const article = extractArticle(
+        fixture('article-presse.html'),
+        'https://www.lequotidien.example/sciences/oceans-rechauffement?utm_source=rss'
+      );
+
+      it('devrait extraire les métadonnées des balises meta', () => {
+        expect(article.titre).toBe('Les océans se réchauffent plus vite que prévu');
+        expect(article.auteur).toBe('Claire Martin');
+        expect(article.date_publication).toBe('2024-03-05T07:30:00.000Z');
+        expect(article.url_canonique).toBe('https://www.lequotidien.example/sciences/oceans-rechauffement');
+      });
+
+      it('devrait conserver les paragraphes et les titres de l\'article', () => {
+        expect(article.texte).toContain('# Les océans se réchauffent plus vite que prévu');
+        expect(article.texte).toContain('## Des conséquences sur la biodiversité marine');
+        expect(article.texte).toContain('Une étude publiée mardi dans la revue Nature');
+        expect(article.texte).toContain('écosystèmes côtiers.');
+        expect(article.texte.split('\n\n')).toHaveLength(6);
+      });
+
+      it('devrait supprimer la navigation, les bandeaux, les commentaires et le pied de page', () => {
+        [
+          'cookies', 'Politique', 'Partager', 'À lire aussi', 'Commentaires',
+          'rien de nouveau', 'Les plus lus', 'Mentions légales'
+        ].forEach((parasite) => expect(article.texte).not.toContain(parasite));
+      });
+    });
+
+    describe('billet de blog', () => {
+      const article = extractArticle(
+        fixture('blog-json-ld.html'),
+        'https://devnotes.example/posts/event-loop?ref=home'
+      );
+
+      it('devrait lire les métadonnées JSON-LD en ignorant les blocs invalides', () => {
+        expect(article.titre).toBe('Understanding Event Loops in Node.js');
+        expect(article.auteur).toBe('Sam Lee, Alex Kim');
+        expect(article.date_publication).toBe('2023-11-20T10:00:00.000Z');
+      });
+
+      it('devrait résoudre une URL canonique relative', () => {
+        expect(article.url_canonique).toBe('https://devnotes.example/posts/event-loop');
+      });
+
+      it('devrait conserver les listes et la mise en forme du code', () => {
+        expect(article.texte).toContain('- Timers run callbacks scheduled by setTimeout and setInterval.');
+        expect(article.texte).toContain('setImmediate(() => {\n  console.log(\'check phase\');\n});');
+        expect(article.texte).toContain('long computations belong in worker threads.');
+      });
+
+      it('devrait écarter le menu, la barre latérale et l\'inscription à la newsletter', () => {
+        ['Archive', 'Recent posts', 'Streams in depth', 'Subscribe']
+          .forEach((parasite) => expect(article.texte).not.toContain(parasite));
+      });
+    });
+
+    describe('page sans balises sémantiques', () => {
+      const article = extractArticle(fixture('page-sans-semantique.html'));
+
+      it('devrait retenir la cellule la plus dense et découper sur les sauts de ligne', () => {
+        const paragraphes = article.texte.split('\n\n');
+        expect(paragraphes).toEqual([
+          'La tarte aux pommes de grand-mère',
+          expect.stringMatching(/^Préchauffez le four/),
+          expect.stringMatching(/^Épluchez six pommes/),
+          expect.stringMatching(/^Saupoudrez de sucre/)
+        ]);
+      });
+
+      it('devrait retirer le nom du site du titre de la page', () => {
+        expect(article.titre).toBe('Recette : la tarte aux pommes de grand-mère');
+        expect(article.auteur).toBeNull();
+        expect(article.date_publication).toBe('2022-09-14T00:00:00.000Z');
+        expect(article.url_canonique).toBeNull();
+      });
+    });
+
+    it('devrait se rabattre sur le corps de la page sans paragraphe identifiable', () => {
+      // Act
+      const article = extractArticle(fixture('texte-brut.html'), 'https://exemple.fr/note');
+
+      // Assert
+      expect(article.texte).toBe('Un simple texte sans balise de paragraphe.');
+      expect(article.titre).toBe('Note');
+      expect(article.url_canonique).toBe('https://exemple.fr/note');
+    });
+
+    it('devrait retourner un texte vide pour un document vide', () => {
+      expect(extractArticle('').texte).toBe('');
+    });
+  });
+});
@@ -0,0 +1,33 @@
+/// <reference path="../types/jest.d.ts" />
+
+import { rankPassages } from '../../utils/retrieval';
+
+describe('Retrieval Utils', () => {
+  describe('rankPassages', () => {
+    const passages = [
+      'Le conseil municipal a présenté le budget de la commune pour l\'année prochaine.',
+      'La piscine sera rénovée et la bibliothèque du centre-ville agrandie.',
+      'Les travaux de la bibliothèque commenceront au printemps, pour un coût de deux millions d\'euros.'
+    ];
+
+    it('devrait classer en premier le passage le plus pertinent', () => {
+      // Act
+      const classement = rankPassages(passages, 'Combien coûteront les travaux de la bibliothèque ?', 'fr');
+
+      // Assert
+      expect(classement[0].index).toBe(2);
+      expect(classement.map((passage) => passage.index)).toEqual([2, 1]);
+      expect(classement[0].score).toBeGreaterThan(classement[1].score);
+    });
+
+    it('devrait rapprocher les formes d\'un même mot', () => {
+      expect(rankPassages(passages, 'Quelles rénovations ?', 'fr').map((passage) => passage.index))
+        .toEqual([1]);
+    });
+
+    it('devrait ne retourner aucun passage sans mot commun avec la question', () => {
+      expect(rankPassages(passages, 'Qui a gagné le match de football ?', 'fr')).toEqual([]);
+      expect(rankPassages(passages, 'Et alors ?', 'fr')).toEqual([]);
+    });
+  });
+});
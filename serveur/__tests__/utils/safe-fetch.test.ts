@@ -0,0 +1,227 @@
+/// <reference path="../types/jest.d.ts" />
+
+import http from 'http';
+import dns from 'dns';
+import zlib from 'zlib';
+import { EventEmitter } from 'events';
+import { Readable } from 'stream';
+import { isPublicAddress, safeFetch, fetchText } from '../../utils/safe-fetch';
+
+interface FakeResponse {
+  statut?: number;
+  headers?: Record<string, string>;
+  corps?: string | Buffer;
+}
+
+/**
+ * Simule le réseau : chaque URL connue reçoit la réponse associée, les autres
+ * ne répondent jamais. La résolution DNS passe par l'option `lookup` de la requête.
+ */
+const mockNetwork = (reponses: Record<string, FakeResponse>): jest.SpyInstance => (
+  jest.spyOn(http, 'request').mockImplementation(((
+    adresse: URL,
+    options: http.RequestOptions,
+    callback: (reponse: http.IncomingMessage) => void
+  ) => {
+    const requete = Object.assign(new EventEmitter(), {
+      end: () => {
+        options.lookup?.(adresse.hostname, {}, (error) => {
+          if (error) {
+            requete.emit('error', error);
+            return;
+          }
+
+          const reponse = reponses[adresse.toString()];
+          if (!reponse) {
+            return;
+          }
+          callback(Object.assign(Readable.from([Buffer.from(reponse.corps || '')]), {
+            statusCode: reponse.statut || 200,
+            headers: reponse.headers || { 'content-type': 'text/html; charset=utf-8' },
+            complete: true
+          }) as unknown as http.IncomingMessage);
+        });
+      }
+    });
+    options.signal?.addEventListener('abort', () => requete.emit('error', new Error('aborted')));
+    return requete;
+  }) as unknown as typeof http.request)
+);
+
+describe('Safe Fetch Utils', () => {
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    // intranet.example pointe vers le réseau interne, les autres noms vers une IP publique
+    jest.spyOn(dns, 'lookup').mockImplementation(((
+      hote: string,
+      _options: dns.LookupOptions,
+      callback: (error: null, adresses: dns.LookupAddress[]) => void
+    ) => {
+      callback(null, [{ address: hote === 'intranet.example' ? '10.0.0.8' : '93.184.216.34', family: 4 }]);
+    }) as unknown as typeof dns.lookup);
+  });
+
+  describe('isPublicAddress', () => {
+    it('devrait refuser les adresses internes', () => {
+      [
+        '127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.1', '169.254.169.254',
+        '100.64.0.1', '0.0.0.0', '::1', 'fe80::1', 'fd00::1', '::ffff:127.0.0.1',
+        '::127.0.0.1', '::a9fe:a9fe', '2002:7f00:1::1', '2002:a9fe:a9fe::',
+        '2001:0:4136:e378:8000:63bf:80ff:fffe'
+      ].forEach((adresse) => expect(isPublicAddress(adresse)).toBe(false));
+    });
+
+    it('devrait accepter les adresses publiques', () => {
+      ['93.184.216.34', '8.8.8.8', '2606:4700::1111', '2001:4860:4860::8888', '::ffff:8.8.8.8']
+        .forEach((adresse) => expect(isPublicAddress(adresse)).toBe(true));
+    });
+
+    it('devrait refuser une valeur qui n\'est pas une adresse IP', () => {
+      expect(isPublicAddress('localhost')).toBe(false);
+    });
+  });
+
+  describe('safeFetch', () => {
+    it('devrait refuser les protocoles autres que HTTP et HTTPS', async () => {
+      await expect(safeFetch('file:///etc/passwd')).rejects.toMatchObject({ status: 400 });
+    });
+
+    it('devrait refuser une IP littérale interne sans la contacter', async () => {
+      // Arrange
+      const requete = mockNetwork({});
+
+      // Act & Assert
+      await expect(safeFetch('http://169.254.169.254/latest/meta-data/'))
+        .rejects
+        .toThrow('Adresse non autorisée');
+      await expect(safeFetch('http://[::1]:8080/')).rejects.toThrow('Adresse non autorisée');
+      expect(requete).not.toHaveBeenCalled();
+    });
+
+    it('devrait refuser un nom résolu vers une adresse interne', async () => {
+      // Arrange
+      mockNetwork({ 'http://intranet.example/': { corps: 'secret' } });
+
+      // Act & Assert
+      await expect(safeFetch('http://intranet.example/')).rejects.toMatchObject({
+        message: 'Adresse non autorisée',
+        status: 400
+      });
+    });
+
+    it('devrait revalider chaque redirection', async () => {
+      // Arrange
+      mockNetwork({
+        'http://site.example/': { statut: 302, headers: { location: 'http://intranet.example/admin' } },
+        'http://intranet.example/admin': { corps: 'secret' }
+      });
+
+      // Act & Assert
+      await expect(safeFetch('http://site.example/')).rejects.toThrow('Adresse non autorisée');
+    });
+
+    it('devrait suivre une redirection autorisée et décompresser le contenu', async () => {
+      // Arrange
+      mockNetwork({
+        'http://site.example/': { statut: 301, headers: { location: '/article' } },
+        'http://site.example/article': {
+          headers: { 'content-type': 'text/html; charset=UTF-8', 'content-encoding': 'gzip' },
+          corps: zlib.gzipSync('<p>Bonjour</p>')
+        }
+      });
+
+      // Act
+      const reponse = await safeFetch('http://site.example/');
+
+      // Assert
+      expect(reponse).toMatchObject({
+        url: 'http://site.example/article',
+        statut: 200,
+        typeContenu: 'text/html',
+        charset: 'utf-8'
+      });
+      expect(reponse.corps.toString()).toBe('<p>Bonjour</p>');
+    });
+
+    it('devrait transmettre les en-têtes conditionnels et accepter une réponse 304', async () => {
+      // Arrange
+      const requete = mockNetwork({
+        'http://site.example/flux.xml': { statut: 304, headers: { etag: '"v2"' } }
+      });
+
+      // Act
+      const reponse = await safeFetch('http://site.example/flux.xml', {
+        entetes: { 'If-None-Match': '"v2"' },
+        typesAcceptes: ['application/rss+xml']
+      });
+
+      // Assert
+      expect(requete.mock.calls[0][1].headers).toMatchObject({ 'If-None-Match': '"v2"' });
+      expect(reponse).toMatchObject({ statut: 304, etag: '"v2"', derniereModification: null });
+      expect(reponse.corps).toHaveLength(0);
+    });
+
+    it('devrait refuser un type de contenu non accepté', async () => {
+      // Arrange
+      mockNetwork({
+        'http://site.example/archive.zip': { headers: { 'content-type': 'application/zip' } }
+      });
+
+      // Act & Assert
+      await expect(safeFetch('http://site.example/archive.zip', { typesAcceptes: ['text/html'] }))
+        .rejects
+        .toMatchObject({ status: 415 });
+    });
+
+    it('devrait interrompre un contenu trop volumineux une fois décompressé', async () => {
+      // Arrange
+      mockNetwork({
+        'http://site.example/bombe': {
+          headers: { 'content-type': 'text/html', 'content-encoding': 'gzip' },
+          corps: zlib.gzipSync(Buffer.alloc(100000))
+        }
+      });
+
+      // Act & Assert
+      await expect(safeFetch('http://site.example/bombe', { tailleMax: 1000 }))
+        .rejects
+        .toMatchObject({ status: 413 });
+    });
+
+    it('devrait rejeter une réponse en erreur', async () => {
+      // Arrange
+      mockNetwork({ 'http://site.example/absent': { statut: 404 } });
+
+      // Act & Assert
+      await expect(safeFetch('http://site.example/absent')).rejects.toMatchObject({ status: 502 });
+    });
+
+    it('devrait abandonner après le délai maximal', async () => {
+      // Arrange
+      mockNetwork({});
+
+      // Act & Assert
+      await expect(safeFetch('http://lent.example/', { delaiMs: 20 }))
+        .rejects
+        .toMatchObject({ status: 504 });
+    });
+  });
+
+  describe('fetchText', () => {
+    it('devrait décoder le texte selon le charset déclaré dans la page', async () => {
+      // Arrange
+      mockNetwork({
+        'http://site.example/ancien': {
+          headers: { 'content-type': 'text/html' },
+          corps: Buffer.from('<meta charset="iso-8859-1"><p>Été</p>', 'latin1')
+        }
+      });
+
+      // Act
+      const { texte } = await fetchText('http://site.example/ancien');
+
+      // Assert
+      expect(texte).toContain('<p>Été</p>');
+    });
+  });
+});
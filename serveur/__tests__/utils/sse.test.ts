@@ -0,0 +1,77 @@
+/// <reference path="../types/jest.d.ts" />
+
+import { EventEmitter } from 'events';
+import type { Response } from 'express';
+import { openEventStream } from '../../utils/sse';
+
+// Réponse HTTP minimale capable d'émettre `close`
+const createStreamResponse = () => {
+  const res = Object.assign(new EventEmitter(), {
+    writableEnded: false,
+    status: jest.fn().mockReturnThis(),
+    set: jest.fn().mockReturnThis(),
+    flushHeaders: jest.fn(),
+    write: jest.fn(),
+    end: jest.fn(() => {
+      res.writableEnded = true;
+      res.emit('close');
+    })
+  });
+  return res;
+};
+
+describe('SSE Utils', () => {
+  describe('openEventStream', () => {
+    it('devrait envoyer les en-têtes et les événements au format SSE', () => {
+      // Arrange
+      const res = createStreamResponse();
+
+      // Act
+      const flux = openEventStream(res as unknown as Response);
+      flux.send('token', { texte: 'Bonjour' });
+      flux.close();
+
+      // Assert
+      expect(res.set).toHaveBeenCalledWith(expect.objectContaining({
+        'Content-Type': 'text/event-stream; charset=utf-8'
+      }));
+      expect(res.flushHeaders).toHaveBeenCalled();
+      expect(res.write).toHaveBeenCalledWith('event: token\ndata: {"texte":"Bonjour"}\n\n');
+      expect(res.end).toHaveBeenCalledTimes(1);
+      expect(flux.signal.aborted).toBe(false);
+    });
+
+    it('devrait interrompre le flux lorsque le client se déconnecte', () => {
+      // Arrange
+      const res = createStreamResponse();
+      const flux = openEventStream(res as unknown as Response);
+
+      // Act
+      res.emit('close');
+      flux.send('token', { texte: 'Perdu' });
+      flux.close();
+
+      // Assert
+      expect(flux.signal.aborted).toBe(true);
+      expect(res.write).not.toHaveBeenCalled();
+      expect(res.end).not.toHaveBeenCalled();
+    });
+
+    it('devrait envoyer des commentaires de maintien de connexion', () => {
+      // Arrange
+      jest.useFakeTimers();
+      const res = createStreamResponse();
+
+      // Act
+      const flux = openEventStream(res as unknown as Response, 1000);
+      jest.advanceTimersByTime(2500);
+      flux.close();
+      jest.advanceTimersByTime(2000);
+
+      // Assert
+      expect(res.write).toHaveBeenCalledTimes(2);
+      expect(res.write).toHaveBeenCalledWith(': ping\n\n');
+      jest.useRealTimers();
+    });
+  });
+});
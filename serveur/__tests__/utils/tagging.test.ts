@@ -0,0 +1,90 @@
+/// <reference path="../types/jest.d.ts" />
+
+import {
+  detectTheme,
+  extractEntities,
+  scoreKeywords,
+  termFrequencies
+} from '../../utils/tagging';
+
+describe('Tagging Utils', () => {
+  const article = 'Le président Emmanuel Macron a reçu hier à Paris les dirigeants de la Banque de France. '
+    + 'Selon M. Dupont, l\'ONU suivra la réunion. Emmanuel Macron a ensuite rencontré Angela Merkel '
+    + 'à Berlin. Le gouvernement prépare une réforme et le ministre défend le budget devant le Parlement.';
+
+  describe('termFrequencies', () => {
+    it('devrait compter les mots significatifs sans les nombres ni les mots vides', () => {
+      // Act
+      const frequences = termFrequencies('Le climat change, le climat se réchauffe de 2 degrés en 2024.', 'fr');
+
+      // Assert
+      expect(frequences.get('climat')).toBe(2);
+      expect(frequences.has('2024')).toBe(false);
+      expect(frequences.has('les')).toBe(false);
+    });
+  });
+
+  describe('scoreKeywords', () => {
+    it('devrait privilégier les termes rares dans le corpus de l\'utilisateur', () => {
+      // Arrange
+      const frequences = new Map([['climat', 3], ['glacier', 3], ['alpes', 1]]);
+      const corpus = { documents: 10, frequences: new Map([['climat', 9], ['glacier', 1], ['alpes', 1]]) };
+
+      // Act
+      const motsCles = scoreKeywords(frequences, corpus, 2);
+
+      // Assert
+      expect(motsCles.map((motCle) => motCle.libelle)).toEqual(['glacier', 'climat']);
+      expect(motsCles[0]).toMatchObject({ type: 'mot_cle' });
+      expect(motsCles[0].score).toBeGreaterThan(motsCles[1].score);
+    });
+  });
+
+  describe('extractEntities', () => {
+    it('devrait classer les personnes, organisations et lieux', () => {
+      // Act
+      const entites = extractEntities(article, 'fr', 10);
+
+      // Assert
+      expect(entites).toEqual(expect.arrayContaining([
+        { libelle: 'Emmanuel Macron', type: 'personne', score: 2 },
+        { libelle: 'Angela Merkel', type: 'personne', score: 1 },
+        { libelle: 'Dupont', type: 'personne', score: 1 },
+        { libelle: 'Banque de France', type: 'organisation', score: 1 },
+        { libelle: 'ONU', type: 'organisation', score: 1 },
+        { libelle: 'Paris', type: 'lieu', score: 1 },
+        { libelle: 'Berlin', type: 'lieu', score: 1 }
+      ]));
+      expect(entites[0].libelle).toBe('Emmanuel Macron');
+      // Mots en début de phrase et noms isolés sans indice
+      expect(entites.map((entite) => entite.libelle)).not.toEqual(expect.arrayContaining(['Selon']));
+      expect(entites.map((entite) => entite.libelle)).not.toContain('Parlement');
+    });
+
+    it('devrait rattacher un nom de famille seul à la personne déjà nommée', () => {
+      // Act
+      const entites = extractEntities(
+        'President Joe Biden met Microsoft executives in Seattle on Monday. Biden said the market would grow.',
+        'en',
+        10
+      );
+
+      // Assert
+      expect(entites).toContainEqual({ libelle: 'Joe Biden', type: 'personne', score: 2 });
+      expect(entites).toContainEqual({ libelle: 'Seattle', type: 'lieu', score: 1 });
+    });
+  });
+
+  describe('detectTheme', () => {
+    it('devrait attribuer le thème le plus représenté', () => {
+      expect(detectTheme(termFrequencies(article, 'fr'), 'fr')).toMatchObject({
+        libelle: 'politique',
+        type: 'theme'
+      });
+    });
+
+    it('devrait ne pas attribuer de thème sans mots caractéristiques', () => {
+      expect(detectTheme(termFrequencies('Il pleut sur la ville depuis ce matin.', 'fr'), 'fr')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,103 @@
+/// <reference path="../types/jest.d.ts" />
+
+import {
+  formatTimestamp,
+  normalizeCaptions,
+  segmentByDuration,
+  segmentByTopic
+} from '../../utils/transcript';
+import { TranscriptCaption } from '../../types';
+
+// Un sous-titre toutes les 10 secondes pour chaque phrase donnée
+const captionsFrom = (phrases: string[], depart: number = 0): TranscriptCaption[] => (
+  phrases.map((texte, index) => ({ debut: depart + index * 10, duree: 10, texte }))
+);
+
+describe('Transcript Utils', () => {
+  describe('normalizeCaptions', () => {
+    it('devrait convertir les horodatages et écarter les sous-titres vides', () => {
+      // Act
+      const sousTitres = normalizeCaptions([
+        { start: '12.5', dur: '3.2', text: 'Deuxième  phrase' },
+        { start: '4', dur: '2', text: '  ' },
+        { start: '0.4', dur: '4.1', text: 'Première phrase' }
+      ]);
+
+      // Assert
+      expect(sousTitres).toEqual([
+        { debut: 0.4, duree: 4.1, texte: 'Première phrase' },
+        { debut: 12.5, duree: 3.2, texte: 'Deuxième phrase' }
+      ]);
+    });
+  });
+
+  describe('formatTimestamp', () => {
+    it('devrait formater une position au format hh:mm:ss', () => {
+      // Assert
+      expect(formatTimestamp(0)).toBe('00:00:00');
+      expect(formatTimestamp(75.8)).toBe('00:01:15');
+      expect(formatTimestamp(3723)).toBe('01:02:03');
+    });
+  });
+
+  describe('segmentByDuration', () => {
+    it('devrait découper la transcription en fenêtres de durée fixe', () => {
+      // Arrange
+      const sousTitres = captionsFrom(Array.from({ length: 15 }, (_, index) => `Phrase ${index}`));
+
+      // Act
+      const segments = segmentByDuration(sousTitres, 60, 20);
+
+      // Assert
+      expect(segments.map(({ debut, fin }) => [debut, fin])).toEqual([[0, 60], [60, 120], [120, 150]]);
+      expect(segments[0].texte).toBe('Phrase 0 Phrase 1 Phrase 2 Phrase 3 Phrase 4 Phrase 5');
+    });
+
+    it('devrait élargir la fenêtre pour ne pas dépasser le nombre de segments', () => {
+      // Arrange
+      const sousTitres = captionsFrom(Array.from({ length: 60 }, (_, index) => `Phrase ${index}`));
+
+      // Act
+      const segments = segmentByDuration(sousTitres, 60, 3);
+
+      // Assert
+      expect(segments).toHaveLength(3);
+      expect(segments.map(({ debut }) => debut)).toEqual([0, 200, 400]);
+    });
+  });
+
+  describe('segmentByTopic', () => {
+    it('devrait couper la transcription au changement de sujet', () => {
+      // Arrange
+      const jardin = captionsFrom(Array.from({ length: 18 }, () => (
+        'Les tomates du potager poussent au soleil, le jardinier arrose les tomates et les salades'
+      )));
+      const finances = captionsFrom(Array.from({ length: 18 }, () => (
+        'La banque centrale relève ses taux, les marchés financiers et les investisseurs réagissent'
+      )), 180);
+
+      // Act
+      const segments = segmentByTopic([...jardin, ...finances], 'fr', 10);
+
+      // Assert
+      expect(segments).toHaveLength(2);
+      expect(segments[1].debut).toBe(180);
+      expect(segments[0].texte).toContain('tomates');
+      expect(segments[0].texte).not.toContain('banque');
+    });
+
+    it('devrait conserver un seul segment pour un sujet unique', () => {
+      // Arrange
+      const sousTitres = captionsFrom(Array.from({ length: 30 }, () => (
+        'Les tomates du potager poussent au soleil et le jardinier les arrose chaque matin'
+      )));
+
+      // Act
+      const segments = segmentByTopic(sousTitres, 'fr', 10);
+
+      // Assert
+      expect(segments).toHaveLength(1);
+      expect(segments[0]).toMatchObject({ debut: 0, fin: 300 });
+    });
+  });
+});
@@ -0,0 +1,93 @@
+/// <reference path="../types/jest.d.ts" />
+
+import crypto from 'crypto';
+import config from '../../config/config';
+import {
+  generateVaultSalt,
+  deriveVaultKey,
+  encryptSecret,
+  decryptSecret,
+  decryptLegacySecret,
+  detectVaultFormat
+} from '../../utils/vault';
+
+describe('Vault Utils', () => {
+  const sel = '00112233445566778899aabbccddeeff';
+
+  describe('generateVaultSalt', () => {
+    it('devrait générer des sels hexadécimaux uniques', () => {
+      const sel1 = generateVaultSalt();
+      const sel2 = generateVaultSalt();
+      expect(sel1).toMatch(/^[0-9a-f]{32}$/);
+      expect(sel1).not.toBe(sel2);
+    });
+  });
+
+  describe('deriveVaultKey', () => {
+    it('devrait dériver une clé stable pour un même PIN et un même sel', async () => {
+      const cle1 = await deriveVaultKey('123456', sel);
+      const cle2 = await deriveVaultKey('123456', sel);
+      expect(cle1).toHaveLength(32);
+      expect(cle1.equals(cle2)).toBe(true);
+    });
+
+    it('devrait dériver des clés différentes selon le PIN ou le sel', async () => {
+      const cle = await deriveVaultKey('123456', sel);
+      const autrePin = await deriveVaultKey('654321', sel);
+      const autreSel = await deriveVaultKey('123456', generateVaultSalt());
+      expect(cle.equals(autrePin)).toBe(false);
+      expect(cle.equals(autreSel)).toBe(false);
+    });
+  });
+
+  describe('encryptSecret / decryptSecret', () => {
+    it('devrait chiffrer puis déchiffrer un secret', async () => {
+      const cle = await deriveVaultKey('123456', sel);
+      const chiffre = encryptSecret('Mot de passe àé€', cle);
+      expect(chiffre).toMatch(/^v1:/);
+      expect(decryptSecret(chiffre, cle)).toBe('Mot de passe àé€');
+    });
+
+    it('devrait utiliser un IV différent à chaque chiffrement', async () => {
+      const cle = await deriveVaultKey('123456', sel);
+      expect(encryptSecret('secret', cle)).not.toBe(encryptSecret('secret', cle));
+    });
+
+    it('devrait rejeter une clé incorrecte', async () => {
+      const cle = await deriveVaultKey('123456', sel);
+      const mauvaiseCle = await deriveVaultKey('654321', sel);
+      const chiffre = encryptSecret('secret', cle);
+      expect(() => decryptSecret(chiffre, mauvaiseCle)).toThrow();
+    });
+
+    it('devrait détecter une donnée altérée', async () => {
+      const cle = await deriveVaultKey('123456', sel);
+      const [version, iv, chiffre, tag] = encryptSecret('secret', cle).split(':');
+      const altere = Buffer.from(chiffre, 'base64');
+      altere[0] ^= 0xff;
+      expect(() => decryptSecret([version, iv, altere.toString('base64'), tag].join(':'), cle))
+        .toThrow();
+    });
+  });
+
+  describe('decryptLegacySecret', () => {
+    it('devrait déchiffrer le format des anciennes routes JavaScript', () => {
+      const cle = crypto.scryptSync(config.JWT_SECRET, 'sel', 32);
+      const iv = crypto.randomBytes(16);
+      const cipher = crypto.createCipheriv('aes-256-gcm', cle, iv);
+      const chiffre = Buffer.concat([cipher.update('ancien', 'utf8'), cipher.final()]);
+      const payload = `${iv.toString('hex')}:${chiffre.toString('hex')}:${cipher.getAuthTag().toString('hex')}`;
+
+      expect(detectVaultFormat(payload)).toBe('legacy_gcm');
+      expect(decryptLegacySecret(payload)).toBe('ancien');
+    });
+  });
+
+  describe('detectVaultFormat', () => {
+    it('devrait reconnaître les différents formats', async () => {
+      const cle = await deriveVaultKey('123456', sel);
+      expect(detectVaultFormat(encryptSecret('secret', cle))).toBe('v1');
+      expect(detectVaultFormat('$2b$10$abcdefghijklmnopqrstuvwxyz0123456789')).toBe('bcrypt');
+    });
+  });
+});
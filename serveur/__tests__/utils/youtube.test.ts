@@ -0,0 +1,56 @@
+/// <reference path="../types/jest.d.ts" />
+
+import { parseCaptionTracks, selectCaptionTrack } from '../../utils/youtube';
+import { CaptionTrack } from '../../types';
+
+// Extrait de la page d'une vidéo, telle que la sert YouTube
+const page = (pistes: object[]): string => (
+  `<script>var ytInitialPlayerResponse = {"captions":{"playerCaptionsTracklistRenderer":{"captionTracks":${JSON.stringify(pistes)},"audioTracks":[]}}};</script>`
+);
+
+const piste = (langue: string, automatique: boolean = false): CaptionTrack => ({
+  langue,
+  nom: null,
+  automatique
+});
+
+describe('YouTube Utils', () => {
+  describe('parseCaptionTracks', () => {
+    it('devrait lister les pistes rédigées et générées automatiquement', () => {
+      // Act
+      const pistes = parseCaptionTracks(page([
+        { baseUrl: 'https://www.youtube.com/api/timedtext?lang=de', name: { simpleText: 'German [DE]' }, vssId: '.de', languageCode: 'de' },
+        { baseUrl: 'https://www.youtube.com/api/timedtext?lang=en', name: { runs: [{ text: 'English (auto-generated)' }] }, vssId: 'a.en', languageCode: 'en', kind: 'asr' }
+      ]));
+
+      // Assert
+      expect(pistes).toEqual([
+        { langue: 'de', nom: 'German [DE]', automatique: false },
+        { langue: 'en', nom: 'English (auto-generated)', automatique: true }
+      ]);
+    });
+
+    it('devrait retourner une liste vide pour une vidéo sans sous-titres', () => {
+      // Assert
+      expect(parseCaptionTracks('<html><body>Vidéo sans sous-titres</body></html>')).toEqual([]);
+    });
+  });
+
+  describe('selectCaptionTrack', () => {
+    it('devrait préférer la langue demandée, sous-titres rédigés en priorité', () => {
+      // Arrange
+      const pistes = [piste('en'), piste('fr', true), piste('fr-CA')];
+
+      // Assert
+      expect(selectCaptionTrack(pistes, 'fr')).toEqual(piste('fr-CA'));
+    });
+
+    it('devrait se replier sur l\'anglais, puis sur une piste générée automatiquement', () => {
+      // Assert
+      expect(selectCaptionTrack([piste('de'), piste('en', true)], 'fr')).toEqual(piste('en', true));
+      expect(selectCaptionTrack([piste('de'), piste('es', true)], 'fr')).toEqual(piste('es', true));
+      expect(selectCaptionTrack([piste('de')], 'fr')).toEqual(piste('de'));
+      expect(selectCaptionTrack([], 'fr')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,33 @@
+/// <reference path="../types/jest.d.ts" />
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { openZip } from '../../utils/zip';
+
+describe('Zip Utils', () => {
+  const archive = readFileSync(join(__dirname, '../fixtures/documents/livre.epub'));
+
+  it('devrait lister et lire les entrées stockées ou compressées', () => {
+    // Act
+    const zip = openZip(archive);
+
+    // Assert
+    expect(zip.entrees).toContain('OEBPS/content.opf');
+    expect(zip.has('META-INF/container.xml')).toBe(true);
+    expect(zip.readText('mimetype')).toBe('application/epub+zip');
+    expect(zip.readText('OEBPS/texte/chapitre1.xhtml')).toContain('Premier chapitre');
+  });
+
+  it('devrait refuser de décompresser au-delà de la taille maximale', () => {
+    // Arrange
+    const zip = openZip(archive, 100);
+
+    // Act & Assert
+    expect(() => zip.read('OEBPS/content.opf')).toThrow('Contenu du fichier trop volumineux');
+  });
+
+  it('devrait rejeter un fichier qui n\'est pas une archive ZIP', () => {
+    // Act & Assert
+    expect(() => openZip(Buffer.from('PK\x03\x04 tronqué'))).toThrow('Archive ZIP invalide');
+  });
+});
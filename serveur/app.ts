@@ -0,0 +1,86 @@
+import express from 'express';
+import type { Express, Request, Response } from 'express';
+import helmet from 'helmet';
+import cors from 'cors';
+import fileUpload from 'express-fileupload';
+import { join } from 'path';
+import config from './config/config';
+import db from './utils/db';
+import {
+  errorHandler,
+  notFoundHandler,
+  jsonSyntaxErrorHandler,
+} from './middleware/errorHandler';
+import {
+  rateLimiter,
+  corsOptions,
+  helmetConfig,
+  sanitizeInput,
+  checkContentType,
+} from './middleware/security';
+
+// Import des routes
+import authRoutes from './routes/auth';
+import resumesRoutes from './routes/resumes';
+import motsDePasseRoutes from './routes/motsDePasse';
+import notesRoutes from './routes/notes';
+import adminRoutes from './routes/admin';
+import fluxRoutes from './routes/flux';
+
+// Création de l'application Express (démarrée par serveur.ts)
+const app: Express = express();
+
+// Configuration des middlewares de base
+app.use(helmet(helmetConfig));
+app.use(cors(corsOptions));
+app.use(express.json());
+app.use(express.urlencoded({ extended: true }));
+app.use(rateLimiter);
+
+// Configuration de l'upload de fichiers
+const fileUploadMiddleware = fileUpload({
+  limits: { fileSize: config.MAX_FILE_SIZE },
+  abortOnLimit: true,
+  createParentPath: true,
+  useTempFiles: true,
+  tempFileDir: join(__dirname, '../tmp'),
+  debug: config.NODE_ENV === 'development'
+});
+
+app.use(fileUploadMiddleware);
+app.use(sanitizeInput as express.RequestHandler);
+app.use(checkContentType as express.RequestHandler);
+
+// Dossier pour les fichiers statiques
+app.use('/uploads', express.static(join(__dirname, '../uploads')));
+
+// Préfixe API
+const API_PREFIX = '/api';
+
+// Enregistrement des routes
+app.use(`${API_PREFIX}/auth`, authRoutes);
+app.use(`${API_PREFIX}/resumes`, resumesRoutes);
+app.use(`${API_PREFIX}/mots-de-passe`, motsDePasseRoutes);
+app.use(`${API_PREFIX}/notes`, notesRoutes);
+app.use(`${API_PREFIX}/admin`, adminRoutes);
+app.use(`${API_PREFIX}/flux`, fluxRoutes);
+
+// Route de santé
+app.get('/health', async (_req: Request, res: Response) => {
+  const dbHealth = await db.healthCheck();
+  res.json({
+    status: 'ok',
+    timestamp: new Date().toISOString(),
+    database: dbHealth ? 'connected' : 'disconnected',
+    environment: config.NODE_ENV,
+  });
+});
+
+// Middleware pour les routes non trouvées
+app.use(notFoundHandler as express.RequestHandler);
+
+// Middleware de gestion des erreurs
+app.use(jsonSyntaxErrorHandler as express.ErrorRequestHandler);
+app.use(errorHandler as express.ErrorRequestHandler);
+
+export default app;
@@ -9,6 +9,9 @@ CREATE TABLE IF NOT EXISTS utilisateurs (
     identifiant VARCHAR(50) UNIQUE NOT NULL,
     mot_de_passe_hash VARCHAR(255) NOT NULL,
     code_pin_hash VARCHAR(255) NOT NULL,
+    sel_coffre VARCHAR(64),
+    -- Langue des résumés lorsqu'aucune n'est demandée
+    langue VARCHAR(2) DEFAULT 'fr' CHECK (langue ~ '^[a-z]{2}$'),
     est_verifie BOOLEAN DEFAULT FALSE,
     role VARCHAR(20) DEFAULT 'utilisateur' CHECK (role IN ('utilisateur', 'admin')),
     derniere_connexion TIMESTAMP WITH TIME ZONE,
@@ -16,6 +19,13 @@ CREATE TABLE IF NOT EXISTS utilisateurs (
     modifie_le TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
 );
 
+-- Sel de dérivation de la clé du coffre (bases existantes)
+ALTER TABLE utilisateurs ADD COLUMN IF NOT EXISTS sel_coffre VARCHAR(64);
+
+-- Langue préférée des résumés (bases existantes)
+ALTER TABLE utilisateurs ADD COLUMN IF NOT EXISTS langue VARCHAR(2) DEFAULT 'fr'
+    CHECK (langue ~ '^[a-z]{2}$');
+
 -- Index sur l'email et l'identifiant pour les recherches rapides
 CREATE INDEX IF NOT EXISTS idx_utilisateurs_email ON utilisateurs(email);
 CREATE INDEX IF NOT EXISTS idx_utilisateurs_identifiant ON utilisateurs(identifiant);
@@ -48,22 +58,343 @@ CREATE TABLE IF NOT EXISTS tokens_verification (
 -- Index sur le token pour les vérifications rapides
 CREATE INDEX IF NOT EXISTS idx_tokens_verification_token ON tokens_verification(token);
 
+-- Configuration de recherche plein texte correspondant à la langue d'un résumé
+-- (sans racinisation pour les langues que PostgreSQL ne prend pas en charge)
+CREATE OR REPLACE FUNCTION configuration_recherche(langue VARCHAR)
+RETURNS regconfig AS $$
+    SELECT CASE langue
+        WHEN 'fr' THEN 'french'::regconfig
+        WHEN 'en' THEN 'english'::regconfig
+        WHEN 'es' THEN 'spanish'::regconfig
+        WHEN 'de' THEN 'german'::regconfig
+        WHEN 'it' THEN 'italian'::regconfig
+        WHEN 'pt' THEN 'portuguese'::regconfig
+        ELSE 'simple'::regconfig
+    END;
+$$ LANGUAGE SQL IMMUTABLE;
+
+-- Requête de recherche plein texte (syntaxe des moteurs de recherche : guillemets,
+-- `or`, `-`) dans la configuration d'une langue ou, sans langue, dans toutes
+CREATE OR REPLACE FUNCTION requete_recherche(texte TEXT, langue VARCHAR DEFAULT NULL)
+RETURNS tsquery AS $$
+    SELECT CASE
+        WHEN langue IS NOT NULL THEN websearch_to_tsquery(configuration_recherche(langue), texte)
+        ELSE websearch_to_tsquery('french', texte)
+            || websearch_to_tsquery('english', texte)
+            || websearch_to_tsquery('spanish', texte)
+            || websearch_to_tsquery('german', texte)
+            || websearch_to_tsquery('italian', texte)
+            || websearch_to_tsquery('portuguese', texte)
+            || websearch_to_tsquery('simple', texte)
+    END;
+$$ LANGUAGE SQL STABLE;
+
+-- Document de recherche plein texte d'un résumé : titre, résumé (dans la
+-- configuration de sa langue) et mots de l'URL source, par ordre d'importance
+CREATE OR REPLACE FUNCTION document_recherche(
+    titre TEXT, resume TEXT, source_url TEXT, langue VARCHAR
+)
+RETURNS tsvector AS $$
+    SELECT setweight(to_tsvector(configuration_recherche(langue), COALESCE(titre, '')), 'A')
+        || setweight(to_tsvector(configuration_recherche(langue), resume), 'B')
+        || setweight(to_tsvector('simple', COALESCE(source_url, '') || ' '
+            || regexp_replace(COALESCE(source_url, ''), '[^[:alnum:]]+', ' ', 'g')), 'C');
+$$ LANGUAGE SQL IMMUTABLE;
+
 -- Table des résumés
 CREATE TABLE IF NOT EXISTS resumes (
     id SERIAL PRIMARY KEY,
     utilisateur_id INTEGER REFERENCES utilisateurs(id) ON DELETE CASCADE,
-    type VARCHAR(20) CHECK (type IN ('article', 'texte', 'pdf', 'youtube')),
+    type VARCHAR(20)
+        CHECK (type IN ('article', 'texte', 'youtube', 'pdf', 'docx', 'epub', 'html', 'markdown', 'txt')),
     resume TEXT NOT NULL,
     source_url TEXT,
-    langue VARCHAR(2) CHECK (langue IN ('fr', 'en')),
+    -- Code ISO 639-1 ; les langues acceptées sont celles du registre (config/langues.ts)
+    langue VARCHAR(2) CHECK (langue ~ '^[a-z]{2}$'),
+    moteur VARCHAR(20) DEFAULT 'openai' CHECK (moteur IN ('openai', 'local', 'extractif')),
+    style VARCHAR(20) DEFAULT 'paragraphe'
+        CHECK (style IN ('paragraphe', 'puces', 'tldr', 'synthese', 'points_cles', 'plan')),
+    longueur INTEGER CHECK (longueur > 0),
+    unite_longueur VARCHAR(10) DEFAULT 'mots' CHECK (unite_longueur IN ('mots', 'phrases')),
+    modele VARCHAR(100),
+    titre TEXT,
+    auteur TEXT,
+    mots_source INTEGER,
+    pages_source INTEGER,
+    temps_lecture INTEGER,
+    taux_compression REAL,
+    -- Chapitres horodatés et piste de sous-titres d'une vidéo YouTube
+    chapitres JSONB,
+    sous_titres JSONB,
+    -- Langue détectée du document source et confiance de la détection (0 à 1)
+    langue_source VARCHAR(2),
+    langue_source_confiance REAL,
+    -- Numéro de la version courante (voir resume_versions)
+    version INTEGER DEFAULT 1,
     cree_le TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
     modifie_le TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
 );
 
+-- Moteur ayant produit le résumé (bases existantes)
+ALTER TABLE resumes ADD COLUMN IF NOT EXISTS moteur VARCHAR(20) DEFAULT 'openai'
+    CHECK (moteur IN ('openai', 'local', 'extractif'));
+
+-- Style et longueur demandés (bases existantes)
+ALTER TABLE resumes ADD COLUMN IF NOT EXISTS style VARCHAR(20) DEFAULT 'paragraphe'
+    CHECK (style IN ('paragraphe', 'puces', 'tldr', 'synthese', 'points_cles', 'plan'));
+ALTER TABLE resumes ADD COLUMN IF NOT EXISTS longueur INTEGER CHECK (longueur > 0);
+ALTER TABLE resumes ADD COLUMN IF NOT EXISTS unite_longueur VARCHAR(10) DEFAULT 'mots'
+    CHECK (unite_longueur IN ('mots', 'phrases'));
+
+-- Modèle utilisé et métadonnées du document source (bases existantes)
+ALTER TABLE resumes ADD COLUMN IF NOT EXISTS modele VARCHAR(100);
+ALTER TABLE resumes ADD COLUMN IF NOT EXISTS titre TEXT;
+ALTER TABLE resumes ADD COLUMN IF NOT EXISTS auteur TEXT;
+ALTER TABLE resumes ADD COLUMN IF NOT EXISTS mots_source INTEGER;
+ALTER TABLE resumes ADD COLUMN IF NOT EXISTS pages_source INTEGER;
+ALTER TABLE resumes ADD COLUMN IF NOT EXISTS temps_lecture INTEGER;
+ALTER TABLE resumes ADD COLUMN IF NOT EXISTS taux_compression REAL;
+
+-- Chapitres et sous-titres des vidéos YouTube (bases existantes)
+ALTER TABLE resumes ADD COLUMN IF NOT EXISTS chapitres JSONB;
+ALTER TABLE resumes ADD COLUMN IF NOT EXISTS sous_titres JSONB;
+
+-- Types de fichiers acceptés (bases existantes)
+ALTER TABLE resumes DROP CONSTRAINT IF EXISTS resumes_type_check;
+ALTER TABLE resumes ADD CONSTRAINT resumes_type_check
+    CHECK (type IN ('article', 'texte', 'youtube', 'pdf', 'docx', 'epub', 'html', 'markdown', 'txt'));
+
+-- Langue détectée du document source (bases existantes)
+ALTER TABLE resumes ADD COLUMN IF NOT EXISTS langue_source VARCHAR(2);
+ALTER TABLE resumes ADD COLUMN IF NOT EXISTS langue_source_confiance REAL;
+
+-- Langues du registre, sans liste figée (bases existantes)
+ALTER TABLE resumes DROP CONSTRAINT IF EXISTS resumes_langue_check;
+ALTER TABLE resumes ADD CONSTRAINT resumes_langue_check CHECK (langue ~ '^[a-z]{2}$');
+
+-- Version courante du résumé (bases existantes)
+ALTER TABLE resumes ADD COLUMN IF NOT EXISTS version INTEGER DEFAULT 1;
+
 -- Index sur l'utilisateur et le type pour les recherches rapides
 CREATE INDEX IF NOT EXISTS idx_resumes_utilisateur ON resumes(utilisateur_id);
 CREATE INDEX IF NOT EXISTS idx_resumes_type ON resumes(type);
 
+-- Document de recherche plein texte de chaque résumé (voir document_recherche),
+-- tenu à part pour ne pas alourdir les résumés retournés
+CREATE TABLE IF NOT EXISTS recherche_resumes (
+    resume_id INTEGER PRIMARY KEY REFERENCES resumes(id) ON DELETE CASCADE,
+    document tsvector NOT NULL
+);
+
+-- Index GIN pour la recherche plein texte
+CREATE INDEX IF NOT EXISTS idx_recherche_resumes_document ON recherche_resumes USING GIN(document);
+
+-- Fonction pour tenir à jour le document de recherche d'un résumé
+CREATE OR REPLACE FUNCTION update_recherche_resume()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO recherche_resumes (resume_id, document)
+    VALUES (NEW.id, document_recherche(NEW.titre, NEW.resume, NEW.source_url, NEW.langue))
+    ON CONFLICT (resume_id) DO UPDATE SET document = EXCLUDED.document;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Documents de recherche des résumés existants
+INSERT INTO recherche_resumes (resume_id, document)
+SELECT id, document_recherche(titre, resume, source_url, langue) FROM resumes
+ON CONFLICT (resume_id) DO NOTHING;
+
+-- Texte source des résumés, conservé pendant une durée limitée
+CREATE TABLE IF NOT EXISTS sources_resume (
+    resume_id INTEGER PRIMARY KEY REFERENCES resumes(id) ON DELETE CASCADE,
+    texte TEXT NOT NULL,
+    cree_le TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Index sur la date pour la purge
+CREATE INDEX IF NOT EXISTS idx_sources_resume_cree_le ON sources_resume(cree_le);
+
+-- Versions successives de chaque résumé, y compris la version courante
+CREATE TABLE IF NOT EXISTS resume_versions (
+    id SERIAL PRIMARY KEY,
+    resume_id INTEGER REFERENCES resumes(id) ON DELETE CASCADE,
+    numero INTEGER NOT NULL CHECK (numero > 0),
+    resume TEXT NOT NULL,
+    moteur VARCHAR(20) CHECK (moteur IN ('openai', 'local', 'extractif')),
+    modele VARCHAR(100),
+    style VARCHAR(20)
+        CHECK (style IN ('paragraphe', 'puces', 'tldr', 'synthese', 'points_cles', 'plan')),
+    longueur INTEGER CHECK (longueur > 0),
+    unite_longueur VARCHAR(10) CHECK (unite_longueur IN ('mots', 'phrases')),
+    taux_compression REAL,
+    cree_le TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (resume_id, numero)
+);
+
+-- Première version des résumés enregistrés avant l'historique (bases existantes)
+INSERT INTO resume_versions
+    (resume_id, numero, resume, moteur, modele, style, longueur, unite_longueur, taux_compression, cree_le)
+SELECT r.id, 1, r.resume, r.moteur, r.modele, r.style, r.longueur, r.unite_longueur,
+    r.taux_compression, r.cree_le
+FROM resumes r
+WHERE NOT EXISTS (SELECT 1 FROM resume_versions v WHERE v.resume_id = r.id);
+
+-- Étiquettes de chaque résumé : mots-clés, entités nommées et thème extraits
+-- du document, et étiquettes ajoutées par l'utilisateur
+CREATE TABLE IF NOT EXISTS tags_resume (
+    resume_id INTEGER REFERENCES resumes(id) ON DELETE CASCADE,
+    libelle VARCHAR(100) NOT NULL,
+    type VARCHAR(20) NOT NULL
+        CHECK (type IN ('mot_cle', 'personne', 'organisation', 'lieu', 'theme', 'utilisateur')),
+    score REAL,
+    PRIMARY KEY (resume_id, type, libelle)
+);
+
+-- Étiquettes de l'utilisateur (bases existantes)
+ALTER TABLE tags_resume DROP CONSTRAINT IF EXISTS tags_resume_type_check;
+ALTER TABLE tags_resume ADD CONSTRAINT tags_resume_type_check
+    CHECK (type IN ('mot_cle', 'personne', 'organisation', 'lieu', 'theme', 'utilisateur'));
+
+-- Index sur le libellé pour le filtrage des résumés par étiquette
+CREATE INDEX IF NOT EXISTS idx_tags_resume_libelle ON tags_resume(LOWER(libelle));
+
+-- Étiquettes de l'utilisateur uniques sans tenir compte de la casse
+-- (bases existantes : seule la première écriture de chaque libellé est gardée)
+DELETE FROM tags_resume t
+USING tags_resume d
+WHERE t.type = 'utilisateur' AND d.type = 'utilisateur'
+  AND t.resume_id = d.resume_id
+  AND LOWER(t.libelle) = LOWER(d.libelle)
+  AND t.libelle > d.libelle;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_tags_resume_utilisateur
+    ON tags_resume(resume_id, LOWER(libelle)) WHERE type = 'utilisateur';
+
+-- Termes du document de chaque résumé (fréquence documentaire des mots-clés) :
+-- supprimer un résumé retire ses termes du corpus de l'utilisateur
+CREATE TABLE IF NOT EXISTS termes_resume (
+    resume_id INTEGER REFERENCES resumes(id) ON DELETE CASCADE,
+    terme VARCHAR(100) NOT NULL,
+    PRIMARY KEY (resume_id, terme)
+);
+
+-- Index sur le terme pour compter les documents qui le contiennent
+CREATE INDEX IF NOT EXISTS idx_termes_resume_terme ON termes_resume(terme);
+
+-- Collections de résumés nommées par l'utilisateur (ex. un projet)
+CREATE TABLE IF NOT EXISTS collections (
+    id SERIAL PRIMARY KEY,
+    utilisateur_id INTEGER REFERENCES utilisateurs(id) ON DELETE CASCADE,
+    nom VARCHAR(100) NOT NULL,
+    description TEXT,
+    cree_le TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    modifie_le TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (utilisateur_id, nom)
+);
+
+-- Résumés de chaque collection : supprimer une collection ne supprime pas ses résumés
+CREATE TABLE IF NOT EXISTS collections_resumes (
+    collection_id INTEGER REFERENCES collections(id) ON DELETE CASCADE,
+    resume_id INTEGER REFERENCES resumes(id) ON DELETE CASCADE,
+    ajoute_le TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (collection_id, resume_id)
+);
+
+-- Index sur le résumé pour retrouver ses collections
+CREATE INDEX IF NOT EXISTS idx_collections_resumes_resume ON collections_resumes(resume_id);
+
+-- Questions posées sur le document d'un résumé et leurs réponses
+CREATE TABLE IF NOT EXISTS questions_resume (
+    id SERIAL PRIMARY KEY,
+    resume_id INTEGER REFERENCES resumes(id) ON DELETE CASCADE,
+    question TEXT NOT NULL,
+    reponse TEXT NOT NULL,
+    -- Passages du document cités dans la réponse
+    citations JSONB NOT NULL DEFAULT '[]',
+    repondu BOOLEAN NOT NULL DEFAULT TRUE,
+    moteur VARCHAR(20) CHECK (moteur IN ('openai', 'local', 'extractif')),
+    modele VARCHAR(100),
+    cree_le TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Index sur le résumé pour l'historique de la conversation
+CREATE INDEX IF NOT EXISTS idx_questions_resume_resume ON questions_resume(resume_id);
+
+-- Table des tâches de résumé asynchrones
+CREATE TABLE IF NOT EXISTS taches_resume (
+    id SERIAL PRIMARY KEY,
+    utilisateur_id INTEGER REFERENCES utilisateurs(id) ON DELETE CASCADE,
+    type VARCHAR(20)
+        CHECK (type IN ('article', 'texte', 'youtube', 'pdf', 'docx', 'epub', 'html', 'markdown', 'txt')),
+    statut VARCHAR(20) DEFAULT 'en_attente'
+        CHECK (statut IN ('en_attente', 'en_cours', 'termine', 'echec')),
+    parametres JSONB NOT NULL,
+    fichier BYTEA,
+    progression JSONB,
+    tentatives INTEGER DEFAULT 0,
+    erreur TEXT,
+    resume_id INTEGER REFERENCES resumes(id) ON DELETE SET NULL,
+    disponible_le TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    demarre_le TIMESTAMP WITH TIME ZONE,
+    termine_le TIMESTAMP WITH TIME ZONE,
+    cree_le TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    modifie_le TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Types de fichiers acceptés (bases existantes)
+ALTER TABLE taches_resume DROP CONSTRAINT IF EXISTS taches_resume_type_check;
+ALTER TABLE taches_resume ADD CONSTRAINT taches_resume_type_check
+    CHECK (type IN ('article', 'texte', 'youtube', 'pdf', 'docx', 'epub', 'html', 'markdown', 'txt'));
+
+-- Index pour la sélection des tâches à traiter et le suivi par utilisateur
+CREATE INDEX IF NOT EXISTS idx_taches_resume_file ON taches_resume(statut, disponible_le);
+CREATE INDEX IF NOT EXISTS idx_taches_resume_utilisateur ON taches_resume(utilisateur_id);
+
+-- Table des abonnements aux flux RSS et Atom
+CREATE TABLE IF NOT EXISTS abonnements_flux (
+    id SERIAL PRIMARY KEY,
+    utilisateur_id INTEGER REFERENCES utilisateurs(id) ON DELETE CASCADE,
+    url TEXT NOT NULL,
+    titre TEXT,
+    parametres JSONB NOT NULL,
+    etag TEXT,
+    derniere_modification TEXT,
+    verifie_le TIMESTAMP WITH TIME ZONE,
+    prochaine_verification TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    erreur TEXT,
+    cree_le TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    modifie_le TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (utilisateur_id, url)
+);
+
+-- Index pour la sélection des flux à relever
+CREATE INDEX IF NOT EXISTS idx_abonnements_flux_verification ON abonnements_flux(prochaine_verification);
+
+-- Entrées relevées dans chaque flux, dédoublonnées par GUID
+CREATE TABLE IF NOT EXISTS entrees_flux (
+    id SERIAL PRIMARY KEY,
+    abonnement_id INTEGER REFERENCES abonnements_flux(id) ON DELETE CASCADE,
+    guid TEXT NOT NULL,
+    titre TEXT,
+    lien TEXT,
+    publie_le TIMESTAMP WITH TIME ZONE,
+    resume_id INTEGER REFERENCES resumes(id) ON DELETE SET NULL,
+    erreur TEXT,
+    cree_le TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+    UNIQUE (abonnement_id, guid)
+);
+
+-- Table du cache (stockage postgres)
+CREATE TABLE IF NOT EXISTS cache_entrees (
+    cle VARCHAR(64) PRIMARY KEY,
+    valeur JSONB NOT NULL,
+    expire_le TIMESTAMP WITH TIME ZONE NOT NULL,
+    cree_le TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Index sur l'expiration pour la purge
+CREATE INDEX IF NOT EXISTS idx_cache_entrees_expire_le ON cache_entrees(expire_le);
+
 -- Table des mots de passe
 CREATE TABLE IF NOT EXISTS mots_de_passe (
     id SERIAL PRIMARY KEY,
@@ -115,22 +446,50 @@ BEGIN
 END;
 $$ language 'plpgsql';
 
--- Triggers pour mettre à jour automatiquement modifie_le
+-- Triggers pour mettre à jour automatiquement modifie_le (recréés sur les bases existantes)
+DROP TRIGGER IF EXISTS update_utilisateurs_modifie_le ON utilisateurs;
 CREATE TRIGGER update_utilisateurs_modifie_le
     BEFORE UPDATE ON utilisateurs
     FOR EACH ROW
     EXECUTE FUNCTION update_modifie_le();
 
+DROP TRIGGER IF EXISTS update_resumes_modifie_le ON resumes;
 CREATE TRIGGER update_resumes_modifie_le
     BEFORE UPDATE ON resumes
     FOR EACH ROW
     EXECUTE FUNCTION update_modifie_le();
 
+DROP TRIGGER IF EXISTS update_recherche_resumes ON resumes;
+CREATE TRIGGER update_recherche_resumes
+    AFTER INSERT OR UPDATE OF titre, resume, source_url, langue ON resumes
+    FOR EACH ROW
+    EXECUTE FUNCTION update_recherche_resume();
+
+DROP TRIGGER IF EXISTS update_taches_resume_modifie_le ON taches_resume;
+CREATE TRIGGER update_taches_resume_modifie_le
+    BEFORE UPDATE ON taches_resume
+    FOR EACH ROW
+    EXECUTE FUNCTION update_modifie_le();
+
+DROP TRIGGER IF EXISTS update_abonnements_flux_modifie_le ON abonnements_flux;
+CREATE TRIGGER update_abonnements_flux_modifie_le
+    BEFORE UPDATE ON abonnements_flux
+    FOR EACH ROW
+    EXECUTE FUNCTION update_modifie_le();
+
+DROP TRIGGER IF EXISTS update_mots_de_passe_modifie_le ON mots_de_passe;
 CREATE TRIGGER update_mots_de_passe_modifie_le
     BEFORE UPDATE ON mots_de_passe
     FOR EACH ROW
     EXECUTE FUNCTION update_modifie_le();
 
+DROP TRIGGER IF EXISTS update_collections_modifie_le ON collections;
+CREATE TRIGGER update_collections_modifie_le
+    BEFORE UPDATE ON collections
+    FOR EACH ROW
+    EXECUTE FUNCTION update_modifie_le();
+
+DROP TRIGGER IF EXISTS update_notes_modifie_le ON notes;
 CREATE TRIGGER update_notes_modifie_le
     BEFORE UPDATE ON notes
     FOR EACH ROW
@@ -1,6 +1,8 @@
 import dotenv from 'dotenv';
 import path from 'path';
 import { SignOptions } from 'jsonwebtoken';
+import type { CacheBackendName, ErrorMessageKey, SummarizationProviderName } from '../types';
+import { LANGUES } from './langues';
 
 // Charger les variables d'environnement
 dotenv.config({ path: path.join(__dirname, '../../.env') });
@@ -35,6 +37,80 @@ const config = {
   OPENAI_API_KEY: process.env.OPENAI_API_KEY || '',
   MODELE_GPT: process.env.MODELE_GPT || 'gpt-4',
   LONGUEUR_MAX_RESUME: parseInt(process.env.LONGUEUR_MAX_RESUME || '500', 10),
+  PHRASES_MAX_RESUME: parseInt(process.env.PHRASES_MAX_RESUME || '20', 10),
+  RESUME_TOKENS_PAR_SEGMENT: parseInt(process.env.RESUME_TOKENS_PAR_SEGMENT || '3000', 10),
+  RESUME_CHEVAUCHEMENT_TOKENS: parseInt(process.env.RESUME_CHEVAUCHEMENT_TOKENS || '200', 10),
+  RESUME_CONCURRENCE: parseInt(process.env.RESUME_CONCURRENCE || '3', 10),
+
+  // Fournisseur de résumé : openai, local (API compatible OpenAI) ou extractif (hors ligne)
+  RESUME_FOURNISSEUR: (process.env.RESUME_FOURNISSEUR || 'openai') as SummarizationProviderName,
+  LOCAL_LLM_URL: process.env.LOCAL_LLM_URL || 'http://localhost:11434/v1',
+  LOCAL_LLM_MODELE: process.env.LOCAL_LLM_MODELE || 'llama3',
+  LOCAL_LLM_API_KEY: process.env.LOCAL_LLM_API_KEY || '',
+  LOCAL_LLM_TOKENS_PAR_SEGMENT: parseInt(process.env.LOCAL_LLM_TOKENS_PAR_SEGMENT || '1500', 10),
+  EXTRACTIF_TOKENS_PAR_SEGMENT: parseInt(process.env.EXTRACTIF_TOKENS_PAR_SEGMENT || '20000', 10),
+  // Modèles pouvant être demandés à chaque fournisseur lors de la régénération d'un résumé
+  MODELES_AUTORISES: {
+    openai: (process.env.MODELES_AUTORISES_OPENAI || process.env.MODELE_GPT || 'gpt-4').split(','),
+    local: (process.env.MODELES_AUTORISES_LOCAL || process.env.LOCAL_LLM_MODELE || 'llama3').split(','),
+    extractif: []
+  } as Record<SummarizationProviderName, string[]>,
+  // Repli sur le résumé extractif lorsque le fournisseur échoue
+  RESUME_REPLI_EXTRACTIF: process.env.RESUME_REPLI_EXTRACTIF !== 'false',
+  // Durée de conservation du texte source des résumés (0 : texte non conservé)
+  SOURCES_RETENTION_JOURS: parseInt(process.env.SOURCES_RETENTION_JOURS || '30', 10),
+
+  // Questions sur les documents résumés
+  QUESTIONS_TOKENS_PAR_PASSAGE: parseInt(process.env.QUESTIONS_TOKENS_PAR_PASSAGE || '250', 10),
+  QUESTIONS_PASSAGES_MAX: parseInt(process.env.QUESTIONS_PASSAGES_MAX || '4', 10),
+  QUESTIONS_HISTORIQUE_MAX: parseInt(process.env.QUESTIONS_HISTORIQUE_MAX || '5', 10),
+  QUESTIONS_MOTS_REPONSE: parseInt(process.env.QUESTIONS_MOTS_REPONSE || '200', 10),
+
+  // Étiquetage automatique des résumés
+  TAGS_MOTS_CLES_MAX: parseInt(process.env.TAGS_MOTS_CLES_MAX || '8', 10),
+  TAGS_ENTITES_MAX: parseInt(process.env.TAGS_ENTITES_MAX || '10', 10),
+  TAGS_NUAGE_MAX: parseInt(process.env.TAGS_NUAGE_MAX || '50', 10),
+
+  // Étiquettes et collections de l'utilisateur
+  TAGS_UTILISATEUR_MAX: parseInt(process.env.TAGS_UTILISATEUR_MAX || '20', 10),
+  COLLECTIONS_LOT_MAX: parseInt(process.env.COLLECTIONS_LOT_MAX || '100', 10),
+
+  // Listes paginées : résumés, notes, mots de passe, utilisateurs (éléments par page)
+  LISTE_PAR_PAGE: parseInt(process.env.LISTE_PAR_PAGE || '20', 10),
+  LISTE_PAR_PAGE_MAX: parseInt(process.env.LISTE_PAR_PAGE_MAX || '100', 10),
+
+  // Recherche plein texte dans les résumés (résultats par page)
+  RECHERCHE_PAR_PAGE: parseInt(process.env.RECHERCHE_PAR_PAGE || '10', 10),
+  RECHERCHE_PAR_PAGE_MAX: parseInt(process.env.RECHERCHE_PAR_PAGE_MAX || '50', 10),
+
+  // Tâches de résumé asynchrones
+  TACHES_INTERVALLE_MS: parseInt(process.env.TACHES_INTERVALLE_MS || '2000', 10),
+  TACHES_CONCURRENCE: parseInt(process.env.TACHES_CONCURRENCE || '2', 10),
+  TACHES_TENTATIVES_MAX: parseInt(process.env.TACHES_TENTATIVES_MAX || '3', 10),
+  TACHES_DELAI_RELANCE_MS: parseInt(process.env.TACHES_DELAI_RELANCE_MS || '30000', 10),
+  // Au-delà de ce délai sans avancement, une tâche en cours est considérée comme abandonnée
+  TACHES_EXPIRATION_MS: parseInt(process.env.TACHES_EXPIRATION_MS || '900000', 10),
+
+  // Résumés par lot
+  LOT_ELEMENTS_MAX: parseInt(process.env.LOT_ELEMENTS_MAX || '50', 10),
+  LOT_CONCURRENCE: parseInt(process.env.LOT_CONCURRENCE || '3', 10),
+
+  // Chapitres des vidéos YouTube
+  CHAPITRES_DUREE_SECONDES: parseInt(process.env.CHAPITRES_DUREE_SECONDES || '300', 10),
+  CHAPITRES_MAX: parseInt(process.env.CHAPITRES_MAX || '20', 10),
+
+  // Abonnements aux flux RSS et Atom
+  FLUX_INTERVALLE_MS: parseInt(process.env.FLUX_INTERVALLE_MS || '60000', 10),
+  // Délai entre deux relevés d'un même flux
+  FLUX_FREQUENCE_MINUTES: parseInt(process.env.FLUX_FREQUENCE_MINUTES || '60', 10),
+  // Nombre maximal de nouvelles entrées résumées par relevé
+  FLUX_ENTREES_MAX: parseInt(process.env.FLUX_ENTREES_MAX || '10', 10),
+  FLUX_CONCURRENCE: parseInt(process.env.FLUX_CONCURRENCE || '2', 10),
+
+  // Récupération des pages distantes (adresses internes toujours refusées)
+  RECUPERATION_DELAI_MS: parseInt(process.env.RECUPERATION_DELAI_MS || '10000', 10),
+  RECUPERATION_TAILLE_MAX: parseInt(process.env.RECUPERATION_TAILLE_MAX || '5242880', 10), // 5MB
+  RECUPERATION_REDIRECTIONS_MAX: parseInt(process.env.RECUPERATION_REDIRECTIONS_MAX || '5', 10),
   
   // Email
   SMTP_HOST: process.env.SMTP_HOST || 'smtp.gmail.com',
@@ -46,6 +122,7 @@ const config = {
   // Sécurité
   API_KEY: process.env.API_KEY || 'votre_cle_api_secrete',
   BCRYPT_ROUNDS: parseInt(process.env.BCRYPT_ROUNDS || '10', 10),
+  VAULT_SECRET: process.env.VAULT_SECRET || 'votre_secret_coffre',
   RATE_LIMIT_WINDOW: parseInt(process.env.RATE_LIMIT_WINDOW || '900000', 10), // 15 minutes
   RATE_LIMIT_MAX: parseInt(process.env.RATE_LIMIT_MAX || '100', 10),
   CORS_ORIGINS: process.env.CORS_ORIGINS ? process.env.CORS_ORIGINS.split(',') : ['http://localhost:3001'],
@@ -64,10 +141,23 @@ const config = {
   // Upload
   UPLOAD_DIR: path.join(__dirname, '../../uploads'),
   MAX_FILE_SIZE: parseInt(process.env.MAX_FILE_SIZE || '10485760', 10), // 10MB
-  ALLOWED_FILE_TYPES: ['application/pdf', 'text/plain'] as const,
+  ALLOWED_FILE_TYPES: [
+    'application/pdf',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/epub+zip',
+    'text/html',
+    'text/markdown',
+    'text/plain'
+  ] as readonly string[],
+  // Taille maximale du contenu décompressé d'un fichier DOCX ou EPUB
+  MAX_UNCOMPRESSED_SIZE: parseInt(process.env.MAX_UNCOMPRESSED_SIZE || '52428800', 10), // 50MB
   
   // Cache
   CACHE_TTL: parseInt(process.env.CACHE_TTL || '3600', 10), // 1 heure
+  CACHE_RESUMES: process.env.CACHE_RESUMES !== 'false',
+  // Stockage du cache : memoire (LRU propre au processus) ou postgres (partagé)
+  CACHE_STOCKAGE: (process.env.CACHE_STOCKAGE || 'memoire') as CacheBackendName,
+  CACHE_TAILLE_MAX: parseInt(process.env.CACHE_TAILLE_MAX || '1000', 10),
   
   // Logs
   LOG_LEVEL: process.env.LOG_LEVEL || 'info',
@@ -79,47 +169,20 @@ const config = {
   
   // Langue
   DEFAULT_LANGUAGE: 'fr' as const,
-  SUPPORTED_LANGUAGES: ['fr', 'en'] as const,
+  SUPPORTED_LANGUAGES: Object.keys(LANGUES) as SupportedLanguage[],
   
   // Validation
   PASSWORD_MIN_LENGTH: 8,
   PASSWORD_MAX_LENGTH: 100,
   PIN_LENGTH: 6,
   
-  // Messages d'erreur
-  MESSAGES: {
-    fr: {
-      erreurServeur: 'Erreur interne du serveur',
-      erreurValidation: 'Erreur de validation des données',
-      erreurAuthentification: 'Erreur d\'authentification',
-      erreurAutorisation: 'Accès non autorisé',
-      erreurNonTrouve: 'Ressource non trouvée',
-      emailInvalide: 'Adresse email invalide',
-      motDePasseInvalide: 'Mot de passe invalide',
-      emailDejaUtilise: 'Cette adresse email est déjà utilisée',
-      emailNonVerifie: 'Veuillez vérifier votre adresse email',
-      tokenInvalide: 'Token invalide',
-      tokenExpire: 'Token expiré',
-      pinIncorrect: 'Code PIN incorrect'
-    },
-    en: {
-      erreurServeur: 'Internal server error',
-      erreurValidation: 'Data validation error',
-      erreurAuthentification: 'Authentication error',
-      erreurAutorisation: 'Unauthorized access',
-      erreurNonTrouve: 'Resource not found',
-      emailInvalide: 'Invalid email address',
-      motDePasseInvalide: 'Invalid password',
-      emailDejaUtilise: 'This email address is already in use',
-      emailNonVerifie: 'Please verify your email address',
-      tokenInvalide: 'Invalid token',
-      tokenExpire: 'Token expired',
-      pinIncorrect: 'Incorrect PIN code'
-    }
-  }
+  // Messages d'erreur, tirés du registre des langues
+  MESSAGES: Object.fromEntries(
+    Object.entries(LANGUES).map(([code, { messages }]) => [code, messages])
+  ) as Record<SupportedLanguage, Readonly<Record<ErrorMessageKey, string>>>
 } as const;
 
-export type SupportedLanguage = typeof config.SUPPORTED_LANGUAGES[number];
+export type SupportedLanguage = keyof typeof LANGUES;
 export type ErrorMessages = typeof config.MESSAGES;
 
 export default config;
@@ -0,0 +1,485 @@
+import type { LanguageDefinition } from '../types';
+
+/**
+ * Registre des langues prises en charge
+ * Chaque langue regroupe ses prompts de résumé, sa locale, son code de
+ * sous-titres YouTube, ses messages d'erreur et les listes utilisées par le
+ * moteur extractif et l'étiquetage des résumés : ajouter une langue revient à
+ * ajouter une entrée ici.
+ */
+export const LANGUES = {
+  fr: {
+    nom: 'Français',
+    locale: 'fr-FR',
+    sousTitres: 'fr',
+    prompts: {
+      mots: (mots: number) => `en ${mots} mots maximum`,
+      phrases: (phrases: number) => `en ${phrases} phrase${phrases > 1 ? 's' : ''} maximum`,
+      resume: (longueur: string) => `Résume le texte suivant en français ${longueur}.`,
+      segment: (index: number, total: number, longueur: string) => `Voici la partie ${index}/${total} d'un document plus long. Résume-la en français ${longueur}, en conservant les faits, chiffres et noms importants :`,
+      fusion: (longueur: string) => `Les textes suivants sont les résumés successifs des parties d'un même document. Rédige à partir d'eux un résumé unique et cohérent en français ${longueur}, sans répétitions.`,
+      partie: 'Partie',
+      styles: {
+        paragraphe: 'Rédige un texte suivi, en paragraphes.',
+        puces: 'Présente le résumé sous forme de liste à puces, une idée par puce.',
+        tldr: 'Rédige un TL;DR qui va droit à l\'essentiel, sans introduction.',
+        synthese: 'Rédige une note de synthèse pour un décideur : contexte, points essentiels, conclusions et recommandations.',
+        points_cles: 'Présente les points clés à retenir sous forme de liste numérotée.',
+        plan: 'Présente le résumé sous forme de plan hiérarchique, avec des titres et des sous-points.'
+      },
+      questions: {
+        consigne: 'Réponds en français à la question en t\'appuyant uniquement sur les extraits numérotés du document ci-dessous. Cite les extraits utilisés par leur numéro entre crochets, par exemple [2]. Si les extraits ne permettent pas de répondre, dis-le sans rien inventer.',
+        historique: 'Échanges précédents',
+        question: 'Question',
+        reponse: 'Réponse',
+        sansReponse: 'Le document ne contient pas d\'information permettant de répondre à cette question.'
+      }
+    },
+    messages: {
+      erreurServeur: 'Erreur interne du serveur',
+      erreurValidation: 'Erreur de validation des données',
+      erreurAuthentification: 'Erreur d\'authentification',
+      erreurAutorisation: 'Accès non autorisé',
+      erreurNonTrouve: 'Ressource non trouvée',
+      emailInvalide: 'Adresse email invalide',
+      motDePasseInvalide: 'Mot de passe invalide',
+      emailDejaUtilise: 'Cette adresse email est déjà utilisée',
+      emailNonVerifie: 'Veuillez vérifier votre adresse email',
+      tokenInvalide: 'Token invalide',
+      tokenExpire: 'Token expiré',
+      pinIncorrect: 'Code PIN incorrect'
+    },
+    echantillon: 'Le matin, la ville se réveille lentement. Les commerçants ouvrent leurs boutiques et les enfants partent à l\'école avec leurs parents. Dans les rues, on entend le bruit des voitures et des bus qui traversent le quartier. Au marché, les habitants achètent des fruits, des légumes et du pain frais. Le gouvernement a annoncé une nouvelle loi sur l\'environnement qui doit réduire la pollution de l\'air dans les grandes villes. Selon les chercheurs, cette mesure permettra d\'améliorer la santé de la population. Les entreprises devront cependant adapter leurs pratiques et investir dans des technologies plus propres. Beaucoup de personnes pensent que ces changements sont nécessaires, mais certains craignent leurs conséquences économiques. Le soir, les familles se retrouvent autour de la table pour partager le repas et parler de leur journée.',
+    abreviations: ['m', 'mm', 'mme', 'mmes', 'mlle', 'dr', 'pr', 'me', 'st', 'ste', 'cf', 'p', 'pp', 'etc', 'env', 'av', 'bd', 'n°', 'vol', 'chap', 'fig', 'éd', 'ex'],
+    motsVides: [
+      'les', 'des', 'une', 'est', 'sont', 'dans', 'pour', 'par', 'sur', 'avec', 'que', 'qui',
+      'quoi', 'dont', 'pas', 'plus', 'moins', 'mais', 'ou', 'et', 'donc', 'car', 'ni', 'ce',
+      'cet', 'cette', 'ces', 'son', 'sa', 'ses', 'leur', 'leurs', 'nous', 'vous', 'ils',
+      'elles', 'elle', 'il', 'on', 'aux', 'du', 'au', 'été', 'être', 'avoir', 'fait', 'comme',
+      'aussi', 'tout', 'tous', 'toute', 'toutes', 'très', 'sans', 'sous', 'entre', 'ont', 'était',
+      'peut', 'ainsi', 'alors', 'même', 'deux', 'notre', 'votre', 'après', 'avant', 'encore'
+    ],
+    entites: {
+      titres: ['m', 'mme', 'mlle', 'dr', 'pr', 'me', 'monsieur', 'madame', 'président', 'présidente', 'ministre', 'maire', 'général', 'professeur', 'docteur'],
+      organisations: ['société', 'groupe', 'banque', 'université', 'ministère', 'association', 'institut', 'fondation', 'agence', 'commission', 'parti', 'compagnie', 'conseil', 'sa', 'sas', 'sarl'],
+      lieux: ['à', 'en', 'au', 'aux', 'vers', 'depuis']
+    },
+    themes: {
+      politique: ['gouvern', 'ministr', 'élect', 'parlement', 'député', 'sénat', 'président', 'politi', 'réforme', 'scrutin'],
+      economie: ['économ', 'entrepris', 'financ', 'banqu', 'inflation', 'croissance', 'emploi', 'budget', 'investiss', 'bours'],
+      sciences: ['scienti', 'recherch', 'chercheu', 'étude', 'laboratoire', 'physique', 'biolog', 'chimi', 'découverte', 'expérien'],
+      technologie: ['technolog', 'numérique', 'logiciel', 'informati', 'internet', 'intelligence', 'algorithm', 'données', 'ordinateur', 'applicati'],
+      sante: ['santé', 'médec', 'médic', 'maladie', 'patient', 'hôpita', 'soins', 'vaccin', 'virus', 'traitement', 'épidém'],
+      sport: ['sport', 'match', 'équipe', 'joueu', 'championnat', 'football', 'olympi', 'entraîn', 'victoire', 'compétition'],
+      culture: ['cultur', 'film', 'cinéma', 'musique', 'artist', 'livre', 'roman', 'théâtre', 'exposition', 'musée', 'festival'],
+      environnement: ['environnement', 'climat', 'pollution', 'énergie', 'carbone', 'biodiversité', 'écolog', 'émission', 'renouvelable', 'déchet']
+    }
+  },
+
+  en: {
+    nom: 'English',
+    locale: 'en-US',
+    sousTitres: 'en',
+    prompts: {
+      mots: (mots: number) => `in ${mots} words or less`,
+      phrases: (phrases: number) => `in ${phrases} sentence${phrases > 1 ? 's' : ''} or less`,
+      resume: (longueur: string) => `Summarize the following text in English ${longueur}.`,
+      segment: (index: number, total: number, longueur: string) => `This is part ${index}/${total} of a longer document. Summarize it in English ${longueur}, keeping the important facts, figures and names:`,
+      fusion: (longueur: string) => `The following texts are the successive summaries of the parts of a single document. Combine them into one coherent summary in English ${longueur}, without repetition.`,
+      partie: 'Part',
+      styles: {
+        paragraphe: 'Write flowing prose, in paragraphs.',
+        puces: 'Format the summary as a bulleted list, one idea per bullet.',
+        tldr: 'Write a TL;DR that gets straight to the point, without introduction.',
+        synthese: 'Write an executive brief for a decision maker: context, key points, conclusions and recommendations.',
+        points_cles: 'Present the key takeaways as a numbered list.',
+        plan: 'Format the summary as a hierarchical outline, with headings and sub-points.'
+      },
+      questions: {
+        consigne: 'Answer the question in English using only the numbered excerpts from the document below. Cite the excerpts you use by their number in square brackets, for example [2]. If the excerpts do not answer the question, say so without making anything up.',
+        historique: 'Previous exchanges',
+        question: 'Question',
+        reponse: 'Answer',
+        sansReponse: 'The document does not contain any information to answer this question.'
+      }
+    },
+    messages: {
+      erreurServeur: 'Internal server error',
+      erreurValidation: 'Data validation error',
+      erreurAuthentification: 'Authentication error',
+      erreurAutorisation: 'Unauthorized access',
+      erreurNonTrouve: 'Resource not found',
+      emailInvalide: 'Invalid email address',
+      motDePasseInvalide: 'Invalid password',
+      emailDejaUtilise: 'This email address is already in use',
+      emailNonVerifie: 'Please verify your email address',
+      tokenInvalide: 'Invalid token',
+      tokenExpire: 'Token expired',
+      pinIncorrect: 'Incorrect PIN code'
+    },
+    echantillon: 'In the morning, the city slowly wakes up. Shopkeepers open their stores and children walk to school with their parents. In the streets, you can hear the noise of cars and buses driving through the neighbourhood. At the market, people buy fruit, vegetables and fresh bread. The government has announced a new environmental law that should reduce air pollution in large cities. According to researchers, this measure will improve the health of the population. However, companies will have to change their practices and invest in cleaner technologies. Many people think that these changes are necessary, but some are worried about their economic consequences. In the evening, families gather around the table to share a meal and talk about their day.',
+    abreviations: ['mr', 'mrs', 'ms', 'dr', 'prof', 'sr', 'jr', 'st', 'vs', 'etc', 'e.g', 'i.e', 'inc', 'ltd', 'co', 'corp', 'no', 'fig', 'vol', 'approx', 'jan', 'feb', 'aug', 'sept', 'oct', 'nov', 'dec'],
+    motsVides: [
+      'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'any', 'can', 'had', 'her', 'was',
+      'one', 'our', 'out', 'has', 'have', 'him', 'his', 'how', 'its', 'may', 'who', 'did', 'she',
+      'they', 'them', 'their', 'this', 'that', 'these', 'those', 'with', 'from', 'into', 'than',
+      'then', 'there', 'were', 'been', 'being', 'which', 'what', 'when', 'where', 'while', 'will',
+      'would', 'could', 'should', 'about', 'also', 'more', 'most', 'some', 'such', 'only', 'very',
+      'just', 'over', 'after', 'before', 'because', 'each', 'other', 'does', 'your', 'between'
+    ],
+    entites: {
+      titres: ['mr', 'mrs', 'ms', 'dr', 'prof', 'sir', 'president', 'minister', 'mayor', 'senator', 'general', 'professor', 'doctor'],
+      organisations: ['inc', 'corp', 'corporation', 'ltd', 'llc', 'company', 'group', 'bank', 'university', 'ministry', 'association', 'institute', 'foundation', 'agency', 'commission', 'party', 'council'],
+      lieux: ['in', 'at', 'from', 'near']
+    },
+    themes: {
+      politique: ['govern', 'minist', 'elect', 'parliament', 'senat', 'president', 'politic', 'congress', 'legislat', 'vote'],
+      economie: ['econom', 'market', 'compan', 'financ', 'bank', 'inflation', 'growth', 'employ', 'budget', 'invest', 'trade'],
+      sciences: ['scien', 'research', 'study', 'studies', 'laborator', 'physic', 'biolog', 'chemi', 'discover', 'experiment'],
+      technologie: ['technolog', 'digital', 'software', 'comput', 'internet', 'intelligen', 'algorithm', 'data', 'applicat', 'network'],
+      sante: ['health', 'medic', 'disease', 'patient', 'hospital', 'treatment', 'vaccin', 'virus', 'doctor', 'epidem'],
+      sport: ['sport', 'match', 'team', 'player', 'championship', 'football', 'olympi', 'coach', 'tournament', 'league'],
+      culture: ['cultur', 'film', 'cinema', 'music', 'artist', 'book', 'novel', 'theatre', 'theater', 'exhibition', 'museum', 'festival'],
+      environnement: ['environment', 'climat', 'pollution', 'energy', 'carbon', 'biodiversity', 'ecolog', 'emission', 'renewable', 'waste']
+    }
+  },
+
+  es: {
+    nom: 'Español',
+    locale: 'es-ES',
+    sousTitres: 'es',
+    prompts: {
+      mots: (mots: number) => `en ${mots} palabras como máximo`,
+      phrases: (phrases: number) => `en ${phrases} frase${phrases > 1 ? 's' : ''} como máximo`,
+      resume: (longueur: string) => `Resume el siguiente texto en español ${longueur}.`,
+      segment: (index: number, total: number, longueur: string) => `Esta es la parte ${index}/${total} de un documento más largo. Resúmela en español ${longueur}, conservando los hechos, cifras y nombres importantes:`,
+      fusion: (longueur: string) => `Los siguientes textos son los resúmenes sucesivos de las partes de un mismo documento. Combínalos en un único resumen coherente en español ${longueur}, sin repeticiones.`,
+      partie: 'Parte',
+      styles: {
+        paragraphe: 'Redacta un texto continuo, en párrafos.',
+        puces: 'Presenta el resumen como una lista de viñetas, una idea por viñeta.',
+        tldr: 'Escribe un TL;DR que vaya directo a lo esencial, sin introducción.',
+        synthese: 'Redacta una nota de síntesis para un responsable de la toma de decisiones: contexto, puntos esenciales, conclusiones y recomendaciones.',
+        points_cles: 'Presenta los puntos clave que hay que recordar como una lista numerada.',
+        plan: 'Presenta el resumen como un esquema jerárquico, con títulos y subapartados.'
+      },
+      questions: {
+        consigne: 'Responde en español a la pregunta basándote únicamente en los fragmentos numerados del documento que aparecen a continuación. Cita los fragmentos utilizados por su número entre corchetes, por ejemplo [2]. Si los fragmentos no permiten responder, dilo sin inventar nada.',
+        historique: 'Intercambios anteriores',
+        question: 'Pregunta',
+        reponse: 'Respuesta',
+        sansReponse: 'El documento no contiene información que permita responder a esta pregunta.'
+      }
+    },
+    messages: {
+      erreurServeur: 'Error interno del servidor',
+      erreurValidation: 'Error de validación de los datos',
+      erreurAuthentification: 'Error de autenticación',
+      erreurAutorisation: 'Acceso no autorizado',
+      erreurNonTrouve: 'Recurso no encontrado',
+      emailInvalide: 'Dirección de correo electrónico no válida',
+      motDePasseInvalide: 'Contraseña no válida',
+      emailDejaUtilise: 'Esta dirección de correo electrónico ya está en uso',
+      emailNonVerifie: 'Verifique su dirección de correo electrónico',
+      tokenInvalide: 'Token no válido',
+      tokenExpire: 'Token caducado',
+      pinIncorrect: 'Código PIN incorrecto'
+    },
+    echantillon: 'Por la mañana, la ciudad se despierta lentamente. Los comerciantes abren sus tiendas y los niños van a la escuela con sus padres. En las calles se oye el ruido de los coches y de los autobuses que atraviesan el barrio. En el mercado, los vecinos compran frutas, verduras y pan recién hecho. El gobierno ha anunciado una nueva ley sobre el medio ambiente que debe reducir la contaminación del aire en las grandes ciudades. Según los investigadores, esta medida permitirá mejorar la salud de la población. Sin embargo, las empresas tendrán que adaptar sus prácticas e invertir en tecnologías más limpias. Mucha gente piensa que estos cambios son necesarios, pero algunos temen sus consecuencias económicas. Por la noche, las familias se reúnen alrededor de la mesa para compartir la cena y hablar de su día.',
+    abreviations: ['sr', 'sra', 'srta', 'dr', 'dra', 'prof', 'etc', 'pág', 'págs', 'núm', 'vol', 'cap', 'fig', 'ej', 'aprox', 'av', 'ud', 'uds', 'vd', 'vds'],
+    motsVides: [
+      'los', 'las', 'una', 'unos', 'unas', 'del', 'que', 'por', 'para', 'con', 'sin', 'sobre',
+      'entre', 'como', 'más', 'menos', 'pero', 'porque', 'este', 'esta', 'estos', 'estas', 'ese',
+      'esa', 'esos', 'esas', 'son', 'fue', 'ser', 'está', 'están', 'han', 'hay', 'sus', 'nos',
+      'ella', 'ellos', 'ellas', 'también', 'muy', 'todo', 'todos', 'toda', 'todas', 'cuando',
+      'donde', 'desde', 'hasta', 'sino', 'otro', 'otra', 'otros', 'puede', 'era', 'sido'
+    ],
+    entites: {
+      titres: ['sr', 'sra', 'srta', 'dr', 'dra', 'don', 'doña', 'presidente', 'presidenta', 'ministro', 'ministra', 'alcalde', 'alcaldesa', 'profesor', 'profesora'],
+      organisations: ['sa', 'sl', 'empresa', 'grupo', 'banco', 'universidad', 'ministerio', 'asociación', 'instituto', 'fundación', 'agencia', 'comisión', 'partido', 'consejo'],
+      lieux: ['en', 'desde', 'hacia']
+    },
+    themes: {
+      politique: ['gobiern', 'ministr', 'elecci', 'parlament', 'diputad', 'senad', 'president', 'polític', 'reforma', 'congreso'],
+      economie: ['económ', 'economí', 'mercado', 'empresa', 'financ', 'banco', 'inflación', 'crecimiento', 'empleo', 'presupuesto', 'inversi'],
+      sciences: ['científ', 'ciencia', 'investigaci', 'investigador', 'estudio', 'laboratorio', 'físic', 'biolog', 'químic', 'descubrimiento'],
+      technologie: ['tecnolog', 'digital', 'software', 'informátic', 'internet', 'inteligencia', 'algoritm', 'datos', 'ordenador', 'computador', 'aplicaci'],
+      sante: ['salud', 'médic', 'medicina', 'enfermedad', 'paciente', 'hospital', 'tratamiento', 'vacun', 'virus', 'epidem'],
+      sport: ['deport', 'partido', 'equipo', 'jugador', 'campeonato', 'fútbol', 'olímpic', 'entrenador', 'liga', 'torneo'],
+      culture: ['cultur', 'película', 'cine', 'música', 'artista', 'libro', 'novela', 'teatro', 'exposici', 'museo', 'festival'],
+      environnement: ['medioambient', 'ambiental', 'clima', 'contaminaci', 'energía', 'carbono', 'biodiversidad', 'ecológ', 'emision', 'renovable', 'residuo']
+    }
+  },
+
+  de: {
+    nom: 'Deutsch',
+    locale: 'de-DE',
+    sousTitres: 'de',
+    prompts: {
+      mots: (mots: number) => `in höchstens ${mots} Wörtern`,
+      phrases: (phrases: number) => `in höchstens ${phrases} ${phrases > 1 ? 'Sätzen' : 'Satz'}`,
+      resume: (longueur: string) => `Fasse den folgenden Text auf Deutsch ${longueur} zusammen.`,
+      segment: (index: number, total: number, longueur: string) => `Dies ist Teil ${index}/${total} eines längeren Dokuments. Fasse ihn auf Deutsch ${longueur} zusammen und behalte die wichtigen Fakten, Zahlen und Namen bei:`,
+      fusion: (longueur: string) => `Die folgenden Texte sind die aufeinanderfolgenden Zusammenfassungen der Teile eines einzigen Dokuments. Fasse sie auf Deutsch ${longueur} zu einer einzigen, zusammenhängenden Zusammenfassung ohne Wiederholungen zusammen.`,
+      partie: 'Teil',
+      styles: {
+        paragraphe: 'Schreibe einen zusammenhängenden Fließtext in Absätzen.',
+        puces: 'Gib die Zusammenfassung als Aufzählung wieder, ein Gedanke pro Punkt.',
+        tldr: 'Schreibe ein TL;DR, das ohne Einleitung direkt auf den Punkt kommt.',
+        synthese: 'Schreibe ein Briefing für Entscheidungsträger: Kontext, Kernpunkte, Schlussfolgerungen und Empfehlungen.',
+        points_cles: 'Gib die wichtigsten Erkenntnisse als nummerierte Liste wieder.',
+        plan: 'Gib die Zusammenfassung als hierarchische Gliederung mit Überschriften und Unterpunkten wieder.'
+      },
+      questions: {
+        consigne: 'Beantworte die Frage auf Deutsch ausschließlich anhand der unten nummerierten Auszüge aus dem Dokument. Zitiere die verwendeten Auszüge mit ihrer Nummer in eckigen Klammern, zum Beispiel [2]. Wenn die Auszüge keine Antwort zulassen, sage das, ohne etwas zu erfinden.',
+        historique: 'Bisheriger Austausch',
+        question: 'Frage',
+        reponse: 'Antwort',
+        sansReponse: 'Das Dokument enthält keine Informationen, um diese Frage zu beantworten.'
+      }
+    },
+    messages: {
+      erreurServeur: 'Interner Serverfehler',
+      erreurValidation: 'Fehler bei der Datenvalidierung',
+      erreurAuthentification: 'Authentifizierungsfehler',
+      erreurAutorisation: 'Zugriff verweigert',
+      erreurNonTrouve: 'Ressource nicht gefunden',
+      emailInvalide: 'Ungültige E-Mail-Adresse',
+      motDePasseInvalide: 'Ungültiges Passwort',
+      emailDejaUtilise: 'Diese E-Mail-Adresse wird bereits verwendet',
+      emailNonVerifie: 'Bitte bestätigen Sie Ihre E-Mail-Adresse',
+      tokenInvalide: 'Ungültiges Token',
+      tokenExpire: 'Token abgelaufen',
+      pinIncorrect: 'Falscher PIN-Code'
+    },
+    echantillon: 'Am Morgen erwacht die Stadt langsam. Die Händler öffnen ihre Geschäfte und die Kinder gehen mit ihren Eltern zur Schule. Auf den Straßen hört man den Lärm der Autos und Busse, die durch das Viertel fahren. Auf dem Markt kaufen die Bewohner Obst, Gemüse und frisches Brot. Die Regierung hat ein neues Umweltgesetz angekündigt, das die Luftverschmutzung in den großen Städten verringern soll. Nach Angaben der Forscher wird diese Maßnahme die Gesundheit der Bevölkerung verbessern. Die Unternehmen müssen jedoch ihre Arbeitsweise anpassen und in sauberere Technologien investieren. Viele Menschen glauben, dass diese Veränderungen notwendig sind, aber manche fürchten ihre wirtschaftlichen Folgen. Am Abend versammeln sich die Familien um den Tisch, um gemeinsam zu essen und über ihren Tag zu sprechen.',
+    abreviations: ['dr', 'prof', 'hr', 'fr', 'str', 'nr', 'bzw', 'ca', 'usw', 'vgl', 'z.b', 'd.h', 'u.a', 'evtl', 'ggf', 'inkl', 'abs', 'jh', 'mio', 'mrd'],
+    motsVides: [
+      'der', 'die', 'das', 'den', 'dem', 'des', 'ein', 'eine', 'einer', 'eines', 'einem', 'einen',
+      'und', 'oder', 'aber', 'mit', 'von', 'für', 'auf', 'aus', 'bei', 'nach', 'über', 'unter',
+      'zwischen', 'durch', 'gegen', 'ohne', 'ist', 'sind', 'war', 'waren', 'wird', 'werden',
+      'wurde', 'hat', 'haben', 'hatte', 'sich', 'nicht', 'auch', 'noch', 'nur', 'sehr', 'wie',
+      'als', 'dass', 'wenn', 'sie', 'wir', 'ihr', 'ihre', 'sein', 'seine', 'dieser', 'diese',
+      'dieses', 'kann', 'mehr', 'schon', 'zum', 'zur', 'vom', 'beim'
+    ],
+    entites: {
+      titres: ['herr', 'frau', 'dr', 'prof', 'präsident', 'präsidentin', 'minister', 'ministerin', 'bürgermeister', 'bürgermeisterin', 'kanzler', 'kanzlerin'],
+      organisations: ['gmbh', 'ag', 'kg', 'gruppe', 'bank', 'universität', 'ministerium', 'verband', 'institut', 'stiftung', 'agentur', 'kommission', 'partei'],
+      lieux: ['in', 'nach', 'aus', 'bei']
+    },
+    themes: {
+      politique: ['regierung', 'minister', 'wahl', 'parlament', 'bundestag', 'abgeordnet', 'präsident', 'politi', 'reform', 'partei'],
+      economie: ['wirtschaft', 'markt', 'unternehm', 'finanz', 'bank', 'inflation', 'wachstum', 'arbeitsplätz', 'haushalt', 'investition', 'börse'],
+      sciences: ['wissenschaft', 'forschung', 'forscher', 'studie', 'labor', 'physik', 'biolog', 'chemie', 'entdeckung', 'experiment'],
+      technologie: ['technolog', 'digital', 'software', 'computer', 'internet', 'intelligenz', 'algorithm', 'daten', 'anwendung', 'netzwerk'],
+      sante: ['gesundheit', 'medizin', 'krankheit', 'patient', 'krankenhaus', 'klinik', 'behandlung', 'impf', 'virus', 'arzt', 'ärzt'],
+      sport: ['sport', 'spiel', 'mannschaft', 'spieler', 'meisterschaft', 'fußball', 'olympi', 'trainer', 'liga', 'turnier'],
+      culture: ['kultur', 'film', 'kino', 'musik', 'künstler', 'buch', 'roman', 'theater', 'ausstellung', 'museum', 'festival'],
+      environnement: ['umwelt', 'klima', 'verschmutzung', 'energie', 'kohlenstoff', 'biodiversität', 'ökolog', 'emission', 'erneuerbar', 'abfall', 'müll']
+    }
+  },
+
+  it: {
+    nom: 'Italiano',
+    locale: 'it-IT',
+    sousTitres: 'it',
+    prompts: {
+      mots: (mots: number) => `in massimo ${mots} parole`,
+      phrases: (phrases: number) => `in massimo ${phrases} ${phrases > 1 ? 'frasi' : 'frase'}`,
+      resume: (longueur: string) => `Riassumi il testo seguente in italiano ${longueur}.`,
+      segment: (index: number, total: number, longueur: string) => `Questa è la parte ${index}/${total} di un documento più lungo. Riassumila in italiano ${longueur}, conservando i fatti, le cifre e i nomi importanti:`,
+      fusion: (longueur: string) => `I testi seguenti sono i riassunti successivi delle parti di uno stesso documento. Combinali in un unico riassunto coerente in italiano ${longueur}, senza ripetizioni.`,
+      partie: 'Parte',
+      styles: {
+        paragraphe: 'Scrivi un testo scorrevole, in paragrafi.',
+        puces: 'Presenta il riassunto come elenco puntato, un\'idea per punto.',
+        tldr: 'Scrivi un TL;DR che vada dritto all\'essenziale, senza introduzione.',
+        synthese: 'Scrivi una nota di sintesi per un decisore: contesto, punti essenziali, conclusioni e raccomandazioni.',
+        points_cles: 'Presenta i punti chiave da ricordare come elenco numerato.',
+        plan: 'Presenta il riassunto come uno schema gerarchico, con titoli e sottopunti.'
+      },
+      questions: {
+        consigne: 'Rispondi in italiano alla domanda basandoti esclusivamente sugli estratti numerati del documento riportati di seguito. Cita gli estratti utilizzati con il loro numero tra parentesi quadre, ad esempio [2]. Se gli estratti non consentono di rispondere, dillo senza inventare nulla.',
+        historique: 'Scambi precedenti',
+        question: 'Domanda',
+        reponse: 'Risposta',
+        sansReponse: 'Il documento non contiene informazioni per rispondere a questa domanda.'
+      }
+    },
+    messages: {
+      erreurServeur: 'Errore interno del server',
+      erreurValidation: 'Errore di convalida dei dati',
+      erreurAuthentification: 'Errore di autenticazione',
+      erreurAutorisation: 'Accesso non autorizzato',
+      erreurNonTrouve: 'Risorsa non trovata',
+      emailInvalide: 'Indirizzo email non valido',
+      motDePasseInvalide: 'Password non valida',
+      emailDejaUtilise: 'Questo indirizzo email è già in uso',
+      emailNonVerifie: 'Verifica il tuo indirizzo email',
+      tokenInvalide: 'Token non valido',
+      tokenExpire: 'Token scaduto',
+      pinIncorrect: 'Codice PIN errato'
+    },
+    echantillon: 'La mattina la città si sveglia lentamente. I commercianti aprono i loro negozi e i bambini vanno a scuola con i genitori. Nelle strade si sente il rumore delle macchine e degli autobus che attraversano il quartiere. Al mercato gli abitanti comprano frutta, verdura e pane fresco. Il governo ha annunciato una nuova legge sull\'ambiente che dovrebbe ridurre l\'inquinamento dell\'aria nelle grandi città. Secondo i ricercatori, questa misura permetterà di migliorare la salute della popolazione. Le aziende dovranno però adattare le loro pratiche e investire in tecnologie più pulite. Molte persone pensano che questi cambiamenti siano necessari, ma alcuni temono le loro conseguenze economiche. La sera le famiglie si ritrovano intorno al tavolo per condividere la cena e parlare della giornata.',
+    abreviations: ['sig', 'sigg', 'sig.ra', 'dott', 'dott.ssa', 'prof', 'ing', 'avv', 'ecc', 'pag', 'pagg', 'n', 'vol', 'cap', 'fig', 'es', 'ca'],
+    motsVides: [
+      'gli', 'una', 'uno', 'del', 'della', 'dei', 'delle', 'dello', 'degli', 'nel', 'nella',
+      'nei', 'nelle', 'che', 'chi', 'per', 'con', 'tra', 'fra', 'sul', 'sulla', 'come', 'più',
+      'meno', 'non', 'sono', 'era', 'essere', 'stato', 'stata', 'hanno', 'anche', 'questo',
+      'questa', 'questi', 'queste', 'quello', 'quella', 'suo', 'sua', 'suoi', 'loro', 'noi',
+      'voi', 'molto', 'tutto', 'tutti', 'quando', 'dove', 'perché', 'però', 'ancora', 'dopo', 'prima'
+    ],
+    entites: {
+      titres: ['sig', 'sig.ra', 'dott', 'dott.ssa', 'prof', 'ing', 'avv', 'signor', 'signora', 'presidente', 'ministro', 'ministra', 'sindaco', 'sindaca'],
+      organisations: ['spa', 'srl', 'società', 'gruppo', 'banca', 'università', 'ministero', 'associazione', 'istituto', 'fondazione', 'agenzia', 'commissione', 'partito', 'consiglio'],
+      lieux: ['a', 'in', 'da']
+    },
+    themes: {
+      politique: ['govern', 'ministr', 'elezion', 'parlament', 'deputat', 'senat', 'president', 'politic', 'riforma', 'partit'],
+      economie: ['econom', 'mercat', 'aziend', 'impres', 'finanz', 'banca', 'banche', 'inflazione', 'crescita', 'occupazione', 'bilancio', 'investiment'],
+      sciences: ['scien', 'ricerca', 'ricercator', 'studio', 'laboratori', 'fisica', 'biolog', 'chimic', 'scoperta', 'esperiment'],
+      technologie: ['tecnolog', 'digital', 'software', 'informatic', 'internet', 'intelligenza', 'algoritm', 'dati', 'computer', 'applicazion'],
+      sante: ['salute', 'medic', 'malatti', 'pazient', 'ospedal', 'cure', 'vaccin', 'virus', 'trattament', 'epidem'],
+      sport: ['sport', 'partita', 'squadra', 'giocator', 'campionato', 'calcio', 'olimpic', 'allenator', 'torneo'],
+      culture: ['cultur', 'film', 'cinema', 'musica', 'artist', 'libro', 'libri', 'romanzo', 'teatro', 'mostra', 'museo', 'festival'],
+      environnement: ['ambient', 'clima', 'inquinament', 'energia', 'carbonio', 'biodiversità', 'ecolog', 'emission', 'rinnovabil', 'rifiut']
+    }
+  },
+
+  pt: {
+    nom: 'Português',
+    locale: 'pt-BR',
+    sousTitres: 'pt',
+    prompts: {
+      mots: (mots: number) => `em no máximo ${mots} palavras`,
+      phrases: (phrases: number) => `em no máximo ${phrases} ${phrases > 1 ? 'frases' : 'frase'}`,
+      resume: (longueur: string) => `Resuma o texto a seguir em português ${longueur}.`,
+      segment: (index: number, total: number, longueur: string) => `Esta é a parte ${index}/${total} de um documento mais longo. Resuma-a em português ${longueur}, mantendo os fatos, números e nomes importantes:`,
+      fusion: (longueur: string) => `Os textos a seguir são os resumos sucessivos das partes de um mesmo documento. Combine-os em um único resumo coerente em português ${longueur}, sem repetições.`,
+      partie: 'Parte',
+      styles: {
+        paragraphe: 'Escreva um texto corrido, em parágrafos.',
+        puces: 'Apresente o resumo como uma lista com marcadores, uma ideia por item.',
+        tldr: 'Escreva um TL;DR que vá direto ao essencial, sem introdução.',
+        synthese: 'Escreva uma nota de síntese para um tomador de decisão: contexto, pontos essenciais, conclusões e recomendações.',
+        points_cles: 'Apresente os pontos-chave a reter como uma lista numerada.',
+        plan: 'Apresente o resumo como um esquema hierárquico, com títulos e subitens.'
+      },
+      questions: {
+        consigne: 'Responda em português à pergunta com base apenas nos trechos numerados do documento abaixo. Cite os trechos utilizados pelo número entre colchetes, por exemplo [2]. Se os trechos não permitirem responder, diga isso sem inventar nada.',
+        historique: 'Conversa anterior',
+        question: 'Pergunta',
+        reponse: 'Resposta',
+        sansReponse: 'O documento não contém informações que permitam responder a esta pergunta.'
+      }
+    },
+    messages: {
+      erreurServeur: 'Erro interno do servidor',
+      erreurValidation: 'Erro de validação dos dados',
+      erreurAuthentification: 'Erro de autenticação',
+      erreurAutorisation: 'Acesso não autorizado',
+      erreurNonTrouve: 'Recurso não encontrado',
+      emailInvalide: 'Endereço de e-mail inválido',
+      motDePasseInvalide: 'Senha inválida',
+      emailDejaUtilise: 'Este endereço de e-mail já está em uso',
+      emailNonVerifie: 'Verifique seu endereço de e-mail',
+      tokenInvalide: 'Token inválido',
+      tokenExpire: 'Token expirado',
+      pinIncorrect: 'Código PIN incorreto'
+    },
+    echantillon: 'De manhã, a cidade acorda devagar. Os comerciantes abrem as suas lojas e as crianças vão para a escola com os pais. Nas ruas, ouve-se o barulho dos carros e dos ônibus que atravessam o bairro. No mercado, os moradores compram frutas, legumes e pão fresco. O governo anunciou uma nova lei sobre o meio ambiente que deve reduzir a poluição do ar nas grandes cidades. Segundo os pesquisadores, essa medida vai melhorar a saúde da população. No entanto, as empresas terão de adaptar as suas práticas e investir em tecnologias mais limpas. Muitas pessoas acham que essas mudanças são necessárias, mas algumas temem as suas consequências econômicas. À noite, as famílias se reúnem em volta da mesa para compartilhar o jantar e conversar sobre o seu dia.',
+    abreviations: ['sr', 'sra', 'srta', 'dr', 'dra', 'prof', 'profa', 'etc', 'pág', 'págs', 'n', 'nº', 'vol', 'cap', 'fig', 'ex', 'av', 'aprox'],
+    motsVides: [
+      'uma', 'umas', 'uns', 'dos', 'das', 'que', 'por', 'para', 'com', 'sem', 'sobre', 'entre',
+      'como', 'mais', 'menos', 'mas', 'porque', 'este', 'esta', 'estes', 'estas', 'esse', 'essa',
+      'esses', 'essas', 'isso', 'isto', 'são', 'foi', 'ser', 'está', 'estão', 'tem', 'têm', 'seu',
+      'sua', 'seus', 'suas', 'nos', 'nas', 'ele', 'ela', 'eles', 'elas', 'também', 'muito',
+      'todo', 'todos', 'toda', 'todas', 'quando', 'onde', 'desde', 'até', 'pela', 'pelo',
+      'pelas', 'pelos', 'outro', 'outra', 'pode', 'era', 'sido'
+    ],
+    entites: {
+      titres: ['sr', 'sra', 'dr', 'dra', 'prof', 'profa', 'senhor', 'senhora', 'presidente', 'ministro', 'ministra', 'prefeito', 'prefeita', 'governador', 'governadora'],
+      organisations: ['sa', 'ltda', 'empresa', 'grupo', 'banco', 'universidade', 'ministério', 'associação', 'instituto', 'fundação', 'agência', 'comissão', 'partido', 'conselho'],
+      lieux: ['em', 'no', 'na', 'para']
+    },
+    themes: {
+      politique: ['govern', 'ministr', 'eleiç', 'eleitor', 'parlament', 'congresso', 'deputad', 'senad', 'president', 'polític', 'reforma'],
+      economie: ['econom', 'mercado', 'empresa', 'financ', 'banco', 'inflação', 'crescimento', 'emprego', 'orçamento', 'investiment'],
+      sciences: ['científ', 'ciência', 'pesquis', 'estudo', 'laboratório', 'físic', 'biolog', 'químic', 'descobert', 'experiment'],
+      technologie: ['tecnolog', 'digital', 'software', 'informátic', 'internet', 'inteligência', 'algoritm', 'dados', 'computador', 'aplicativ'],
+      sante: ['saúde', 'médic', 'medicina', 'doença', 'paciente', 'hospital', 'tratamento', 'vacin', 'vírus', 'epidem'],
+      sport: ['esport', 'partida', 'equipe', 'jogador', 'campeonato', 'futebol', 'olímpic', 'treinador', 'torneio'],
+      culture: ['cultur', 'filme', 'cinema', 'música', 'artista', 'livro', 'romance', 'teatro', 'exposição', 'museu', 'festival'],
+      environnement: ['ambient', 'clima', 'poluição', 'energia', 'carbono', 'biodiversidade', 'ecológ', 'emiss', 'renovável', 'renováveis', 'resíduo', 'lixo']
+    }
+  },
+
+  ar: {
+    nom: 'العربية',
+    locale: 'ar',
+    sousTitres: 'ar',
+    prompts: {
+      mots: (mots: number) => `في ${mots} كلمة كحد أقصى`,
+      phrases: (phrases: number) => `في ${phrases} ${phrases > 1 ? 'جمل' : 'جملة'} كحد أقصى`,
+      resume: (longueur: string) => `لخّص النص التالي باللغة العربية ${longueur}.`,
+      segment: (index: number, total: number, longueur: string) => `هذا هو الجزء ${index}/${total} من مستند أطول. لخّصه باللغة العربية ${longueur}، مع الحفاظ على الحقائق والأرقام والأسماء المهمة:`,
+      fusion: (longueur: string) => `النصوص التالية هي الملخصات المتتالية لأجزاء مستند واحد. ادمجها في ملخص واحد متماسك باللغة العربية ${longueur}، دون تكرار.`,
+      partie: 'الجزء',
+      styles: {
+        paragraphe: 'اكتب نصًا متصلًا في فقرات.',
+        puces: 'قدّم الملخص في شكل قائمة نقطية، فكرة واحدة لكل نقطة.',
+        tldr: 'اكتب ملخصًا موجزًا (TL;DR) يدخل في صلب الموضوع مباشرة دون مقدمة.',
+        synthese: 'اكتب مذكرة تلخيصية لصانع القرار: السياق، والنقاط الأساسية، والاستنتاجات، والتوصيات.',
+        points_cles: 'قدّم النقاط الرئيسية التي يجب تذكرها في شكل قائمة مرقمة.',
+        plan: 'قدّم الملخص في شكل مخطط هرمي، مع عناوين ونقاط فرعية.'
+      },
+      questions: {
+        consigne: 'أجب عن السؤال باللغة العربية بالاعتماد فقط على المقتطفات المرقمة من المستند أدناه. استشهد بالمقتطفات التي استخدمتها برقمها بين قوسين معقوفين، مثل [2]. إذا كانت المقتطفات لا تسمح بالإجابة، فقل ذلك دون اختلاق أي شيء.',
+        historique: 'الأسئلة والأجوبة السابقة',
+        question: 'السؤال',
+        reponse: 'الجواب',
+        sansReponse: 'لا يحتوي المستند على معلومات تسمح بالإجابة عن هذا السؤال.'
+      }
+    },
+    messages: {
+      erreurServeur: 'خطأ داخلي في الخادم',
+      erreurValidation: 'خطأ في التحقق من البيانات',
+      erreurAuthentification: 'خطأ في المصادقة',
+      erreurAutorisation: 'وصول غير مصرح به',
+      erreurNonTrouve: 'المورد غير موجود',
+      emailInvalide: 'عنوان البريد الإلكتروني غير صالح',
+      motDePasseInvalide: 'كلمة المرور غير صالحة',
+      emailDejaUtilise: 'عنوان البريد الإلكتروني هذا مستخدم بالفعل',
+      emailNonVerifie: 'يرجى التحقق من عنوان بريدك الإلكتروني',
+      tokenInvalide: 'رمز غير صالح',
+      tokenExpire: 'انتهت صلاحية الرمز',
+      pinIncorrect: 'رمز PIN غير صحيح'
+    },
+    echantillon: 'في الصباح تستيقظ المدينة ببطء. يفتح التجار متاجرهم ويذهب الأطفال إلى المدرسة مع آبائهم. في الشوارع نسمع ضجيج السيارات والحافلات التي تعبر الحي. في السوق يشتري السكان الفواكه والخضروات والخبز الطازج. أعلنت الحكومة عن قانون جديد للبيئة من شأنه أن يقلل من تلوث الهواء في المدن الكبرى. وبحسب الباحثين فإن هذا الإجراء سيحسن صحة السكان. لكن على الشركات أن تغير ممارساتها وأن تستثمر في تقنيات أنظف. يعتقد كثير من الناس أن هذه التغييرات ضرورية، لكن البعض يخشى عواقبها الاقتصادية. وفي المساء تجتمع العائلات حول المائدة لتناول العشاء والحديث عن يومها.',
+    abreviations: ['د', 'م', 'ص', 'ج', 'هـ'],
+    motsVides: [
+      'في', 'من', 'على', 'إلى', 'عن', 'مع', 'هذا', 'هذه', 'ذلك', 'تلك', 'التي', 'الذي',
+      'الذين', 'كان', 'كانت', 'يكون', 'هو', 'هي', 'هم', 'أن', 'إن', 'لا', 'ما', 'لم', 'لن',
+      'قد', 'كل', 'بعد', 'قبل', 'بين', 'حتى', 'أو', 'ثم', 'عند', 'غير', 'أي', 'منذ', 'وهو',
+      'وهي', 'فيها', 'فيه', 'لها', 'له', 'كما', 'ولا', 'وقد', 'وفي', 'ومن', 'إلا', 'لكن'
+    ],
+    // Sans majuscules, les noms propres ne sont pas repérés : aucune entité n'est extraite
+    entites: {
+      titres: [],
+      organisations: [],
+      lieux: []
+    },
+    themes: {
+      politique: ['حكوم', 'الحكوم', 'وزير', 'الوزير', 'انتخاب', 'الانتخاب', 'برلمان', 'البرلمان', 'رئيس', 'الرئيس', 'سياس', 'السياس'],
+      economie: ['اقتصاد', 'الاقتصاد', 'سوق', 'السوق', 'شرك', 'الشرك', 'بنك', 'البنك', 'تضخم', 'التضخم', 'ميزاني', 'الميزاني', 'استثمار', 'الاستثمار'],
+      sciences: ['علم', 'العلم', 'علوم', 'العلوم', 'بحث', 'البحث', 'باحث', 'الباحث', 'دراس', 'الدراس', 'مختبر', 'المختبر', 'فيزياء', 'الفيزياء'],
+      technologie: ['تكنولوج', 'التكنولوج', 'تقني', 'التقني', 'رقمي', 'الرقمي', 'برمج', 'البرمج', 'حاسوب', 'الحاسوب', 'إنترنت', 'الإنترنت', 'ذكاء', 'الذكاء', 'بيانات', 'البيانات'],
+      sante: ['صحة', 'الصحة', 'صحي', 'الصحي', 'طبي', 'الطبي', 'طبيب', 'الطبيب', 'مرض', 'المرض', 'مريض', 'المريض', 'مستشفى', 'المستشفى', 'علاج', 'العلاج', 'لقاح', 'اللقاح', 'فيروس', 'الفيروس'],
+      sport: ['رياضة', 'الرياضة', 'رياضي', 'الرياضي', 'مباراة', 'المباراة', 'فريق', 'الفريق', 'لاعب', 'اللاعب', 'بطول', 'البطول', 'أولمب', 'الأولمب', 'مدرب', 'المدرب'],
+      culture: ['ثقاف', 'الثقاف', 'فيلم', 'الفيلم', 'سينما', 'السينما', 'موسيق', 'الموسيق', 'فنان', 'الفنان', 'كتاب', 'الكتاب', 'رواي', 'الرواي', 'مسرح', 'المسرح', 'متحف', 'المتحف', 'مهرجان', 'المهرجان'],
+      environnement: ['بيئ', 'البيئ', 'مناخ', 'المناخ', 'تلوث', 'التلوث', 'طاقة', 'الطاقة', 'كربون', 'الكربون', 'انبعاث', 'الانبعاث', 'متجدد', 'المتجدد', 'نفايات', 'النفايات']
+    }
+  }
+} satisfies Record<string, LanguageDefinition>;
+
+export default LANGUES;
@@ -111,6 +111,29 @@ export const verifyPin = async (
   }
 };
 
+/**
+ * Middleware de langue des résumés
+ * Sans `langue` dans la requête, la langue préférée de l'utilisateur est appliquée.
+ */
+export const applyPreferredLanguage = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    if (!req.utilisateur) {
+      throw new AuthenticationError('Utilisateur non authentifié');
+    }
+
+    if (!req.body.langue) {
+      req.body.langue = await authService.preferredLanguage(req.utilisateur.id);
+    }
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
 /**
  * Middleware de vérification de propriété de ressource
  */
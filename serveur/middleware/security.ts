@@ -155,12 +155,16 @@ export const checkOrigin = (req: Request, res: Response, next: NextFunction) =>
 
 /**
  * Middleware pour vérifier le content type
+ * Les envois de fichiers (multipart/form-data) sont acceptés en plus du JSON.
  */
 export const checkContentType = (req: Request, res: Response, next: NextFunction) => {
   if (req.method === 'POST' || req.method === 'PUT') {
     const contentType = req.headers['content-type'];
-    if (!contentType || !contentType.includes('application/json')) {
-      throw new AppError('Content-Type doit être application/json', 400);
+    if (
+      !contentType
+      || !(contentType.includes('application/json') || contentType.includes('multipart/form-data'))
+    ) {
+      throw new AppError('Content-Type doit être application/json ou multipart/form-data', 400);
     }
   }
   next();
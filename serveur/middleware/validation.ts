@@ -1,7 +1,8 @@
 import { Request, Response, NextFunction } from 'express';
 import { validationResult, ValidationChain, body } from 'express-validator';
-import { AppError } from '../types';
+import { AppError, SummarizationProviderName } from '../types';
 import { logService } from '../services/common';
+import config from '../config/config';
 
 /**
  * Middleware de validation des requêtes
@@ -33,6 +34,15 @@ export const validate = (validations: ValidationChain[]) => {
   };
 };
 
+/**
+ * Champ obligatoire (avec message) ou optionnel
+ */
+const champ = (fieldName: string, message: string, optional?: boolean): ValidationChain => {
+  return optional
+    ? body(fieldName).optional()
+    : body(fieldName).exists().withMessage(message);
+};
+
 /**
  * Schémas de validation communs
  */
@@ -74,10 +84,11 @@ export const validationSchemas = {
   ],
 
   // Validation de code PIN
-  pin: (fieldName: string = 'code_pin'): ValidationChain[] => [
-    body(fieldName)
-      .exists()
-      .withMessage('Code PIN requis')
+  pin: (
+    fieldName: string = 'code_pin',
+    options?: { optional?: boolean }
+  ): ValidationChain[] => [
+    champ(fieldName, 'Code PIN requis', options?.optional)
       .isLength({ min: 6, max: 6 })
       .withMessage('Le code PIN doit contenir 6 chiffres')
       .matches(/^\d+$/)
@@ -94,25 +105,111 @@ export const validationSchemas = {
   ],
 
   // Validation de langue
-  language: (fieldName: string = 'langue'): ValidationChain[] => [
-    body(fieldName)
-      .exists()
-      .withMessage('Langue requise')
-      .isIn(['fr', 'en'])
+  language: (
+    fieldName: string = 'langue',
+    options?: { optional?: boolean }
+  ): ValidationChain[] => [
+    champ(fieldName, 'Langue requise', options?.optional)
+      .isIn(config.SUPPORTED_LANGUAGES)
       .withMessage('Langue non supportée')
   ],
 
   // Validation de texte
-  text: (fieldName: string = 'texte', options?: { min?: number; max?: number }): ValidationChain[] => [
-    body(fieldName)
-      .exists()
-      .withMessage('Texte requis')
+  text: (
+    fieldName: string = 'texte',
+    options?: { min?: number; max?: number; optional?: boolean }
+  ): ValidationChain[] => [
+    champ(fieldName, 'Texte requis', options?.optional)
       .isString()
       .withMessage('Texte invalide')
       .isLength({ min: options?.min || 1, max: options?.max })
       .withMessage(`Le texte doit contenir entre ${options?.min || 1} et ${options?.max || 'infini'} caractères`)
   ],
 
+  // Validation d'entier
+  integer: (
+    fieldName: string = 'nombre',
+    options?: { min?: number; max?: number; optional?: boolean }
+  ): ValidationChain[] => [
+    champ(fieldName, 'Nombre requis', options?.optional)
+      .isInt({ min: options?.min, max: options?.max })
+      .withMessage(`Le nombre doit être compris entre ${options?.min ?? '-infini'} et ${options?.max ?? 'infini'}`)
+      .toInt()
+  ],
+
+  // Validation d'une valeur parmi une liste
+  choice: (
+    fieldName: string,
+    values: readonly string[],
+    options?: { optional?: boolean }
+  ): ValidationChain[] => [
+    champ(fieldName, 'Valeur requise', options?.optional)
+      .isIn(values as string[])
+      .withMessage(`Valeur invalide (valeurs acceptées : ${values.join(', ')})`)
+  ],
+
+  // Validation du style et de la longueur d'un résumé
+  summaryFormat: (): ValidationChain[] => [
+    ...validationSchemas.choice(
+      'style',
+      ['paragraphe', 'puces', 'tldr', 'synthese', 'points_cles', 'plan'],
+      { optional: true }
+    ),
+    ...validationSchemas.choice('unite_longueur', ['mots', 'phrases'], { optional: true }),
+    body('longueur')
+      .optional()
+      .isInt({ min: 1 })
+      .withMessage('La longueur doit être un entier positif')
+      .toInt()
+      .custom((longueur: number, { req }) => {
+        const enPhrases = req.body.unite_longueur === 'phrases';
+        const max = enPhrases ? config.PHRASES_MAX_RESUME : config.LONGUEUR_MAX_RESUME;
+        if (longueur > max) {
+          throw new Error(`La longueur ne peut pas dépasser ${max} ${enPhrases ? 'phrases' : 'mots'}`);
+        }
+        return true;
+      })
+  ],
+
+  // Validation du fournisseur d'un résumé et du modèle demandé, autorisé pour ce fournisseur
+  summaryProvider: (): ValidationChain[] => [
+    ...validationSchemas.choice('fournisseur', ['openai', 'local', 'extractif'], { optional: true }),
+    body('modele')
+      .optional()
+      .isString()
+      .withMessage('Modèle invalide')
+      .custom((modele: string, { req }) => {
+        const fournisseur: SummarizationProviderName = req.body.fournisseur
+          || config.RESUME_FOURNISSEUR;
+        if (!config.MODELES_AUTORISES[fournisseur]?.includes(modele)) {
+          throw new Error(`Modèle non autorisé pour le fournisseur ${fournisseur}`);
+        }
+        return true;
+      })
+  ],
+
+  // Validation des éléments d'un résumé par lot (article, vidéo YouTube ou texte)
+  summaryBatch: (fieldName: string = 'elements'): ValidationChain[] => [
+    ...validationSchemas.array(fieldName, { min: 1, max: config.LOT_ELEMENTS_MAX }),
+    ...validationSchemas.choice(`${fieldName}.*.type`, ['article', 'youtube', 'texte']),
+    body(`${fieldName}.*.url`)
+      .optional()
+      .isURL()
+      .withMessage('URL invalide'),
+    body(`${fieldName}.*.texte`)
+      .optional()
+      .isString()
+      .isLength({ min: 100 })
+      .withMessage('Le texte doit contenir au moins 100 caractères'),
+    body(`${fieldName}.*`)
+      .custom((element: { type?: string; url?: unknown; texte?: unknown }) => {
+        if (element.type === 'texte' ? !element.texte : !element.url) {
+          throw new Error(element.type === 'texte' ? 'Texte requis' : 'URL requise');
+        }
+        return true;
+      })
+  ],
+
   // Validation de date
   date: (fieldName: string = 'date'): ValidationChain[] => [
     body(fieldName)
@@ -123,12 +220,11 @@ export const validationSchemas = {
   ],
 
   // Validation de booléen
-  boolean: (fieldName: string = 'boolean'): ValidationChain[] => [
-    body(fieldName)
-      .exists()
-      .withMessage('Valeur requise')
+  boolean: (fieldName: string = 'boolean', options?: { optional?: boolean }): ValidationChain[] => [
+    champ(fieldName, 'Valeur requise', options?.optional)
       .isBoolean()
       .withMessage('Valeur booléenne invalide')
+      .toBoolean()
   ],
 
   // Validation de tableau
@@ -3,8 +3,10 @@ import { validate, validationSchemas } from '../middleware/validation';
 import { checkApiKey } from '../middleware/security';
 import { authenticateUser, authorizeAdmin } from '../middleware/auth';
 import db from '../utils/db';
+import { listClauses, paginate, parseListQuery } from '../utils/pagination';
 import { logService } from '../services/common';
-import { AppError, UserModel, SystemLogModel } from '../types';
+import config from '../config/config';
+import { AppError, ListDefinition, UserModel, SystemLogModel } from '../types';
 import type { Request, Response, NextFunction } from 'express';
 
 const router = Router();
@@ -13,22 +15,56 @@ const router = Router();
 router.use(authenticateUser);
 router.use(authorizeAdmin);
 
+// Colonnes retournées pour un utilisateur, sans ses hash ni le sel de son coffre
+const COLONNES_UTILISATEUR = 'id, email, identifiant, langue, est_verifie, role, '
+  + 'derniere_connexion, cree_le, modifie_le';
+
+// Tris et filtres de la liste des utilisateurs
+const LISTE_UTILISATEURS: ListDefinition = {
+  tris: {
+    cree_le: { nature: 'date', expression: "date_trunc('milliseconds', cree_le)" },
+    identifiant: { nature: 'texte', expression: 'identifiant' },
+    email: { nature: 'texte', expression: 'email' }
+  },
+  triParDefaut: '-cree_le',
+  filtres: {
+    role: { nature: 'texte', valeurs: ['utilisateur', 'admin'], condition: 'role = {role}' },
+    langue: {
+      nature: 'texte',
+      valeurs: config.SUPPORTED_LANGUAGES,
+      condition: 'langue = {langue}'
+    },
+    est_verifie: { nature: 'booleen', condition: 'est_verifie = {est_verifie}' },
+    cree_apres: { nature: 'date', condition: 'cree_le >= {cree_apres}' },
+    cree_avant: { nature: 'date', condition: 'cree_le < {cree_avant}' }
+  }
+};
+
 /**
- * @route GET /api/admin/users
- * @desc Récupérer tous les utilisateurs
+ * @route GET /api/admin/users?page=1&limit=20&sort=identifiant&role=admin
+ * @desc Récupérer une page des utilisateurs, triés et filtrés
  */
 router.get(
   '/users',
   checkApiKey,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const result = await db.query<UserModel>(
-        'SELECT * FROM utilisateurs ORDER BY cree_le DESC'
+      const requete = parseListQuery(req.query, LISTE_UTILISATEURS);
+      const params: unknown[] = [];
+      const { conditions, options } = listClauses(requete, LISTE_UTILISATEURS, params);
+
+      const result = await db.queryWithPagination<UserModel>(
+        `SELECT ${COLONNES_UTILISATEUR} FROM utilisateurs WHERE TRUE${conditions}`,
+        params,
+        requete.page,
+        requete.limit,
+        options
       );
 
       res.json({
         success: true,
-        data: result.rows
+        data: result.rows,
+        pagination: paginate(req, res, requete, result)
       });
     } catch (error) {
       next(error);
@@ -48,7 +84,7 @@ router.get(
     try {
       const id = parseInt(req.params.id, 10);
       const result = await db.query<UserModel>(
-        'SELECT * FROM utilisateurs WHERE id = $1',
+        `SELECT ${COLONNES_UTILISATEUR} FROM utilisateurs WHERE id = $1`,
         [id]
       );
 
@@ -131,7 +167,7 @@ router.put(
         UPDATE utilisateurs 
         SET ${updateFields.join(', ')}, modifie_le = CURRENT_TIMESTAMP
         WHERE id = $1
-        RETURNING *
+        RETURNING ${COLONNES_UTILISATEUR}
       `;
 
       const result = await db.query<UserModel>(query, values);
@@ -19,6 +19,7 @@ router.post(
     ...validationSchemas.text('identifiant'),
     ...validationSchemas.password(),
     ...validationSchemas.pin(),
+    ...validationSchemas.language('langue', { optional: true }),
   ]),
   async (req: Request, res: Response, next: NextFunction) => {
     try {
@@ -146,4 +147,27 @@ router.post(
   },
 );
 
+/**
+ * @route PUT /api/auth/langue
+ * @desc Modifier la langue des résumés lorsqu'aucune n'est demandée
+ */
+router.put(
+  '/langue',
+  checkApiKey,
+  authenticateUser,
+  validate([...validationSchemas.language()]),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const userId = (req as any).utilisateur.id;
+      await authService.updateLanguage(userId, req.body.langue);
+      res.json({
+        success: true,
+        data: { langue: req.body.langue },
+      });
+    } catch (error) {
+      next(error);
+    }
+  },
+);
+
 export default router;
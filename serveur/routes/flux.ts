@@ -0,0 +1,116 @@
+import { Router } from 'express';
+import { validate, validationSchemas } from '../middleware/validation';
+import { feedService } from '../services/feed';
+import { checkApiKey } from '../middleware/security';
+import { applyPreferredLanguage, authenticateUser } from '../middleware/auth';
+import type { Request, Response, NextFunction } from 'express';
+
+const router = Router();
+
+// Tous les endpoints nécessitent une authentification
+router.use(authenticateUser);
+
+/**
+ * @route POST /api/flux
+ * @desc S'abonner à un flux RSS ou Atom
+ */
+router.post(
+  '/',
+  checkApiKey,
+  validate([
+    ...validationSchemas.url(),
+    ...validationSchemas.language('langue', { optional: true }),
+    ...validationSchemas.choice('mode', ['abstractif', 'extractif'], { optional: true }),
+    ...validationSchemas.summaryFormat()
+  ]),
+  applyPreferredLanguage,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { url, langue, mode, style, longueur, unite_longueur } = req.body;
+      const utilisateur_id = (req as any).utilisateur.id;
+
+      const abonnement = await feedService.subscribe(utilisateur_id, url, {
+        langue, mode, style, longueur, unite_longueur
+      });
+
+      res.status(201).json({
+        success: true,
+        data: abonnement
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @route GET /api/flux
+ * @desc Récupérer les abonnements de l'utilisateur
+ */
+router.get(
+  '/',
+  checkApiKey,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const utilisateur_id = (req as any).utilisateur.id;
+      const abonnements = await feedService.findAll(utilisateur_id);
+
+      res.json({
+        success: true,
+        data: abonnements
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @route GET /api/flux/:id/entrees
+ * @desc Récupérer les entrées relevées dans un flux et leurs résumés
+ */
+router.get(
+  '/:id/entrees',
+  checkApiKey,
+  validate([...validationSchemas.id()]),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const utilisateur_id = (req as any).utilisateur.id;
+
+      const entrees = await feedService.findEntries(id, utilisateur_id);
+      res.json({
+        success: true,
+        data: entrees
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @route DELETE /api/flux/:id
+ * @desc Se désabonner d'un flux
+ */
+router.delete(
+  '/:id',
+  checkApiKey,
+  validate([...validationSchemas.id()]),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const utilisateur_id = (req as any).utilisateur.id;
+
+      await feedService.delete(id, utilisateur_id);
+      res.json({
+        success: true,
+        message: 'Abonnement supprimé avec succès'
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
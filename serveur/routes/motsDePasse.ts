@@ -0,0 +1,271 @@
+import { Router } from 'express';
+import { validate, validationSchemas } from '../middleware/validation';
+import { LISTE_MOTS_DE_PASSE, passwordService } from '../services/password';
+import { checkApiKey } from '../middleware/security';
+import { authenticateUser } from '../middleware/auth';
+import { paginate, parseListQuery } from '../utils/pagination';
+import type { Request, Response, NextFunction } from 'express';
+
+const router = Router();
+
+// Tous les endpoints nécessitent une authentification
+router.use(authenticateUser);
+
+/**
+ * @route POST /api/mots-de-passe
+ * @desc Enregistrer un nouveau mot de passe (chiffré avec la clé dérivée du PIN)
+ */
+router.post(
+  '/',
+  checkApiKey,
+  validate([
+    ...validationSchemas.text('site_web', { min: 1, max: 255 }),
+    ...validationSchemas.text('identifiant', { min: 1, max: 255 }),
+    ...validationSchemas.text('mot_de_passe', { min: 1 }),
+    ...validationSchemas.text('notes', { optional: true }),
+    ...validationSchemas.pin()
+  ]),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { site_web, identifiant, mot_de_passe, notes, code_pin } = req.body;
+      const utilisateur_id = (req as any).utilisateur.id;
+
+      const motDePasse = await passwordService.create({
+        utilisateur_id,
+        site_web,
+        identifiant,
+        mot_de_passe,
+        notes,
+        code_pin
+      });
+
+      res.status(201).json({
+        success: true,
+        data: motDePasse
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @route GET /api/mots-de-passe?page=1&limit=20&sort=site_web
+ * @desc Récupérer une page des mots de passe de l'utilisateur (sans les secrets en clair)
+ */
+router.get(
+  '/',
+  checkApiKey,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const utilisateur_id = (req as any).utilisateur.id;
+      const requete = parseListQuery(req.query, LISTE_MOTS_DE_PASSE);
+      const motsDePasse = await passwordService.findAll(utilisateur_id, requete);
+
+      res.json({
+        success: true,
+        data: motsDePasse.rows,
+        pagination: paginate(req, res, requete, motsDePasse)
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @route POST /api/mots-de-passe/generer
+ * @desc Générer un mot de passe sécurisé
+ */
+router.post(
+  '/generer',
+  checkApiKey,
+  validate([...validationSchemas.integer('longueur', { min: 8, max: 128, optional: true })]),
+  (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { longueur } = req.body;
+      const motDePasse = passwordService.generateSecurePassword(longueur);
+
+      res.json({
+        success: true,
+        data: {
+          mot_de_passe: motDePasse,
+          force: passwordService.checkPasswordStrength(motDePasse)
+        }
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @route POST /api/mots-de-passe/force
+ * @desc Vérifier la force d'un mot de passe
+ */
+router.post(
+  '/force',
+  checkApiKey,
+  validate([...validationSchemas.text('mot_de_passe', { min: 1 })]),
+  (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const force = passwordService.checkPasswordStrength(req.body.mot_de_passe);
+
+      res.json({
+        success: true,
+        data: force
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @route POST /api/mots-de-passe/migration
+ * @desc Migrer les anciennes entrées vers le chiffrement par utilisateur
+ * (le code PIN est vérifié par le service, qui en dérive la clé du coffre)
+ */
+router.post(
+  '/migration',
+  checkApiKey,
+  validate([...validationSchemas.pin()]),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const utilisateur_id = (req as any).utilisateur.id;
+
+      const resultat = await passwordService.migrateLegacy(utilisateur_id, req.body.code_pin);
+      res.json({
+        success: true,
+        data: resultat
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @route GET /api/mots-de-passe/:id
+ * @desc Récupérer un mot de passe par son ID (sans le secret en clair)
+ */
+router.get(
+  '/:id',
+  checkApiKey,
+  validate([...validationSchemas.id()]),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const utilisateur_id = (req as any).utilisateur.id;
+
+      const motDePasse = await passwordService.findById(id, utilisateur_id);
+      res.json({
+        success: true,
+        data: motDePasse
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @route POST /api/mots-de-passe/:id/reveler
+ * @desc Afficher un mot de passe en clair après vérification du code PIN
+ * (par le service, qui en dérive la clé du coffre)
+ */
+router.post(
+  '/:id/reveler',
+  checkApiKey,
+  validate([
+    ...validationSchemas.id(),
+    ...validationSchemas.pin()
+  ]),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const utilisateur_id = (req as any).utilisateur.id;
+
+      const motDePasse = await passwordService.reveal(id, utilisateur_id, req.body.code_pin);
+      res.json({
+        success: true,
+        data: motDePasse
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @route PUT /api/mots-de-passe/:id
+ * @desc Mettre à jour un mot de passe (le code PIN est requis pour changer le secret)
+ */
+router.put(
+  '/:id',
+  checkApiKey,
+  validate([
+    ...validationSchemas.id(),
+    ...validationSchemas.text('site_web', { min: 1, max: 255, optional: true }),
+    ...validationSchemas.text('identifiant', { min: 1, max: 255, optional: true }),
+    ...validationSchemas.text('mot_de_passe', { min: 1, optional: true }),
+    ...validationSchemas.text('notes', { optional: true }),
+    ...validationSchemas.pin('code_pin', { optional: true })
+  ]),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const utilisateur_id = (req as any).utilisateur.id;
+      const { site_web, identifiant, mot_de_passe, notes, code_pin } = req.body;
+
+      const updateData: {
+        site_web?: string;
+        identifiant?: string;
+        mot_de_passe?: string;
+        notes?: string;
+        code_pin?: string;
+      } = {};
+
+      if (site_web !== undefined) updateData.site_web = site_web;
+      if (identifiant !== undefined) updateData.identifiant = identifiant;
+      if (mot_de_passe !== undefined) updateData.mot_de_passe = mot_de_passe;
+      if (notes !== undefined) updateData.notes = notes;
+      if (code_pin !== undefined) updateData.code_pin = code_pin;
+
+      const motDePasse = await passwordService.update(id, utilisateur_id, updateData);
+
+      res.json({
+        success: true,
+        data: motDePasse
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @route DELETE /api/mots-de-passe/:id
+ * @desc Supprimer un mot de passe
+ */
+router.delete(
+  '/:id',
+  checkApiKey,
+  validate([...validationSchemas.id()]),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const utilisateur_id = (req as any).utilisateur.id;
+
+      await passwordService.delete(id, utilisateur_id);
+      res.json({
+        success: true,
+        message: 'Mot de passe supprimé avec succès'
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+export default router;
@@ -1,8 +1,9 @@
 import { Router } from 'express';
 import { validate, validationSchemas } from '../middleware/validation';
-import { noteService } from '../services/note';
+import { LISTE_NOTES, noteService } from '../services/note';
 import { checkApiKey } from '../middleware/security';
 import { authenticateUser } from '../middleware/auth';
+import { paginate, parseListQuery } from '../utils/pagination';
 import type { Request, Response, NextFunction } from 'express';
 
 const router = Router();
@@ -43,8 +44,8 @@ router.post(
 );
 
 /**
- * @route GET /api/notes
- * @desc Récupérer toutes les notes de l'utilisateur
+ * @route GET /api/notes?page=1&limit=20&sort=-modifie_le&est_archive=false
+ * @desc Récupérer une page des notes de l'utilisateur, triées et filtrées
  */
 router.get(
   '/',
@@ -52,11 +53,13 @@ router.get(
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const utilisateur_id = (req as any).utilisateur.id;
-      const notes = await noteService.findAll(utilisateur_id);
+      const requete = parseListQuery(req.query, LISTE_NOTES);
+      const notes = await noteService.findAll(utilisateur_id, requete);
 
       res.json({
         success: true,
-        data: notes
+        data: notes.rows,
+        pagination: paginate(req, res, requete, notes)
       });
     } catch (error) {
       next(error);
@@ -1,10 +1,26 @@
 import { Router } from 'express';
+import { promises as fs } from 'fs';
 import { validate, validationSchemas } from '../middleware/validation';
-import { resumeService } from '../services/resume';
+import { LISTE_RESUMES, resumeService } from '../services/resume';
+import { jobService } from '../services/job';
+import { questionService } from '../services/question';
+import { tagService } from '../services/tag';
+import { collectionService } from '../services/collection';
 import { checkApiKey } from '../middleware/security';
-import { authenticateUser } from '../middleware/auth';
+import { applyPreferredLanguage, authenticateUser } from '../middleware/auth';
 import type { Request, Response, NextFunction } from 'express';
-import { AppError } from '../types';
+import {
+  AppError,
+  CollectionExportFormat,
+  ResumeModel,
+  SummaryOptions,
+  SupportedLanguage,
+  TagType
+} from '../types';
+import config from '../config/config';
+import { openEventStream } from '../utils/sse';
+import { paginate, parseListQuery, parsePage } from '../utils/pagination';
+import { TYPES_TAGS } from '../utils/tagging';
 import fileUpload from 'express-fileupload';
 
 const router = Router();
@@ -12,6 +28,74 @@ const router = Router();
 // Tous les endpoints nécessitent une authentification
 router.use(authenticateUser);
 
+// Les demandes de résumé avec `?async=true` sont traitées en tâche de fond
+const isAsync = (req: Request): boolean => req.query.async === 'true';
+
+// Les demandes de résumé avec `?stream=true` sont diffusées en Server-Sent Events
+const isStream = (req: Request): boolean => req.query.stream === 'true';
+
+/**
+ * Type d'étiquette passé dans la chaîne de requête (facultatif)
+ */
+const parseTagType = (valeur: unknown): TagType | undefined => {
+  if (valeur === undefined) {
+    return undefined;
+  }
+  if (!TYPES_TAGS.includes(valeur as TagType)) {
+    throw new AppError(`Type d'étiquette invalide (valeurs acceptées : ${TYPES_TAGS.join(', ')})`, 400);
+  }
+  return valeur as TagType;
+};
+
+/**
+ * Contenu d'un fichier envoyé (écrit dans un fichier temporaire avec `useTempFiles`)
+ */
+const readUpload = (fichier: fileUpload.UploadedFile): Promise<Buffer> => (
+  fichier.data.length > 0 || !fichier.tempFilePath
+    ? Promise.resolve(fichier.data)
+    : fs.readFile(fichier.tempFilePath)
+);
+
+/**
+ * Supprimer le fichier temporaire d'un envoi, une fois la requête traitée
+ */
+const removeUpload = async (fichier?: fileUpload.UploadedFile): Promise<void> => {
+  if (fichier?.tempFilePath) {
+    await fs.unlink(fichier.tempFilePath).catch(() => undefined);
+  }
+};
+
+/**
+ * Diffuser la génération d'un résumé en Server-Sent Events
+ * Événements : `progression`, `token` (fragments du résumé final), puis `fin`
+ * avec le résumé enregistré ou `erreur`. Le résumé de `fin` fait foi : en cas
+ * de repli sur le moteur extractif, il remplace les fragments déjà reçus.
+ * Une déconnexion du client interrompt la génération et rien n'est enregistré.
+ */
+const streamSummary = async (
+  res: Response,
+  options: SummaryOptions,
+  summarize: (options: SummaryOptions) => Promise<ResumeModel>
+): Promise<void> => {
+  const flux = openEventStream(res);
+
+  try {
+    const resume = await summarize({
+      ...options,
+      signal: flux.signal,
+      onProgress: (progression) => flux.send('progression', progression),
+      onToken: (fragment) => flux.send('token', { texte: fragment })
+    });
+    flux.send('fin', { id: resume.id, resume });
+  } catch (error) {
+    flux.send('erreur', {
+      message: error instanceof AppError ? error.message : 'Erreur lors de la génération du résumé'
+    });
+  } finally {
+    flux.close();
+  }
+};
+
 /**
  * @route POST /api/resumes/url
  * @desc Résumer un article à partir d'une URL
@@ -21,14 +105,35 @@ router.post(
   checkApiKey,
   validate([
     ...validationSchemas.url(),
-    ...validationSchemas.language()
+    ...validationSchemas.language('langue', { optional: true }),
+    ...validationSchemas.choice('mode', ['abstractif', 'extractif'], { optional: true }),
+    ...validationSchemas.summaryFormat()
   ]),
+  applyPreferredLanguage,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const { url, langue } = req.body;
+      const { url, langue, mode, style, longueur, unite_longueur } = req.body;
       const utilisateur_id = (req as any).utilisateur.id;
 
-      const resume = await resumeService.summarizeUrl(utilisateur_id, url, langue);
+      const options = { mode, style, longueur, unite_longueur };
+
+      if (isAsync(req)) {
+        const tache = await jobService.enqueue(utilisateur_id, 'article', { url, langue, ...options });
+        res.status(202).json({
+          success: true,
+          data: tache
+        });
+        return;
+      }
+
+      if (isStream(req)) {
+        await streamSummary(res, options, (streamOptions) => (
+          resumeService.summarizeUrl(utilisateur_id, url, langue, streamOptions)
+        ));
+        return;
+      }
+
+      const resume = await resumeService.summarizeUrl(utilisateur_id, url, langue, options);
       res.json({
         success: true,
         data: resume
@@ -48,14 +153,35 @@ router.post(
   checkApiKey,
   validate([
     ...validationSchemas.text('texte', { min: 100 }),
-    ...validationSchemas.language()
+    ...validationSchemas.language('langue', { optional: true }),
+    ...validationSchemas.choice('mode', ['abstractif', 'extractif'], { optional: true }),
+    ...validationSchemas.summaryFormat()
   ]),
+  applyPreferredLanguage,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const { texte, langue } = req.body;
+      const { texte, langue, mode, style, longueur, unite_longueur } = req.body;
       const utilisateur_id = (req as any).utilisateur.id;
 
-      const resume = await resumeService.summarizeText(utilisateur_id, texte, langue);
+      const options = { mode, style, longueur, unite_longueur };
+
+      if (isAsync(req)) {
+        const tache = await jobService.enqueue(utilisateur_id, 'texte', { texte, langue, ...options });
+        res.status(202).json({
+          success: true,
+          data: tache
+        });
+        return;
+      }
+
+      if (isStream(req)) {
+        await streamSummary(res, options, (streamOptions) => (
+          resumeService.summarizeText(utilisateur_id, texte, langue, streamOptions)
+        ));
+        return;
+      }
+
+      const resume = await resumeService.summarizeText(utilisateur_id, texte, langue, options);
       res.json({
         success: true,
         data: resume
@@ -73,30 +199,129 @@ router.post(
 router.post(
   '/pdf',
   checkApiKey,
-  validate([...validationSchemas.language()]),
+  validate([
+    ...validationSchemas.language('langue', { optional: true }),
+    ...validationSchemas.choice('mode', ['abstractif', 'extractif'], { optional: true }),
+    ...validationSchemas.summaryFormat()
+  ]),
+  applyPreferredLanguage,
   async (req: Request, res: Response, next: NextFunction) => {
+    let pdfFile: fileUpload.UploadedFile | undefined;
     try {
       if (!req.files || !req.files.pdf) {
         throw new AppError('Fichier PDF requis', 400);
       }
 
       const pdf = req.files.pdf;
-      const pdfFile = Array.isArray(pdf) ? pdf[0] : pdf;
+      pdfFile = Array.isArray(pdf) ? pdf[0] : pdf;
 
       if (pdfFile.mimetype !== 'application/pdf') {
         throw new AppError('Le fichier doit être un PDF', 400);
       }
 
-      const { langue } = req.body;
+      const fichier = await readUpload(pdfFile);
+
+      const { langue, mode, style, longueur, unite_longueur } = req.body;
+      const utilisateur_id = (req as any).utilisateur.id;
+
+      const options = { mode, style, longueur, unite_longueur };
+
+      if (isAsync(req)) {
+        const tache = await jobService.enqueue(utilisateur_id, 'pdf', { langue, ...options }, fichier);
+        res.status(202).json({
+          success: true,
+          data: tache
+        });
+        return;
+      }
+
+      if (isStream(req)) {
+        await streamSummary(res, options, (streamOptions) => (
+          resumeService.summarizePdf(utilisateur_id, fichier, langue, streamOptions)
+        ));
+        return;
+      }
+
+      const resume = await resumeService.summarizePdf(utilisateur_id, fichier, langue, options);
+      res.json({
+        success: true,
+        data: resume
+      });
+    } catch (error) {
+      next(error);
+    } finally {
+      await removeUpload(pdfFile);
+    }
+  }
+);
+
+/**
+ * @route POST /api/resumes/fichier
+ * @desc Résumer un fichier (PDF, DOCX, EPUB, HTML, Markdown ou texte brut)
+ */
+router.post(
+  '/fichier',
+  checkApiKey,
+  validate([
+    ...validationSchemas.language('langue', { optional: true }),
+    ...validationSchemas.choice('mode', ['abstractif', 'extractif'], { optional: true }),
+    ...validationSchemas.summaryFormat()
+  ]),
+  applyPreferredLanguage,
+  async (req: Request, res: Response, next: NextFunction) => {
+    let envoi: fileUpload.UploadedFile | undefined;
+    try {
+      if (!req.files || !req.files.fichier) {
+        throw new AppError('Fichier requis', 400);
+      }
+
+      envoi = Array.isArray(req.files.fichier) ? req.files.fichier[0] : req.files.fichier;
+      const fichier = await readUpload(envoi);
+      const nomFichier = envoi.name;
+
+      const { langue, mode, style, longueur, unite_longueur } = req.body;
       const utilisateur_id = (req as any).utilisateur.id;
 
-      const resume = await resumeService.summarizePdf(utilisateur_id, pdfFile.data, langue);
+      const options = { mode, style, longueur, unite_longueur };
+
+      if (isAsync(req)) {
+        // Le format est vérifié avant la mise en file pour refuser le fichier immédiatement
+        const format = resumeService.detectFileFormat(fichier, nomFichier);
+        const tache = await jobService.enqueue(
+          utilisateur_id,
+          format,
+          { langue, nomFichier, ...options },
+          fichier
+        );
+        res.status(202).json({
+          success: true,
+          data: tache
+        });
+        return;
+      }
+
+      if (isStream(req)) {
+        await streamSummary(res, options, (streamOptions) => (
+          resumeService.summarizeFile(utilisateur_id, fichier, langue, streamOptions, nomFichier)
+        ));
+        return;
+      }
+
+      const resume = await resumeService.summarizeFile(
+        utilisateur_id,
+        fichier,
+        langue,
+        options,
+        nomFichier
+      );
       res.json({
         success: true,
         data: resume
       });
     } catch (error) {
       next(error);
+    } finally {
+      await removeUpload(envoi);
     }
   }
 );
@@ -110,14 +335,39 @@ router.post(
   checkApiKey,
   validate([
     ...validationSchemas.url('videoUrl'),
-    ...validationSchemas.language()
+    ...validationSchemas.language('langue', { optional: true }),
+    ...validationSchemas.choice('mode', ['abstractif', 'extractif'], { optional: true }),
+    ...validationSchemas.summaryFormat(),
+    ...validationSchemas.choice('chapitres', ['duree', 'sujet'], { optional: true })
   ]),
+  applyPreferredLanguage,
   async (req: Request, res: Response, next: NextFunction) => {
     try {
-      const { videoUrl, langue } = req.body;
+      const { videoUrl, langue, mode, style, longueur, unite_longueur, chapitres } = req.body;
       const utilisateur_id = (req as any).utilisateur.id;
 
-      const resume = await resumeService.summarizeYoutube(utilisateur_id, videoUrl, langue);
+      const options = { mode, style, longueur, unite_longueur, chapitres };
+
+      if (isAsync(req)) {
+        const tache = await jobService.enqueue(utilisateur_id, 'youtube', { videoUrl, langue, ...options });
+        res.status(202).json({
+          success: true,
+          data: tache
+        });
+        return;
+      }
+
+      if (isStream(req)) {
+        await streamSummary(res, options, (streamOptions) => (
+          resumeService.summarizeYoutube(utilisateur_id, videoUrl, langue, {
+            ...streamOptions,
+            chapitres
+          })
+        ));
+        return;
+      }
+
+      const resume = await resumeService.summarizeYoutube(utilisateur_id, videoUrl, langue, options);
       res.json({
         success: true,
         data: resume
@@ -129,8 +379,41 @@ router.post(
 );
 
 /**
- * @route GET /api/resumes
- * @desc Récupérer tous les résumés de l'utilisateur
+ * @route POST /api/resumes/batch
+ * @desc Résumer un lot d'articles, de vidéos YouTube et de textes
+ */
+router.post(
+  '/batch',
+  checkApiKey,
+  validate([
+    ...validationSchemas.summaryBatch(),
+    ...validationSchemas.language('langue', { optional: true }),
+    ...validationSchemas.choice('mode', ['abstractif', 'extractif'], { optional: true }),
+    ...validationSchemas.summaryFormat(),
+    ...validationSchemas.boolean('synthese', { optional: true })
+  ]),
+  applyPreferredLanguage,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const { elements, langue, mode, style, longueur, unite_longueur, synthese } = req.body;
+      const utilisateur_id = (req as any).utilisateur.id;
+
+      const lot = await resumeService.summarizeBatch(utilisateur_id, elements, langue, {
+        mode, style, longueur, unite_longueur, synthese
+      });
+      res.json({
+        success: true,
+        data: lot
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @route GET /api/resumes?page=1&limit=20&sort=-cree_le&tag=climat&type_tag=mot_cle
+ * @desc Récupérer une page des résumés de l'utilisateur, triés et filtrés
  */
 router.get(
   '/',
@@ -138,10 +421,585 @@ router.get(
   async (req: Request, res: Response, next: NextFunction) => {
     try {
       const utilisateur_id = (req as any).utilisateur.id;
-      const resumes = await resumeService.findAll(utilisateur_id);
+      const requete = parseListQuery(req.query, LISTE_RESUMES);
+
+      const resumes = await resumeService.findAll(utilisateur_id, requete);
+      res.json({
+        success: true,
+        data: resumes.rows,
+        pagination: paginate(req, res, requete, resumes)
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @route GET /api/resumes/tags?type=personne
+ * @desc Nuage d'étiquettes de l'utilisateur
+ */
+router.get(
+  '/tags',
+  checkApiKey,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const utilisateur_id = (req as any).utilisateur.id;
+      const tags = await tagService.findCloud(utilisateur_id, parseTagType(req.query.type));
+      res.json({
+        success: true,
+        data: tags
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @route GET /api/resumes/recherche?q=climat&page=1&limit=10
+ * @desc Rechercher dans les résumés de l'utilisateur
+ */
+router.get(
+  '/recherche',
+  checkApiKey,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const utilisateur_id = (req as any).utilisateur.id;
+      const requete = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+      if (requete.length === 0 || requete.length > 200) {
+        throw new AppError('Requête de recherche requise (200 caractères au plus)', 400);
+      }
+
+      const langue = req.query.langue as SupportedLanguage | undefined;
+      if (langue !== undefined && !config.SUPPORTED_LANGUAGES.includes(langue)) {
+        throw new AppError('Langue non supportée', 400);
+      }
+
+      const pagination = parsePage(
+        req.query,
+        config.RECHERCHE_PAR_PAGE,
+        config.RECHERCHE_PAR_PAGE_MAX
+      );
+
+      const resultats = await resumeService.search(utilisateur_id, requete, {
+        ...pagination,
+        langue
+      });
+      res.json({
+        success: true,
+        data: resultats.rows,
+        pagination: paginate(req, res, pagination, resultats)
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * Résumés visés par un ajout ou un retrait en lot dans une collection
+ */
+const resumeIdsSchema = () => [
+  ...validationSchemas.array('resume_ids', { min: 1, max: config.COLLECTIONS_LOT_MAX }),
+  ...validationSchemas.integer('resume_ids.*', { min: 1 })
+];
+
+// Formats d'export d'une collection acceptés dans `?format=`
+const FORMATS_EXPORT: CollectionExportFormat[] = ['markdown', 'json'];
+
+/**
+ * Format d'export passé dans la chaîne de requête (Markdown par défaut)
+ */
+const parseExportFormat = (valeur: unknown): CollectionExportFormat => {
+  if (valeur === undefined) {
+    return 'markdown';
+  }
+  if (!FORMATS_EXPORT.includes(valeur as CollectionExportFormat)) {
+    throw new AppError(`Format d'export invalide (valeurs acceptées : ${FORMATS_EXPORT.join(', ')})`, 400);
+  }
+  return valeur as CollectionExportFormat;
+};
+
+/**
+ * @route GET /api/resumes/collections
+ * @desc Récupérer les collections de l'utilisateur
+ */
+router.get(
+  '/collections',
+  checkApiKey,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const utilisateur_id = (req as any).utilisateur.id;
+
+      const collections = await collectionService.findAll(utilisateur_id);
+      res.json({
+        success: true,
+        data: collections
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @route POST /api/resumes/collections
+ * @desc Créer une collection de résumés
+ */
+router.post(
+  '/collections',
+  checkApiKey,
+  validate([
+    ...validationSchemas.text('nom', { max: 100 }),
+    ...validationSchemas.text('description', { max: 1000, optional: true })
+  ]),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const utilisateur_id = (req as any).utilisateur.id;
+      const { nom, description } = req.body;
+
+      const collection = await collectionService.create(utilisateur_id, {
+        nom: nom.trim(),
+        description
+      });
+      res.status(201).json({
+        success: true,
+        data: collection
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @route GET /api/resumes/collections/:id
+ * @desc Récupérer une collection et son nombre de résumés
+ */
+router.get(
+  '/collections/:id',
+  checkApiKey,
+  validate([...validationSchemas.id()]),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const utilisateur_id = (req as any).utilisateur.id;
+
+      const collection = await collectionService.findById(id, utilisateur_id);
+      res.json({
+        success: true,
+        data: collection
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @route PUT /api/resumes/collections/:id
+ * @desc Renommer une collection ou modifier sa description
+ */
+router.put(
+  '/collections/:id',
+  checkApiKey,
+  validate([
+    ...validationSchemas.id(),
+    ...validationSchemas.text('nom', { max: 100, optional: true }),
+    ...validationSchemas.text('description', { max: 1000, optional: true })
+  ]),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const utilisateur_id = (req as any).utilisateur.id;
+      const { nom, description } = req.body;
+
+      const collection = await collectionService.update(id, utilisateur_id, {
+        nom: nom?.trim(),
+        description
+      });
+      res.json({
+        success: true,
+        data: collection
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @route DELETE /api/resumes/collections/:id
+ * @desc Supprimer une collection (ses résumés sont conservés)
+ */
+router.delete(
+  '/collections/:id',
+  checkApiKey,
+  validate([...validationSchemas.id()]),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const utilisateur_id = (req as any).utilisateur.id;
+
+      await collectionService.delete(id, utilisateur_id);
+      res.json({
+        success: true,
+        message: 'Collection supprimée avec succès'
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @route POST /api/resumes/collections/:id/resumes
+ * @desc Ajouter des résumés à une collection
+ */
+router.post(
+  '/collections/:id/resumes',
+  checkApiKey,
+  validate([...validationSchemas.id(), ...resumeIdsSchema()]),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const utilisateur_id = (req as any).utilisateur.id;
+
+      const { resume_ids } = req.body;
+
+      const ajoutes = await collectionService.addResumes(id, utilisateur_id, resume_ids);
+      res.json({
+        success: true,
+        data: { ajoutes }
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @route POST /api/resumes/collections/:id/resumes/retirer
+ * @desc Retirer des résumés d'une collection, sans les supprimer
+ */
+router.post(
+  '/collections/:id/resumes/retirer',
+  checkApiKey,
+  validate([...validationSchemas.id(), ...resumeIdsSchema()]),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const utilisateur_id = (req as any).utilisateur.id;
+
+      const { resume_ids } = req.body;
+
+      const retires = await collectionService.removeResumes(id, utilisateur_id, resume_ids);
+      res.json({
+        success: true,
+        data: { retires }
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @route GET /api/resumes/collections/:id/export?format=markdown
+ * @desc Exporter une collection et ses résumés (Markdown ou JSON)
+ */
+router.get(
+  '/collections/:id/export',
+  checkApiKey,
+  validate([...validationSchemas.id()]),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const utilisateur_id = (req as any).utilisateur.id;
+
+      const fichier = await collectionService.export(
+        id,
+        utilisateur_id,
+        parseExportFormat(req.query.format)
+      );
+      res.attachment(fichier.nomFichier);
+      res.type(fichier.typeContenu);
+      res.send(fichier.contenu);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @route GET /api/resumes/jobs/:id
+ * @desc Suivre l'état d'une tâche de résumé asynchrone
+ */
+router.get(
+  '/jobs/:id',
+  checkApiKey,
+  validate([...validationSchemas.id()]),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const utilisateur_id = (req as any).utilisateur.id;
+
+      const tache = await jobService.findById(id, utilisateur_id);
+      res.json({
+        success: true,
+        data: tache
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * Numéro de version passé dans l'URL ou la chaîne de requête
+ */
+const parseVersion = (valeur: unknown): number => {
+  const numero = Number(valeur);
+  if (!Number.isInteger(numero) || numero < 1) {
+    throw new AppError('Numéro de version invalide', 400);
+  }
+  return numero;
+};
+
+/**
+ * @route POST /api/resumes/:id/regenerer
+ * @desc Régénérer un résumé avec un autre style, une autre longueur ou un autre modèle
+ */
+router.post(
+  '/:id/regenerer',
+  checkApiKey,
+  validate([
+    ...validationSchemas.id(),
+    ...validationSchemas.summaryFormat(),
+    ...validationSchemas.summaryProvider()
+  ]),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const utilisateur_id = (req as any).utilisateur.id;
+      const { style, longueur, unite_longueur, fournisseur, modele } = req.body;
+
+      const resume = await resumeService.regenerate(id, utilisateur_id, {
+        style,
+        longueur,
+        unite_longueur,
+        fournisseur,
+        modele
+      });
+      res.json({
+        success: true,
+        data: resume
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @route GET /api/resumes/:id/versions
+ * @desc Lister les versions d'un résumé
+ */
+router.get(
+  '/:id/versions',
+  checkApiKey,
+  validate([...validationSchemas.id()]),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const utilisateur_id = (req as any).utilisateur.id;
+
+      const versions = await resumeService.findVersions(id, utilisateur_id);
+      res.json({
+        success: true,
+        data: versions
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @route GET /api/resumes/:id/versions/diff?de=1&vers=2
+ * @desc Comparer deux versions d'un résumé
+ */
+router.get(
+  '/:id/versions/diff',
+  checkApiKey,
+  validate([...validationSchemas.id()]),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const utilisateur_id = (req as any).utilisateur.id;
+      const de = parseVersion(req.query.de);
+      const vers = parseVersion(req.query.vers);
+
+      const diff = await resumeService.diffVersions(id, utilisateur_id, de, vers);
+      res.json({
+        success: true,
+        data: diff
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @route POST /api/resumes/:id/versions/:numero/restaurer
+ * @desc Restaurer une version précédente d'un résumé
+ */
+router.post(
+  '/:id/versions/:numero/restaurer',
+  checkApiKey,
+  validate([...validationSchemas.id()]),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const utilisateur_id = (req as any).utilisateur.id;
+      const numero = parseVersion(req.params.numero);
+
+      const resume = await resumeService.restoreVersion(id, utilisateur_id, numero);
+      res.json({
+        success: true,
+        data: resume
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @route POST /api/resumes/:id/questions
+ * @desc Poser une question sur le document d'un résumé
+ */
+router.post(
+  '/:id/questions',
+  checkApiKey,
+  validate([
+    ...validationSchemas.id(),
+    ...validationSchemas.text('question', { max: 1000 }),
+    ...validationSchemas.choice('mode', ['abstractif', 'extractif'], { optional: true })
+  ]),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const utilisateur_id = (req as any).utilisateur.id;
+      const { question, mode } = req.body;
+
+      const echange = await questionService.ask(id, utilisateur_id, question, { mode });
+      res.json({
+        success: true,
+        data: echange
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @route GET /api/resumes/:id/questions
+ * @desc Récupérer les questions posées sur le document d'un résumé
+ */
+router.get(
+  '/:id/questions',
+  checkApiKey,
+  validate([...validationSchemas.id()]),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const utilisateur_id = (req as any).utilisateur.id;
+
+      const questions = await questionService.findAll(id, utilisateur_id);
+      res.json({
+        success: true,
+        data: questions
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @route DELETE /api/resumes/:id/questions
+ * @desc Effacer les questions posées sur le document d'un résumé
+ */
+router.delete(
+  '/:id/questions',
+  checkApiKey,
+  validate([...validationSchemas.id()]),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const utilisateur_id = (req as any).utilisateur.id;
+
+      await questionService.clear(id, utilisateur_id);
+      res.json({
+        success: true,
+        message: 'Conversation effacée avec succès'
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @route POST /api/resumes/:id/tags
+ * @desc Ajouter des étiquettes de l'utilisateur à un résumé
+ */
+router.post(
+  '/:id/tags',
+  checkApiKey,
+  validate([
+    ...validationSchemas.id(),
+    ...validationSchemas.array('tags', { min: 1, max: config.TAGS_UTILISATEUR_MAX }),
+    ...validationSchemas.text('tags.*', { max: 100 })
+  ]),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const utilisateur_id = (req as any).utilisateur.id;
+      const { tags: libelles } = req.body;
+
+      const tags = await tagService.addUserTags(id, utilisateur_id, libelles);
+      res.status(201).json({
+        success: true,
+        data: tags
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+/**
+ * @route DELETE /api/resumes/:id/tags/:libelle
+ * @desc Retirer une étiquette de l'utilisateur d'un résumé
+ */
+router.delete(
+  '/:id/tags/:libelle',
+  checkApiKey,
+  validate([...validationSchemas.id()]),
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const id = parseInt(req.params.id, 10);
+      const utilisateur_id = (req as any).utilisateur.id;
+
+      await tagService.removeUserTag(id, utilisateur_id, req.params.libelle);
       res.json({
         success: true,
-        data: resumes
+        message: 'Étiquette retirée avec succès'
       });
     } catch (error) {
       next(error);
@@ -1,86 +1,8 @@
-import express from 'express';
-import type { Express, Request, Response } from 'express';
-import helmet from 'helmet';
-import cors from 'cors';
-import fileUpload from 'express-fileupload';
 import { join } from 'path';
 import config from './config/config';
 import { logService } from './services/common';
 import db from './utils/db';
-import {
-  errorHandler,
-  notFoundHandler,
-  jsonSyntaxErrorHandler,
-} from './middleware/errorHandler';
-import {
-  rateLimiter,
-  corsOptions,
-  helmetConfig,
-  sanitizeInput,
-  checkContentType,
-} from './middleware/security';
-
-// Import des routes
-import authRoutes from './routes/auth';
-import resumesRoutes from './routes/resumes';
-import motsDePasseRoutes from './routes/motsDePasse';
-import notesRoutes from './routes/notes';
-import adminRoutes from './routes/admin';
-
-// Création de l'application Express
-const app: Express = express();
-
-// Configuration des middlewares de base
-app.use(helmet(helmetConfig));
-app.use(cors(corsOptions));
-app.use(express.json());
-app.use(express.urlencoded({ extended: true }));
-app.use(rateLimiter);
-
-// Configuration de l'upload de fichiers
-const fileUploadMiddleware = fileUpload({
-  limits: { fileSize: config.MAX_FILE_SIZE },
-  abortOnLimit: true,
-  createParentPath: true,
-  useTempFiles: true,
-  tempFileDir: join(__dirname, '../tmp'),
-  debug: config.NODE_ENV === 'development'
-});
-
-app.use(fileUploadMiddleware as express.RequestHandler);
-app.use(sanitizeInput as express.RequestHandler);
-app.use(checkContentType as express.RequestHandler);
-
-// Dossier pour les fichiers statiques
-app.use('/uploads', express.static(join(__dirname, '../uploads')));
-
-// Préfixe API
-const API_PREFIX = '/api';
-
-// Enregistrement des routes
-app.use(`${API_PREFIX}/auth`, authRoutes);
-app.use(`${API_PREFIX}/resumes`, resumesRoutes);
-app.use(`${API_PREFIX}/mots-de-passe`, motsDePasseRoutes);
-app.use(`${API_PREFIX}/notes`, notesRoutes);
-app.use(`${API_PREFIX}/admin`, adminRoutes);
-
-// Route de santé
-app.get('/health', async (_req: Request, res: Response) => {
-  const dbHealth = await db.healthCheck();
-  res.json({
-    status: 'ok',
-    timestamp: new Date().toISOString(),
-    database: dbHealth ? 'connected' : 'disconnected',
-    environment: config.NODE_ENV,
-  });
-});
-
-// Middleware pour les routes non trouvées
-app.use(notFoundHandler as express.RequestHandler);
-
-// Middleware de gestion des erreurs
-app.use(jsonSyntaxErrorHandler as express.ErrorRequestHandler);
-app.use(errorHandler as express.ErrorRequestHandler);
+import app from './app';
 
 // Nettoyage périodique des sessions expirées
 import { sessionService } from './services/session';
@@ -94,6 +16,37 @@ setInterval(async () => {
   }
 }, 60 * 60 * 1000); // Toutes les heures
 
+// Purge périodique des entrées de cache expirées
+import { getCacheStore } from './services/cache';
+setInterval(async () => {
+  try {
+    const supprimees = await getCacheStore().purge();
+    logService.info('cache_purged', { count: supprimees });
+  } catch (error) {
+    logService.error('cache_purge_error', {
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}, 60 * 60 * 1000); // Toutes les heures
+
+// Purge périodique des textes sources arrivés en fin de conservation
+import { resumeService } from './services/resume';
+setInterval(async () => {
+  try {
+    await resumeService.purgeSourceTexts();
+  } catch {
+    // Erreur déjà journalisée par le service
+  }
+}, 60 * 60 * 1000); // Toutes les heures
+
+// Traitement des tâches de résumé asynchrones
+import { jobService } from './services/job';
+jobService.startWorker();
+
+// Relevé périodique des flux RSS et Atom
+import { feedService } from './services/feed';
+feedService.startPoller();
+
 // Gestion des erreurs non capturées
 process.on('unhandledRejection', (reason: Error | any) => {
   logService.error('unhandled_rejection', {
@@ -123,6 +76,10 @@ const server = app.listen(PORT, () => {
 // Gestion gracieuse de l'arrêt
 const gracefulShutdown = async () => {
   try {
+    // Arrêt du traitement des tâches (les tâches en cours seront reprises)
+    jobService.stopWorker();
+    feedService.stopPoller();
+
     // Fermeture du serveur HTTP
     server.close(() => {
       logService.info('server_closed');
@@ -1,6 +1,6 @@
 import bcrypt from 'bcrypt';
 import jwt from 'jsonwebtoken';
-import { AppError, UserPayload, UserModel } from '../types';
+import { AppError, SupportedLanguage, UserPayload, UserModel } from '../types';
 import { logService } from './common';
 import db from '../utils/db';
 import config from '../config/config';
@@ -19,6 +19,7 @@ export const authService = {
     identifiant: string;
     mot_de_passe: string;
     code_pin: string;
+    langue?: SupportedLanguage;
   }): Promise<UserPayload> {
     try {
 const existingUser = await db.query<UserModel>(
@@ -38,10 +39,13 @@ const existingUser = await db.query<UserModel>(
       // Enregistrement de l'utilisateur
       const result = await db.query<UserModel>(
         `INSERT INTO utilisateurs 
-        (email, identifiant, mot_de_passe_hash, code_pin_hash, est_verifie, role)
-        VALUES ($1, $2, $3, $4, $5, $6)
+        (email, identifiant, mot_de_passe_hash, code_pin_hash, est_verifie, role, langue)
+        VALUES ($1, $2, $3, $4, $5, $6, $7)
         RETURNING id, email, identifiant, est_verifie, role`,
-        [data.email, data.identifiant, motDePasseHash, codePinHash, false, 'utilisateur']
+        [
+          data.email, data.identifiant, motDePasseHash, codePinHash, false, 'utilisateur',
+          data.langue || config.DEFAULT_LANGUAGE
+        ]
       );
 
       const user: UserPayload = {
@@ -284,6 +288,55 @@ const existingUser = await db.query<UserModel>(
       });
       throw error;
     }
+  },
+
+  /**
+   * Langue préférée d'un utilisateur pour ses résumés
+   * Une langue retirée du registre est remplacée par la langue par défaut.
+   */
+  async preferredLanguage(userId: number): Promise<SupportedLanguage> {
+    try {
+      const result = await db.query<Pick<UserModel, 'langue'>>(
+        'SELECT langue FROM utilisateurs WHERE id = $1',
+        [userId]
+      );
+
+      const langue = result.rows[0]?.langue;
+      return langue && config.SUPPORTED_LANGUAGES.includes(langue)
+        ? langue
+        : config.DEFAULT_LANGUAGE;
+    } catch (error) {
+      logService.error('preferred_language_error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        utilisateur_id: userId
+      });
+      throw error;
+    }
+  },
+
+  /**
+   * Modifier la langue préférée d'un utilisateur
+   */
+  async updateLanguage(userId: number, langue: SupportedLanguage): Promise<void> {
+    try {
+      const result = await db.query(
+        `UPDATE utilisateurs SET langue = $1, modifie_le = CURRENT_TIMESTAMP
+        WHERE id = $2 RETURNING id`,
+        [langue, userId]
+      );
+
+      if (result.rows.length === 0) {
+        throw new AppError('Utilisateur non trouvé', 404);
+      }
+
+      logService.info('language_updated', { utilisateur_id: userId, langue });
+    } catch (error) {
+      logService.error('language_update_error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        utilisateur_id: userId
+      });
+      throw error;
+    }
   }
 };
 
@@ -0,0 +1,129 @@
+import { AppError, CacheBackendName, CacheEntry, CacheStore } from '../types';
+import db from '../utils/db';
+import config from '../config/config';
+
+/**
+ * Cache en mémoire (LRU) : l'entrée la moins récemment utilisée est évincée
+ * lorsque la taille maximale est atteinte
+ */
+export const createMemoryCacheStore = <T>(tailleMax: number): CacheStore<T> => {
+  // L'ordre d'insertion de la Map sert d'ordre d'utilisation
+  const entrees = new Map<string, CacheEntry<T>>();
+
+  return {
+    nom: 'memoire',
+
+    get(cle: string): Promise<T | null> {
+      const entree = entrees.get(cle);
+      if (!entree) {
+        return Promise.resolve(null);
+      }
+
+      entrees.delete(cle);
+      if (entree.expires.getTime() <= Date.now()) {
+        return Promise.resolve(null);
+      }
+
+      entrees.set(cle, entree);
+      return Promise.resolve(entree.data);
+    },
+
+    set(cle: string, valeur: T, ttlSecondes: number): Promise<void> {
+      entrees.delete(cle);
+      entrees.set(cle, { data: valeur, expires: new Date(Date.now() + ttlSecondes * 1000) });
+
+      while (entrees.size > tailleMax) {
+        const plusAncienne = entrees.keys().next().value as string;
+        entrees.delete(plusAncienne);
+      }
+      return Promise.resolve();
+    },
+
+    delete(cle: string): Promise<void> {
+      entrees.delete(cle);
+      return Promise.resolve();
+    },
+
+    purge(): Promise<number> {
+      const maintenant = Date.now();
+      let supprimees = 0;
+      entrees.forEach((entree, cle) => {
+        if (entree.expires.getTime() <= maintenant) {
+          entrees.delete(cle);
+          supprimees++;
+        }
+      });
+      return Promise.resolve(supprimees);
+    }
+  };
+};
+
+/**
+ * Cache partagé entre les processus, stocké dans la table `cache_entrees`
+ */
+export const createPostgresCacheStore = <T>(): CacheStore<T> => ({
+  nom: 'postgres',
+
+  async get(cle: string): Promise<T | null> {
+    const result = await db.query<{ valeur: T }>(
+      'SELECT valeur FROM cache_entrees WHERE cle = $1 AND expire_le > NOW()',
+      [cle]
+    );
+    return result.rows.length > 0 ? result.rows[0].valeur : null;
+  },
+
+  async set(cle: string, valeur: T, ttlSecondes: number): Promise<void> {
+    await db.query(
+      `INSERT INTO cache_entrees (cle, valeur, expire_le)
+      VALUES ($1, $2, NOW() + ($3 * INTERVAL '1 second'))
+      ON CONFLICT (cle) DO UPDATE SET valeur = EXCLUDED.valeur, expire_le = EXCLUDED.expire_le`,
+      [cle, JSON.stringify(valeur), ttlSecondes]
+    );
+  },
+
+  async delete(cle: string): Promise<void> {
+    await db.query('DELETE FROM cache_entrees WHERE cle = $1', [cle]);
+  },
+
+  async purge(): Promise<number> {
+    const result = await db.query('DELETE FROM cache_entrees WHERE expire_le <= NOW()');
+    return result.rowCount || 0;
+  }
+});
+
+// Stockages déjà instanciés
+const stores = new Map<CacheBackendName, CacheStore<unknown>>();
+
+/**
+ * Instancier un stockage à partir de la configuration
+ */
+const createStore = (nom: CacheBackendName): CacheStore<unknown> => {
+  switch (nom) {
+    case 'memoire':
+      return createMemoryCacheStore(config.CACHE_TAILLE_MAX);
+    case 'postgres':
+      return createPostgresCacheStore();
+    default:
+      throw new AppError(`Stockage de cache inconnu : ${String(nom)}`, 500);
+  }
+};
+
+/**
+ * Récupérer le stockage du cache (par défaut celui de la configuration)
+ */
+export const getCacheStore = <T>(
+  nom: CacheBackendName = config.CACHE_STOCKAGE
+): CacheStore<T> => {
+  let store = stores.get(nom);
+  if (!store) {
+    store = createStore(nom);
+    stores.set(nom, store);
+  }
+  return store as CacheStore<T>;
+};
+
+export default {
+  createMemoryCacheStore,
+  createPostgresCacheStore,
+  getCacheStore
+};
@@ -0,0 +1,364 @@
+import {
+  AppError,
+  CollectionExport,
+  CollectionExportFormat,
+  CollectionModel,
+  ResumeModel
+} from '../types';
+import { logService } from './common';
+import { resumeService } from './resume';
+import db from '../utils/db';
+import { slugify } from '../utils/helpers';
+
+// Utilitaires pour les collections de résumés
+const collectionUtils = {
+  /**
+   * Vérifier que la collection existe et appartient à l'utilisateur
+   */
+  async checkCollection(id: number, utilisateur_id: number): Promise<void> {
+    const result = await db.query(
+      'SELECT id FROM collections WHERE id = $1 AND utilisateur_id = $2',
+      [id, utilisateur_id]
+    );
+
+    if (result.rows.length === 0) {
+      throw new AppError('Collection non trouvée', 404);
+    }
+  },
+
+  /**
+   * Vérifier qu'aucune autre collection de l'utilisateur ne porte ce nom
+   */
+  async checkName(utilisateur_id: number, nom: string, id: number): Promise<void> {
+    const result = await db.query(
+      'SELECT id FROM collections WHERE utilisateur_id = $1 AND nom = $2 AND id <> $3',
+      [utilisateur_id, nom, id]
+    );
+
+    if (result.rows.length > 0) {
+      throw new AppError('Une collection porte déjà ce nom', 409);
+    }
+  },
+
+  /**
+   * Nom du fichier exporté, tiré du nom de la collection (ex. « Projet Été » → projet-ete)
+   */
+  fileName(nom: string, extension: string): string {
+    return `${slugify(nom) || 'collection'}.${extension}`;
+  },
+
+  /**
+   * Collection en Markdown : un titre par résumé, suivi de sa source, de ses
+   * étiquettes et du résumé lui-même
+   */
+  toMarkdown(collection: CollectionModel, resumes: ResumeModel[]): string {
+    const sections = resumes.map((resume) => {
+      const titre = resume.titre || resume.source_url || `${resume.type} #${resume.id}`;
+      const date = new Date(resume.cree_le).toISOString().slice(0, 10);
+      const details = [
+        `_${resume.type} · ${date}_`,
+        ...(resume.source_url ? [`<${resume.source_url}>`] : []),
+        ...(resume.tags && resume.tags.length > 0
+          ? [resume.tags.map((tag) => `\`${tag.libelle}\``).join(' ')]
+          : [])
+      ];
+      return `## ${titre}\n\n${details.join('  \n')}\n\n${resume.resume.trim()}`;
+    });
+
+    const blocs = [
+      `# ${collection.nom}`,
+      ...(collection.description ? [collection.description] : []),
+      ...sections
+    ];
+    return `${blocs.join('\n\n')}\n`;
+  }
+};
+
+/**
+ * Service des collections de résumés
+ * Une collection regroupe des résumés de l'utilisateur (ex. par projet) ; un
+ * résumé peut appartenir à plusieurs collections. Supprimer une collection ou
+ * en retirer des résumés ne supprime pas ces résumés.
+ */
+export const collectionService = {
+  /**
+   * Créer une collection
+   */
+  async create(
+    utilisateur_id: number,
+    data: { nom: string; description?: string }
+  ): Promise<CollectionModel> {
+    try {
+      const result = await db.query<CollectionModel>(
+        `INSERT INTO collections (utilisateur_id, nom, description)
+        VALUES ($1, $2, $3)
+        ON CONFLICT (utilisateur_id, nom) DO NOTHING
+        RETURNING *`,
+        [utilisateur_id, data.nom, data.description || null]
+      );
+
+      if (result.rows.length === 0) {
+        throw new AppError('Une collection porte déjà ce nom', 409);
+      }
+
+      logService.info('collection_created', {
+        utilisateur_id,
+        id: result.rows[0].id
+      });
+
+      return { ...result.rows[0], nombre_resumes: 0 };
+    } catch (error) {
+      logService.error('collection_creation_error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        utilisateur_id
+      });
+      throw error;
+    }
+  },
+
+  /**
+   * Récupérer les collections d'un utilisateur et leur nombre de résumés
+   */
+  async findAll(utilisateur_id: number): Promise<CollectionModel[]> {
+    try {
+      const result = await db.query<CollectionModel>(
+        `SELECT c.*, COUNT(cr.resume_id)::int AS nombre_resumes
+        FROM collections c
+        LEFT JOIN collections_resumes cr ON cr.collection_id = c.id
+        WHERE c.utilisateur_id = $1
+        GROUP BY c.id
+        ORDER BY c.nom`,
+        [utilisateur_id]
+      );
+
+      return result.rows;
+    } catch (error) {
+      logService.error('collection_fetch_error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        utilisateur_id
+      });
+      throw error;
+    }
+  },
+
+  /**
+   * Récupérer une collection et son nombre de résumés ; ceux-ci sont listés
+   * par `resumeService.findAll` (filtre `collection`)
+   */
+  async findById(id: number, utilisateur_id: number): Promise<CollectionModel> {
+    try {
+      const result = await db.query<CollectionModel>(
+        `SELECT c.*, (
+          SELECT COUNT(*) FROM collections_resumes cr WHERE cr.collection_id = c.id
+        )::int AS nombre_resumes
+        FROM collections c
+        WHERE c.id = $1 AND c.utilisateur_id = $2`,
+        [id, utilisateur_id]
+      );
+
+      if (result.rows.length === 0) {
+        throw new AppError('Collection non trouvée', 404);
+      }
+
+      return result.rows[0];
+    } catch (error) {
+      logService.error('collection_fetch_error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        id,
+        utilisateur_id
+      });
+      throw error;
+    }
+  },
+
+  /**
+   * Renommer une collection ou modifier sa description
+   */
+  async update(
+    id: number,
+    utilisateur_id: number,
+    data: { nom?: string; description?: string | null }
+  ): Promise<CollectionModel> {
+    try {
+      const updateFields = [];
+      const values: Array<string | number | null> = [id, utilisateur_id];
+
+      if (data.nom !== undefined) {
+        await collectionUtils.checkName(utilisateur_id, data.nom, id);
+        values.push(data.nom);
+        updateFields.push(`nom = $${values.length}`);
+      }
+
+      if (data.description !== undefined) {
+        values.push(data.description || null);
+        updateFields.push(`description = $${values.length}`);
+      }
+
+      if (updateFields.length === 0) {
+        throw new AppError('Aucune donnée à mettre à jour', 400);
+      }
+
+      const result = await db.query<CollectionModel>(
+        `UPDATE collections
+        SET ${updateFields.join(', ')}
+        WHERE id = $1 AND utilisateur_id = $2
+        RETURNING *`,
+        values
+      );
+
+      if (result.rows.length === 0) {
+        throw new AppError('Collection non trouvée', 404);
+      }
+
+      logService.info('collection_updated', {
+        id,
+        utilisateur_id
+      });
+
+      return result.rows[0];
+    } catch (error) {
+      logService.error('collection_update_error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        id,
+        utilisateur_id
+      });
+      throw error;
+    }
+  },
+
+  /**
+   * Supprimer une collection ; ses résumés sont conservés
+   */
+  async delete(id: number, utilisateur_id: number): Promise<void> {
+    try {
+      const result = await db.query(
+        'DELETE FROM collections WHERE id = $1 AND utilisateur_id = $2 RETURNING id',
+        [id, utilisateur_id]
+      );
+
+      if (result.rows.length === 0) {
+        throw new AppError('Collection non trouvée', 404);
+      }
+
+      logService.info('collection_deleted', {
+        id,
+        utilisateur_id
+      });
+    } catch (error) {
+      logService.error('collection_deletion_error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        id,
+        utilisateur_id
+      });
+      throw error;
+    }
+  },
+
+  /**
+   * Ajouter des résumés à une collection
+   * Les résumés qui n'appartiennent pas à l'utilisateur ou figurent déjà dans
+   * la collection sont ignorés. Retourne le nombre de résumés ajoutés.
+   */
+  async addResumes(id: number, utilisateur_id: number, resume_ids: number[]): Promise<number> {
+    try {
+      await collectionUtils.checkCollection(id, utilisateur_id);
+
+      const result = await db.query(
+        `INSERT INTO collections_resumes (collection_id, resume_id)
+        SELECT $1, r.id FROM resumes r
+        WHERE r.id = ANY($2::int[]) AND r.utilisateur_id = $3
+        ON CONFLICT DO NOTHING`,
+        [id, resume_ids, utilisateur_id]
+      );
+
+      logService.info('collection_resumes_added', {
+        id,
+        utilisateur_id,
+        count: result.rowCount || 0
+      });
+
+      return result.rowCount || 0;
+    } catch (error) {
+      logService.error('collection_resumes_add_error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        id,
+        utilisateur_id
+      });
+      throw error;
+    }
+  },
+
+  /**
+   * Retirer des résumés d'une collection, sans les supprimer
+   * Retourne le nombre de résumés retirés.
+   */
+  async removeResumes(id: number, utilisateur_id: number, resume_ids: number[]): Promise<number> {
+    try {
+      await collectionUtils.checkCollection(id, utilisateur_id);
+
+      const result = await db.query(
+        'DELETE FROM collections_resumes WHERE collection_id = $1 AND resume_id = ANY($2::int[])',
+        [id, resume_ids]
+      );
+
+      logService.info('collection_resumes_removed', {
+        id,
+        utilisateur_id,
+        count: result.rowCount || 0
+      });
+
+      return result.rowCount || 0;
+    } catch (error) {
+      logService.error('collection_resumes_remove_error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        id,
+        utilisateur_id
+      });
+      throw error;
+    }
+  },
+
+  /**
+   * Exporter une collection et ses résumés en Markdown ou en JSON
+   */
+  async export(
+    id: number,
+    utilisateur_id: number,
+    format: CollectionExportFormat
+  ): Promise<CollectionExport> {
+    try {
+      const collection = await this.findById(id, utilisateur_id);
+      const resumes = await resumeService.findByCollection(id, utilisateur_id);
+
+      logService.info('collection_exported', {
+        id,
+        utilisateur_id,
+        format,
+        resumes: resumes.length
+      });
+
+      if (format === 'json') {
+        return {
+          nomFichier: collectionUtils.fileName(collection.nom, 'json'),
+          typeContenu: 'application/json',
+          contenu: JSON.stringify({ collection, resumes }, null, 2)
+        };
+      }
+
+      return {
+        nomFichier: collectionUtils.fileName(collection.nom, 'md'),
+        typeContenu: 'text/markdown; charset=utf-8',
+        contenu: collectionUtils.toMarkdown(collection, resumes)
+      };
+    } catch (error) {
+      logService.error('collection_export_error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        id,
+        utilisateur_id
+      });
+      throw error;
+    }
+  }
+};
+
+export default collectionService;
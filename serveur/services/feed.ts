@@ -0,0 +1,384 @@
+import {
+  AppError,
+  FeedEntryModel,
+  FeedItem,
+  FeedSubscriptionModel,
+  FeedSummaryParams,
+  NotFoundError,
+  SafeFetchResponse
+} from '../types';
+import { logService } from './common';
+import { resumeService } from './resume';
+import db from '../utils/db';
+import config from '../config/config';
+import { mapWithConcurrency } from '../utils/helpers';
+import { parseFeed } from '../utils/feed';
+import { safeFetch, decodeText } from '../utils/safe-fetch';
+
+// Types MIME sous lesquels les flux sont servis
+const TYPES_FLUX = [
+  'application/rss+xml',
+  'application/atom+xml',
+  'application/rdf+xml',
+  'application/xml',
+  'text/xml'
+];
+
+const ACCEPT_FLUX = 'application/rss+xml, application/atom+xml, application/xml;q=0.9, text/xml;q=0.9';
+
+// Nombre maximal d'abonnements relevés à chaque passage de la boucle
+const ABONNEMENTS_PAR_RELEVE = 10;
+
+// État de la boucle de relevé du processus courant
+const poller = {
+  minuterie: null as NodeJS.Timeout | null,
+  enCours: false
+};
+
+// Utilitaires pour le relevé des flux
+const feedUtils = {
+  /**
+   * Récupérer un flux, conditionnellement aux validateurs du relevé précédent
+   */
+  fetch(url: string, abonnement?: FeedSubscriptionModel): Promise<SafeFetchResponse> {
+    const entetes: Record<string, string> = { Accept: ACCEPT_FLUX };
+    if (abonnement?.etag) {
+      entetes['If-None-Match'] = abonnement.etag;
+    }
+    if (abonnement?.derniere_modification) {
+      entetes['If-Modified-Since'] = abonnement.derniere_modification;
+    }
+
+    return safeFetch(url, { typesAcceptes: TYPES_FLUX, entetes });
+  },
+
+  /**
+   * Enregistrer les entrées du flux et retourner celles qui n'avaient jamais été vues
+   * La contrainte d'unicité sur le GUID écarte les entrées déjà relevées.
+   */
+  async recordEntries(abonnement_id: number, entrees: FeedItem[]): Promise<FeedEntryModel[]> {
+    if (entrees.length === 0) {
+      return [];
+    }
+
+    const result = await db.query<FeedEntryModel>(
+      `INSERT INTO entrees_flux (abonnement_id, guid, titre, lien, publie_le)
+      SELECT $1, e.guid, e.titre, e.lien, e.publie_le
+      FROM jsonb_to_recordset($2::jsonb) AS e(guid TEXT, titre TEXT, lien TEXT, publie_le TIMESTAMPTZ)
+      ON CONFLICT (abonnement_id, guid) DO NOTHING
+      RETURNING *`,
+      [abonnement_id, JSON.stringify(entrees)]
+    );
+
+    return result.rows;
+  },
+
+  /**
+   * Résumer les nouvelles entrées, des plus récentes aux plus anciennes
+   * Au-delà de `FLUX_ENTREES_MAX`, les entrées sont seulement enregistrées :
+   * le premier relevé d'un flux ne résume pas tout son historique.
+   * Retourne le nombre de résumés produits.
+   */
+  async summarizeEntries(
+    abonnement: FeedSubscriptionModel,
+    entrees: FeedEntryModel[]
+  ): Promise<number> {
+    const { langue, ...options } = abonnement.parametres;
+    const aResumer = entrees
+      .filter((entree) => entree.lien)
+      .sort((a, b) => (
+        new Date(b.publie_le || 0).getTime() - new Date(a.publie_le || 0).getTime()
+      ))
+      .slice(0, config.FLUX_ENTREES_MAX);
+
+    const resumes = await mapWithConcurrency(aResumer, config.FLUX_CONCURRENCE, async (entree) => {
+      try {
+        const resume = await resumeService.summarizeUrl(
+          abonnement.utilisateur_id,
+          entree.lien as string,
+          langue,
+          options
+        );
+        await db.query(
+          'UPDATE entrees_flux SET resume_id = $1, erreur = NULL WHERE id = $2',
+          [resume.id, entree.id]
+        );
+        return 1;
+      } catch (error) {
+        // L'entrée reste enregistrée : elle ne sera pas résumée de nouveau
+        await db.query(
+          'UPDATE entrees_flux SET erreur = $1 WHERE id = $2',
+          [error instanceof Error ? error.message : 'Unknown error', entree.id]
+        ).catch(() => undefined);
+        return 0;
+      }
+    });
+
+    return resumes.reduce((total: number, resume) => total + resume, 0);
+  },
+
+  /**
+   * Enregistrer un relevé réussi et les validateurs de la réponse
+   */
+  async markChecked(
+    id: number,
+    reponse: SafeFetchResponse,
+    titre?: string | null
+  ): Promise<void> {
+    await db.query(
+      `UPDATE abonnements_flux
+      SET etag = COALESCE($2, etag),
+        derniere_modification = COALESCE($3, derniere_modification),
+        titre = COALESCE(titre, $4),
+        erreur = NULL,
+        verifie_le = NOW()
+      WHERE id = $1`,
+      [id, reponse.etag, reponse.derniereModification, titre || null]
+    );
+  }
+};
+
+/**
+ * Service des abonnements aux flux RSS et Atom
+ */
+export const feedService = {
+  /**
+   * S'abonner à un flux
+   * Le flux est récupéré une première fois pour vérifier qu'il est valide ; ses
+   * entrées seront résumées au prochain relevé.
+   */
+  async subscribe(
+    utilisateur_id: number,
+    url: string,
+    parametres: FeedSummaryParams
+  ): Promise<FeedSubscriptionModel> {
+    try {
+      const reponse = await feedUtils.fetch(url);
+      const flux = parseFeed(decodeText(reponse), reponse.url);
+
+      const result = await db.query<FeedSubscriptionModel>(
+        `INSERT INTO abonnements_flux (utilisateur_id, url, titre, parametres)
+        VALUES ($1, $2, $3, $4)
+        ON CONFLICT (utilisateur_id, url) DO NOTHING
+        RETURNING *`,
+        [utilisateur_id, url, flux.titre, JSON.stringify(parametres)]
+      );
+
+      if (result.rows.length === 0) {
+        throw new AppError('Vous êtes déjà abonné à ce flux', 409);
+      }
+
+      logService.info('feed_subscribed', {
+        utilisateur_id,
+        id: result.rows[0].id,
+        url
+      });
+
+      return result.rows[0];
+    } catch (error) {
+      logService.error('feed_subscription_error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        utilisateur_id,
+        url
+      });
+      throw error;
+    }
+  },
+
+  /**
+   * Récupérer les abonnements d'un utilisateur
+   */
+  async findAll(utilisateur_id: number): Promise<FeedSubscriptionModel[]> {
+    try {
+      const result = await db.query<FeedSubscriptionModel>(
+        'SELECT * FROM abonnements_flux WHERE utilisateur_id = $1 ORDER BY cree_le DESC',
+        [utilisateur_id]
+      );
+
+      return result.rows;
+    } catch (error) {
+      logService.error('feed_fetch_error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        utilisateur_id
+      });
+      throw error;
+    }
+  },
+
+  /**
+   * Récupérer les entrées relevées dans un flux, des plus récentes aux plus anciennes
+   */
+  async findEntries(id: number, utilisateur_id: number): Promise<FeedEntryModel[]> {
+    try {
+      const abonnement = await db.query(
+        'SELECT id FROM abonnements_flux WHERE id = $1 AND utilisateur_id = $2',
+        [id, utilisateur_id]
+      );
+
+      if (abonnement.rows.length === 0) {
+        throw new NotFoundError('Abonnement non trouvé');
+      }
+
+      const result = await db.query<FeedEntryModel>(
+        `SELECT * FROM entrees_flux
+        WHERE abonnement_id = $1
+        ORDER BY publie_le DESC NULLS LAST, id DESC`,
+        [id]
+      );
+
+      return result.rows;
+    } catch (error) {
+      logService.error('feed_entries_fetch_error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        id,
+        utilisateur_id
+      });
+      throw error;
+    }
+  },
+
+  /**
+   * Se désabonner d'un flux (les résumés déjà produits sont conservés)
+   */
+  async delete(id: number, utilisateur_id: number): Promise<void> {
+    try {
+      const result = await db.query(
+        'DELETE FROM abonnements_flux WHERE id = $1 AND utilisateur_id = $2 RETURNING id',
+        [id, utilisateur_id]
+      );
+
+      if (result.rows.length === 0) {
+        throw new NotFoundError('Abonnement non trouvé');
+      }
+
+      logService.info('feed_unsubscribed', {
+        id,
+        utilisateur_id
+      });
+    } catch (error) {
+      logService.error('feed_deletion_error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        id,
+        utilisateur_id
+      });
+      throw error;
+    }
+  },
+
+  /**
+   * Relever un flux et résumer ses nouvelles entrées
+   * Les erreurs sont enregistrées sur l'abonnement : cette méthode ne rejette jamais.
+   * Retourne le nombre de résumés produits.
+   */
+  async poll(abonnement: FeedSubscriptionModel): Promise<number> {
+    try {
+      const reponse = await feedUtils.fetch(abonnement.url, abonnement);
+
+      if (reponse.statut === 304) {
+        await feedUtils.markChecked(abonnement.id, reponse);
+        logService.info('feed_not_modified', { id: abonnement.id });
+        return 0;
+      }
+
+      const flux = parseFeed(decodeText(reponse), reponse.url);
+      const nouvelles = await feedUtils.recordEntries(abonnement.id, flux.entrees);
+      const resumes = await feedUtils.summarizeEntries(abonnement, nouvelles);
+      await feedUtils.markChecked(abonnement.id, reponse, flux.titre);
+
+      logService.info('feed_polled', {
+        id: abonnement.id,
+        nouvelles: nouvelles.length,
+        resumes
+      });
+
+      return resumes;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+
+      try {
+        await db.query(
+          'UPDATE abonnements_flux SET erreur = $1, verifie_le = NOW() WHERE id = $2',
+          [message, abonnement.id]
+        );
+      } catch (updateError) {
+        logService.error('feed_update_error', {
+          error: updateError instanceof Error ? updateError.message : 'Unknown error',
+          id: abonnement.id
+        });
+      }
+
+      logService.error('feed_poll_error', {
+        error: message,
+        id: abonnement.id
+      });
+      return 0;
+    }
+  },
+
+  /**
+   * Réserver et relever les flux dont la date de relevé est passée
+   * `SKIP LOCKED` permet à plusieurs processus de se partager les flux.
+   */
+  async pollDue(): Promise<void> {
+    if (poller.enCours) {
+      return;
+    }
+    poller.enCours = true;
+
+    try {
+      const result = await db.query<FeedSubscriptionModel>(
+        `UPDATE abonnements_flux
+        SET prochaine_verification = NOW() + ($1 * INTERVAL '1 minute')
+        WHERE id IN (
+          SELECT id FROM abonnements_flux
+          WHERE prochaine_verification <= NOW()
+          ORDER BY prochaine_verification
+          FOR UPDATE SKIP LOCKED
+          LIMIT $2
+        )
+        RETURNING *`,
+        [config.FLUX_FREQUENCE_MINUTES, ABONNEMENTS_PAR_RELEVE]
+      );
+
+      for (const abonnement of result.rows) {
+        await this.poll(abonnement);
+      }
+    } catch (error) {
+      logService.error('feed_poller_error', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    } finally {
+      poller.enCours = false;
+    }
+  },
+
+  /**
+   * Démarrer la boucle de relevé dans le processus du serveur
+   */
+  startPoller(): void {
+    if (poller.minuterie) {
+      return;
+    }
+
+    poller.minuterie = setInterval(() => {
+      void this.pollDue();
+    }, config.FLUX_INTERVALLE_MS);
+
+    logService.info('feed_poller_started', {
+      frequence_minutes: config.FLUX_FREQUENCE_MINUTES
+    });
+  },
+
+  /**
+   * Arrêter la boucle de relevé
+   */
+  stopPoller(): void {
+    if (poller.minuterie) {
+      clearInterval(poller.minuterie);
+      poller.minuterie = null;
+      logService.info('feed_poller_stopped');
+    }
+  }
+};
+
+export default feedService;
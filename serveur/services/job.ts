@@ -0,0 +1,347 @@
+import {
+  AppError,
+  NotFoundError,
+  ResumeModel,
+  SummaryJobModel,
+  SummaryJobParams,
+  SummaryOptions,
+  SummaryProgress
+} from '../types';
+import { logService } from './common';
+import { resumeService } from './resume';
+import db from '../utils/db';
+import config from '../config/config';
+
+// Colonnes retournées au client (le fichier source n'est jamais renvoyé)
+const COLONNES = `id, utilisateur_id, type, statut, parametres, progression, tentatives,
+  erreur, resume_id, disponible_le, demarre_le, termine_le, cree_le, modifie_le`;
+
+// État de la boucle de traitement du processus courant
+const worker = {
+  minuterie: null as NodeJS.Timeout | null,
+  actives: 0,
+  recherche: false
+};
+
+// Utilitaires pour le traitement des tâches
+const jobUtils = {
+  /**
+   * Une erreur client (ex. URL invalide) ne sera pas corrigée par une nouvelle tentative
+   */
+  isRetryable(error: unknown): boolean {
+    return !(error instanceof AppError && error.status < 500);
+  },
+
+  /**
+   * Délai avant la prochaine tentative (croissance exponentielle)
+   */
+  retryDelay(tentatives: number): number {
+    return config.TACHES_DELAI_RELANCE_MS * 2 ** Math.max(0, tentatives - 1);
+  },
+
+  /**
+   * Enregistrer l'avancement d'une tâche sans interrompre le résumé en cas d'échec
+   * `modifie_le` sert de signe de vie : une tâche qui avance n'est pas remise en file.
+   */
+  saveProgress(id: number, progression: SummaryProgress): void {
+    db.query(
+      'UPDATE taches_resume SET progression = $1, modifie_le = NOW() WHERE id = $2',
+      [JSON.stringify(progression), id]
+    ).catch((error) => {
+      logService.warn('summary_job_progress_error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        id
+      });
+    });
+  },
+
+  /**
+   * Rejouer la demande de résumé enregistrée dans la tâche
+   */
+  summarize(tache: SummaryJobModel): Promise<ResumeModel> {
+    const { langue, url, texte, videoUrl, nomFichier, chapitres, ...format } = tache.parametres;
+    const options: SummaryOptions = {
+      ...format,
+      onProgress: (progression) => this.saveProgress(tache.id, progression)
+    };
+
+    switch (tache.type) {
+      case 'article':
+        return resumeService.summarizeUrl(tache.utilisateur_id, url as string, langue, options);
+      case 'texte':
+        return resumeService.summarizeText(tache.utilisateur_id, texte as string, langue, options);
+      case 'pdf':
+        if (!tache.fichier || tache.fichier.length === 0) {
+          throw new AppError('Fichier PDF introuvable', 400);
+        }
+        return resumeService.summarizePdf(tache.utilisateur_id, tache.fichier, langue, options);
+      case 'youtube':
+        return resumeService.summarizeYoutube(
+          tache.utilisateur_id,
+          videoUrl as string,
+          langue,
+          { ...options, chapitres }
+        );
+      case 'docx':
+      case 'epub':
+      case 'html':
+      case 'markdown':
+      case 'txt':
+        if (!tache.fichier || tache.fichier.length === 0) {
+          throw new AppError('Fichier introuvable', 400);
+        }
+        return resumeService.summarizeFile(
+          tache.utilisateur_id,
+          tache.fichier,
+          langue,
+          options,
+          nomFichier
+        );
+      default:
+        throw new AppError(`Type de résumé inconnu : ${String(tache.type)}`, 400);
+    }
+  }
+};
+
+/**
+ * Service des tâches de résumé asynchrones
+ */
+export const jobService = {
+  /**
+   * Mettre une demande de résumé en file d'attente
+   */
+  async enqueue(
+    utilisateur_id: number,
+    type: SummaryJobModel['type'],
+    parametres: SummaryJobParams,
+    fichier?: Buffer
+  ): Promise<SummaryJobModel> {
+    try {
+      const result = await db.query<SummaryJobModel>(
+        `INSERT INTO taches_resume
+        (utilisateur_id, type, parametres, fichier)
+        VALUES ($1, $2, $3, $4)
+        RETURNING ${COLONNES}`,
+        [utilisateur_id, type, JSON.stringify(parametres), fichier || null]
+      );
+
+      logService.info('summary_job_queued', {
+        utilisateur_id,
+        id: result.rows[0].id,
+        type
+      });
+
+      return result.rows[0];
+    } catch (error) {
+      logService.error('summary_job_queue_error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        utilisateur_id,
+        type
+      });
+      throw error;
+    }
+  },
+
+  /**
+   * Récupérer une tâche avec le résumé produit
+   */
+  async findById(id: number, utilisateur_id: number): Promise<SummaryJobModel> {
+    try {
+      const result = await db.query<SummaryJobModel>(
+        `SELECT ${COLONNES},
+          (SELECT to_jsonb(r) FROM resumes r WHERE r.id = taches_resume.resume_id) AS resume
+        FROM taches_resume
+        WHERE id = $1 AND utilisateur_id = $2`,
+        [id, utilisateur_id]
+      );
+
+      if (result.rows.length === 0) {
+        throw new NotFoundError('Tâche non trouvée');
+      }
+
+      return result.rows[0];
+    } catch (error) {
+      logService.error('summary_job_fetch_error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        id,
+        utilisateur_id
+      });
+      throw error;
+    }
+  },
+
+  /**
+   * Réserver la prochaine tâche disponible
+   * `SKIP LOCKED` permet à plusieurs processus de partager la file sans
+   * traiter deux fois la même tâche.
+   */
+  async claimNext(): Promise<SummaryJobModel | null> {
+    const result = await db.query<SummaryJobModel>(
+      `UPDATE taches_resume
+      SET statut = 'en_cours', tentatives = tentatives + 1, demarre_le = NOW()
+      WHERE id = (
+        SELECT id FROM taches_resume
+        WHERE statut = 'en_attente' AND disponible_le <= NOW()
+        ORDER BY disponible_le, id
+        FOR UPDATE SKIP LOCKED
+        LIMIT 1
+      )
+      RETURNING *`
+    );
+
+    return result.rows[0] || null;
+  },
+
+  /**
+   * Remettre en file les tâches interrompues (arrêt ou plantage du serveur),
+   * c'est-à-dire sans avancement depuis `TACHES_EXPIRATION_MS`
+   */
+  async requeueStale(): Promise<number> {
+    const result = await db.query(
+      `UPDATE taches_resume
+      SET statut = CASE WHEN tentatives >= $2 THEN 'echec' ELSE 'en_attente' END,
+        erreur = 'Traitement interrompu',
+        disponible_le = NOW(),
+        termine_le = CASE WHEN tentatives >= $2 THEN NOW() ELSE NULL END
+      WHERE statut = 'en_cours'
+        AND modifie_le < NOW() - ($1 * INTERVAL '1 millisecond')
+      RETURNING id`,
+      [config.TACHES_EXPIRATION_MS, config.TACHES_TENTATIVES_MAX]
+    );
+
+    if (result.rowCount) {
+      logService.warn('summary_jobs_requeued', { count: result.rowCount });
+    }
+
+    return result.rowCount || 0;
+  },
+
+  /**
+   * Traiter une tâche réservée
+   * Les erreurs sont enregistrées sur la tâche : cette méthode ne rejette jamais.
+   * Le résultat n'est enregistré que si la tâche est toujours en cours pour
+   * cette tentative (elle a pu être remise en file et réservée à nouveau).
+   */
+  async process(tache: SummaryJobModel): Promise<void> {
+    try {
+      const resume = await jobUtils.summarize(tache);
+
+      const result = await db.query(
+        `UPDATE taches_resume
+        SET statut = 'termine', resume_id = $1, erreur = NULL, fichier = NULL, termine_le = NOW()
+        WHERE id = $2 AND statut = 'en_cours' AND tentatives = $3`,
+        [resume.id, tache.id, tache.tentatives]
+      );
+
+      if (result.rowCount === 0) {
+        logService.warn('summary_job_superseded', {
+          id: tache.id,
+          resume_id: resume.id,
+          tentatives: tache.tentatives
+        });
+        return;
+      }
+
+      logService.info('summary_job_completed', {
+        id: tache.id,
+        resume_id: resume.id,
+        tentatives: tache.tentatives
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      const relance = jobUtils.isRetryable(error) && tache.tentatives < config.TACHES_TENTATIVES_MAX;
+
+      try {
+        if (relance) {
+          await db.query(
+            `UPDATE taches_resume
+            SET statut = 'en_attente', erreur = $1,
+              disponible_le = NOW() + ($2 * INTERVAL '1 millisecond')
+            WHERE id = $3 AND statut = 'en_cours' AND tentatives = $4`,
+            [message, jobUtils.retryDelay(tache.tentatives), tache.id, tache.tentatives]
+          );
+        } else {
+          await db.query(
+            `UPDATE taches_resume
+            SET statut = 'echec', erreur = $1, fichier = NULL, termine_le = NOW()
+            WHERE id = $2 AND statut = 'en_cours' AND tentatives = $3`,
+            [message, tache.id, tache.tentatives]
+          );
+        }
+      } catch (updateError) {
+        logService.error('summary_job_update_error', {
+          error: updateError instanceof Error ? updateError.message : 'Unknown error',
+          id: tache.id
+        });
+      }
+
+      logService.error(relance ? 'summary_job_retry' : 'summary_job_failed', {
+        error: message,
+        id: tache.id,
+        tentatives: tache.tentatives
+      });
+    }
+  },
+
+  /**
+   * Réserver et lancer des tâches dans la limite de la concurrence configurée
+   */
+  async tick(): Promise<void> {
+    if (worker.recherche) {
+      return;
+    }
+    worker.recherche = true;
+
+    try {
+      await this.requeueStale();
+
+      while (worker.actives < config.TACHES_CONCURRENCE) {
+        const tache = await this.claimNext();
+        if (!tache) {
+          break;
+        }
+
+        worker.actives++;
+        void this.process(tache).finally(() => {
+          worker.actives--;
+        });
+      }
+    } catch (error) {
+      logService.error('summary_job_worker_error', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    } finally {
+      worker.recherche = false;
+    }
+  },
+
+  /**
+   * Démarrer la boucle de traitement dans le processus du serveur
+   */
+  startWorker(): void {
+    if (worker.minuterie) {
+      return;
+    }
+
+    worker.minuterie = setInterval(() => {
+      void this.tick();
+    }, config.TACHES_INTERVALLE_MS);
+
+    logService.info('summary_job_worker_started', {
+      concurrence: config.TACHES_CONCURRENCE
+    });
+  },
+
+  /**
+   * Arrêter la boucle de traitement (les tâches en cours seront reprises au redémarrage)
+   */
+  stopWorker(): void {
+    if (worker.minuterie) {
+      clearInterval(worker.minuterie);
+      worker.minuterie = null;
+      logService.info('summary_job_worker_stopped');
+    }
+  }
+};
+
+export default jobService;
@@ -1,9 +1,25 @@
-import { AppError, NoteModel } from '../types';
+import { AppError, ListDefinition, ListQuery, NoteModel, PaginatedResult } from '../types';
 import { logService } from './common';
 import db from '../utils/db';
+import { listClauses, parseListQuery } from '../utils/pagination';
 
 type QueryParam = string | number | boolean | null;
 
+// Tris et filtres de la liste des notes
+export const LISTE_NOTES: ListDefinition = {
+  tris: {
+    cree_le: { nature: 'date', expression: "date_trunc('milliseconds', cree_le)" },
+    modifie_le: { nature: 'date', expression: "date_trunc('milliseconds', modifie_le)" },
+    titre: { nature: 'texte', expression: 'titre' }
+  },
+  triParDefaut: '-cree_le',
+  filtres: {
+    est_archive: { nature: 'booleen', condition: 'est_archive = {est_archive}' },
+    cree_apres: { nature: 'date', condition: 'cree_le >= {cree_apres}' },
+    cree_avant: { nature: 'date', condition: 'cree_le < {cree_avant}' }
+  }
+};
+
 /**
  * Service de gestion des notes
  */
@@ -41,16 +57,24 @@ export const noteService = {
   },
 
   /**
-   * Récupérer toutes les notes d'un utilisateur
+   * Récupérer une page des notes d'un utilisateur, triées et filtrées
+   * (voir `LISTE_NOTES`)
    */
-  async findAll(utilisateur_id: number): Promise<NoteModel[]> {
+  async findAll(
+    utilisateur_id: number,
+    requete: ListQuery = parseListQuery({}, LISTE_NOTES)
+  ): Promise<PaginatedResult<NoteModel>> {
     try {
-      const result = await db.query<NoteModel>(
-        'SELECT * FROM notes WHERE utilisateur_id = $1 ORDER BY cree_le DESC',
-        [utilisateur_id] as QueryParam[]
+      const params: unknown[] = [utilisateur_id];
+      const { conditions, options } = listClauses(requete, LISTE_NOTES, params);
+
+      return await db.queryWithPagination<NoteModel>(
+        `SELECT * FROM notes WHERE utilisateur_id = $1${conditions}`,
+        params,
+        requete.page,
+        requete.limit,
+        options
       );
-
-      return result.rows;
     } catch (error) {
       logService.error('note_fetch_error', {
         error: error instanceof Error ? error.message : 'Unknown error',
@@ -1,8 +1,72 @@
-import bcrypt from 'bcrypt';
-import { AppError, PasswordModel } from '../types';
+import {
+  AppError,
+  ListDefinition,
+  ListQuery,
+  PaginatedResult,
+  PasswordEntry,
+  PasswordModel,
+  UserModel
+} from '../types';
 import { logService } from './common';
+import { authService } from './auth';
 import db from '../utils/db';
-import config from '../config/config';
+import {
+  generateVaultSalt,
+  deriveVaultKey,
+  encryptSecret,
+  decryptSecret,
+  decryptLegacySecret,
+  detectVaultFormat
+} from '../utils/vault';
+import { listClauses, parseListQuery } from '../utils/pagination';
+
+// Tris et filtres de la liste des mots de passe
+export const LISTE_MOTS_DE_PASSE: ListDefinition = {
+  tris: {
+    cree_le: { nature: 'date', expression: "date_trunc('milliseconds', cree_le)" },
+    modifie_le: { nature: 'date', expression: "date_trunc('milliseconds', modifie_le)" },
+    site_web: { nature: 'texte', expression: 'site_web' },
+    identifiant: { nature: 'texte', expression: 'identifiant' }
+  },
+  triParDefaut: '-cree_le',
+  filtres: {
+    cree_apres: { nature: 'date', condition: 'cree_le >= {cree_apres}' },
+    cree_avant: { nature: 'date', condition: 'cree_le < {cree_avant}' }
+  }
+};
+
+// Colonnes retournées au client : le secret chiffré n'est lu que pour l'afficher en clair
+const COLONNES_MOT_DE_PASSE = 'id, utilisateur_id, site_web, identifiant, notes, cree_le, modifie_le';
+
+// Utilitaires pour le coffre chiffré des mots de passe
+const vaultUtils = {
+  /**
+   * Vérifier le code PIN et dériver la clé de chiffrement de l'utilisateur
+   */
+  async getUserKey(utilisateur_id: number, code_pin: string): Promise<Buffer> {
+    await authService.verifyPin(utilisateur_id, code_pin);
+
+    const result = await db.query<Pick<UserModel, 'sel_coffre'>>(
+      'SELECT sel_coffre FROM utilisateurs WHERE id = $1',
+      [utilisateur_id]
+    );
+
+    let sel = result.rows[0]?.sel_coffre;
+    if (!sel) {
+      // Premier usage du coffre : on fixe le sel une fois pour toutes
+      const updated = await db.query<Pick<UserModel, 'sel_coffre'>>(
+        `UPDATE utilisateurs 
+        SET sel_coffre = COALESCE(sel_coffre, $1)
+        WHERE id = $2
+        RETURNING sel_coffre`,
+        [generateVaultSalt(), utilisateur_id]
+      );
+      sel = updated.rows[0].sel_coffre as string;
+    }
+
+    return deriveVaultKey(code_pin, sel);
+  }
+};
 
 /**
  * Service de gestion des mots de passe
@@ -17,18 +81,19 @@ export const passwordService = {
     identifiant: string;
     mot_de_passe: string;
     notes?: string;
-  }): Promise<PasswordModel> {
+    code_pin: string;
+  }): Promise<PasswordEntry> {
     try {
-      // Chiffrement du mot de passe
-      const salt = await bcrypt.genSalt(config.BCRYPT_ROUNDS);
-      const motDePasseCrypte = await bcrypt.hash(data.mot_de_passe, salt);
+      // Chiffrement du mot de passe avec la clé de l'utilisateur
+      const cle = await vaultUtils.getUserKey(data.utilisateur_id, data.code_pin);
+      const motDePasseCrypte = encryptSecret(data.mot_de_passe, cle);
 
       // Enregistrement du mot de passe
-      const result = await db.query<PasswordModel>(
+      const result = await db.query<PasswordEntry>(
         `INSERT INTO mots_de_passe 
         (utilisateur_id, site_web, identifiant, mot_de_passe_crypte, notes)
         VALUES ($1, $2, $3, $4, $5)
-        RETURNING *`,
+        RETURNING ${COLONNES_MOT_DE_PASSE}`,
         [data.utilisateur_id, data.site_web, data.identifiant, motDePasseCrypte, data.notes]
       );
 
@@ -48,16 +113,24 @@ export const passwordService = {
   },
 
   /**
-   * Récupérer tous les mots de passe d'un utilisateur
+   * Récupérer une page des mots de passe d'un utilisateur, triés et filtrés
+   * (voir `LISTE_MOTS_DE_PASSE`)
    */
-  async findAll(utilisateur_id: number): Promise<PasswordModel[]> {
+  async findAll(
+    utilisateur_id: number,
+    requete: ListQuery = parseListQuery({}, LISTE_MOTS_DE_PASSE)
+  ): Promise<PaginatedResult<PasswordEntry>> {
     try {
-      const result = await db.query<PasswordModel>(
-        'SELECT * FROM mots_de_passe WHERE utilisateur_id = $1 ORDER BY cree_le DESC',
-        [utilisateur_id]
+      const params: unknown[] = [utilisateur_id];
+      const { conditions, options } = listClauses(requete, LISTE_MOTS_DE_PASSE, params);
+
+      return await db.queryWithPagination<PasswordEntry>(
+        `SELECT ${COLONNES_MOT_DE_PASSE} FROM mots_de_passe WHERE utilisateur_id = $1${conditions}`,
+        params,
+        requete.page,
+        requete.limit,
+        options
       );
-
-      return result.rows;
     } catch (error) {
       logService.error('password_fetch_error', {
         error: error instanceof Error ? error.message : 'Unknown error',
@@ -70,10 +143,10 @@ export const passwordService = {
   /**
    * Récupérer un mot de passe par son ID
    */
-  async findById(id: number, utilisateur_id: number): Promise<PasswordModel> {
+  async findById(id: number, utilisateur_id: number): Promise<PasswordEntry> {
     try {
-      const result = await db.query<PasswordModel>(
-        'SELECT * FROM mots_de_passe WHERE id = $1 AND utilisateur_id = $2',
+      const result = await db.query<PasswordEntry>(
+        `SELECT ${COLONNES_MOT_DE_PASSE} FROM mots_de_passe WHERE id = $1 AND utilisateur_id = $2`,
         [id, utilisateur_id]
       );
 
@@ -103,17 +176,21 @@ export const passwordService = {
       identifiant?: string;
       mot_de_passe?: string;
       notes?: string;
+      code_pin?: string;
     }
-  ): Promise<PasswordModel> {
+  ): Promise<PasswordEntry> {
     try {
       let motDePasseCrypte;
       if (data.mot_de_passe) {
-        const salt = await bcrypt.genSalt(config.BCRYPT_ROUNDS);
-        motDePasseCrypte = await bcrypt.hash(data.mot_de_passe, salt);
+        if (!data.code_pin) {
+          throw new AppError('Code PIN requis', 400);
+        }
+        const cle = await vaultUtils.getUserKey(utilisateur_id, data.code_pin);
+        motDePasseCrypte = encryptSecret(data.mot_de_passe, cle);
       }
 
       const updateFields = [];
-      const values = [id, utilisateur_id];
+      const values: (string | number)[] = [id, utilisateur_id];
       let valueIndex = 3;
 
       if (data.site_web) {
@@ -148,10 +225,10 @@ export const passwordService = {
         UPDATE mots_de_passe 
         SET ${updateFields.join(', ')}, modifie_le = CURRENT_TIMESTAMP
         WHERE id = $1 AND utilisateur_id = $2
-        RETURNING *
+        RETURNING ${COLONNES_MOT_DE_PASSE}
       `;
 
-      const result = await db.query<PasswordModel>(query, values);
+      const result = await db.query<PasswordEntry>(query, values);
 
       if (result.rows.length === 0) {
         throw new AppError('Mot de passe non trouvé', 404);
@@ -201,6 +278,131 @@ export const passwordService = {
     }
   },
 
+  /**
+   * Afficher un mot de passe en clair après vérification du code PIN
+   */
+  async reveal(
+    id: number,
+    utilisateur_id: number,
+    code_pin: string
+  ): Promise<{ id: number; mot_de_passe: string }> {
+    try {
+      const cle = await vaultUtils.getUserKey(utilisateur_id, code_pin);
+      const { rows } = await db.query<Pick<PasswordModel, 'mot_de_passe_crypte'>>(
+        'SELECT mot_de_passe_crypte FROM mots_de_passe WHERE id = $1 AND utilisateur_id = $2',
+        [id, utilisateur_id]
+      );
+      if (rows.length === 0) {
+        throw new AppError('Mot de passe non trouvé', 404);
+      }
+      const entree = rows[0];
+      const format = detectVaultFormat(entree.mot_de_passe_crypte);
+
+      if (format === 'bcrypt') {
+        throw new AppError(
+          'Ce mot de passe a été enregistré sous forme de hash et doit être ressaisi',
+          409
+        );
+      }
+
+      let motDePasse: string;
+      try {
+        motDePasse = format === 'v1'
+          ? decryptSecret(entree.mot_de_passe_crypte, cle)
+          : decryptLegacySecret(entree.mot_de_passe_crypte);
+      } catch {
+        throw new AppError('Impossible de déchiffrer le mot de passe', 500);
+      }
+
+      // Migration à la volée des entrées chiffrées avec l'ancienne clé globale
+      if (format === 'legacy_gcm') {
+        await db.query(
+          'UPDATE mots_de_passe SET mot_de_passe_crypte = $1 WHERE id = $2 AND utilisateur_id = $3',
+          [encryptSecret(motDePasse, cle), id, utilisateur_id]
+        );
+        logService.info('password_migrated', { id, utilisateur_id });
+      }
+
+      logService.info('password_revealed', {
+        id,
+        utilisateur_id
+      });
+
+      return { id, mot_de_passe: motDePasse };
+    } catch (error) {
+      logService.error('password_reveal_error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        id,
+        utilisateur_id
+      });
+      throw error;
+    }
+  },
+
+  /**
+   * Migrer les anciennes entrées vers le chiffrement par utilisateur
+   * Les entrées chiffrées avec la clé globale sont rechiffrées ; les entrées
+   * stockées sous forme de hash bcrypt, ou qui ne peuvent être déchiffrées,
+   * sont signalées pour être ressaisies.
+   */
+  async migrateLegacy(
+    utilisateur_id: number,
+    code_pin: string
+  ): Promise<{ migres: number; a_ressaisir: number[] }> {
+    try {
+      const cle = await vaultUtils.getUserKey(utilisateur_id, code_pin);
+      const { rows: entrees } = await db.query<PasswordModel>(
+        'SELECT * FROM mots_de_passe WHERE utilisateur_id = $1',
+        [utilisateur_id]
+      );
+
+      let migres = 0;
+      const aRessaisir: number[] = [];
+
+      for (const entree of entrees) {
+        const format = detectVaultFormat(entree.mot_de_passe_crypte);
+
+        if (format === 'bcrypt') {
+          aRessaisir.push(entree.id);
+        } else if (format === 'legacy_gcm') {
+          let motDePasse: string;
+          try {
+            motDePasse = decryptLegacySecret(entree.mot_de_passe_crypte);
+          } catch (error) {
+            // Entrée illisible : elle est à ressaisir, la migration continue
+            logService.warn('password_migration_entry_error', {
+              error: error instanceof Error ? error.message : 'Unknown error',
+              utilisateur_id,
+              id: entree.id
+            });
+            aRessaisir.push(entree.id);
+            continue;
+          }
+
+          await db.query(
+            'UPDATE mots_de_passe SET mot_de_passe_crypte = $1 WHERE id = $2 AND utilisateur_id = $3',
+            [encryptSecret(motDePasse, cle), entree.id, utilisateur_id]
+          );
+          migres++;
+        }
+      }
+
+      logService.info('passwords_migrated', {
+        utilisateur_id,
+        migres,
+        a_ressaisir: aRessaisir.length
+      });
+
+      return { migres, a_ressaisir: aRessaisir };
+    } catch (error) {
+      logService.error('password_migration_error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        utilisateur_id
+      });
+      throw error;
+    }
+  },
+
   /**
    * Générer un mot de passe sécurisé
    */
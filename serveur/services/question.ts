@@ -0,0 +1,279 @@
+import {
+  AppError,
+  QuestionCitation,
+  ResumeQuestionModel,
+  SummaryMode,
+  SummarizationProvider,
+  SupportedLanguage
+} from '../types';
+import { logService } from './common';
+import { resumeService } from './resume';
+import { getSummarizationProvider } from './summarization';
+import db from '../utils/db';
+import config from '../config/config';
+import { LANGUES } from '../config/langues';
+import { splitIntoChunks } from '../utils/chunking';
+import { rankPassages } from '../utils/retrieval';
+
+// Chevauchement entre passages, pour qu'une phrase à la limite de deux
+// passages reste retrouvable
+const CHEVAUCHEMENT_PASSAGES = 50;
+
+// Passage retenu pour répondre, avec sa position dans le document
+interface Passage {
+  position: number;
+  texte: string;
+}
+
+// Utilitaires pour les questions sur les documents résumés
+const questionUtils = {
+  /**
+   * Vérifier que le résumé existe et appartient à l'utilisateur
+   */
+  async checkResume(id: number, utilisateur_id: number): Promise<void> {
+    const result = await db.query(
+      'SELECT id FROM resumes WHERE id = $1 AND utilisateur_id = $2',
+      [id, utilisateur_id]
+    );
+
+    if (result.rows.length === 0) {
+      throw new AppError('Résumé non trouvé', 404);
+    }
+  },
+
+  /**
+   * Passages du document les plus pertinents pour la question
+   * Une question de relance (ex. « Pourquoi ? ») ne contient souvent aucun mot
+   * du document : la question précédente sert alors à la recherche.
+   */
+  findPassages(
+    texte: string,
+    question: string,
+    langue: SupportedLanguage,
+    precedente?: string
+  ): Passage[] {
+    const passages = splitIntoChunks(texte, {
+      maxTokens: config.QUESTIONS_TOKENS_PAR_PASSAGE,
+      overlapTokens: CHEVAUCHEMENT_PASSAGES
+    });
+
+    let classement = rankPassages(passages, question, langue);
+    if (classement.length === 0 && precedente) {
+      classement = rankPassages(passages, `${precedente} ${question}`, langue);
+    }
+
+    return classement
+      .slice(0, config.QUESTIONS_PASSAGES_MAX)
+      .map(({ index }) => ({ position: index + 1, texte: passages[index] }));
+  },
+
+  /**
+   * Prompt de la question : consigne, passages numérotés et échanges précédents
+   */
+  prompt(
+    question: string,
+    passages: Passage[],
+    historique: ResumeQuestionModel[],
+    langue: SupportedLanguage
+  ): string {
+    const libelles = LANGUES[langue].prompts.questions;
+    const extraits = passages.map((passage, index) => `[${index + 1}] ${passage.texte}`);
+    const echanges = historique.map((echange) => (
+      `${libelles.question} : ${echange.question}\n${libelles.reponse} : ${echange.reponse}`
+    ));
+
+    return [
+      libelles.consigne,
+      extraits.join('\n\n'),
+      ...(echanges.length > 0 ? [`${libelles.historique} :\n${echanges.join('\n\n')}`] : []),
+      `${libelles.question} : ${question}`
+    ].join('\n\n');
+  },
+
+  /**
+   * Passages cités dans la réponse (`[n]`), ou tous les passages fournis si
+   * la réponse n'en cite aucun (ex. réponse du moteur extractif)
+   */
+  citations(reponse: string, passages: Passage[]): QuestionCitation[] {
+    const citations = passages.map((passage, index) => ({ numero: index + 1, ...passage }));
+    const cites = new Set([...reponse.matchAll(/\[(\d+)\]/g)].map((match) => Number(match[1])));
+    const retenues = citations.filter((citation) => cites.has(citation.numero));
+    return retenues.length > 0 ? retenues : citations;
+  },
+
+  /**
+   * Générer la réponse, avec repli sur le moteur extractif si le fournisseur échoue
+   */
+  async answer(
+    provider: SummarizationProvider,
+    prompt: string,
+    passages: Passage[],
+    langue: SupportedLanguage
+  ): Promise<{ reponse: string; provider: SummarizationProvider }> {
+    const request = {
+      texte: passages.map((passage) => passage.texte).join('\n\n'),
+      prompt,
+      langue,
+      mots: config.QUESTIONS_MOTS_REPONSE
+    };
+
+    try {
+      return { reponse: await provider.summarize(request), provider };
+    } catch (error) {
+      logService.error('question_provider_error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        fournisseur: provider.nom,
+        modele: provider.modele
+      });
+
+      if (provider.nom === 'extractif' || !config.RESUME_REPLI_EXTRACTIF) {
+        throw new AppError('Erreur lors de la génération de la réponse', 500);
+      }
+    }
+
+    const repli = getSummarizationProvider('extractif');
+    logService.warn('question_fallback', { fournisseur: provider.nom, repli: repli.nom });
+    return { reponse: await repli.summarize(request), provider: repli };
+  }
+};
+
+/**
+ * Service des questions sur les documents résumés
+ */
+export const questionService = {
+  /**
+   * Répondre à une question à partir du texte source conservé d'un résumé
+   * Seuls les passages du document les plus proches de la question sont
+   * transmis au fournisseur, qui doit citer ceux qu'il utilise. Sans passage
+   * pertinent, la question est refusée sans appel au fournisseur. Chaque
+   * échange est ajouté à la conversation du résumé, dont les derniers échanges
+   * accompagnent les questions suivantes.
+   */
+  async ask(
+    id: number,
+    utilisateur_id: number,
+    question: string,
+    options: { mode?: SummaryMode } = {}
+  ): Promise<ResumeQuestionModel> {
+    try {
+      const resume = await resumeService.findById(id, utilisateur_id);
+      if (!resume.texte_source) {
+        throw new AppError('Le texte source de ce résumé n\'est plus conservé', 410);
+      }
+
+      // Les passages sont recherchés dans la langue du document, la réponse est
+      // rédigée dans celle du résumé
+      const historique = await this.findAll(id, utilisateur_id, config.QUESTIONS_HISTORIQUE_MAX);
+      const passages = questionUtils.findPassages(
+        resume.texte_source,
+        question,
+        resume.langue_source ?? resume.langue,
+        historique[historique.length - 1]?.question
+      );
+
+      let reponse = LANGUES[resume.langue].prompts.questions.sansReponse;
+      let citations: QuestionCitation[] = [];
+      let provider: SummarizationProvider | null = null;
+
+      if (passages.length > 0) {
+        const resultat = await questionUtils.answer(
+          options.mode === 'extractif'
+            ? getSummarizationProvider('extractif')
+            : getSummarizationProvider(),
+          questionUtils.prompt(question, passages, historique, resume.langue),
+          passages,
+          resume.langue
+        );
+        reponse = resultat.reponse;
+        provider = resultat.provider;
+        citations = questionUtils.citations(reponse, passages);
+      }
+
+      const result = await db.query<ResumeQuestionModel>(
+        `INSERT INTO questions_resume
+        (resume_id, question, reponse, citations, repondu, moteur, modele)
+        VALUES ($1, $2, $3, $4, $5, $6, $7)
+        RETURNING *`,
+        [
+          id, question, reponse, JSON.stringify(citations), provider !== null,
+          provider?.nom || null, provider?.modele || null
+        ]
+      );
+
+      logService.info('question_answered', {
+        id,
+        utilisateur_id,
+        repondu: provider !== null,
+        passages: passages.length
+      });
+
+      return result.rows[0];
+    } catch (error) {
+      logService.error('question_error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        id,
+        utilisateur_id
+      });
+      throw error;
+    }
+  },
+
+  /**
+   * Récupérer la conversation d'un résumé, de la plus ancienne question à la
+   * plus récente (les `limite` dernières seulement si elle est précisée)
+   */
+  async findAll(
+    id: number,
+    utilisateur_id: number,
+    limite?: number
+  ): Promise<ResumeQuestionModel[]> {
+    try {
+      await questionUtils.checkResume(id, utilisateur_id);
+
+      const result = await db.query<ResumeQuestionModel>(
+        `SELECT * FROM (
+          SELECT * FROM questions_resume WHERE resume_id = $1 ORDER BY id DESC LIMIT $2
+        ) conversation
+        ORDER BY id`,
+        [id, limite ?? null]
+      );
+
+      return result.rows;
+    } catch (error) {
+      logService.error('question_fetch_error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        id,
+        utilisateur_id
+      });
+      throw error;
+    }
+  },
+
+  /**
+   * Effacer la conversation d'un résumé
+   */
+  async clear(id: number, utilisateur_id: number): Promise<number> {
+    try {
+      await questionUtils.checkResume(id, utilisateur_id);
+
+      const result = await db.query('DELETE FROM questions_resume WHERE resume_id = $1', [id]);
+
+      logService.info('questions_cleared', {
+        id,
+        utilisateur_id,
+        count: result.rowCount || 0
+      });
+
+      return result.rowCount || 0;
+    } catch (error) {
+      logService.error('questions_clear_error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        id,
+        utilisateur_id
+      });
+      throw error;
+    }
+  }
+};
+
+export default questionService;
@@ -1,15 +1,505 @@
-import { AppError, ResumeModel, SupportedLanguage } from '../types';
+import {
+  AppError,
+  DocumentFormat,
+  ListDefinition,
+  ListQuery,
+  PaginatedResult,
+  ResumeModel,
+  ResumeSearchResult,
+  ResumeVersionDiff,
+  ResumeVersionModel,
+  SupportedLanguage,
+  SummaryBatchItem,
+  SummaryBatchItemResult,
+  SummaryBatchOptions,
+  SummaryBatchResult,
+  SummaryFormat,
+  SummaryOptions,
+  SummaryResult,
+  SummarySource,
+  SummarizationProvider,
+  SummarizationRequest,
+  TranscriptSegment,
+  YoutubeChapter,
+  YoutubeSummaryOptions
+} from '../types';
 import { logService } from './common';
+import { getSummarizationProvider } from './summarization';
+import { getCacheStore } from './cache';
+import { tagService } from './tag';
 import db from '../utils/db';
 import config from '../config/config';
-import cheerio from 'cheerio';
+import { LANGUES } from '../config/langues';
+import crypto from 'crypto';
+import { estimateTokens, splitIntoChunks } from '../utils/chunking';
+import { mapWithConcurrency } from '../utils/helpers';
+import { countWords } from '../utils/extractive';
+import { detectLanguage } from '../utils/language';
+import { diffWords } from '../utils/diff';
+import { extractArticle } from '../utils/readability';
+import { listClauses, parseListQuery } from '../utils/pagination';
+import { TYPES_TAGS } from '../utils/tagging';
+import { fetchText } from '../utils/safe-fetch';
+import { detectDocumentFormat, extractDocument, TYPES_MIME_DOCUMENTS } from '../utils/documents';
+import { fetchCaptionTracks, selectCaptionTrack } from '../utils/youtube';
+import {
+  formatTimestamp,
+  normalizeCaptions,
+  segmentByDuration,
+  segmentByTopic
+} from '../utils/transcript';
 import pdfParse from 'pdf-parse';
 import { getSubtitles } from 'youtube-captions-scraper';
-import OpenAI from 'openai';
 
-const openai = new OpenAI({
-  apiKey: config.OPENAI_API_KEY
-});
+// Longueur minimale (en mots) du résumé d'un segment
+const MOTS_MIN_SEGMENT = 80;
+
+// Nombre moyen de mots par phrase, pour borner les résumés exprimés en phrases
+const MOTS_PAR_PHRASE = 25;
+
+// Longueur par défaut d'un résumé exprimé en phrases
+const PHRASES_PAR_DEFAUT = 5;
+
+// Longueur du résumé de chaque chapitre d'une vidéo, en phrases
+const PHRASES_PAR_CHAPITRE = 2;
+
+// Vitesse de lecture moyenne, pour estimer le temps de lecture d'un document
+const MOTS_LUS_PAR_MINUTE = 230;
+
+// Types de contenu acceptés pour le résumé d'une page web
+const TYPES_PAGES = ['text/html', 'application/xhtml+xml', 'text/plain'];
+
+// Étiquettes d'un résumé `r`, jointes aux résumés retournés
+const COLONNE_TAGS = `COALESCE((
+    SELECT json_agg(json_build_object('libelle', t.libelle, 'type', t.type, 'score', t.score)
+      ORDER BY t.type, t.score DESC)
+    FROM tags_resume t WHERE t.resume_id = r.id
+  ), '[]') AS tags`;
+
+// Tris et filtres de la liste des résumés ; `type_tag` précise le type de
+// l'étiquette `tag`
+export const LISTE_RESUMES: ListDefinition = {
+  tris: {
+    cree_le: { nature: 'date', expression: "date_trunc('milliseconds', cree_le)" },
+    modifie_le: { nature: 'date', expression: "date_trunc('milliseconds', modifie_le)" },
+    titre: { nature: 'texte', expression: "COALESCE(titre, '')" },
+    type: { nature: 'texte', expression: 'type' }
+  },
+  triParDefaut: '-cree_le',
+  filtres: {
+    type: {
+      nature: 'texte',
+      valeurs: ['article', 'texte', 'youtube', ...Object.keys(TYPES_MIME_DOCUMENTS)],
+      condition: 'r.type = {type}'
+    },
+    langue: {
+      nature: 'texte',
+      valeurs: config.SUPPORTED_LANGUAGES,
+      condition: 'r.langue = {langue}'
+    },
+    cree_apres: { nature: 'date', condition: 'r.cree_le >= {cree_apres}' },
+    cree_avant: { nature: 'date', condition: 'r.cree_le < {cree_avant}' },
+    tag: {
+      nature: 'texte',
+      condition: `EXISTS (
+        SELECT 1 FROM tags_resume t
+        WHERE t.resume_id = r.id
+          AND LOWER(t.libelle) = LOWER({tag})
+          AND ({type_tag}::text IS NULL OR t.type = {type_tag}::text)
+      )`
+    },
+    type_tag: { nature: 'texte', valeurs: TYPES_TAGS },
+    collection: {
+      nature: 'entier',
+      condition: `EXISTS (
+        SELECT 1 FROM collections_resumes c
+        WHERE c.resume_id = r.id AND c.collection_id = {collection}
+      )`
+    }
+  }
+};
+
+// Délimiteurs des termes trouvés dans les extraits de la recherche plein texte,
+// remplacés par <mark> une fois le texte échappé
+const DEBUT_SURLIGNE = '\u0002';
+const FIN_SURLIGNE = '\u0003';
+
+// Options des extraits de la recherche : jusqu'à deux passages d'une trentaine de mots
+const OPTIONS_EXTRAIT = `StartSel=${DEBUT_SURLIGNE}, StopSel=${FIN_SURLIGNE}, `
+  + 'MaxFragments=2, MaxWords=30, MinWords=10, FragmentDelimiter=" … "';
+const OPTIONS_TITRE = `StartSel=${DEBUT_SURLIGNE}, StopSel=${FIN_SURLIGNE}, HighlightAll=true`;
+
+/**
+ * Échapper un extrait pour l'HTML et entourer de <mark> les termes trouvés
+ */
+const markHighlights = (extrait: string): string => extrait
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;')
+  .replace(new RegExp(DEBUT_SURLIGNE, 'g'), '<mark>')
+  .replace(new RegExp(FIN_SURLIGNE, 'g'), '</mark>');
+
+// Utilitaires pour la génération des résumés
+const summaryUtils = {
+  /**
+   * Compléter les options de style et de longueur avec les valeurs par défaut
+   */
+  resolveFormat(options: SummaryOptions): SummaryFormat {
+    const style = options.style || 'paragraphe';
+    // Sans longueur demandée, un TL;DR tient en une phrase
+    const unite_longueur = options.unite_longueur
+      || (style === 'tldr' && !options.longueur ? 'phrases' : 'mots');
+
+    let longueur = options.longueur;
+    if (!longueur) {
+      if (style === 'tldr') {
+        longueur = unite_longueur === 'phrases' ? 1 : MOTS_PAR_PHRASE * 2;
+      } else {
+        longueur = unite_longueur === 'phrases' ? PHRASES_PAR_DEFAUT : config.LONGUEUR_MAX_RESUME;
+      }
+    }
+
+    return { style, longueur, unite_longueur };
+  },
+
+  /**
+   * Longueur cible formulée pour le prompt
+   */
+  describeLength(format: SummaryFormat, langue: SupportedLanguage): string {
+    const { prompts } = LANGUES[langue];
+    return format.unite_longueur === 'phrases'
+      ? prompts.phrases(format.longueur)
+      : prompts.mots(format.longueur);
+  },
+
+  /**
+   * Requête finale adressée au fournisseur pour un format donné
+   * Seul le résumé final est diffusé fragment par fragment.
+   */
+  finalRequest(
+    texte: string,
+    prompt: string,
+    langue: SupportedLanguage,
+    format: SummaryFormat,
+    options: SummaryOptions
+  ): SummarizationRequest {
+    return {
+      texte,
+      prompt,
+      langue,
+      mots: format.unite_longueur === 'phrases' ? format.longueur * MOTS_PAR_PHRASE : format.longueur,
+      phrases: format.unite_longueur === 'phrases' ? format.longueur : undefined,
+      style: format.style,
+      onToken: options.onToken,
+      signal: options.signal
+    };
+  },
+
+  /**
+   * Prompt de résumé d'un texte complet
+   */
+  promptResume(text: string, langue: SupportedLanguage, format: SummaryFormat): string {
+    const longueur = this.describeLength(format, langue);
+    const { prompts } = LANGUES[langue];
+    return `${prompts.resume(longueur)} ${prompts.styles[format.style]}\n\n${text}`;
+  },
+
+  /**
+   * Prompt de résumé d'un segment d'un document long
+   */
+  promptSegment(
+    text: string,
+    langue: SupportedLanguage,
+    mots: number,
+    index: number,
+    total: number
+  ): string {
+    const { prompts } = LANGUES[langue];
+    return `${prompts.segment(index, total, prompts.mots(mots))}\n\n${text}`;
+  },
+
+  /**
+   * Prompt de fusion des résumés partiels
+   * Sans format, il s'agit d'une fusion intermédiaire bornée à `mots` mots.
+   */
+  promptFusion(
+    resumes: string[],
+    langue: SupportedLanguage,
+    mots: number,
+    format?: SummaryFormat
+  ): string {
+    const { prompts } = LANGUES[langue];
+    const parties = resumes
+      .map((resume, index) => `[${prompts.partie} ${index + 1}]\n${resume}`)
+      .join('\n\n');
+    const longueur = format ? this.describeLength(format, langue) : prompts.mots(mots);
+    const consigne = format ? ` ${prompts.styles[format.style]}` : '';
+
+    return `${prompts.fusion(longueur)}${consigne}\n\n${parties}`;
+  },
+
+  /**
+   * Regrouper des résumés partiels pour qu'ils tiennent dans un prompt
+   * (au moins deux résumés par groupe pour garantir la convergence)
+   */
+  groupSummaries(resumes: string[], maxTokens: number): string[][] {
+    const groupes: string[][] = [];
+    let courant: string[] = [];
+    let tokens = 0;
+
+    for (const resume of resumes) {
+      const tokensResume = estimateTokens(resume);
+      if (courant.length >= 2 && tokens + tokensResume > maxTokens) {
+        groupes.push(courant);
+        courant = [];
+        tokens = 0;
+      }
+      courant.push(resume);
+      tokens += tokensResume;
+    }
+
+    if (courant.length > 0) {
+      groupes.push(courant);
+    }
+
+    return groupes;
+  },
+
+  /**
+   * Clé de cache : empreinte du texte normalisé et de tout ce qui influence le résumé
+   */
+  cacheKey(
+    text: string,
+    langue: SupportedLanguage,
+    format: SummaryFormat,
+    provider: SummarizationProvider
+  ): string {
+    const texte = text.normalize('NFC').replace(/\s+/g, ' ').trim();
+    return crypto
+      .createHash('sha256')
+      .update(JSON.stringify([
+        texte,
+        langue,
+        format.style,
+        format.longueur,
+        format.unite_longueur,
+        provider.nom,
+        provider.modele
+      ]))
+      .digest('hex');
+  },
+
+  /**
+   * Lire un résumé en cache (une panne du cache n'empêche pas de résumer)
+   */
+  async readCache(cle: string): Promise<Omit<SummaryResult, 'cache'> | null> {
+    if (!config.CACHE_RESUMES) {
+      return null;
+    }
+
+    try {
+      return await getCacheStore<Omit<SummaryResult, 'cache'>>().get(cle);
+    } catch (error) {
+      logService.warn('summary_cache_error', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+      return null;
+    }
+  },
+
+  /**
+   * Mettre un résumé en cache
+   */
+  async writeCache(cle: string, resultat: Omit<SummaryResult, 'cache'>): Promise<void> {
+    if (!config.CACHE_RESUMES) {
+      return;
+    }
+
+    try {
+      await getCacheStore<Omit<SummaryResult, 'cache'>>().set(cle, resultat, config.CACHE_TTL);
+    } catch (error) {
+      logService.warn('summary_cache_error', {
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  },
+
+  /**
+   * Résumer un texte avec un fournisseur donné
+   * Les textes qui dépassent le contexte du fournisseur sont découpés en
+   * segments qui se chevauchent, résumés séparément puis fusionnés
+   * (map-reduce). `onProgress` permet de suivre l'avancement lorsque le
+   * texte comporte plusieurs segments.
+   */
+  async run(
+    provider: SummarizationProvider,
+    text: string,
+    langue: SupportedLanguage,
+    format: SummaryFormat,
+    options: SummaryOptions = {}
+  ): Promise<string> {
+    const { onProgress, signal } = options;
+    const segments = splitIntoChunks(text, {
+      maxTokens: provider.contexteTokens,
+      overlapTokens: config.RESUME_CHEVAUCHEMENT_TOKENS
+    });
+
+    // Texte court : un seul appel au fournisseur
+    if (segments.length <= 1) {
+      return provider.summarize(
+        this.finalRequest(text, this.promptResume(text, langue, format), langue, format, options)
+      );
+    }
+
+    // Chaque résumé partiel est borné pour que leur fusion reste proche de la longueur finale
+    const motsParSegment = Math.min(
+      config.LONGUEUR_MAX_RESUME,
+      Math.max(MOTS_MIN_SEGMENT, Math.ceil((config.LONGUEUR_MAX_RESUME * 2) / segments.length))
+    );
+
+    let termines = 0;
+    const resumesPartiels = await mapWithConcurrency(
+      segments,
+      config.RESUME_CONCURRENCE,
+      async (segment, index) => {
+        const resume = await provider.summarize({
+          texte: segment,
+          prompt: this.promptSegment(segment, langue, motsParSegment, index + 1, segments.length),
+          langue,
+          mots: motsParSegment,
+          signal
+        });
+        termines++;
+        onProgress?.({ etape: 'segments', termine: termines, total: segments.length });
+        return resume;
+      }
+    );
+
+    logService.info('summary_chunks_processed', {
+      fournisseur: provider.nom,
+      segments: segments.length,
+      mots_par_segment: motsParSegment
+    });
+
+    return this.merge(provider, resumesPartiels, langue, motsParSegment, format, options);
+  },
+
+  /**
+   * Fusionner les résumés partiels en un résumé final
+   */
+  async merge(
+    provider: SummarizationProvider,
+    resumes: string[],
+    langue: SupportedLanguage,
+    motsIntermediaires: number,
+    format: SummaryFormat,
+    options: SummaryOptions = {}
+  ): Promise<string> {
+    const { onProgress, signal } = options;
+    let niveau = resumes;
+
+    // Fusions intermédiaires tant que l'ensemble dépasse le contexte du fournisseur
+    while (niveau.length > 1 && estimateTokens(niveau.join('\n\n')) > provider.contexteTokens) {
+      const groupes = this.groupSummaries(niveau, provider.contexteTokens);
+      let termines = 0;
+
+      niveau = await mapWithConcurrency(groupes, config.RESUME_CONCURRENCE, async (groupe) => {
+        const fusion = await provider.summarize({
+          texte: groupe.join('\n\n'),
+          prompt: this.promptFusion(groupe, langue, motsIntermediaires),
+          langue,
+          mots: motsIntermediaires,
+          signal
+        });
+        termines++;
+        onProgress?.({ etape: 'fusion', termine: termines, total: groupes.length });
+        return fusion;
+      });
+    }
+
+    const texte = niveau.join('\n\n');
+    const resume = await provider.summarize(this.finalRequest(
+      texte,
+      this.promptFusion(niveau, langue, motsIntermediaires, format),
+      langue,
+      format,
+      options
+    ));
+    onProgress?.({ etape: 'fusion', termine: 1, total: 1 });
+
+    return resume;
+  },
+
+  /**
+   * Nombre de mots du résumé rapporté à celui du document source
+   */
+  compressionRate(resume: string, motsSource: number | null): number | null {
+    return motsSource
+      ? Math.round((countWords(resume) / motsSource) * 10000) / 10000
+      : null;
+  },
+
+  /**
+   * Enregistrer un résumé avec les métadonnées de son document source
+   * La langue du texte source est détectée à l'enregistrement. Le texte source
+   * est conservé à part (`sources_resume`) pendant la durée configurée, puis purgé.
+   * Le résumé est aussi enregistré comme première version de son historique,
+   * puis étiqueté d'après son document (mots-clés, entités nommées, thème).
+   */
+  async save(
+    utilisateur_id: number,
+    type: ResumeModel['type'],
+    langue: SupportedLanguage,
+    source: SummarySource,
+    resultat: SummaryResult,
+    chapitres: YoutubeChapter[] | null = null
+  ): Promise<ResumeModel> {
+    const { resume, moteur, modele, format, cache } = resultat;
+    const motsSource = countWords(source.texte);
+    const tempsLecture = motsSource > 0 ? Math.ceil(motsSource / MOTS_LUS_PAR_MINUTE) : null;
+    const tauxCompression = this.compressionRate(resume, motsSource);
+    const langueSource = detectLanguage(source.texte);
+
+    const result = await db.query<ResumeModel>(
+      `WITH nouveau AS (
+        INSERT INTO resumes
+        (utilisateur_id, type, resume, source_url, langue, moteur, modele, style, longueur,
+          unite_longueur, titre, auteur, mots_source, pages_source, temps_lecture, taux_compression,
+          chapitres, sous_titres, langue_source, langue_source_confiance)
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $18, $19,
+          $20, $21)
+        RETURNING *
+      ), source AS (
+        INSERT INTO sources_resume (resume_id, texte)
+        SELECT id, $17 FROM nouveau WHERE $17::text IS NOT NULL
+      ), version AS (
+        INSERT INTO resume_versions
+        (resume_id, numero, resume, moteur, modele, style, longueur, unite_longueur,
+          taux_compression)
+        SELECT id, version, resume, moteur, modele, style, longueur, unite_longueur,
+          taux_compression
+        FROM nouveau
+      )
+      SELECT * FROM nouveau`,
+      [
+        utilisateur_id, type, resume, source.url || null, langue, moteur, modele || null,
+        format.style, format.longueur, format.unite_longueur,
+        source.titre || null, source.auteur || null, motsSource, source.pages || null,
+        tempsLecture, tauxCompression,
+        config.SOURCES_RETENTION_JOURS > 0 ? source.texte : null,
+        chapitres ? JSON.stringify(chapitres) : null,
+        source.sous_titres ? JSON.stringify(source.sous_titres) : null,
+        langueSource?.langue || null,
+        langueSource?.confiance ?? null
+      ]
+    );
+
+    const tags = await tagService.tagResume(result.rows[0], source.texte);
+    return { ...result.rows[0], cache, tags };
+  }
+};
 
 /**
  * Service de résumé
@@ -21,36 +511,36 @@ export const resumeService = {
   async summarizeUrl(
     utilisateur_id: number,
     url: string,
-    langue: SupportedLanguage
+    langue: SupportedLanguage,
+    options: SummaryOptions = {}
   ): Promise<ResumeModel> {
     try {
-      // Récupérer le contenu de l'URL
-      const response = await fetch(url);
-      const html = await response.text();
-      const $ = cheerio.load(html);
+      // Récupérer le contenu de l'URL (adresses internes refusées)
+      const page = await fetchText(url, { signal: options.signal, typesAcceptes: TYPES_PAGES });
 
-      // Extraire le texte principal (à adapter selon la structure du site)
-      const article = $('article').text() || $('main').text() || $('body').text();
-      const cleanText = article.replace(/\s+/g, ' ').trim();
+      // Extraire le contenu principal, sans menus, bandeaux ni commentaires
+      const article = extractArticle(page.texte, page.url);
+      if (!article.texte) {
+        throw new AppError('Aucun contenu exploitable trouvé à cette adresse', 422);
+      }
 
       // Générer le résumé
-      const resume = await this.generateSummary(cleanText, langue);
+      const resultat = await this.generateSummary(article.texte, langue, options);
 
       // Sauvegarder dans la base de données
-      const result = await db.query<ResumeModel>(
-        `INSERT INTO resumes 
-        (utilisateur_id, type, resume, source_url, langue)
-        VALUES ($1, $2, $3, $4, $5)
-        RETURNING *`,
-        [utilisateur_id, 'article', resume, url, langue]
-      );
+      const resume = await summaryUtils.save(utilisateur_id, 'article', langue, {
+        texte: article.texte,
+        url,
+        titre: article.titre,
+        auteur: article.auteur
+      }, resultat);
 
       logService.info('url_summarized', {
         utilisateur_id,
         url
       });
 
-      return result.rows[0];
+      return resume;
     } catch (error) {
       logService.error('url_summarization_error', {
         error: error instanceof Error ? error.message : 'Unknown error',
@@ -67,25 +557,19 @@ export const resumeService = {
   async summarizeText(
     utilisateur_id: number,
     texte: string,
-    langue: SupportedLanguage
+    langue: SupportedLanguage,
+    options: SummaryOptions = {}
   ): Promise<ResumeModel> {
     try {
-      const resume = await this.generateSummary(texte, langue);
-
-      const result = await db.query<ResumeModel>(
-        `INSERT INTO resumes 
-        (utilisateur_id, type, resume, langue)
-        VALUES ($1, $2, $3, $4)
-        RETURNING *`,
-        [utilisateur_id, 'texte', resume, langue]
-      );
+      const resultat = await this.generateSummary(texte, langue, options);
+      const resume = await summaryUtils.save(utilisateur_id, 'texte', langue, { texte }, resultat);
 
       logService.info('text_summarized', {
         utilisateur_id,
         length: texte.length
       });
 
-      return result.rows[0];
+      return resume;
     } catch (error) {
       logService.error('text_summarization_error', {
         error: error instanceof Error ? error.message : 'Unknown error',
@@ -101,26 +585,28 @@ export const resumeService = {
   async summarizePdf(
     utilisateur_id: number,
     pdfBuffer: Buffer,
-    langue: SupportedLanguage
+    langue: SupportedLanguage,
+    options: SummaryOptions = {}
   ): Promise<ResumeModel> {
     try {
       const data = await pdfParse(pdfBuffer);
-      const resume = await this.generateSummary(data.text, langue);
+      const resultat = await this.generateSummary(data.text, langue, options);
 
-      const result = await db.query<ResumeModel>(
-        `INSERT INTO resumes 
-        (utilisateur_id, type, resume, langue)
-        VALUES ($1, $2, $3, $4)
-        RETURNING *`,
-        [utilisateur_id, 'pdf', resume, langue]
-      );
+      // Titre et auteur renseignés dans les propriétés du document, s'ils existent
+      const info = data.info || {};
+      const resume = await summaryUtils.save(utilisateur_id, 'pdf', langue, {
+        texte: data.text,
+        titre: typeof info.Title === 'string' && info.Title.trim() ? info.Title.trim() : null,
+        auteur: typeof info.Author === 'string' && info.Author.trim() ? info.Author.trim() : null,
+        pages: data.numpages
+      }, resultat);
 
       logService.info('pdf_summarized', {
         utilisateur_id,
         pages: data.numpages
       });
 
-      return result.rows[0];
+      return resume;
     } catch (error) {
       logService.error('pdf_summarization_error', {
         error: error instanceof Error ? error.message : 'Unknown error',
@@ -130,13 +616,74 @@ export const resumeService = {
     }
   },
 
+  /**
+   * Reconnaître le format d'un fichier envoyé et vérifier qu'il est accepté
+   * (`ALLOWED_FILE_TYPES`)
+   */
+  detectFileFormat(fichier: Buffer, nomFichier?: string): DocumentFormat {
+    const format = detectDocumentFormat(fichier, nomFichier);
+    if (!config.ALLOWED_FILE_TYPES.includes(TYPES_MIME_DOCUMENTS[format])) {
+      throw new AppError('Type de fichier non pris en charge', 415);
+    }
+    return format;
+  },
+
+  /**
+   * Résumer un fichier (PDF, DOCX, EPUB, HTML, Markdown ou texte brut)
+   * Le format est reconnu d'après le contenu du fichier ; le nom du fichier
+   * sert seulement à distinguer le Markdown du texte brut.
+   */
+  async summarizeFile(
+    utilisateur_id: number,
+    fichier: Buffer,
+    langue: SupportedLanguage,
+    options: SummaryOptions = {},
+    nomFichier?: string
+  ): Promise<ResumeModel> {
+    try {
+      const format = this.detectFileFormat(fichier, nomFichier);
+      if (format === 'pdf') {
+        return await this.summarizePdf(utilisateur_id, fichier, langue, options);
+      }
+
+      const document = extractDocument(fichier, format);
+      if (!document.texte.trim()) {
+        throw new AppError('Aucun texte exploitable trouvé dans ce fichier', 422);
+      }
+
+      const resultat = await this.generateSummary(document.texte, langue, options);
+      const resume = await summaryUtils.save(utilisateur_id, format, langue, {
+        texte: document.texte,
+        titre: document.titre,
+        auteur: document.auteur,
+        pages: document.pages
+      }, resultat);
+
+      logService.info('file_summarized', {
+        utilisateur_id,
+        format,
+        taille: fichier.length
+      });
+
+      return resume;
+    } catch (error) {
+      logService.error('file_summarization_error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        utilisateur_id,
+        nomFichier
+      });
+      throw error;
+    }
+  },
+
   /**
    * Résumer une vidéo YouTube
    */
   async summarizeYoutube(
     utilisateur_id: number,
     videoUrl: string,
-    langue: SupportedLanguage
+    langue: SupportedLanguage,
+    options: YoutubeSummaryOptions = {}
   ): Promise<ResumeModel> {
     try {
       // Extraire l'ID de la vidéo
@@ -145,30 +692,50 @@ export const resumeService = {
         throw new AppError('URL YouTube invalide', 400);
       }
 
-      // Récupérer les sous-titres
+      // Choisir la piste de sous-titres parmi celles de la vidéo : la langue
+      // demandée si possible, le résumé étant de toute façon rédigé dans `langue`
+      const piste = selectCaptionTrack(await fetchCaptionTracks(videoId, options.signal), langue);
+      if (!piste) {
+        throw new AppError('Aucun sous-titre disponible pour cette vidéo', 422);
+      }
       const captions = await getSubtitles({
         videoID: videoId,
-        lang: langue === 'fr' ? 'fr' : 'en'
+        lang: piste.langue
       });
 
       // Concaténer les sous-titres
       const text = captions.map(caption => caption.text).join(' ');
-      const resume = await this.generateSummary(text, langue);
 
-      const result = await db.query<ResumeModel>(
-        `INSERT INTO resumes 
-        (utilisateur_id, type, resume, source_url, langue)
-        VALUES ($1, $2, $3, $4, $5)
-        RETURNING *`,
-        [utilisateur_id, 'youtube', resume, videoUrl, langue]
-      );
+      // Découper la transcription en chapitres horodatés, résumés séparément
+      const { chapitres: decoupage, ...summaryOptions } = options;
+      let chapitres: YoutubeChapter[] | null = null;
+      if (decoupage) {
+        const sousTitres = normalizeCaptions(captions);
+        // Les mots vides sont ceux de la langue des sous-titres
+        const langueSousTitres = config.SUPPORTED_LANGUAGES.find((code) => (
+          piste.langue.toLowerCase().split('-')[0] === LANGUES[code].sousTitres
+        )) || langue;
+        const segments = decoupage === 'sujet'
+          ? segmentByTopic(sousTitres, langueSousTitres, config.CHAPITRES_MAX)
+          : segmentByDuration(sousTitres, config.CHAPITRES_DUREE_SECONDES, config.CHAPITRES_MAX);
+        chapitres = await this.summarizeChapters(videoId, segments, langue, summaryOptions);
+      }
+
+      const resultat = await this.generateSummary(text, langue, summaryOptions);
+      const resume = await summaryUtils.save(utilisateur_id, 'youtube', langue, {
+        texte: text,
+        url: videoUrl,
+        sous_titres: piste
+      }, resultat, chapitres);
 
       logService.info('youtube_summarized', {
         utilisateur_id,
-        videoUrl
+        videoUrl,
+        sous_titres: piste.langue,
+        chapitres: chapitres ? chapitres.length : 0
       });
 
-      return result.rows[0];
+      return resume;
     } catch (error) {
       logService.error('youtube_summarization_error', {
         error: error instanceof Error ? error.message : 'Unknown error',
@@ -180,13 +747,163 @@ export const resumeService = {
   },
 
   /**
-   * Récupérer tous les résumés d'un utilisateur
+   * Résumer chaque segment d'une transcription en un chapitre horodaté
+   * Seul le résumé de la vidéo entière est diffusé : les chapitres sont
+   * générés sans `onToken`, leur avancement étant signalé par `onProgress`.
+   */
+  summarizeChapters(
+    videoId: string,
+    segments: TranscriptSegment[],
+    langue: SupportedLanguage,
+    options: SummaryOptions = {}
+  ): Promise<YoutubeChapter[]> {
+    const { mode, signal, onProgress } = options;
+    let termines = 0;
+
+    return mapWithConcurrency(segments, config.RESUME_CONCURRENCE, async (segment) => {
+      const resultat = await this.generateSummary(segment.texte, langue, {
+        mode,
+        signal,
+        style: 'paragraphe',
+        longueur: PHRASES_PAR_CHAPITRE,
+        unite_longueur: 'phrases'
+      });
+      termines++;
+      onProgress?.({ etape: 'chapitres', termine: termines, total: segments.length });
+
+      const debut = Math.floor(segment.debut);
+      return {
+        debut,
+        fin: Math.ceil(segment.fin),
+        horodatage: formatTimestamp(debut),
+        lien: `https://www.youtube.com/watch?v=${videoId}&t=${debut}s`,
+        resume: resultat.resume
+      };
+    });
+  },
+
+  /**
+   * Résumer un lot d'articles, de vidéos YouTube et de textes
+   * Les éléments sont traités avec une concurrence bornée ; l'échec d'un
+   * élément est rapporté à sa position sans interrompre les autres. Avec
+   * `synthese`, les résumés obtenus sont à leur tour condensés en une synthèse
+   * commune, retournée sans être enregistrée.
+   */
+  async summarizeBatch(
+    utilisateur_id: number,
+    elements: SummaryBatchItem[],
+    langue: SupportedLanguage,
+    options: SummaryBatchOptions = {}
+  ): Promise<SummaryBatchResult> {
+    const { synthese, ...summaryOptions } = options;
+
+    const resultats = await mapWithConcurrency(
+      elements,
+      config.LOT_CONCURRENCE,
+      async (element, index): Promise<SummaryBatchItemResult> => {
+        try {
+          const { type, url = '', texte = '' } = element;
+          let resume: ResumeModel;
+          if (type === 'texte') {
+            resume = await this.summarizeText(utilisateur_id, texte, langue, summaryOptions);
+          } else if (type === 'youtube') {
+            resume = await this.summarizeYoutube(utilisateur_id, url, langue, summaryOptions);
+          } else {
+            resume = await this.summarizeUrl(utilisateur_id, url, langue, summaryOptions);
+          }
+          return { index, type: element.type, statut: 'succes', resume };
+        } catch (error) {
+          // Seuls les messages des erreurs applicatives sont exposés
+          return {
+            index,
+            type: element.type,
+            statut: 'echec',
+            erreur: error instanceof AppError
+              ? { message: error.message, status: error.status }
+              : { message: 'Erreur lors de la génération du résumé', status: 500 }
+          };
+        }
+      }
+    );
+
+    const reussis = resultats.flatMap(({ resume }) => (resume ? [resume] : []));
+    let syntheseLot: SummaryResult | null = null;
+
+    // Une synthèse n'a de sens qu'à partir de deux résumés
+    if (synthese && reussis.length > 1) {
+      const texte = reussis
+        .map(({ titre, resume }) => (titre ? `# ${titre}\n\n${resume}` : resume))
+        .join('\n\n');
+      try {
+        syntheseLot = await this.generateSummary(texte, langue, summaryOptions);
+      } catch (error) {
+        // Les résumés individuels restent retournés sans synthèse
+        logService.error('batch_digest_error', {
+          error: error instanceof Error ? error.message : 'Unknown error',
+          utilisateur_id
+        });
+      }
+    }
+
+    logService.info('batch_summarized', {
+      utilisateur_id,
+      total: elements.length,
+      echecs: elements.length - reussis.length
+    });
+
+    return {
+      resultats,
+      reussis: reussis.length,
+      echecs: elements.length - reussis.length,
+      synthese: syntheseLot
+    };
+  },
+
+  /**
+   * Récupérer une page des résumés d'un utilisateur avec leurs étiquettes,
+   * triés et filtrés (voir `LISTE_RESUMES`)
+   * `tag` restreint la liste aux résumés portant cette étiquette (sans tenir
+   * compte de la casse), éventuellement du type `type_tag` ; `collection` aux
+   * résumés de cette collection.
+   */
+  async findAll(
+    utilisateur_id: number,
+    requete: ListQuery = parseListQuery({}, LISTE_RESUMES)
+  ): Promise<PaginatedResult<ResumeModel>> {
+    try {
+      const params: unknown[] = [utilisateur_id];
+      const { conditions, options } = listClauses(requete, LISTE_RESUMES, params);
+
+      return await db.queryWithPagination<ResumeModel>(
+        `SELECT r.*, ${COLONNE_TAGS}
+        FROM resumes r
+        WHERE r.utilisateur_id = $1${conditions}`,
+        params,
+        requete.page,
+        requete.limit,
+        options
+      );
+    } catch (error) {
+      logService.error('resume_fetch_error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        utilisateur_id
+      });
+      throw error;
+    }
+  },
+
+  /**
+   * Récupérer tous les résumés d'une collection, du plus récent au plus ancien
    */
-  async findAll(utilisateur_id: number): Promise<ResumeModel[]> {
+  async findByCollection(collection_id: number, utilisateur_id: number): Promise<ResumeModel[]> {
     try {
       const result = await db.query<ResumeModel>(
-        'SELECT * FROM resumes WHERE utilisateur_id = $1 ORDER BY cree_le DESC',
-        [utilisateur_id]
+        `SELECT r.*, ${COLONNE_TAGS}
+        FROM resumes r
+        JOIN collections_resumes c ON c.resume_id = r.id
+        WHERE c.collection_id = $1 AND r.utilisateur_id = $2
+        ORDER BY r.cree_le DESC`,
+        [collection_id, utilisateur_id]
       );
 
       return result.rows;
@@ -199,13 +916,65 @@ export const resumeService = {
     }
   },
 
+  /**
+   * Rechercher dans les résumés d'un utilisateur (titre, texte et URL source)
+   * La requête accepte la syntaxe des moteurs de recherche (guillemets, `or`,
+   * `-`) et est interprétée dans la configuration de chaque langue, ou de la
+   * seule `langue` demandée. Les résultats sont classés par pertinence, le titre
+   * comptant plus que le texte et celui-ci plus que l'URL.
+   */
+  async search(
+    utilisateur_id: number,
+    requete: string,
+    options: { page?: number; limit?: number; langue?: SupportedLanguage } = {}
+  ): Promise<PaginatedResult<ResumeSearchResult>> {
+    try {
+      const result = await db.queryWithPagination<ResumeSearchResult>(
+        `SELECT r.id, r.type, r.titre, r.source_url, r.langue, r.cree_le,
+          ts_rank(d.document, q.requete) AS rang,
+          CASE WHEN r.titre IS NULL THEN NULL
+            ELSE ts_headline(configuration_recherche(r.langue), r.titre, q.requete, $4)
+          END AS titre_surligne,
+          ts_headline(configuration_recherche(r.langue), r.resume, q.requete, $5) AS extrait
+        FROM resumes r
+        JOIN recherche_resumes d ON d.resume_id = r.id
+        CROSS JOIN requete_recherche($2, $3::text) AS q (requete)
+        WHERE r.utilisateur_id = $1
+          AND ($3::text IS NULL OR r.langue = $3::text)
+          AND d.document @@ q.requete
+        ORDER BY rang DESC, r.cree_le DESC`,
+        [utilisateur_id, requete, options.langue || null, OPTIONS_TITRE, OPTIONS_EXTRAIT],
+        options.page || 1,
+        options.limit || config.RECHERCHE_PAR_PAGE
+      );
+
+      return {
+        ...result,
+        rows: result.rows.map((resultat) => ({
+          ...resultat,
+          titre_surligne: resultat.titre_surligne && markHighlights(resultat.titre_surligne),
+          extrait: markHighlights(resultat.extrait)
+        }))
+      };
+    } catch (error) {
+      logService.error('resume_search_error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        utilisateur_id
+      });
+      throw error;
+    }
+  },
+
   /**
    * Récupérer un résumé par son ID
    */
   async findById(id: number, utilisateur_id: number): Promise<ResumeModel> {
     try {
       const result = await db.query<ResumeModel>(
-        'SELECT * FROM resumes WHERE id = $1 AND utilisateur_id = $2',
+        `SELECT r.*, s.texte AS texte_source, ${COLONNE_TAGS}
+        FROM resumes r
+        LEFT JOIN sources_resume s ON s.resume_id = r.id
+        WHERE r.id = $1 AND r.utilisateur_id = $2`,
         [id, utilisateur_id]
       );
 
@@ -224,6 +993,173 @@ export const resumeService = {
     }
   },
 
+  /**
+   * Régénérer un résumé avec de nouvelles options (style, longueur, fournisseur, modèle)
+   * Le résumé est produit à partir du texte source conservé, sans passer par le
+   * cache, puis enregistré comme nouvelle version courante. Les options absentes
+   * reprennent celles de la version courante ; les versions précédentes restent
+   * consultables et restaurables.
+   */
+  async regenerate(
+    id: number,
+    utilisateur_id: number,
+    options: SummaryOptions = {}
+  ): Promise<ResumeModel> {
+    try {
+      const actuel = await this.findById(id, utilisateur_id);
+      if (!actuel.texte_source) {
+        throw new AppError('Le texte source de ce résumé n\'est plus conservé', 410);
+      }
+
+      // La longueur et son unité vont de pair : l'une sans l'autre garde l'unité par défaut
+      const longueurDemandee = options.longueur !== undefined
+        || options.unite_longueur !== undefined;
+      const resultat = await this.generateSummary(actuel.texte_source, actuel.langue, {
+        ...options,
+        style: options.style || actuel.style,
+        longueur: longueurDemandee ? options.longueur : actuel.longueur,
+        unite_longueur: longueurDemandee ? options.unite_longueur : actuel.unite_longueur,
+        sansCache: true
+      });
+      const { resume, moteur, modele, format } = resultat;
+
+      const result = await db.query<ResumeModel>(
+        `WITH version AS (
+          INSERT INTO resume_versions
+          (resume_id, numero, resume, moteur, modele, style, longueur, unite_longueur,
+            taux_compression)
+          SELECT $1, COALESCE(MAX(numero), 0) + 1, $3, $4, $5, $6, $7, $8, $9
+          FROM resume_versions WHERE resume_id = $1
+          RETURNING numero
+        )
+        UPDATE resumes r
+        SET resume = $3, moteur = $4, modele = $5, style = $6, longueur = $7,
+          unite_longueur = $8, taux_compression = $9, version = v.numero
+        FROM version v
+        WHERE r.id = $1 AND r.utilisateur_id = $2
+        RETURNING r.*`,
+        [
+          id, utilisateur_id, resume, moteur, modele || null,
+          format.style, format.longueur, format.unite_longueur,
+          summaryUtils.compressionRate(resume, actuel.mots_source)
+        ]
+      );
+
+      if (result.rows.length === 0) {
+        throw new AppError('Résumé non trouvé', 404);
+      }
+
+      logService.info('resume_regenerated', {
+        id,
+        utilisateur_id,
+        version: result.rows[0].version,
+        moteur
+      });
+
+      return result.rows[0];
+    } catch (error) {
+      logService.error('resume_regeneration_error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        id,
+        utilisateur_id
+      });
+      throw error;
+    }
+  },
+
+  /**
+   * Récupérer les versions d'un résumé, de la plus ancienne à la plus récente
+   */
+  async findVersions(id: number, utilisateur_id: number): Promise<ResumeVersionModel[]> {
+    try {
+      const result = await db.query<ResumeVersionModel>(
+        `SELECT v.*
+        FROM resume_versions v
+        JOIN resumes r ON r.id = v.resume_id
+        WHERE v.resume_id = $1 AND r.utilisateur_id = $2
+        ORDER BY v.numero`,
+        [id, utilisateur_id]
+      );
+
+      if (result.rows.length === 0) {
+        throw new AppError('Résumé non trouvé', 404);
+      }
+
+      return result.rows;
+    } catch (error) {
+      logService.error('resume_versions_fetch_error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        id,
+        utilisateur_id
+      });
+      throw error;
+    }
+  },
+
+  /**
+   * Comparer mot à mot deux versions d'un résumé
+   */
+  async diffVersions(
+    id: number,
+    utilisateur_id: number,
+    de: number,
+    vers: number
+  ): Promise<ResumeVersionDiff> {
+    const versions = await this.findVersions(id, utilisateur_id);
+    const avant = versions.find((version) => version.numero === de);
+    const apres = versions.find((version) => version.numero === vers);
+
+    if (!avant || !apres) {
+      throw new AppError('Version non trouvée', 404);
+    }
+
+    return { de, vers, segments: diffWords(avant.resume, apres.resume) };
+  },
+
+  /**
+   * Restaurer une version précédente d'un résumé, qui redevient la version courante
+   * L'historique est conservé tel quel : aucune nouvelle version n'est créée.
+   */
+  async restoreVersion(id: number, utilisateur_id: number, numero: number): Promise<ResumeModel> {
+    try {
+      const actuel = await this.findById(id, utilisateur_id);
+      if (actuel.version === numero) {
+        return actuel;
+      }
+
+      const result = await db.query<ResumeModel>(
+        `UPDATE resumes r
+        SET resume = v.resume, moteur = v.moteur, modele = v.modele, style = v.style,
+          longueur = v.longueur, unite_longueur = v.unite_longueur,
+          taux_compression = v.taux_compression, version = v.numero
+        FROM resume_versions v
+        WHERE r.id = $1 AND r.utilisateur_id = $2 AND v.resume_id = r.id AND v.numero = $3
+        RETURNING r.*`,
+        [id, utilisateur_id, numero]
+      );
+
+      if (result.rows.length === 0) {
+        throw new AppError('Version non trouvée', 404);
+      }
+
+      logService.info('resume_version_restored', {
+        id,
+        utilisateur_id,
+        version: numero
+      });
+
+      return result.rows[0];
+    } catch (error) {
+      logService.error('resume_version_restore_error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        id,
+        utilisateur_id,
+        version: numero
+      });
+      throw error;
+    }
+  },
+
   /**
    * Supprimer un résumé
    */
@@ -253,29 +1189,98 @@ export const resumeService = {
   },
 
   /**
-   * Générer un résumé avec OpenAI
+   * Supprimer les textes sources conservés au-delà de la durée configurée
+   * Les métadonnées (titre, nombre de mots...) restent attachées au résumé.
    */
-  async generateSummary(text: string, langue: SupportedLanguage): Promise<string> {
-
+  async purgeSourceTexts(): Promise<number> {
     try {
-      const prompt = langue === 'fr'
-        ? `Résume le texte suivant en français en ${config.LONGUEUR_MAX_RESUME} mots maximum :\n\n${text}`
-        : `Summarize the following text in English in ${config.LONGUEUR_MAX_RESUME} words or less:\n\n${text}`;
-
-      const completion = await openai.chat.completions.create({
-        model: config.MODELE_GPT,
-        messages: [{ role: 'user', content: prompt }],
-        max_tokens: config.LONGUEUR_MAX_RESUME * 2,
-        temperature: 0.7
-      });
+      const result = await db.query(
+        'DELETE FROM sources_resume WHERE cree_le < NOW() - ($1 * INTERVAL \'1 day\')',
+        [config.SOURCES_RETENTION_JOURS]
+      );
 
-      return completion.choices[0].message.content || '';
+      logService.info('source_texts_purged', { count: result.rowCount || 0 });
+      return result.rowCount || 0;
     } catch (error) {
-      logService.error('openai_error', {
+      logService.error('source_texts_purge_error', {
         error: error instanceof Error ? error.message : 'Unknown error'
       });
-      throw new AppError('Erreur lors de la génération du résumé', 500);
+      throw error;
+    }
+  },
+
+  /**
+   * Générer un résumé avec le fournisseur configuré
+   * En mode `extractif`, ou en repli lorsque le fournisseur échoue, le résumé
+   * est produit par le moteur extractif intégré. Le moteur effectivement
+   * utilisé et le format appliqué sont retournés avec le résumé.
+   * `onToken` reçoit le résumé final au fil de sa génération (le résumé de
+   * repli est seulement retourné) et `signal` permet d'interrompre la
+   * génération. Les résumés déjà produits pour le même texte et les mêmes
+   * paramètres sont servis depuis le cache, sauf avec `sansCache`.
+   * `fournisseur` et `modele` remplacent ceux de la configuration.
+   */
+  async generateSummary(
+    text: string,
+    langue: SupportedLanguage,
+    options: SummaryOptions = {}
+  ): Promise<SummaryResult> {
+    const format = summaryUtils.resolveFormat(options);
+    const provider = options.mode === 'extractif'
+      ? getSummarizationProvider('extractif')
+      : getSummarizationProvider(options.fournisseur, options.modele);
+
+    // Un même texte résumé avec les mêmes paramètres est servi depuis le cache
+    const cle = summaryUtils.cacheKey(text, langue, format, provider);
+    const enCache = options.sansCache ? null : await summaryUtils.readCache(cle);
+    if (enCache) {
+      logService.info('summary_cache_hit', { fournisseur: provider.nom });
+      options.onToken?.(enCache.resume);
+      return { ...enCache, cache: true };
     }
+
+    try {
+      const resume = await summaryUtils.run(provider, text, langue, format, options);
+      const resultat = { resume, moteur: provider.nom, modele: provider.modele, format };
+      await summaryUtils.writeCache(cle, resultat);
+      return { ...resultat, cache: false };
+    } catch (error) {
+      // Génération abandonnée par le client : ni repli ni enregistrement
+      if (options.signal?.aborted) {
+        logService.info('summarization_aborted', { fournisseur: provider.nom });
+        throw new AppError('Génération du résumé annulée', 499);
+      }
+
+      logService.error('summarization_provider_error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        fournisseur: provider.nom,
+        modele: provider.modele
+      });
+    }
+
+    if (provider.nom !== 'extractif' && config.RESUME_REPLI_EXTRACTIF) {
+      const repli = getSummarizationProvider('extractif');
+      try {
+        // Sans `onToken` : le client a pu recevoir une partie du résumé du
+        // fournisseur, le résumé de repli ne lui parvient qu'une fois terminé
+        const resume = await summaryUtils.run(repli, text, langue, format, {
+          ...options,
+          onToken: undefined
+        });
+        logService.warn('summarization_fallback', {
+          fournisseur: provider.nom,
+          repli: repli.nom
+        });
+        // Le repli n'est pas mis en cache : le fournisseur sera de nouveau sollicité
+        return { resume, moteur: repli.nom, modele: repli.modele, format, cache: false };
+      } catch (error) {
+        logService.error('summarization_fallback_error', {
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    }
+
+    throw new AppError('Erreur lors de la génération du résumé', 500);
   },
 
   /**
@@ -0,0 +1,149 @@
+import OpenAI from 'openai';
+import {
+  AppError,
+  SummaryStyle,
+  SummarizationProvider,
+  SummarizationProviderName,
+  SummarizationRequest
+} from '../types';
+import config from '../config/config';
+import { extractSentences } from '../utils/extractive';
+
+// Styles rendus sous forme de liste par le fournisseur extractif
+const STYLES_LISTE: SummaryStyle[] = ['puces', 'points_cles', 'plan'];
+
+/**
+ * Fournisseur utilisant une API compatible OpenAI (OpenAI, Ollama, llama.cpp...)
+ */
+export const createOpenAICompatibleProvider = (options: {
+  nom: 'openai' | 'local';
+  modele: string;
+  contexteTokens: number;
+  apiKey: string;
+  baseURL?: string;
+}): SummarizationProvider => {
+  const client = new OpenAI({
+    apiKey: options.apiKey,
+    baseURL: options.baseURL
+  });
+
+  return {
+    nom: options.nom,
+    modele: options.modele,
+    contexteTokens: options.contexteTokens,
+
+    async summarize(request: SummarizationRequest): Promise<string> {
+      const parametres = {
+        model: options.modele,
+        messages: [{ role: 'user' as const, content: request.prompt }],
+        max_tokens: request.mots * 2,
+        temperature: 0.7
+      };
+
+      if (!request.onToken) {
+        const completion = await client.chat.completions.create(parametres, { signal: request.signal });
+        return completion.choices[0].message.content || '';
+      }
+
+      // Diffusion des fragments au fil de la génération
+      const flux = await client.chat.completions.create(
+        { ...parametres, stream: true },
+        { signal: request.signal }
+      );
+
+      let texte = '';
+      for await (const morceau of flux) {
+        const fragment = morceau.choices[0]?.delta?.content || '';
+        if (fragment) {
+          texte += fragment;
+          request.onToken(fragment);
+        }
+      }
+
+      return texte;
+    }
+  };
+};
+
+/**
+ * Fournisseur extractif intégré : aucun appel réseau, résultat déterministe
+ */
+export const createExtractiveProvider = (): SummarizationProvider => ({
+  nom: 'extractif',
+  modele: 'textrank',
+  // Le classement est quadratique en nombre de phrases : les très longs
+  // documents passent par le découpage en segments
+  contexteTokens: config.EXTRACTIF_TOKENS_PAR_SEGMENT,
+
+  summarize(request: SummarizationRequest): Promise<string> {
+    const phrases = extractSentences(request.texte, {
+      maxWords: request.mots,
+      maxSentences: request.phrases,
+      langue: request.langue
+    });
+
+    const resume = request.style && STYLES_LISTE.includes(request.style)
+      ? phrases.map((phrase) => `- ${phrase}`).join('\n')
+      : phrases.join(' ');
+
+    // Le résumé extractif est calculé d'un bloc : il est diffusé en un seul fragment
+    request.onToken?.(resume);
+
+    return Promise.resolve(resume);
+  }
+});
+
+// Fournisseurs déjà instanciés, par nom et modèle
+const providers = new Map<string, SummarizationProvider>();
+
+/**
+ * Instancier un fournisseur à partir de la configuration
+ * `modele` remplace le modèle configuré des fournisseurs compatibles OpenAI.
+ */
+const createProvider = (nom: SummarizationProviderName, modele?: string): SummarizationProvider => {
+  switch (nom) {
+    case 'openai':
+      return createOpenAICompatibleProvider({
+        nom: 'openai',
+        modele: modele || config.MODELE_GPT,
+        contexteTokens: config.RESUME_TOKENS_PAR_SEGMENT,
+        apiKey: config.OPENAI_API_KEY
+      });
+    case 'local':
+      return createOpenAICompatibleProvider({
+        nom: 'local',
+        modele: modele || config.LOCAL_LLM_MODELE,
+        contexteTokens: config.LOCAL_LLM_TOKENS_PAR_SEGMENT,
+        // Les serveurs locaux ignorent généralement la clé, mais le client en exige une
+        apiKey: config.LOCAL_LLM_API_KEY || 'local',
+        baseURL: config.LOCAL_LLM_URL
+      });
+    case 'extractif':
+      return createExtractiveProvider();
+    default:
+      throw new AppError(`Fournisseur de résumé inconnu : ${String(nom)}`, 500);
+  }
+};
+
+/**
+ * Récupérer le fournisseur de résumé (par défaut celui de la configuration),
+ * éventuellement avec un autre modèle que celui configuré
+ */
+export const getSummarizationProvider = (
+  nom: SummarizationProviderName = config.RESUME_FOURNISSEUR,
+  modele?: string
+): SummarizationProvider => {
+  const cle = `${nom}:${modele || ''}`;
+  let provider = providers.get(cle);
+  if (!provider) {
+    provider = createProvider(nom, modele);
+    providers.set(cle, provider);
+  }
+  return provider;
+};
+
+export default {
+  createOpenAICompatibleProvider,
+  createExtractiveProvider,
+  getSummarizationProvider
+};
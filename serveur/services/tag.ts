@@ -0,0 +1,201 @@
+import { AppError, ResumeModel, ResumeTag, TagCount, TagType } from '../types';
+import { logService } from './common';
+import db from '../utils/db';
+import config from '../config/config';
+import {
+  detectTheme,
+  extractEntities,
+  scoreKeywords,
+  termFrequencies,
+  topTerms
+} from '../utils/tagging';
+
+/**
+ * Service d'étiquetage des résumés
+ */
+export const tagService = {
+  /**
+   * Étiqueter un résumé à partir du texte de son document
+   * Les mots-clés sont pondérés par TF-IDF sur l'ensemble des documents résumés
+   * par l'utilisateur, dont les termes sont enregistrés ici avec le résumé.
+   * Les entités nommées et le thème sont extraits du seul document, dans la
+   * langue détectée de la source. Une erreur d'étiquetage n'empêche pas
+   * d'enregistrer le résumé : aucune étiquette n'est alors retournée.
+   */
+  async tagResume(resume: ResumeModel, texte: string): Promise<ResumeTag[]> {
+    try {
+      const langue = resume.langue_source || resume.langue;
+      const frequences = termFrequencies(texte, langue);
+
+      // Documents comptés parmi les résumés existants, ce document compris
+      const corpus = await db.query<{ terme: string; documents: number; corpus: number }>(
+        `WITH ajout AS (
+          INSERT INTO termes_resume (resume_id, terme)
+          SELECT $1, terme FROM unnest($2::text[]) AS terme
+          ON CONFLICT DO NOTHING
+        )
+        SELECT candidat.terme,
+          (SELECT COUNT(*) FROM termes_resume t JOIN resumes r ON r.id = t.resume_id
+            WHERE r.utilisateur_id = $3 AND t.terme = candidat.terme AND t.resume_id <> $1)::int
+            + 1 AS documents,
+          (SELECT COUNT(*) FROM resumes WHERE utilisateur_id = $3)::int AS corpus
+        FROM unnest($4::text[]) AS candidat (terme)`,
+        [resume.id, [...frequences.keys()], resume.utilisateur_id, topTerms(frequences)]
+      );
+
+      const tags = [
+        ...scoreKeywords(frequences, {
+          documents: corpus.rows[0]?.corpus || 1,
+          frequences: new Map(corpus.rows.map((ligne) => [ligne.terme, ligne.documents]))
+        }, config.TAGS_MOTS_CLES_MAX),
+        ...extractEntities(texte, langue, config.TAGS_ENTITES_MAX)
+      ];
+      const theme = detectTheme(frequences, langue);
+      if (theme) {
+        tags.push(theme);
+      }
+
+      if (tags.length > 0) {
+        await db.query(
+          `INSERT INTO tags_resume (resume_id, libelle, type, score)
+          SELECT $1, libelle, type, score
+          FROM unnest($2::text[], $3::text[], $4::real[]) AS tag (libelle, type, score)
+          ON CONFLICT DO NOTHING`,
+          [
+            resume.id,
+            tags.map((tag) => tag.libelle),
+            tags.map((tag) => tag.type),
+            tags.map((tag) => tag.score)
+          ]
+        );
+      }
+
+      return tags;
+    } catch (error) {
+      logService.warn('resume_tagging_error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        id: resume.id
+      });
+      return [];
+    }
+  },
+
+  /**
+   * Ajouter des étiquettes de l'utilisateur à l'un de ses résumés
+   * Les libellés sont nettoyés de leurs espaces superflus ; une étiquette que
+   * le résumé porte déjà est ignorée. Retourne les étiquettes ajoutées.
+   */
+  async addUserTags(
+    id: number,
+    utilisateur_id: number,
+    libelles: string[]
+  ): Promise<ResumeTag[]> {
+    try {
+      const resume = await db.query(
+        'SELECT id FROM resumes WHERE id = $1 AND utilisateur_id = $2',
+        [id, utilisateur_id]
+      );
+      if (resume.rows.length === 0) {
+        throw new AppError('Résumé non trouvé', 404);
+      }
+
+      // Une seule étiquette par libellé quelle que soit la casse (la première écriture est gardée)
+      const parCle = new Map<string, string>();
+      for (const libelle of libelles.map((l) => l.trim().replace(/\s+/g, ' '))) {
+        if (libelle.length > 0 && !parCle.has(libelle.toLowerCase())) {
+          parCle.set(libelle.toLowerCase(), libelle);
+        }
+      }
+      const nettoyes = [...parCle.values()];
+
+      const result = await db.query<ResumeTag>(
+        `INSERT INTO tags_resume (resume_id, libelle, type)
+        SELECT $1, libelle, 'utilisateur' FROM unnest($2::text[]) AS libelle
+        ON CONFLICT DO NOTHING
+        RETURNING libelle, type, score`,
+        [id, nettoyes]
+      );
+
+      logService.info('user_tags_added', {
+        id,
+        utilisateur_id,
+        count: result.rows.length
+      });
+
+      return result.rows;
+    } catch (error) {
+      logService.error('user_tags_add_error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        id,
+        utilisateur_id
+      });
+      throw error;
+    }
+  },
+
+  /**
+   * Retirer une étiquette de l'utilisateur de l'un de ses résumés (sans tenir
+   * compte de la casse) ; les étiquettes extraites du document ne peuvent pas
+   * être retirées
+   */
+  async removeUserTag(id: number, utilisateur_id: number, libelle: string): Promise<void> {
+    try {
+      const result = await db.query(
+        `DELETE FROM tags_resume t
+        USING resumes r
+        WHERE r.id = t.resume_id
+          AND t.resume_id = $1
+          AND r.utilisateur_id = $2
+          AND t.type = 'utilisateur'
+          AND LOWER(t.libelle) = LOWER($3)
+        RETURNING t.libelle`,
+        [id, utilisateur_id, libelle.trim()]
+      );
+
+      if (result.rows.length === 0) {
+        throw new AppError('Étiquette non trouvée', 404);
+      }
+
+      logService.info('user_tag_removed', {
+        id,
+        utilisateur_id
+      });
+    } catch (error) {
+      logService.error('user_tag_remove_error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        id,
+        utilisateur_id
+      });
+      throw error;
+    }
+  },
+
+  /**
+   * Nuage d'étiquettes d'un utilisateur : ses étiquettes les plus fréquentes
+   * et le nombre de résumés qui portent chacune
+   */
+  async findCloud(utilisateur_id: number, type?: TagType): Promise<TagCount[]> {
+    try {
+      const result = await db.query<TagCount>(
+        `SELECT t.libelle, t.type, COUNT(*)::int AS resumes
+        FROM tags_resume t
+        JOIN resumes r ON r.id = t.resume_id
+        WHERE r.utilisateur_id = $1 AND ($2::text IS NULL OR t.type = $2)
+        GROUP BY t.libelle, t.type
+        ORDER BY resumes DESC, t.libelle
+        LIMIT $3`,
+        [utilisateur_id, type || null, config.TAGS_NUAGE_MAX]
+      );
+
+      return result.rows;
+    } catch (error) {
+      logService.error('tag_cloud_fetch_error', {
+        error: error instanceof Error ? error.message : 'Unknown error',
+        utilisateur_id
+      });
+      throw error;
+    }
+  }
+};
+
+export default tagService;
@@ -1,3 +1,5 @@
+import type { LANGUES } from '../config/langues';
+
 // Types d'erreurs personnalisées
 export class AppError extends Error {
   constructor(
@@ -50,6 +52,9 @@ export interface UserModel extends BaseModel {
   identifiant: string;
   mot_de_passe_hash: string;
   code_pin_hash: string;
+  sel_coffre?: string | null;
+  // Langue des résumés lorsqu'aucune n'est demandée
+  langue: SupportedLanguage;
   est_verifie: boolean;
   role: 'utilisateur' | 'admin';
 }
@@ -72,10 +77,293 @@ export interface SessionModel extends BaseModel {
 
 export interface ResumeModel extends BaseModel {
   utilisateur_id: number;
-  type: 'article' | 'texte' | 'pdf' | 'youtube';
+  type: 'article' | 'texte' | 'youtube' | DocumentFormat;
   resume: string;
   source_url?: string;
   langue: SupportedLanguage;
+  moteur: SummarizationProviderName;
+  style: SummaryStyle;
+  longueur: number;
+  unite_longueur: SummaryLengthUnit;
+  // Modèle du fournisseur ayant produit le résumé
+  modele: string | null;
+  // Métadonnées du document source
+  titre: string | null;
+  auteur: string | null;
+  mots_source: number | null;
+  pages_source: number | null;
+  // Temps de lecture estimé du document source, en minutes
+  temps_lecture: number | null;
+  // Nombre de mots du résumé rapporté à celui du document source
+  taux_compression: number | null;
+  // Chapitres horodatés d'une vidéo, si demandés
+  chapitres: YoutubeChapter[] | null;
+  // Piste de sous-titres résumée (vidéos YouTube)
+  sous_titres: CaptionTrack | null;
+  // Langue détectée du document source et confiance de la détection
+  langue_source: SupportedLanguage | null;
+  langue_source_confiance: number | null;
+  // Numéro de la version courante (voir `ResumeVersionModel`)
+  version: number;
+  // Étiquettes extraites du document (mots-clés, entités, thème) et
+  // étiquettes ajoutées par l'utilisateur
+  tags?: ResumeTag[];
+  // Texte extrait du document, retourné par `findById` tant qu'il est conservé
+  texte_source?: string | null;
+  // Indiqué dans la réponse uniquement (non enregistré)
+  cache?: boolean;
+}
+
+// Version d'un résumé, conservée à chaque régénération
+export interface ResumeVersionModel {
+  id: number;
+  resume_id: number;
+  numero: number;
+  resume: string;
+  moteur: SummarizationProviderName;
+  modele: string | null;
+  style: SummaryStyle;
+  longueur: number;
+  unite_longueur: SummaryLengthUnit;
+  taux_compression: number | null;
+  cree_le: Date;
+}
+
+// Portion d'un texte comparé : inchangée, ajoutée ou supprimée
+export interface DiffSegment {
+  type: 'egal' | 'ajout' | 'suppression';
+  texte: string;
+}
+
+// Différences entre deux versions d'un résumé
+export interface ResumeVersionDiff {
+  de: number;
+  vers: number;
+  segments: DiffSegment[];
+}
+
+// Passage du document source cité dans une réponse
+export interface QuestionCitation {
+  // Numéro du passage dans la réponse, ex. [2]
+  numero: number;
+  // Position du passage dans le document (à partir de 1)
+  position: number;
+  texte: string;
+}
+
+// Question posée sur un document résumé et sa réponse
+export interface ResumeQuestionModel {
+  id: number;
+  resume_id: number;
+  question: string;
+  reponse: string;
+  citations: QuestionCitation[];
+  // Faux lorsque aucun passage du document ne se rapporte à la question
+  repondu: boolean;
+  moteur: SummarizationProviderName | null;
+  modele: string | null;
+  cree_le: Date;
+}
+
+// Thèmes attribués automatiquement aux résumés
+export type Theme =
+  | 'politique'
+  | 'economie'
+  | 'sciences'
+  | 'technologie'
+  | 'sante'
+  | 'sport'
+  | 'culture'
+  | 'environnement';
+
+// Nature d'une étiquette : mot-clé, entité nommée, thème, ou étiquette
+// ajoutée par l'utilisateur
+export type TagType = 'mot_cle' | 'personne' | 'organisation' | 'lieu' | 'theme' | 'utilisateur';
+
+// Étiquette d'un résumé, extraite de son document ou ajoutée par l'utilisateur
+export interface ResumeTag {
+  libelle: string;
+  type: TagType;
+  // Pertinence de l'étiquette pour ce résumé (TF-IDF, occurrences...) ;
+  // nulle pour les étiquettes de l'utilisateur
+  score: number | null;
+}
+
+// Étiquette du nuage d'un utilisateur et nombre de résumés qui la portent
+export interface TagCount {
+  libelle: string;
+  type: TagType;
+  resumes: number;
+}
+
+// Résumé trouvé par la recherche plein texte
+export interface ResumeSearchResult {
+  id: number;
+  type: ResumeModel['type'];
+  titre: string | null;
+  source_url?: string;
+  langue: SupportedLanguage;
+  cree_le: Date;
+  // Pertinence du résumé pour la requête
+  rang: number;
+  // Titre et passages du résumé où les termes trouvés sont entourés de <mark>
+  // (texte échappé pour l'HTML)
+  titre_surligne: string | null;
+  extrait: string;
+}
+
+// Page de résultats d'une requête paginée
+export interface PaginatedResult<T> {
+  rows: T[];
+  total: number;
+  pages: number;
+}
+
+// Ordre et condition de départ d'une requête paginée (`db.queryWithPagination`)
+export interface PaginationOptions {
+  // Clause ORDER BY, sur les colonnes de la requête
+  tri?: string;
+  // Condition de départ d'une pagination par curseur ; ses paramètres suivent
+  // ceux de la requête
+  apres?: { condition: string; params: unknown[] };
+}
+
+// Filtre d'une liste, passé dans la chaîne de requête
+export interface ListFilter {
+  // Texte (parmi `valeurs` si elles sont données), entier, booléen ou date ISO 8601
+  nature: 'texte' | 'entier' | 'booleen' | 'date';
+  valeurs?: readonly string[];
+  // Condition SQL où `{nom}` désigne la valeur du filtre `nom` (nulle s'il est
+  // absent) ; un filtre sans condition ne sert qu'aux conditions des autres
+  condition?: string;
+}
+
+// Tri d'une liste
+export interface ListSort {
+  // Nature de la valeur que le curseur reprend : texte ou date ISO 8601
+  nature: 'texte' | 'date';
+  // Expression SQL du tri ; les dates sont tronquées à la milliseconde et les
+  // textes facultatifs remplacés par '' pour que le curseur les retrouve à l'identique
+  expression: string;
+}
+
+// Tris et filtres acceptés par une liste
+export interface ListDefinition {
+  // Tris, nommés d'après la colonne de la requête où le curseur lit sa valeur
+  tris: Record<string, ListSort>;
+  // Tri par défaut (`-champ` pour un ordre décroissant)
+  triParDefaut: string;
+  filtres: Record<string, ListFilter>;
+}
+
+// Position dans une liste : tri suivi, valeur de ce tri et identifiant de la
+// dernière ligne reçue
+export interface ListCursor {
+  champ: string;
+  ordre: 'asc' | 'desc';
+  valeur: string | number;
+  id: number;
+}
+
+// Requête d'une liste : page ou curseur, tri et filtres
+export interface ListQuery {
+  page: number;
+  limit: number;
+  cursor?: ListCursor;
+  sort: { champ: string; ordre: 'asc' | 'desc' };
+  filtres: Record<string, string | number | boolean>;
+}
+
+// Métadonnées de pagination d'une liste
+export interface PaginationMeta {
+  // Absente en pagination par curseur
+  page?: number;
+  limit: number;
+  total: number;
+  pages: number;
+  curseur_suivant: string | null;
+}
+
+// Collection de résumés nommée par l'utilisateur (ex. un projet)
+export interface CollectionModel extends BaseModel {
+  utilisateur_id: number;
+  nom: string;
+  description: string | null;
+  // Nombre de résumés de la collection
+  nombre_resumes?: number;
+}
+
+// Formats d'export d'une collection
+export type CollectionExportFormat = 'markdown' | 'json';
+
+// Fichier produit par l'export d'une collection
+export interface CollectionExport {
+  nomFichier: string;
+  typeContenu: string;
+  contenu: string;
+}
+
+// Statut d'une tâche de résumé asynchrone
+export type SummaryJobStatus = 'en_attente' | 'en_cours' | 'termine' | 'echec';
+
+// Paramètres nécessaires pour rejouer une demande de résumé
+export interface SummaryJobParams extends Partial<SummaryFormat> {
+  langue: SupportedLanguage;
+  mode?: SummaryMode;
+  url?: string;
+  texte?: string;
+  videoUrl?: string;
+  // Nom du fichier envoyé, utilisé pour reconnaître son format
+  nomFichier?: string;
+  chapitres?: ChapterSegmentation;
+}
+
+export interface SummaryJobModel extends BaseModel {
+  utilisateur_id: number;
+  type: ResumeModel['type'];
+  statut: SummaryJobStatus;
+  parametres: SummaryJobParams;
+  fichier?: Buffer | null;
+  progression: SummaryProgress | null;
+  tentatives: number;
+  erreur: string | null;
+  resume_id: number | null;
+  disponible_le: Date;
+  demarre_le: Date | null;
+  termine_le: Date | null;
+  resume?: ResumeModel | null;
+}
+
+// Paramètres de résumé appliqués aux entrées d'un flux
+export interface FeedSummaryParams extends Partial<SummaryFormat> {
+  langue: SupportedLanguage;
+  mode?: SummaryMode;
+}
+
+export interface FeedSubscriptionModel extends BaseModel {
+  utilisateur_id: number;
+  url: string;
+  titre: string | null;
+  parametres: FeedSummaryParams;
+  // Validateurs de la dernière réponse, pour les requêtes conditionnelles
+  etag: string | null;
+  derniere_modification: string | null;
+  verifie_le: Date | null;
+  prochaine_verification: Date;
+  // Erreur du dernier relevé
+  erreur: string | null;
+}
+
+export interface FeedEntryModel {
+  id: number;
+  abonnement_id: number;
+  guid: string;
+  titre: string | null;
+  lien: string | null;
+  publie_le: Date | null;
+  resume_id: number | null;
+  erreur: string | null;
+  cree_le: Date;
 }
 
 export interface PasswordModel extends BaseModel {
@@ -86,6 +374,9 @@ export interface PasswordModel extends BaseModel {
   notes?: string;
 }
 
+// Mot de passe tel qu'il est retourné au client, sans le secret chiffré
+export type PasswordEntry = Omit<PasswordModel, 'mot_de_passe_crypte'>;
+
 export interface NoteModel extends BaseModel {
   utilisateur_id: number;
   titre: string;
@@ -117,8 +408,304 @@ export interface UserInfo {
   };
 }
 
-// Types pour les langues supportées
-export type SupportedLanguage = 'fr' | 'en';
+// Types pour la progression d'un résumé découpé en segments
+export interface SummaryProgress {
+  etape: 'segments' | 'fusion' | 'chapitres';
+  termine: number;
+  total: number;
+}
+
+// Types pour les options de génération d'un résumé
+export type SummaryMode = 'abstractif' | 'extractif';
+
+export type SummaryStyle = 'paragraphe' | 'puces' | 'tldr' | 'synthese' | 'points_cles' | 'plan';
+
+export type SummaryLengthUnit = 'mots' | 'phrases';
+
+export interface SummaryFormat {
+  style: SummaryStyle;
+  longueur: number;
+  unite_longueur: SummaryLengthUnit;
+}
+
+export interface SummaryOptions extends Partial<SummaryFormat> {
+  mode?: SummaryMode;
+  onProgress?: (progress: SummaryProgress) => void;
+  // Reçoit les fragments du résumé final au fil de leur génération
+  onToken?: (fragment: string) => void;
+  // Interrompt la génération (ex. déconnexion du client)
+  signal?: AbortSignal;
+  // Fournisseur et modèle à utiliser à la place de ceux de la configuration
+  fournisseur?: SummarizationProviderName;
+  modele?: string;
+  // Ignorer le cache (ex. régénération d'un résumé)
+  sansCache?: boolean;
+}
+
+export interface SummaryResult {
+  resume: string;
+  moteur: SummarizationProviderName;
+  modele: string;
+  format: SummaryFormat;
+  // Résumé servi depuis le cache, sans appel au fournisseur
+  cache: boolean;
+}
+
+// Document source d'un résumé et ses métadonnées
+export interface SummarySource {
+  texte: string;
+  url?: string;
+  titre?: string | null;
+  auteur?: string | null;
+  pages?: number | null;
+  sous_titres?: CaptionTrack | null;
+}
+
+// Types pour le résumé par lot
+export interface SummaryBatchItem {
+  type: 'article' | 'youtube' | 'texte';
+  // Adresse de l'article ou de la vidéo
+  url?: string;
+  texte?: string;
+}
+
+export interface SummaryBatchOptions extends SummaryOptions {
+  // Produire en plus une synthèse commune à tous les éléments résumés
+  synthese?: boolean;
+}
+
+export interface SummaryBatchItemResult {
+  // Position de l'élément dans la demande
+  index: number;
+  type: SummaryBatchItem['type'];
+  statut: 'succes' | 'echec';
+  resume?: ResumeModel;
+  erreur?: {
+    message: string;
+    status: number;
+  };
+}
+
+export interface SummaryBatchResult {
+  resultats: SummaryBatchItemResult[];
+  reussis: number;
+  echecs: number;
+  // Synthèse des résumés obtenus (non enregistrée), si demandée
+  synthese: SummaryResult | null;
+}
+
+// Types pour la récupération des ressources distantes
+export interface SafeFetchOptions {
+  signal?: AbortSignal;
+  delaiMs?: number;
+  // Taille maximale du contenu décompressé, en octets
+  tailleMax?: number;
+  // Types MIME acceptés (tous si absent)
+  typesAcceptes?: string[];
+  // En-têtes ajoutés à la requête (ex. requête conditionnelle `If-None-Match`)
+  entetes?: Record<string, string>;
+}
+
+export interface SafeFetchResponse {
+  // Adresse finale, après redirections
+  url: string;
+  statut: number;
+  typeContenu: string;
+  charset: string | null;
+  // Validateurs de cache pour une requête conditionnelle ultérieure
+  etag: string | null;
+  derniereModification: string | null;
+  // Vide pour une réponse `304 Not Modified`
+  corps: Buffer;
+}
+
+// Types pour l'extraction du contenu principal d'une page web
+export interface ExtractedArticle {
+  titre: string | null;
+  auteur: string | null;
+  // Date ISO 8601
+  date_publication: string | null;
+  url_canonique: string | null;
+  // Titres et paragraphes séparés par une ligne vide
+  texte: string;
+}
+
+// Types pour les sous-titres et les chapitres des vidéos YouTube
+export interface CaptionTrack {
+  // Code de langue (ex. `fr`, `en`, `pt-BR`)
+  langue: string;
+  nom: string | null;
+  // Sous-titres générés par reconnaissance vocale
+  automatique: boolean;
+}
+
+export interface TranscriptCaption {
+  // Début et durée en secondes
+  debut: number;
+  duree: number;
+  texte: string;
+}
+
+export interface TranscriptSegment {
+  debut: number;
+  fin: number;
+  texte: string;
+}
+
+// Découpage en fenêtres de durée fixe ou aux changements de sujet
+export type ChapterSegmentation = 'duree' | 'sujet';
+
+export interface YoutubeChapter {
+  // Début et fin en secondes
+  debut: number;
+  fin: number;
+  // Début au format hh:mm:ss
+  horodatage: string;
+  // Lien vers la vidéo à partir du début du chapitre
+  lien: string;
+  resume: string;
+}
+
+export interface YoutubeSummaryOptions extends SummaryOptions {
+  chapitres?: ChapterSegmentation;
+}
+
+// Types pour l'extraction du texte des fichiers envoyés
+export type DocumentFormat = 'pdf' | 'docx' | 'epub' | 'html' | 'markdown' | 'txt';
+
+export interface ExtractedDocument {
+  format: DocumentFormat;
+  texte: string;
+  titre: string | null;
+  auteur: string | null;
+  pages: number | null;
+}
+
+// Archive ZIP (conteneur des fichiers DOCX et EPUB)
+export interface ZipArchive {
+  entrees: string[];
+  has(nom: string): boolean;
+  // Contenu décompressé d'une entrée (erreur si elle est absente)
+  read(nom: string): Buffer;
+  readText(nom: string): string;
+}
+
+// Types pour les flux RSS et Atom
+export interface FeedItem {
+  // Identifiant stable de l'entrée (guid RSS, id Atom, à défaut le lien)
+  guid: string;
+  titre: string | null;
+  lien: string | null;
+  // Date ISO 8601
+  publie_le: string | null;
+}
+
+export interface ParsedFeed {
+  format: 'rss' | 'atom';
+  titre: string | null;
+  entrees: FeedItem[];
+}
+
+// Types pour les fournisseurs de résumé
+export type SummarizationProviderName = 'openai' | 'local' | 'extractif';
+
+export interface SummarizationRequest {
+  texte: string;
+  prompt: string;
+  langue: SupportedLanguage;
+  mots: number;
+  phrases?: number;
+  style?: SummaryStyle;
+  onToken?: (fragment: string) => void;
+  signal?: AbortSignal;
+}
+
+// Pertinence d'un passage pour une question (`index` dans la liste des passages)
+export interface PassageScore {
+  index: number;
+  score: number;
+}
+
+export interface SummarizationProvider {
+  nom: SummarizationProviderName;
+  modele: string;
+  contexteTokens: number;
+  summarize(request: SummarizationRequest): Promise<string>;
+}
+
+// Types pour les langues supportées (clés du registre `config/langues`)
+export type SupportedLanguage = keyof typeof LANGUES;
+
+// Formulations des prompts de résumé dans une langue
+export interface LanguagePrompts {
+  // Longueur cible, ex. « en 120 mots maximum »
+  mots(mots: number): string;
+  phrases(phrases: number): string;
+  // Consignes précédant le texte à résumer (le texte est ajouté à la suite)
+  resume(longueur: string): string;
+  segment(index: number, total: number, longueur: string): string;
+  fusion(longueur: string): string;
+  // Libellé des résumés partiels lors d'une fusion, ex. « [Partie 2] »
+  partie: string;
+  // Consigne de mise en forme propre à chaque style de résumé
+  styles: Record<SummaryStyle, string>;
+  // Questions sur un document résumé : consigne, libellés de la conversation
+  // et réponse lorsque aucun passage du document n'est pertinent
+  questions: {
+    consigne: string;
+    historique: string;
+    question: string;
+    reponse: string;
+    sansReponse: string;
+  };
+}
+
+export type ErrorMessageKey =
+  | 'erreurServeur'
+  | 'erreurValidation'
+  | 'erreurAuthentification'
+  | 'erreurAutorisation'
+  | 'erreurNonTrouve'
+  | 'emailInvalide'
+  | 'motDePasseInvalide'
+  | 'emailDejaUtilise'
+  | 'emailNonVerifie'
+  | 'tokenInvalide'
+  | 'tokenExpire'
+  | 'pinIncorrect';
+
+export interface LanguageDefinition {
+  // Nom de la langue dans cette langue
+  nom: string;
+  // Locale utilisée pour formater les dates
+  locale: string;
+  // Code des pistes de sous-titres YouTube
+  sousTitres: string;
+  prompts: LanguagePrompts;
+  messages: Record<ErrorMessageKey, string>;
+  // Texte représentatif de la langue, dont est tiré son profil de n-grammes
+  // pour la détection de la langue des sources
+  echantillon: string;
+  // Découpage en phrases et comparaison des phrases du moteur extractif
+  abreviations: string[];
+  motsVides: string[];
+  // Indices de la nature des noms propres : titres précédant un nom de
+  // personne, mots propres aux noms d'organisations, prépositions de lieu
+  entites: {
+    titres: string[];
+    organisations: string[];
+    lieux: string[];
+  };
+  // Débuts de mots caractéristiques de chaque thème
+  themes: Record<Theme, string[]>;
+}
+
+// Langue détectée dans un texte source
+export interface LanguageDetection {
+  langue: SupportedLanguage;
+  // Entre 0 (langue incertaine) et 1
+  confiance: number;
+}
 
 // Types pour les validations
 export interface ValidationRule {
@@ -180,6 +767,17 @@ export interface CacheEntry<T> {
   expires: Date;
 }
 
+export type CacheBackendName = 'memoire' | 'postgres';
+
+export interface CacheStore<T> {
+  nom: CacheBackendName;
+  get(cle: string): Promise<T | null>;
+  set(cle: string, valeur: T, ttlSecondes: number): Promise<void>;
+  delete(cle: string): Promise<void>;
+  // Supprimer les entrées expirées, retourne le nombre d'entrées supprimées
+  purge(): Promise<number>;
+}
+
 // Types pour les tâches planifiées
 export interface ScheduledTask {
   id: string;
@@ -0,0 +1,107 @@
+// Approximation du nombre de caractères par token pour les langues latines
+const CARACTERES_PAR_TOKEN = 4;
+
+/**
+ * Estime le nombre de tokens d'un texte
+ */
+export const estimateTokens = (text: string): number => {
+  return Math.ceil(text.length / CARACTERES_PAR_TOKEN);
+};
+
+/**
+ * Découpe un texte en phrases (ou en paragraphes lorsqu'il n'y a pas de ponctuation)
+ */
+export const splitSentences = (text: string): string[] => {
+  return text
+    .split(/(?<=[.!?…])\s+|\n\s*\n/)
+    .map((phrase) => phrase.replace(/\s+/g, ' ').trim())
+    .filter((phrase) => phrase.length > 0);
+};
+
+/**
+ * Découpe un segment sans ponctuation (ex. transcription YouTube) par groupes de mots
+ */
+const splitByWords = (segment: string, maxTokens: number): string[] => {
+  const morceaux: string[] = [];
+  let courant: string[] = [];
+  let tokens = 0;
+
+  for (const mot of segment.split(' ')) {
+    const tokensMot = estimateTokens(`${mot} `);
+    if (courant.length > 0 && tokens + tokensMot > maxTokens) {
+      morceaux.push(courant.join(' '));
+      courant = [];
+      tokens = 0;
+    }
+    courant.push(mot);
+    tokens += tokensMot;
+  }
+
+  if (courant.length > 0) {
+    morceaux.push(courant.join(' '));
+  }
+
+  return morceaux;
+};
+
+/**
+ * Découpe un texte en segments d'au plus `maxTokens` tokens, en respectant les
+ * limites de phrases. Chaque segment reprend la fin du précédent sur environ
+ * `overlapTokens` tokens pour ne pas perdre le contexte entre deux segments.
+ */
+export const splitIntoChunks = (
+  text: string,
+  options: { maxTokens: number; overlapTokens?: number }
+): string[] => {
+  const maxTokens = Math.max(1, options.maxTokens);
+  const overlapTokens = Math.min(Math.max(0, options.overlapTokens || 0), Math.floor(maxTokens / 2));
+
+  // Les phrases trop longues sont redécoupées en morceaux assez petits pour
+  // pouvoir servir de chevauchement
+  const tailleMorceau = overlapTokens > 0 ? overlapTokens : maxTokens;
+  const unites = splitSentences(text).flatMap((phrase) => (
+    estimateTokens(phrase) > tailleMorceau ? splitByWords(phrase, tailleMorceau) : [phrase]
+  ));
+
+  const segments: string[] = [];
+  let courant: string[] = [];
+  let tokens = 0;
+
+  for (const unite of unites) {
+    const tokensUnite = estimateTokens(unite);
+
+    if (courant.length > 0 && tokens + tokensUnite > maxTokens) {
+      segments.push(courant.join(' '));
+
+      // Reprendre les dernières phrases du segment précédent
+      const chevauchement: string[] = [];
+      let tokensChevauchement = 0;
+      for (let i = courant.length - 1; i >= 0; i--) {
+        const tokensPhrase = estimateTokens(courant[i]);
+        if (tokensChevauchement + tokensPhrase > overlapTokens) {
+          break;
+        }
+        chevauchement.unshift(courant[i]);
+        tokensChevauchement += tokensPhrase;
+      }
+
+      courant = chevauchement;
+      tokens = tokensChevauchement;
+    }
+
+    courant.push(unite);
+    tokens += tokensUnite;
+  }
+
+  if (courant.length > 0) {
+    segments.push(courant.join(' '));
+  }
+
+  return segments;
+};
+
+export default {
+  estimateTokens,
+  splitSentences,
+  splitIntoChunks
+};
@@ -1,7 +1,7 @@
 import { Pool, PoolClient, QueryResult, QueryResultRow } from 'pg';
 import config from '../config/config';
 import { logService } from '../services/common';
-import { AppError } from '../types';
+import { AppError, PaginatedResult, PaginationOptions } from '../types';
 
 // Configuration du pool de connexions
 const pool = new Pool({
@@ -122,20 +122,29 @@ const db = {
 
   /**
    * Exécuter une requête avec pagination
+   * Avec `options.tri`, la requête est ordonnée de l'extérieur, après la
+   * condition `options.apres` d'une pagination par curseur ; le total compte
+   * toujours toutes les lignes de la requête.
    */
   async queryWithPagination<T extends QueryResultRow>(
     text: string,
     params: any[] = [],
     page: number = 1,
-    limit: number = 10
-  ): Promise<{ rows: T[]; total: number; pages: number }> {
+    limit: number = 10,
+    options: PaginationOptions = {}
+  ): Promise<PaginatedResult<T>> {
     const offset = (page - 1) * limit;
     const countQuery = `SELECT COUNT(*) FROM (${text}) AS count`;
+    const dataParams = [...params, ...(options.apres?.params || [])];
+    const apres = options.apres ? ` WHERE ${options.apres.condition}` : '';
+    const dataQuery = options.tri
+      ? `SELECT * FROM (${text}) AS liste${apres} ORDER BY ${options.tri}`
+      : text;
     
     try {
       const [dataResult, countResult] = await Promise.all([
-        pool.query<T>(`${text} LIMIT $${params.length + 1} OFFSET $${params.length + 2}`, 
-          [...params, limit, offset]
+        pool.query<T>(`${dataQuery} LIMIT $${dataParams.length + 1} OFFSET $${dataParams.length + 2}`, 
+          [...dataParams, limit, offset]
         ),
         pool.query<{ count: string }>(countQuery, params)
       ]);
@@ -156,36 +165,6 @@ const db = {
       });
       throw new AppError('Erreur de base de données', 500);
     }
-  },
-
-  /**
-   * Exécuter une requête de recherche
-   */
-  async search<T extends QueryResultRow>(
-    table: string,
-    searchFields: string[],
-    searchTerm: string,
-    params: any[] = [],
-    page: number = 1,
-    limit: number = 10
-  ): Promise<{ rows: T[]; total: number; pages: number }> {
-    const searchConditions = searchFields
-      .map((field, index) => `${field} ILIKE $${params.length + index + 1}`)
-      .join(' OR ');
-
-    const searchParams = searchFields.map(() => `%${searchTerm}%`);
-    const query = `
-      SELECT * FROM ${table}
-      WHERE ${searchConditions}
-      ORDER BY cree_le DESC
-    `;
-
-    return this.queryWithPagination<T>(
-      query,
-      [...params, ...searchParams],
-      page,
-      limit
-    );
   }
 };
 
@@ -0,0 +1,95 @@
+import { DiffSegment } from '../types';
+
+// Au-delà, la table de comparaison serait trop coûteuse : les textes sont
+// alors présentés comme entièrement remplacés
+const CELLULES_MAX = 4000000;
+
+/**
+ * Découpe un texte en mots, chacun suivi de ses espaces
+ */
+const splitWords = (text: string): string[] => text.match(/\S+\s*/g) || [];
+
+/**
+ * Ajoute une portion de texte en la fusionnant avec la précédente si elle est du même type
+ */
+const pushSegment = (segments: DiffSegment[], type: DiffSegment['type'], texte: string): void => {
+  const dernier = segments[segments.length - 1];
+  if (dernier && dernier.type === type) {
+    dernier.texte += texte;
+  } else {
+    segments.push({ type, texte });
+  }
+};
+
+/**
+ * Compare deux textes mot à mot (plus longue sous-séquence commune)
+ * Les mots sont comparés sans tenir compte des espaces qui les suivent ; les
+ * portions inchangées reprennent la mise en forme du second texte.
+ */
+export const diffWords = (avant: string, apres: string): DiffSegment[] => {
+  const a = splitWords(avant);
+  const b = splitWords(apres);
+  const segments: DiffSegment[] = [];
+  const egaux = (i: number, j: number): boolean => a[i].trimEnd() === b[j].trimEnd();
+
+  // Début et fin communs, écartés de la comparaison
+  let debut = 0;
+  while (debut < a.length && debut < b.length && egaux(debut, debut)) {
+    debut++;
+  }
+  let finA = a.length;
+  let finB = b.length;
+  while (finA > debut && finB > debut && egaux(finA - 1, finB - 1)) {
+    finA--;
+    finB--;
+  }
+
+  if (debut > 0) {
+    pushSegment(segments, 'egal', b.slice(0, debut).join(''));
+  }
+
+  const n = finA - debut;
+  const m = finB - debut;
+  if (n * m > CELLULES_MAX) {
+    pushSegment(segments, 'suppression', a.slice(debut, finA).join(''));
+    pushSegment(segments, 'ajout', b.slice(debut, finB).join(''));
+  } else {
+    // longueurs[i * (m + 1) + j] : plus longue sous-séquence commune des suffixes a[i..] et b[j..]
+    const longueurs = new Uint32Array((n + 1) * (m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        longueurs[i * (m + 1) + j] = egaux(debut + i, debut + j)
+          ? longueurs[(i + 1) * (m + 1) + j + 1] + 1
+          : Math.max(longueurs[(i + 1) * (m + 1) + j], longueurs[i * (m + 1) + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n || j < m) {
+      if (i < n && j < m && egaux(debut + i, debut + j)) {
+        pushSegment(segments, 'egal', b[debut + j]);
+        i++;
+        j++;
+      } else if (
+        j < m && (i === n || longueurs[i * (m + 1) + j + 1] >= longueurs[(i + 1) * (m + 1) + j])
+      ) {
+        pushSegment(segments, 'ajout', b[debut + j]);
+        j++;
+      } else {
+        pushSegment(segments, 'suppression', a[debut + i]);
+        i++;
+      }
+    }
+  }
+
+  if (finB < b.length) {
+    pushSegment(segments, 'egal', b.slice(finB).join(''));
+  }
+
+  return segments.filter((segment) => segment.texte.length > 0);
+};
+
+export default {
+  diffWords
+};
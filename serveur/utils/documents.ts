@@ -0,0 +1,333 @@
+import path from 'path';
+import { load } from 'cheerio';
+import { AppError, DocumentFormat, ExtractedDocument, ZipArchive } from '../types';
+import { extractArticle, htmlToText } from './readability';
+import { openZip } from './zip';
+
+// Type MIME de chaque format pris en charge
+export const TYPES_MIME_DOCUMENTS: Record<DocumentFormat, string> = {
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  epub: 'application/epub+zip',
+  html: 'text/html',
+  markdown: 'text/markdown',
+  txt: 'text/plain'
+};
+
+const EXTENSIONS_MARKDOWN = new Set(['.md', '.markdown', '.mdown', '.mkd']);
+const EXTENSIONS_HTML = new Set(['.html', '.htm', '.xhtml']);
+
+// Signatures (octets magiques) des formats binaires
+const SIGNATURE_PDF = Buffer.from('%PDF-');
+const SIGNATURE_ZIP = Buffer.from('PK\x03\x04', 'latin1');
+
+const nonSupporte = (): AppError => new AppError('Type de fichier non pris en charge', 415);
+
+/**
+ * Encodage UTF-16 annoncé par la marque d'ordre des octets (BOM) du fichier
+ */
+const utf16Encoding = (fichier: Buffer): 'utf-16le' | 'utf-16be' | null => {
+  if (fichier[0] === 0xff && fichier[1] === 0xfe) {
+    return 'utf-16le';
+  }
+  return fichier[0] === 0xfe && fichier[1] === 0xff ? 'utf-16be' : null;
+};
+
+/**
+ * Décoder un fichier texte : UTF-8 (avec ou sans BOM), UTF-16 avec BOM,
+ * à défaut Windows-1252
+ */
+const decodeTextFile = (fichier: Buffer): string => {
+  const utf16 = utf16Encoding(fichier);
+  if (utf16) {
+    return new TextDecoder(utf16).decode(fichier.subarray(2));
+  }
+
+  try {
+    return new TextDecoder('utf-8', { fatal: true, ignoreBOM: false }).decode(fichier);
+  } catch {
+    return new TextDecoder('windows-1252').decode(fichier);
+  }
+};
+
+/**
+ * Texte d'une propriété (null si absente ou vide)
+ */
+const property = (valeur: string | undefined): string | null => {
+  const texte = valeur?.replace(/\s+/g, ' ').trim();
+  return texte || null;
+};
+
+// Utilitaires pour les livres numériques
+const epubUtils = {
+  /**
+   * Chemin du paquet OPF, indiqué par `META-INF/container.xml`
+   */
+  packagePath(archive: ZipArchive): string {
+    if (!archive.has('META-INF/container.xml')) {
+      throw new AppError('Livre numérique EPUB invalide', 422);
+    }
+
+    const $ = load(archive.readText('META-INF/container.xml'), { xml: true });
+    const chemin = $('rootfile').first().attr('full-path');
+    if (!chemin || !archive.has(chemin)) {
+      throw new AppError('Livre numérique EPUB invalide', 422);
+    }
+    return chemin;
+  },
+
+  /**
+   * Chemin dans l'archive d'un document du manifeste, dont le lien est encodé
+   * comme une URL ; un lien absent ou mal encodé ne désigne aucun document
+   */
+  itemPath(dossier: string, href?: string): string | null {
+    if (!href) {
+      return null;
+    }
+    try {
+      return path.posix.join(dossier, decodeURIComponent(href.split('#')[0]));
+    } catch {
+      return null;
+    }
+  }
+};
+
+// Utilitaires pour les documents Markdown
+const markdownUtils = {
+  /**
+   * Lire le titre et l'auteur de l'en-tête YAML (`title:`, `author:`)
+   */
+  frontMatter(entete: string, champ: string): string | null {
+    const valeur = new RegExp(`^${champ}:\\s*(.+)$`, 'mi').exec(entete);
+    return valeur ? property(valeur[1].replace(/^["']|["']$/g, '')) : null;
+  },
+
+  /**
+   * Convertir un document Markdown en texte
+   */
+  toText(markdown: string): Pick<ExtractedDocument, 'texte' | 'titre' | 'auteur'> {
+    let texte = markdown.replace(/\r\n?/g, '\n');
+    let titre: string | null = null;
+    let auteur: string | null = null;
+
+    const entete = /^---\n([\s\S]*?)\n(?:---|\.\.\.)\n/.exec(texte);
+    if (entete) {
+      titre = this.frontMatter(entete[1], 'title');
+      auteur = this.frontMatter(entete[1], 'author');
+      texte = texte.slice(entete[0].length);
+    }
+
+    texte = texte
+      // Blocs de code : le contenu est conservé, sans les délimiteurs
+      .replace(/^(```|~~~)[^\n]*\n([\s\S]*?)^\1[ \t]*$/gm, '$2')
+      // Séparateurs et soulignements des titres
+      .replace(/^[ \t]*([-*_=])(?:[ \t]*\1){2,}[ \t]*$/gm, '')
+      // Images, puis liens (le texte du lien est conservé)
+      .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+      .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+      .replace(/<\/?[a-z][^>]*>/gi, '')
+      // Citations et puces
+      .replace(/^[ \t]{0,3}>[ \t]?/gm, '')
+      .replace(/^([ \t]*)[*+][ \t]+/gm, '$1- ')
+      // Mise en valeur et code en ligne
+      .replace(/(\*\*|__)(?=\S)([^\n]*?\S)\1/g, '$2')
+      .replace(/(^|[^\w*])([*_])(?=\S)([^*_\n]*?\S)\2(?![\w*])/g, '$1$3')
+      .replace(/`([^`\n]+)`/g, '$1')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+
+    const premierTitre = /^#\s+(.+)$/m.exec(texte);
+    return {
+      texte,
+      titre: titre || (premierTitre ? property(premierTitre[1].replace(/\s#+$/, '')) : null),
+      auteur
+    };
+  }
+};
+
+// Extraction du texte selon le format (le PDF est lu par pdf-parse dans le service de résumé)
+const extractors: Record<
+  Exclude<DocumentFormat, 'pdf'>,
+  (fichier: Buffer) => ExtractedDocument
+> = {
+  /**
+   * DOCX : paragraphes de `word/document.xml`, titres selon leur style et
+   * propriétés de `docProps/core.xml`
+   */
+  docx(fichier) {
+    const archive = openZip(fichier);
+    if (!archive.has('word/document.xml')) {
+      throw new AppError('Document Word invalide', 422);
+    }
+
+    const $ = load(archive.readText('word/document.xml'), { xml: true });
+    const paragraphes = $('w\\:body w\\:p').toArray().flatMap((paragraphe) => {
+      const texte = $(paragraphe)
+        .find('w\\:t, w\\:tab, w\\:br, w\\:cr')
+        .toArray()
+        .map((el) => (el.name === 'w:t' ? $(el).text() : el.name === 'w:tab' ? '\t' : '\n'))
+        .join('')
+        .trim();
+      if (!texte) {
+        return [];
+      }
+
+      // Styles de titre : Title, Heading1..9 (ou leurs équivalents localisés)
+      const style = $(paragraphe).find('w\\:pStyle').attr('w:val') || '';
+      const niveau = /^(title|titre)$/i.test(style)
+        ? 1
+        : Number((/^(?:heading|titre)(\d)$/i.exec(style) || [])[1] || 0);
+      if (niveau > 0) {
+        return [`${'#'.repeat(Math.min(niveau, 6))} ${texte}`];
+      }
+      return [$(paragraphe).find('w\\:numPr').length ? `- ${texte}` : texte];
+    });
+
+    const proprietes = archive.has('docProps/core.xml')
+      ? load(archive.readText('docProps/core.xml'), { xml: true })
+      : null;
+    const application = archive.has('docProps/app.xml')
+      ? load(archive.readText('docProps/app.xml'), { xml: true })
+      : null;
+    const pages = parseInt(application?.('Pages').first().text() || '', 10);
+
+    return {
+      format: 'docx',
+      texte: paragraphes.join('\n\n'),
+      titre: property(proprietes?.('dc\\:title').first().text()),
+      auteur: property(proprietes?.('dc\\:creator').first().text()),
+      pages: Number.isNaN(pages) ? null : pages
+    };
+  },
+
+  /**
+   * EPUB : chapitres dans l'ordre de lecture (`spine`) du paquet OPF
+   */
+  epub(fichier) {
+    const archive = openZip(fichier);
+    const paquet = epubUtils.packagePath(archive);
+    const $ = load(archive.readText(paquet), { xml: true });
+    const dossier = path.posix.dirname(paquet);
+
+    const manifeste = new Map($('manifest > item').toArray().map((item) => [
+      item.attribs.id,
+      { href: item.attribs.href, type: item.attribs['media-type'] }
+    ]));
+
+    const chapitres = $('spine > itemref').toArray().flatMap((itemref) => {
+      const item = manifeste.get(itemref.attribs.idref);
+      if (!item || !['application/xhtml+xml', 'text/html'].includes(item.type)) {
+        return [];
+      }
+      const chemin = epubUtils.itemPath(dossier, item.href);
+      const texte = chemin && archive.has(chemin) ? htmlToText(archive.readText(chemin)) : '';
+      return texte ? [texte] : [];
+    });
+
+    const auteurs = $('metadata dc\\:creator').toArray().map((el) => property($(el).text()));
+
+    return {
+      format: 'epub',
+      texte: chapitres.join('\n\n'),
+      titre: property($('metadata dc\\:title').first().text()),
+      auteur: auteurs.filter(Boolean).join(', ') || null,
+      pages: null
+    };
+  },
+
+  /**
+   * HTML : contenu principal de la page, comme pour un article web
+   */
+  html(fichier) {
+    const article = extractArticle(decodeTextFile(fichier));
+    return {
+      format: 'html',
+      texte: article.texte,
+      titre: article.titre,
+      auteur: article.auteur,
+      pages: null
+    };
+  },
+
+  /**
+   * Markdown : texte débarrassé de la syntaxe, titres conservés (préfixés de #)
+   */
+  markdown(fichier) {
+    return { format: 'markdown', ...markdownUtils.toText(decodeTextFile(fichier)), pages: null };
+  },
+
+  /**
+   * Texte brut
+   */
+  txt(fichier) {
+    return {
+      format: 'txt',
+      texte: decodeTextFile(fichier).replace(/\r\n?/g, '\n').trim(),
+      titre: null,
+      auteur: null,
+      pages: null
+    };
+  }
+};
+
+/**
+ * Reconnaître le format d'un fichier d'après son contenu
+ * Les formats binaires sont identifiés par leurs octets magiques (et, pour les
+ * archives ZIP, par les entrées caractéristiques du DOCX et de l'EPUB). Un
+ * fichier texte est reconnu comme HTML d'après son balisage ; le Markdown,
+ * indiscernable d'un texte brut par son seul contenu, d'après l'extension du
+ * nom de fichier ou la présence de titres et de liens Markdown.
+ */
+export const detectDocumentFormat = (fichier: Buffer, nomFichier?: string): DocumentFormat => {
+  if (fichier.subarray(0, SIGNATURE_PDF.length).equals(SIGNATURE_PDF)) {
+    return 'pdf';
+  }
+
+  if (fichier.subarray(0, SIGNATURE_ZIP.length).equals(SIGNATURE_ZIP)) {
+    const archive = openZip(fichier);
+    if (archive.has('mimetype') && archive.readText('mimetype').trim() === 'application/epub+zip') {
+      return 'epub';
+    }
+    if (archive.has('word/document.xml')) {
+      return 'docx';
+    }
+    throw nonSupporte();
+  }
+
+  // Un octet nul n'apparaît pas dans un texte (hors UTF-16, annoncé par son BOM)
+  const debut = fichier.subarray(0, 8000);
+  if (fichier.length === 0 || (!utf16Encoding(debut) && debut.includes(0))) {
+    throw nonSupporte();
+  }
+
+  const extension = path.extname(nomFichier || '').toLowerCase();
+  const texte = decodeTextFile(debut);
+  if (
+    EXTENSIONS_HTML.has(extension)
+    || /^\s*(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*<(!doctype\s+html|html|head|body)[\s>]/i.test(texte)
+  ) {
+    return 'html';
+  }
+  if (
+    EXTENSIONS_MARKDOWN.has(extension)
+    || /^#{1,6}[ \t]+\S/m.test(texte)
+    || /\[[^\]\n]+\]\([^)\s]+\)/.test(texte)
+  ) {
+    return 'markdown';
+  }
+  return 'txt';
+};
+
+/**
+ * Extraire le texte et les métadonnées d'un fichier dans le format indiqué
+ */
+export const extractDocument = (
+  fichier: Buffer,
+  format: Exclude<DocumentFormat, 'pdf'>
+): ExtractedDocument => extractors[format](fichier);
+
+export default {
+  TYPES_MIME_DOCUMENTS,
+  detectDocumentFormat,
+  extractDocument
+};
@@ -0,0 +1,209 @@
+import { SupportedLanguage } from '../types';
+import { LANGUES } from '../config/langues';
+
+// Mots vides de chaque langue, ignorés lors de la comparaison des phrases
+const MOTS_VIDES = Object.fromEntries(
+  Object.entries(LANGUES).map(([code, { motsVides }]) => [code, new Set<string>(motsVides)])
+) as Record<SupportedLanguage, Set<string>>;
+
+// Au-delà de cette longueur (ex. transcription sans ponctuation), une phrase
+// est redécoupée en fenêtres de mots pour rester sélectionnable
+const MOTS_MAX_PHRASE = 60;
+const MOTS_FENETRE = 30;
+
+// Paramètres de l'algorithme TextRank
+const AMORTISSEMENT = 0.85;
+const ITERATIONS_MAX = 50;
+const TOLERANCE = 1e-6;
+
+/**
+ * Compte le nombre de mots d'un texte
+ */
+export const countWords = (text: string): number => {
+  return text.split(/\s+/).filter((mot) => mot.length > 0).length;
+};
+
+/**
+ * Découpe un texte en phrases, sans couper après une abréviation de la langue
+ * (M., Dr., e.g.), une initiale ou un sigle pointé
+ */
+export const splitSentences = (text: string, langue: SupportedLanguage = 'fr'): string[] => {
+  const abreviations = new Set<string>(LANGUES[langue].abreviations);
+  const phrases: string[] = [];
+
+  text.split(/\n\s*\n/).forEach((paragraphe) => {
+    const mots = paragraphe.replace(/\s+/g, ' ').trim().split(' ');
+    let courante: string[] = [];
+
+    mots.forEach((mot, index) => {
+      if (!mot) {
+        return;
+      }
+      courante.push(mot);
+
+      const suivant = mots[index + 1];
+      if (!/[.!?…؟]["»”')\]]*$/.test(mot) || suivant === undefined) {
+        return;
+      }
+
+      const radical = mot.replace(/["«»“”'()[\]]/g, '').replace(/[.!?…؟]+$/, '').toLowerCase();
+      const estAbreviation = mot.endsWith('.') && (
+        abreviations.has(radical)
+        || /^\p{L}$/u.test(radical) // Initiale (J. Dupont)
+        || /^(\p{L}\.)+\p{L}$/u.test(radical) // Sigle pointé (U.S.A.)
+      );
+      const suiteEnMinuscule = /^[\p{Ll}\d]/u.test(suivant);
+
+      if (!estAbreviation && !suiteEnMinuscule) {
+        phrases.push(courante.join(' '));
+        courante = [];
+      }
+    });
+
+    if (courante.length > 0) {
+      phrases.push(courante.join(' '));
+    }
+  });
+
+  return phrases;
+};
+
+/**
+ * Découpe une phrase en mots significatifs (minuscules, sans ponctuation ni mots vides)
+ */
+export const tokenize = (phrase: string, langue: SupportedLanguage): string[] => {
+  const motsVides = MOTS_VIDES[langue];
+  return phrase
+    .toLowerCase()
+    .split(/[^\p{L}\p{M}\p{N}]+/u)
+    .filter((mot) => mot.length > 2 && !motsVides.has(mot));
+};
+
+/**
+ * Similarité entre deux phrases (définition du TextRank d'origine)
+ */
+const similarity = (a: Set<string>, b: Set<string>): number => {
+  if (a.size < 2 || b.size < 2) {
+    return 0;
+  }
+
+  let communs = 0;
+  a.forEach((mot) => {
+    if (b.has(mot)) {
+      communs++;
+    }
+  });
+
+  return communs / (Math.log(a.size) + Math.log(b.size));
+};
+
+/**
+ * Calcule le score TextRank de chaque phrase
+ */
+export const rankSentences = (phrases: string[], langue: SupportedLanguage = 'fr'): number[] => {
+  const n = phrases.length;
+  const mots = phrases.map((phrase) => new Set(tokenize(phrase, langue)));
+
+  // Matrice de similarité et poids sortants de chaque phrase
+  const poids: number[][] = Array.from({ length: n }, () => new Array<number>(n).fill(0));
+  const sortants = new Array<number>(n).fill(0);
+  for (let i = 0; i < n; i++) {
+    for (let j = i + 1; j < n; j++) {
+      const s = similarity(mots[i], mots[j]);
+      poids[i][j] = s;
+      poids[j][i] = s;
+      sortants[i] += s;
+      sortants[j] += s;
+    }
+  }
+
+  let scores = new Array<number>(n).fill(1);
+  for (let iteration = 0; iteration < ITERATIONS_MAX; iteration++) {
+    const nouveaux = new Array<number>(n).fill(1 - AMORTISSEMENT);
+    for (let i = 0; i < n; i++) {
+      for (let j = 0; j < n; j++) {
+        if (poids[j][i] > 0 && sortants[j] > 0) {
+          nouveaux[i] += AMORTISSEMENT * (poids[j][i] / sortants[j]) * scores[j];
+        }
+      }
+    }
+
+    const ecart = nouveaux.reduce((total, score, i) => total + Math.abs(score - scores[i]), 0);
+    scores = nouveaux;
+    if (ecart < TOLERANCE) {
+      break;
+    }
+  }
+
+  return scores;
+};
+
+/**
+ * Sélectionne les phrases les plus centrales (TextRank), dans leur ordre
+ * d'origine, jusqu'à atteindre `maxWords` mots ou `maxSentences` phrases
+ */
+export const extractSentences = (
+  text: string,
+  options: { maxWords: number; maxSentences?: number; langue?: SupportedLanguage }
+): string[] => {
+  const langue = options.langue || 'fr';
+  const phrases = splitSentences(text, langue).flatMap((phrase) => {
+    const mots = phrase.split(' ');
+    if (mots.length <= MOTS_MAX_PHRASE) {
+      return [phrase];
+    }
+    return Array.from(
+      { length: Math.ceil(mots.length / MOTS_FENETRE) },
+      (_, i) => mots.slice(i * MOTS_FENETRE, (i + 1) * MOTS_FENETRE).join(' ')
+    );
+  });
+  if (phrases.length === 0) {
+    return [];
+  }
+
+  const scores = rankSentences(phrases, langue);
+  const maxSentences = options.maxSentences || phrases.length;
+
+  // Tri par score décroissant, à score égal la phrase la plus proche du début l'emporte
+  const classement = phrases
+    .map((_phrase, index) => index)
+    .sort((a, b) => scores[b] - scores[a] || a - b);
+
+  const retenues: number[] = [];
+  let mots = 0;
+  for (const index of classement) {
+    const motsPhrase = countWords(phrases[index]);
+    if (retenues.length > 0 && mots + motsPhrase > options.maxWords) {
+      continue;
+    }
+    retenues.push(index);
+    mots += motsPhrase;
+    if (mots >= options.maxWords || retenues.length >= maxSentences) {
+      break;
+    }
+  }
+
+  return retenues
+    .sort((a, b) => a - b)
+    .map((index) => phrases[index]);
+};
+
+/**
+ * Résumé extractif déterministe (TextRank) : les phrases les plus centrales
+ * sont conservées dans leur ordre d'origine jusqu'à atteindre `maxWords` mots
+ */
+export const summarizeExtractive = (
+  text: string,
+  options: { maxWords: number; maxSentences?: number; langue?: SupportedLanguage }
+): string => {
+  return extractSentences(text, options).join(' ');
+};
+
+export default {
+  countWords,
+  splitSentences,
+  tokenize,
+  rankSentences,
+  extractSentences,
+  summarizeExtractive
+};
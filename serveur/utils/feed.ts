@@ -0,0 +1,111 @@
+import { load } from 'cheerio';
+import type { Cheerio, CheerioAPI } from 'cheerio';
+import type { Element } from 'domhandler';
+import { AppError, FeedItem, ParsedFeed } from '../types';
+
+/**
+ * Texte du premier élément trouvé (null si absent ou vide)
+ */
+const firstText = (elements: Cheerio<Element>): string | null => {
+  const texte = elements.first().text().replace(/\s+/g, ' ').trim();
+  return texte || null;
+};
+
+/**
+ * Date ISO 8601 (formats RFC 822 des flux RSS et RFC 3339 des flux Atom)
+ */
+const parseDate = (valeur: string | null): string | null => {
+  const date = valeur ? new Date(valeur) : null;
+  return date && !Number.isNaN(date.getTime()) ? date.toISOString() : null;
+};
+
+/**
+ * Adresse absolue d'un lien, résolue par rapport à l'adresse du flux
+ */
+const resolveLink = (lien: string | null | undefined, base?: string): string | null => {
+  if (!lien) {
+    return null;
+  }
+  try {
+    return new URL(lien.trim(), base).toString();
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Entrées d'un flux RSS 2.0 (ou RSS 1.0 / RDF)
+ */
+const parseRssItems = ($: CheerioAPI, url?: string): FeedItem[] => (
+  $('item').toArray().flatMap((item) => {
+    const entree = $(item);
+    const lien = resolveLink(firstText(entree.children('link')), url);
+    const titre = firstText(entree.children('title'));
+    const guid = firstText(entree.children('guid')) || entree.attr('rdf:about') || lien;
+
+    if (!guid) {
+      return [];
+    }
+    return [{
+      guid,
+      titre,
+      lien,
+      publie_le: parseDate(firstText(entree.children('pubDate, dc\\:date')))
+    }];
+  })
+);
+
+/**
+ * Entrées d'un flux Atom
+ */
+const parseAtomEntries = ($: CheerioAPI, url?: string): FeedItem[] => (
+  $('feed > entry').toArray().flatMap((item) => {
+    const entree = $(item);
+    const liens = entree.children('link');
+    const alternatif = liens.filter((_, lien) => ['alternate', undefined].includes(lien.attribs.rel));
+    const lien = resolveLink((alternatif.length ? alternatif : liens).first().attr('href'), url);
+    const guid = firstText(entree.children('id')) || lien;
+
+    if (!guid) {
+      return [];
+    }
+    return [{
+      guid,
+      titre: firstText(entree.children('title')),
+      lien,
+      publie_le: parseDate(firstText(entree.children('published')) || firstText(entree.children('updated')))
+    }];
+  })
+);
+
+/**
+ * Analyser un flux RSS 2.0, RSS 1.0 ou Atom
+ * Les liens relatifs sont résolus par rapport à `url`. Les entrées sans
+ * identifiant ni lien sont ignorées.
+ */
+export const parseFeed = (xml: string, url?: string): ParsedFeed => {
+  const $ = load(xml, { xml: true });
+  const racine = $.root().children().get(0)?.name;
+
+  if (racine === 'feed') {
+    return {
+      format: 'atom',
+      titre: firstText($('feed > title')),
+      entrees: parseAtomEntries($, url)
+    };
+  }
+
+  if (racine === 'rss' || racine === 'rdf:RDF') {
+    return {
+      format: 'rss',
+      titre: firstText($('channel > title')),
+      entrees: parseRssItems($, url)
+    };
+  }
+
+  throw new AppError('Flux RSS ou Atom invalide', 422);
+};
+
+export default {
+  parseFeed
+};
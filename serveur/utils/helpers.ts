@@ -1,5 +1,6 @@
 import crypto from 'crypto';
 import { SupportedLanguage } from '../types';
+import { LANGUES } from '../config/langues';
 
 /**
  * Génère un token aléatoire
@@ -68,7 +69,7 @@ export const isValidPin = (pin: string): boolean => {
  * Formate une date
  */
 export const formatDate = (date: Date, locale: SupportedLanguage = 'fr'): string => {
-  return date.toLocaleDateString(locale === 'fr' ? 'fr-FR' : 'en-US', {
+  return date.toLocaleDateString(LANGUES[locale].locale, {
     year: 'numeric',
     month: 'long',
     day: 'numeric',
@@ -217,6 +218,31 @@ export const throttle = <F extends (...args: any[]) => any>(
   };
 };
 
+/**
+ * Applique une fonction asynchrone à chaque élément avec un nombre limité
+ * d'appels simultanés, en conservant l'ordre des résultats
+ */
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> => {
+  const results: R[] = new Array<R>(items.length);
+  let nextIndex = 0;
+
+  const worker = async (): Promise<void> => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workers = Math.min(Math.max(1, limit), items.length);
+  await Promise.all(Array.from({ length: workers }, () => worker()));
+
+  return results;
+};
+
 export default {
   generateToken,
   generatePin,
@@ -232,5 +258,6 @@ export default {
   formatFileSize,
   generateUniqueId,
   debounce,
-  throttle
+  throttle,
+  mapWithConcurrency
 };
@@ -0,0 +1,107 @@
+import { LanguageDetection, SupportedLanguage } from '../types';
+import { LANGUES } from '../config/langues';
+
+// Longueur maximale des n-grammes de caractères
+const N_MAX = 3;
+
+// Nombre de n-grammes les plus fréquents retenus dans un profil
+const TAILLE_PROFIL = 300;
+
+// Seul le début du texte est analysé
+const CARACTERES_ANALYSES = 10000;
+
+// En deçà, un texte est trop court pour que sa langue soit reconnue
+const LETTRES_MIN = 20;
+
+// Rang de chaque n-gramme dans un profil (0 pour le plus fréquent)
+type Profile = Map<string, number>;
+
+/**
+ * Profil d'un texte : ses n-grammes de caractères les plus fréquents, par rang
+ * Les mots sont bordés d'espaces pour distinguer débuts et fins de mots.
+ */
+const buildProfile = (text: string): Profile => {
+  const frequences = new Map<string, number>();
+  text
+    .toLowerCase()
+    .split(/[^\p{L}\p{M}]+/u)
+    .filter((mot) => mot.length > 0)
+    .forEach((mot) => {
+      const borne = ` ${mot} `;
+      for (let n = 1; n <= N_MAX; n++) {
+        for (let debut = 0; debut + n <= borne.length; debut++) {
+          const ngramme = borne.slice(debut, debut + n);
+          if (ngramme.trim()) {
+            frequences.set(ngramme, (frequences.get(ngramme) || 0) + 1);
+          }
+        }
+      }
+    });
+
+  return new Map(
+    [...frequences]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, TAILLE_PROFIL)
+      .map(([ngramme], rang) => [ngramme, rang])
+  );
+};
+
+/**
+ * Distance « hors de place » entre le profil d'un texte et celui d'une langue
+ * (Cavnar et Trenkle) : écart de rang de chaque n-gramme, maximal s'il est
+ * absent du profil de la langue. Ramenée entre 0 (identiques) et 1.
+ */
+const distance = (texte: Profile, langue: Profile): number => {
+  let total = 0;
+  texte.forEach((rang, ngramme) => {
+    const reference = langue.get(ngramme);
+    total += reference === undefined ? TAILLE_PROFIL : Math.abs(rang - reference);
+  });
+  return total / (texte.size * TAILLE_PROFIL);
+};
+
+// Profils des langues du registre, construits au premier appel
+let profils: Array<[SupportedLanguage, Profile]> | null = null;
+
+const languageProfiles = (): Array<[SupportedLanguage, Profile]> => {
+  if (!profils) {
+    profils = (Object.keys(LANGUES) as SupportedLanguage[]).map((code) => {
+      const { echantillon, motsVides } = LANGUES[code];
+      return [code, buildProfile(`${echantillon} ${motsVides.join(' ')}`)];
+    });
+  }
+  return profils;
+};
+
+/**
+ * Détecter la langue d'un texte parmi celles du registre, hors ligne, par
+ * comparaison de ses n-grammes de caractères avec le profil de chaque langue
+ * La confiance mesure l'écart relatif avec la deuxième langue la plus proche :
+ * elle est faible pour un texte court ou mêlant plusieurs langues. Retourne
+ * null si le texte est trop court ou ne ressemble à aucune langue connue.
+ */
+export const detectLanguage = (text: string): LanguageDetection | null => {
+  const extrait = text.slice(0, CARACTERES_ANALYSES);
+  if ((extrait.match(/\p{L}/gu) || []).length < LETTRES_MIN) {
+    return null;
+  }
+
+  const profil = buildProfile(extrait);
+  const [premiere, deuxieme] = languageProfiles()
+    .map(([langue, reference]) => ({ langue, distance: distance(profil, reference) }))
+    .sort((a, b) => a.distance - b.distance);
+
+  if (!premiere || premiere.distance >= 1) {
+    return null;
+  }
+
+  const ecart = deuxieme ? (deuxieme.distance - premiere.distance) / deuxieme.distance : 1;
+  return {
+    langue: premiere.langue,
+    confiance: Math.round(ecart * 100) / 100
+  };
+};
+
+export default {
+  detectLanguage
+};
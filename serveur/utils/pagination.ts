@@ -0,0 +1,292 @@
+import { QueryResultRow } from 'pg';
+import type { Request, Response } from 'express';
+import {
+  AppError,
+  ListCursor,
+  ListDefinition,
+  ListFilter,
+  ListQuery,
+  ListSort,
+  PaginatedResult,
+  PaginationMeta,
+  PaginationOptions
+} from '../types';
+import config from '../config/config';
+
+// Longueur maximale d'un filtre texte
+const LONGUEUR_FILTRE_MAX = 200;
+
+// Chaîne de requête d'une liste (`req.query`)
+type ListQueryString = Record<string, unknown>;
+
+/**
+ * Entier strictement positif passé dans la chaîne de requête
+ */
+const parseInteger = (valeur: unknown, nom: string, defaut: number, max?: number): number => {
+  if (valeur === undefined) {
+    return defaut;
+  }
+  const nombre = typeof valeur === 'string' && /^\d+$/.test(valeur) ? Number(valeur) : NaN;
+  if (!Number.isInteger(nombre) || nombre < 1 || (max !== undefined && nombre > max)) {
+    throw new AppError(`Paramètre ${nom} invalide (entier de 1 à ${max ?? 'infini'})`, 400);
+  }
+  return nombre;
+};
+
+/**
+ * Valeur d'un filtre, selon sa nature (les dates sont ramenées en UTC)
+ */
+const parseFilter = (
+  valeur: unknown,
+  nom: string,
+  filtre: ListFilter
+): string | number | boolean => {
+  const texte = typeof valeur === 'string' ? valeur.trim() : '';
+  if (texte.length === 0 || texte.length > LONGUEUR_FILTRE_MAX) {
+    throw new AppError(`Filtre ${nom} invalide`, 400);
+  }
+
+  switch (filtre.nature) {
+    case 'entier':
+      return parseInteger(texte, nom, 0);
+    case 'booleen':
+      if (texte !== 'true' && texte !== 'false') {
+        throw new AppError(`Filtre ${nom} invalide (true ou false)`, 400);
+      }
+      return texte === 'true';
+    case 'date': {
+      const date = new Date(texte);
+      if (Number.isNaN(date.getTime())) {
+        throw new AppError(`Filtre ${nom} invalide (date ISO 8601 attendue)`, 400);
+      }
+      return date.toISOString();
+    }
+    default:
+      if (filtre.valeurs && !filtre.valeurs.includes(texte)) {
+        throw new AppError(
+          `Filtre ${nom} invalide (valeurs acceptées : ${filtre.valeurs.join(', ')})`,
+          400
+        );
+      }
+      return texte;
+  }
+};
+
+/**
+ * Curseur opaque transmis au client (JSON encodé en base64url)
+ */
+const encodeCursor = (curseur: ListCursor): string => Buffer
+  .from(JSON.stringify([curseur.champ, curseur.ordre, curseur.valeur, curseur.id]))
+  .toString('base64url');
+
+/**
+ * Curseur reçu du client
+ */
+const decodeCursor = (valeur: unknown): ListCursor => {
+  let contenu: unknown = null;
+  try {
+    contenu = JSON.parse(Buffer.from(String(valeur), 'base64url').toString('utf8'));
+  } catch (error) {
+    contenu = null;
+  }
+
+  if (Array.isArray(contenu) && contenu.length === 4) {
+    const [champ, ordre, position, id] = contenu;
+    if (
+      typeof champ === 'string'
+      && (ordre === 'asc' || ordre === 'desc')
+      && (typeof position === 'string' || typeof position === 'number')
+      && Number.isInteger(id)
+    ) {
+      return { champ, ordre, valeur: position, id };
+    }
+  }
+
+  throw new AppError('Curseur invalide', 400);
+};
+
+/**
+ * Valeur de curseur conforme à la nature du tri : un texte, ou une date telle
+ * que le curseur suivant la transmet (ISO 8601 en UTC)
+ */
+const isCursorValue = (valeur: ListCursor['valeur'], tri: ListSort): boolean => {
+  if (typeof valeur !== 'string') {
+    return false;
+  }
+  if (tri.nature === 'date') {
+    const date = new Date(valeur);
+    return !Number.isNaN(date.getTime()) && date.toISOString() === valeur;
+  }
+  return true;
+};
+
+/**
+ * Page et nombre d'éléments par page demandés (`page`, `limit`)
+ */
+export const parsePage = (
+  query: ListQueryString,
+  parPage: number = config.LISTE_PAR_PAGE,
+  max: number = config.LISTE_PAR_PAGE_MAX
+): { page: number; limit: number } => ({
+  page: parseInteger(query.page, 'page', 1),
+  limit: parseInteger(query.limit, 'limit', parPage, max)
+});
+
+/**
+ * Requête d'une liste passée dans la chaîne de requête
+ * `page` et `limit` paginent la liste ; `cursor` (le `curseur_suivant` d'une
+ * réponse précédente) remplace `page` pour la parcourir sans décalage quand
+ * des éléments sont ajoutés entre deux pages. `sort` choisit le tri (`-champ`
+ * pour un ordre décroissant) ; les filtres sont ceux de la définition.
+ */
+export const parseListQuery = (query: ListQueryString, definition: ListDefinition): ListQuery => {
+  const { page, limit } = parsePage(query);
+
+  const tri = query.sort === undefined ? definition.triParDefaut : query.sort;
+  const champ = typeof tri === 'string' ? tri.replace(/^-/, '') : '';
+  if (!Object.keys(definition.tris).includes(champ)) {
+    const acceptes = Object.keys(definition.tris).map((nom) => `${nom}, -${nom}`);
+    throw new AppError(`Tri invalide (valeurs acceptées : ${acceptes.join(', ')})`, 400);
+  }
+  const sort = { champ, ordre: (tri as string).startsWith('-') ? 'desc' as const : 'asc' as const };
+
+  let cursor: ListCursor | undefined;
+  if (query.cursor !== undefined) {
+    if (query.page !== undefined) {
+      throw new AppError('Les paramètres page et cursor ne peuvent pas être combinés', 400);
+    }
+    cursor = decodeCursor(query.cursor);
+    if (cursor.champ !== sort.champ || cursor.ordre !== sort.ordre) {
+      throw new AppError('Curseur invalide pour ce tri', 400);
+    }
+    if (!isCursorValue(cursor.valeur, definition.tris[champ])) {
+      throw new AppError('Curseur invalide', 400);
+    }
+  }
+
+  const filtres: ListQuery['filtres'] = {};
+  Object.entries(definition.filtres).forEach(([nom, filtre]) => {
+    if (query[nom] !== undefined) {
+      filtres[nom] = parseFilter(query[nom], nom, filtre);
+    }
+  });
+
+  return { page, limit, ...(cursor ? { cursor } : {}), sort, filtres };
+};
+
+/**
+ * Clauses SQL d'une requête de liste
+ * `conditions` (à ajouter à la clause WHERE, chacune précédée de AND) reçoit
+ * les valeurs des filtres à la suite de `params` ; `options` donne le tri et
+ * la condition de départ du curseur à `db.queryWithPagination`. L'identifiant
+ * départage les lignes de même valeur de tri.
+ */
+export const listClauses = (
+  requete: ListQuery,
+  definition: ListDefinition,
+  params: unknown[]
+): { conditions: string; options: PaginationOptions } => {
+  const positions = new Map<string, string>();
+  const position = (nom: string): string => {
+    if (!positions.has(nom)) {
+      params.push(requete.filtres[nom] ?? null);
+      positions.set(nom, `$${params.length}`);
+    }
+    return positions.get(nom) as string;
+  };
+
+  const conditions = Object.entries(definition.filtres)
+    .filter(([nom, filtre]) => filtre.condition && requete.filtres[nom] !== undefined)
+    .map(([, filtre]) => (filtre.condition as string).replace(/\{(\w+)\}/g, (_, nom) => position(nom)))
+    .map((condition) => ` AND ${condition}`)
+    .join('');
+
+  const { expression } = definition.tris[requete.sort.champ];
+  const ordre = requete.sort.ordre.toUpperCase();
+  const options: PaginationOptions = { tri: `${expression} ${ordre}, id ${ordre}` };
+
+  if (requete.cursor) {
+    const comparaison = requete.sort.ordre === 'desc' ? '<' : '>';
+    options.apres = {
+      condition: `(${expression}, id) ${comparaison} ($${params.length + 1}, $${params.length + 2})`,
+      params: [requete.cursor.valeur, requete.cursor.id]
+    };
+  }
+
+  return { conditions, options };
+};
+
+/**
+ * Curseur de la page qui suit la dernière ligne reçue
+ */
+const nextCursor = (requete: ListQuery, ligne: QueryResultRow): string => {
+  const valeur = ligne[requete.sort.champ] ?? '';
+  return encodeCursor({
+    ...requete.sort,
+    valeur: valeur instanceof Date ? valeur.toISOString() : valeur,
+    id: ligne.id
+  });
+};
+
+/**
+ * Métadonnées de pagination d'une liste
+ * Les liens vers les autres pages sont aussi donnés dans l'en-tête `Link` :
+ * première, précédente, suivante et dernière page, ou première page et page
+ * suivante en pagination par curseur. Le curseur suivant n'est donné que pour
+ * une liste triée.
+ */
+export const paginate = <T extends QueryResultRow>(
+  req: Request,
+  res: Response,
+  requete: Pick<ListQuery, 'page' | 'limit'> & Partial<ListQuery>,
+  resultat: PaginatedResult<T>
+): PaginationMeta => {
+  const derniere = resultat.rows[resultat.rows.length - 1];
+  const suite = requete.cursor
+    ? resultat.rows.length === requete.limit
+    : requete.page < resultat.pages;
+  const suivant = requete.sort && derniere && suite
+    ? nextCursor(requete as ListQuery, derniere)
+    : null;
+
+  const lien = (parametres: Record<string, string | number | null>, rel: string): string => {
+    const url = new URL(req.originalUrl, 'http://localhost');
+    Object.entries(parametres).forEach(([nom, valeur]) => {
+      if (valeur === null) {
+        url.searchParams.delete(nom);
+      } else {
+        url.searchParams.set(nom, String(valeur));
+      }
+    });
+    return `<${url.pathname}${url.search}>; rel="${rel}"`;
+  };
+
+  const dernierePage = Math.max(resultat.pages, 1);
+  const liens = requete.cursor
+    ? [
+      lien({ cursor: null }, 'first'),
+      ...(suivant ? [lien({ cursor: suivant }, 'next')] : [])
+    ]
+    : [
+      lien({ page: 1 }, 'first'),
+      ...(requete.page > 1 ? [lien({ page: Math.min(requete.page - 1, dernierePage) }, 'prev')] : []),
+      ...(requete.page < resultat.pages ? [lien({ page: requete.page + 1 }, 'next')] : []),
+      lien({ page: dernierePage }, 'last')
+    ];
+  res.set('Link', liens.join(', '));
+
+  return {
+    ...(requete.cursor ? {} : { page: requete.page }),
+    limit: requete.limit,
+    total: resultat.total,
+    pages: resultat.pages,
+    curseur_suivant: suivant
+  };
+};
+
+export default {
+  parsePage,
+  parseListQuery,
+  listClauses,
+  paginate
+};
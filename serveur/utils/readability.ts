@@ -0,0 +1,474 @@
+import { load } from 'cheerio';
+import type { CheerioAPI } from 'cheerio';
+import type { AnyNode, Element } from 'domhandler';
+import { ExtractedArticle } from '../types';
+
+// Éléments qui ne portent jamais le contenu principal
+const ELEMENTS_PARASITES = [
+  'script', 'style', 'noscript', 'template', 'iframe', 'svg', 'canvas', 'form', 'button',
+  'input', 'select', 'textarea', 'nav', 'footer', 'aside', 'dialog', '[hidden]',
+  '[aria-hidden="true"]', '[style*="display:none"]', '[style*="display: none"]',
+  '[role="navigation"]', '[role="banner"]', '[role="contentinfo"]', '[role="complementary"]',
+  '[role="dialog"]', '[role="alertdialog"]'
+].join(', ');
+
+// Classes et identifiants des éléments parasites (menus, bandeaux, commentaires...),
+// écartés sauf s'ils désignent aussi le contenu
+const CLASSES_PARASITES = /cookie|consent|gdpr|rgpd|comment|disqus|newsletter|paywall|popup|modal|sidebar|menu|nav|footer|header|masthead|banner|widget|share|partage|social|related|promo|advert|sponsor|breadcrumb|pagination|toolbar|skip|byline|\b(ads?|pub)\b/i;
+const CLASSES_CONTENU = /article|content|contenu|main|body|post|entry|text|story|hentry/i;
+
+// Éléments de niveau bloc : ils délimitent les paragraphes du texte extrait
+const BLOCS = new Set([
+  'address', 'article', 'blockquote', 'dd', 'details', 'div', 'dl', 'dt', 'figcaption',
+  'figure', 'header', 'hr', 'li', 'main', 'ol', 'p', 'pre', 'section', 'summary', 'table',
+  'tbody', 'tfoot', 'thead', 'tr', 'ul'
+]);
+const TITRES = new Set(['h1', 'h2', 'h3', 'h4', 'h5', 'h6']);
+const SELECTEUR_BLOCS = [...BLOCS, ...TITRES].join(', ');
+
+// Score initial d'un candidat selon sa balise
+const SCORES_BALISES: Record<string, number> = {
+  article: 10,
+  main: 10,
+  div: 5,
+  section: 5,
+  pre: 3,
+  td: 3,
+  blockquote: 3,
+  ol: -3,
+  ul: -3,
+  dl: -3,
+  li: -3,
+  form: -3,
+  th: -5
+};
+
+// Longueur minimale d'un paragraphe pris en compte dans le score
+const LONGUEUR_MIN_PARAGRAPHE = 25;
+// Types schema.org désignant un article (Article, NewsArticle, BlogPosting...)
+const TYPES_ARTICLE = /(Article|Posting)$/;
+
+const isElement = (node: AnyNode): node is Element => node.nodeType === 1 && 'children' in node;
+
+const collapse = (text: string): string => text.replace(/\s+/g, ' ').trim();
+
+/**
+ * Classe et identifiant d'un élément, utilisés pour reconnaître son rôle
+ */
+const classAndId = (el: Element): string => `${el.attribs.class || ''} ${el.attribs.id || ''}`;
+
+/**
+ * Pondération d'un candidat selon sa classe et son identifiant
+ */
+const classWeight = (el: Element): number => {
+  const nom = classAndId(el);
+  let poids = 0;
+  if (CLASSES_CONTENU.test(nom)) {
+    poids += 25;
+  }
+  if (CLASSES_PARASITES.test(nom)) {
+    poids -= 25;
+  }
+  return poids;
+};
+
+/**
+ * Part du texte d'un élément contenue dans des liens (proche de 1 pour un menu)
+ */
+const linkDensity = ($: CheerioAPI, el: Element): number => {
+  const longueur = collapse($(el).text()).length;
+  if (longueur === 0) {
+    return 0;
+  }
+
+  const liens = $(el).find('a').toArray()
+    .reduce((total, lien) => total + collapse($(lien).text()).length, 0);
+  return Math.min(1, liens / longueur);
+};
+
+/**
+ * Premier attribut `content` non vide parmi les balises meta ciblées
+ */
+const metaContent = ($: CheerioAPI, selecteurs: string[]): string | null => {
+  for (const selecteur of selecteurs) {
+    const valeur = $(selecteur).first().attr('content');
+    if (valeur && valeur.trim()) {
+      return collapse(valeur);
+    }
+  }
+  return null;
+};
+
+/**
+ * Premier objet JSON-LD décrivant un article (les blocs invalides sont ignorés)
+ */
+const readJsonLd = ($: CheerioAPI): Record<string, unknown> | null => {
+  const objets: Record<string, unknown>[] = [];
+  const parcourir = (valeur: unknown): void => {
+    if (Array.isArray(valeur)) {
+      valeur.forEach(parcourir);
+    } else if (valeur && typeof valeur === 'object') {
+      const objet = valeur as Record<string, unknown>;
+      objets.push(objet);
+      parcourir(objet['@graph']);
+    }
+  };
+
+  $('script[type="application/ld+json"]').each((_, el) => {
+    try {
+      parcourir(JSON.parse($(el).text()));
+    } catch {
+      // JSON-LD mal formé : les autres sources de métadonnées prennent le relais
+    }
+  });
+
+  return objets.find((objet) => {
+    const types = ([] as unknown[]).concat(objet['@type']);
+    return types.some((type) => typeof type === 'string' && TYPES_ARTICLE.test(type));
+  }) || null;
+};
+
+/**
+ * Nom d'auteur JSON-LD (chaîne, objet Person ou liste des deux)
+ */
+const jsonLdAuthor = (auteur: unknown): string | null => {
+  const noms = ([] as unknown[]).concat(auteur)
+    .map((valeur) => {
+      if (typeof valeur === 'string') {
+        return valeur;
+      }
+      const nom = valeur && typeof valeur === 'object'
+        ? (valeur as Record<string, unknown>).name
+        : null;
+      return typeof nom === 'string' ? nom : '';
+    })
+    .map(collapse)
+    .filter((nom) => nom.length > 0);
+
+  return noms.length > 0 ? noms.join(', ') : null;
+};
+
+/**
+ * Titre de la page, sans le nom du site ajouté dans la balise `<title>`
+ */
+const extractTitle = ($: CheerioAPI, jsonLd: Record<string, unknown> | null): string | null => {
+  const titre = metaContent($, ['meta[property="og:title"]', 'meta[name="twitter:title"]']);
+  if (titre) {
+    return titre;
+  }
+  if (typeof jsonLd?.headline === 'string' && jsonLd.headline.trim()) {
+    return collapse(jsonLd.headline);
+  }
+
+  const h1 = $('h1');
+  if (h1.length === 1 && collapse(h1.text())) {
+    return collapse(h1.text());
+  }
+
+  // « Titre de l'article | Nom du site » : la partie la plus longue est retenue
+  const parties = collapse($('title').first().text())
+    .split(/\s+[|\-–—·»]\s+/)
+    .filter((partie) => partie.length > 0);
+  return parties.length > 0
+    ? parties.reduce((longue, partie) => (partie.length > longue.length ? partie : longue))
+    : null;
+};
+
+/**
+ * Auteur de l'article (balises meta, JSON-LD puis signature visible)
+ */
+const extractAuthor = ($: CheerioAPI, jsonLd: Record<string, unknown> | null): string | null => {
+  const meta = metaContent($, ['meta[name="author"]', 'meta[property="article:author"]']);
+  // `article:author` contient souvent l'URL d'un profil plutôt qu'un nom
+  if (meta && !/^https?:\/\//.test(meta)) {
+    return meta;
+  }
+
+  const auteurJsonLd = jsonLdAuthor(jsonLd?.author);
+  if (auteurJsonLd) {
+    return auteurJsonLd;
+  }
+
+  const signature = $('[itemprop="author"], [rel="author"], .byline, .author').first();
+  const nom = collapse(signature.attr('content') || signature.text())
+    .replace(/^(par|by)\s+/i, '');
+  return nom && nom.length <= 100 ? nom : null;
+};
+
+/**
+ * Date de publication au format ISO 8601
+ */
+const extractPublishedDate = (
+  $: CheerioAPI,
+  jsonLd: Record<string, unknown> | null
+): string | null => {
+  const candidates = [
+    metaContent($, [
+      'meta[property="article:published_time"]',
+      'meta[itemprop="datePublished"]',
+      'meta[name="date"]',
+      'meta[name="pubdate"]',
+      'meta[name="publish-date"]',
+      'meta[name="DC.date.issued"]'
+    ]),
+    typeof jsonLd?.datePublished === 'string' ? jsonLd.datePublished : null,
+    $('time[itemprop="datePublished"]').attr('datetime'),
+    $('article time[datetime], time[datetime]').first().attr('datetime')
+  ];
+
+  for (const candidate of candidates) {
+    const date = candidate ? new Date(candidate) : null;
+    if (date && !Number.isNaN(date.getTime())) {
+      return date.toISOString();
+    }
+  }
+  return null;
+};
+
+/**
+ * URL canonique absolue (à défaut, l'URL de la page)
+ */
+const extractCanonicalUrl = ($: CheerioAPI, url?: string): string | null => {
+  const candidates = [
+    $('link[rel="canonical"]').attr('href'),
+    metaContent($, ['meta[property="og:url"]']),
+    url
+  ];
+
+  for (const candidate of candidates) {
+    if (!candidate) {
+      continue;
+    }
+    try {
+      return new URL(candidate.trim(), url).toString();
+    } catch {
+      // URL relative sans base ou mal formée : candidat suivant
+    }
+  }
+  return null;
+};
+
+/**
+ * Supprimer les éléments qui ne font pas partie du contenu (menus, bandeaux, commentaires...)
+ */
+const removeBoilerplate = ($: CheerioAPI): void => {
+  $('[class], [id]').each((_, el) => {
+    if (['html', 'body', 'main'].includes(el.name)) {
+      return;
+    }
+
+    const nom = classAndId(el);
+    if (CLASSES_PARASITES.test(nom) && !CLASSES_CONTENU.test(nom)) {
+      $(el).remove();
+    }
+  });
+
+  $(ELEMENTS_PARASITES).remove();
+  // L'en-tête du site est écarté, celui d'un article (titre, chapeau) est conservé
+  $('header').filter((_, el) => $(el).parents('article, main').length === 0).remove();
+};
+
+/**
+ * Attribuer un score aux conteneurs selon la densité de texte de leurs paragraphes
+ */
+const scoreCandidates = ($: CheerioAPI): Map<Element, number> => {
+  const scores = new Map<Element, number>();
+  const ajouter = (el: Element | undefined, points: number): void => {
+    if (!el || ['html', 'body'].includes(el.name)) {
+      return;
+    }
+    if (!scores.has(el)) {
+      scores.set(el, (SCORES_BALISES[el.name] || 0) + classWeight(el));
+    }
+    scores.set(el, (scores.get(el) as number) + points);
+  };
+
+  $('p, pre, blockquote, td, div, section').each((_, el) => {
+    // Une division sans bloc enfant est traitée comme un paragraphe
+    if (['div', 'section'].includes(el.name) && $(el).children(SELECTEUR_BLOCS).length > 0) {
+      return;
+    }
+
+    const texte = collapse($(el).text());
+    if (texte.length < LONGUEUR_MIN_PARAGRAPHE) {
+      return;
+    }
+
+    // Un point par paragraphe, par virgule et par tranche de 100 caractères (3 au plus)
+    const virgules = texte.split(',').length - 1;
+    const points = 1 + virgules + Math.min(Math.floor(texte.length / 100), 3);
+    const parent = $(el).parent().get(0);
+    ajouter(parent, points);
+    ajouter($(parent).parent().get(0), points / 2);
+  });
+
+  // Un conteneur riche en liens (menu, liste d'articles) est pénalisé
+  scores.forEach((score, el) => {
+    scores.set(el, score * (1 - linkDensity($, el)));
+  });
+
+  return scores;
+};
+
+/**
+ * Sélectionner le meilleur conteneur et les blocs voisins qui prolongent le contenu
+ */
+const selectContent = ($: CheerioAPI, scores: Map<Element, number>): Element[] => {
+  const [meilleur, meilleurScore] = [...scores.entries()].reduce(
+    (premier, candidat) => (candidat[1] > premier[1] ? candidat : premier),
+    [null, 0] as [Element | null, number]
+  );
+
+  if (!meilleur) {
+    const racine = $('body').get(0) || $.root().children().get(0);
+    return racine ? [racine] : [];
+  }
+
+  const seuil = Math.max(10, meilleurScore * 0.2);
+  return $(meilleur).parent().children().toArray().filter((voisin) => {
+    if (voisin === meilleur) {
+      return true;
+    }
+    if ((scores.get(voisin) || 0) >= seuil) {
+      return true;
+    }
+    return voisin.name === 'p'
+      && collapse($(voisin).text()).length > 80
+      && linkDensity($, voisin) < 0.25;
+  });
+};
+
+/**
+ * Retirer du contenu retenu les blocs composés surtout de liens
+ */
+const cleanContent = ($: CheerioAPI, contenu: Element[]): void => {
+  contenu.forEach((el) => {
+    $(el).find('div, section, ul, ol, table, figure').each((_, bloc) => {
+      const densite = linkDensity($, bloc);
+      if (densite > 0.5 || (densite > 0.2 && classWeight(bloc) < 0)) {
+        $(bloc).remove();
+      }
+    });
+  });
+};
+
+/**
+ * Convertir le contenu en texte : titres (préfixés de #), paragraphes et
+ * éléments de liste (préfixés de -) séparés par une ligne vide
+ */
+const serialize = (contenu: Element[]): string => {
+  const blocs: string[] = [];
+  let ligne = '';
+  let prefixe = '';
+
+  const terminer = (): void => {
+    const texte = collapse(ligne);
+    if (texte) {
+      blocs.push(prefixe + texte);
+    }
+    ligne = '';
+  };
+
+  const texteDe = (node: AnyNode): string => {
+    if (node.nodeType === 3) {
+      return node.data;
+    }
+    return isElement(node) ? node.children.map(texteDe).join('') : '';
+  };
+
+  const visiter = (node: AnyNode): void => {
+    if (node.nodeType === 3) {
+      ligne += node.data;
+      return;
+    }
+    if (!isElement(node)) {
+      return;
+    }
+
+    const nom = node.name;
+    if (nom === 'br' || nom === 'hr') {
+      terminer();
+    } else if (TITRES.has(nom)) {
+      terminer();
+      const titre = collapse(texteDe(node));
+      if (titre) {
+        blocs.push(`${'#'.repeat(Number(nom[1]))} ${titre}`);
+      }
+    } else if (nom === 'pre') {
+      // La mise en forme du code est conservée
+      terminer();
+      const code = texteDe(node).replace(/^\n+|\s+$/g, '');
+      if (code) {
+        blocs.push(code);
+      }
+    } else if (nom === 'li') {
+      terminer();
+      const precedent = prefixe;
+      prefixe = '- ';
+      node.children.forEach(visiter);
+      terminer();
+      prefixe = precedent;
+    } else if (BLOCS.has(nom)) {
+      terminer();
+      node.children.forEach(visiter);
+      terminer();
+    } else {
+      node.children.forEach(visiter);
+      if (nom === 'td' || nom === 'th') {
+        ligne += ' ';
+      }
+    }
+  };
+
+  contenu.forEach((el) => {
+    visiter(el);
+    terminer();
+  });
+
+  return blocs.join('\n\n');
+};
+
+/**
+ * Extraire le contenu principal d'une page HTML et ses métadonnées
+ * Les conteneurs sont notés selon la densité de texte et de liens de leurs
+ * paragraphes (approche de Readability) après suppression des éléments parasites.
+ */
+export const extractArticle = (html: string, url?: string): ExtractedArticle => {
+  const $ = load(html);
+
+  // Les métadonnées sont lues avant le nettoyage, qui supprime les scripts JSON-LD
+  const jsonLd = readJsonLd($);
+  const titre = extractTitle($, jsonLd);
+  const auteur = extractAuthor($, jsonLd);
+  const date_publication = extractPublishedDate($, jsonLd);
+  const url_canonique = extractCanonicalUrl($, url);
+
+  removeBoilerplate($);
+  const contenu = selectContent($, scoreCandidates($));
+  cleanContent($, contenu);
+
+  return {
+    titre,
+    auteur,
+    date_publication,
+    url_canonique,
+    texte: serialize(contenu)
+  };
+};
+
+/**
+ * Convertir un document HTML complet en texte, sans sélection du contenu
+ * principal (ex. chapitre d'un livre numérique)
+ */
+export const htmlToText = (html: string): string => {
+  const $ = load(html);
+  $('script, style, noscript, template, iframe, svg, canvas').remove();
+
+  const racine = $('body').get(0) || $.root().children().get(0);
+  return racine ? serialize([racine]) : '';
+};
+
+export default {
+  extractArticle,
+  htmlToText
+};
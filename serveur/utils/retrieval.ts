@@ -0,0 +1,69 @@
+import { PassageScore, SupportedLanguage } from '../types';
+import { tokenize } from './extractive';
+
+// Paramètres usuels du classement BM25 : saturation de la fréquence d'un mot
+// et normalisation par la longueur du passage
+const K1 = 1.2;
+const B = 0.75;
+
+// Les mots sont comparés sur leurs premières lettres, pour rapprocher les
+// formes d'un même mot (ex. « économie » et « économique »)
+const LONGUEUR_RACINE = 5;
+
+/**
+ * Mots significatifs d'un texte, réduits à leur racine
+ */
+const stems = (text: string, langue: SupportedLanguage): string[] => {
+  return tokenize(text, langue).map((mot) => mot.slice(0, LONGUEUR_RACINE));
+};
+
+/**
+ * Classer les passages d'un document selon leur pertinence pour une question (BM25)
+ * Seuls les passages contenant au moins un mot significatif de la question
+ * sont retournés, du plus pertinent au moins pertinent.
+ */
+export const rankPassages = (
+  passages: string[],
+  question: string,
+  langue: SupportedLanguage
+): PassageScore[] => {
+  const termes = [...new Set(stems(question, langue))];
+  if (termes.length === 0 || passages.length === 0) {
+    return [];
+  }
+
+  const documents = passages.map((passage) => {
+    const frequences = new Map<string, number>();
+    const mots = stems(passage, langue);
+    mots.forEach((mot) => frequences.set(mot, (frequences.get(mot) || 0) + 1));
+    return { frequences, longueur: mots.length };
+  });
+  const longueurMoyenne = documents.reduce((total, doc) => total + doc.longueur, 0)
+    / documents.length || 1;
+
+  // Rareté de chaque terme de la question dans l'ensemble des passages
+  const idf = new Map(termes.map((terme) => {
+    const avecTerme = documents.filter((doc) => doc.frequences.has(terme)).length;
+    return [terme, Math.log(1 + (documents.length - avecTerme + 0.5) / (avecTerme + 0.5))];
+  }));
+
+  return documents
+    .map((doc, index) => {
+      const score = termes.reduce((total, terme) => {
+        const frequence = doc.frequences.get(terme) || 0;
+        if (frequence === 0) {
+          return total;
+        }
+        const normalisation = K1 * (1 - B + (B * doc.longueur) / longueurMoyenne);
+        const saturation = (frequence * (K1 + 1)) / (frequence + normalisation);
+        return total + (idf.get(terme) as number) * saturation;
+      }, 0);
+      return { index, score };
+    })
+    .filter((passage) => passage.score > 0)
+    .sort((a, b) => b.score - a.score || a.index - b.index);
+};
+
+export default {
+  rankPassages
+};
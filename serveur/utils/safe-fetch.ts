@@ -0,0 +1,347 @@
+import http from 'http';
+import https from 'https';
+import dns from 'dns';
+import net from 'net';
+import zlib from 'zlib';
+import type { Readable, Transform } from 'stream';
+import { AppError, SafeFetchOptions, SafeFetchResponse } from '../types';
+import config from '../config/config';
+
+// Plages non routables sur Internet : réseau local, boucle locale, lien local
+// (dont les métadonnées cloud 169.254.169.254), partage d'adresses, documentation, multicast,
+// et plages IPv6 qui encapsulent une adresse IPv4 (Teredo, 6to4, IPv4 compatible)
+const PLAGES_BLOQUEES: Array<[string, number, 'ipv4' | 'ipv6']> = [
+  ['0.0.0.0', 8, 'ipv4'],
+  ['10.0.0.0', 8, 'ipv4'],
+  ['100.64.0.0', 10, 'ipv4'],
+  ['127.0.0.0', 8, 'ipv4'],
+  ['169.254.0.0', 16, 'ipv4'],
+  ['172.16.0.0', 12, 'ipv4'],
+  ['192.0.0.0', 24, 'ipv4'],
+  ['192.0.2.0', 24, 'ipv4'],
+  ['192.168.0.0', 16, 'ipv4'],
+  ['198.18.0.0', 15, 'ipv4'],
+  ['198.51.100.0', 24, 'ipv4'],
+  ['203.0.113.0', 24, 'ipv4'],
+  ['224.0.0.0', 4, 'ipv4'],
+  ['240.0.0.0', 4, 'ipv4'],
+  ['::', 96, 'ipv6'],
+  ['::1', 128, 'ipv6'],
+  ['64:ff9b::', 96, 'ipv6'],
+  ['100::', 64, 'ipv6'],
+  ['2001::', 32, 'ipv6'],
+  ['2001:db8::', 32, 'ipv6'],
+  ['2002::', 16, 'ipv6'],
+  ['fc00::', 7, 'ipv6'],
+  ['fe80::', 10, 'ipv6'],
+  ['ff00::', 8, 'ipv6']
+];
+
+const ADRESSES_BLOQUEES = new net.BlockList();
+PLAGES_BLOQUEES.forEach(([adresse, prefixe, type]) => {
+  ADRESSES_BLOQUEES.addSubnet(adresse, prefixe, type);
+});
+
+const CODES_REDIRECTION = new Set([301, 302, 303, 307, 308]);
+
+const USER_AGENT = 'Mozilla/5.0 (compatible; ApplicationResume/1.0)';
+
+/**
+ * Vérifier qu'une adresse IP est publique (routable sur Internet)
+ */
+export const isPublicAddress = (adresse: string): boolean => {
+  const version = net.isIP(adresse);
+  if (version === 0) {
+    return false;
+  }
+
+  // Adresse IPv4 encapsulée dans une adresse IPv6 (::ffff:127.0.0.1), vérifiée
+  // comme IPv4 : le BlockList appliquerait sinon les règles IPv6 à toutes les IPv4
+  const ipv4 = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(adresse);
+  if (ipv4) {
+    return isPublicAddress(ipv4[1]);
+  }
+  if (/^::ffff:/i.test(adresse)) {
+    return false;
+  }
+
+  return !ADRESSES_BLOQUEES.check(adresse, version === 4 ? 'ipv4' : 'ipv6');
+};
+
+/**
+ * Résolution DNS refusant les adresses internes
+ * Utilisée par la connexion elle-même : l'adresse vérifiée est celle contactée,
+ * ce qui empêche un changement de résolution entre la vérification et la requête.
+ */
+const safeLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, adresses) => {
+    if (error) {
+      callback(error, '');
+      return;
+    }
+
+    if (adresses.length === 0 || adresses.some(({ address }) => !isPublicAddress(address))) {
+      callback(new AppError('Adresse non autorisée', 400), '');
+      return;
+    }
+
+    if (options.all) {
+      callback(null, adresses);
+    } else {
+      callback(null, adresses[0].address, adresses[0].family);
+    }
+  });
+};
+
+// Utilitaires pour la récupération des ressources distantes
+const fetchUtils = {
+  /**
+   * Valider une adresse avant de s'y connecter (protocole et IP littérale)
+   */
+  parseUrl(url: string): URL {
+    let adresse: URL;
+    try {
+      adresse = new URL(url);
+    } catch {
+      throw new AppError('URL invalide', 400);
+    }
+
+    if (!['http:', 'https:'].includes(adresse.protocol)) {
+      throw new AppError('Seules les adresses HTTP et HTTPS sont acceptées', 400);
+    }
+
+    // Une IP littérale n'est pas résolue : elle est vérifiée directement
+    const hote = adresse.hostname.replace(/^\[|\]$/g, '');
+    if (net.isIP(hote) && !isPublicAddress(hote)) {
+      throw new AppError('Adresse non autorisée', 400);
+    }
+
+    return adresse;
+  },
+
+  /**
+   * Envoyer la requête et attendre les en-têtes de la réponse
+   */
+  request(
+    adresse: URL,
+    signal: AbortSignal,
+    entetes: Record<string, string> = {}
+  ): Promise<http.IncomingMessage> {
+    return new Promise((resolve, reject) => {
+      const client = adresse.protocol === 'https:' ? https : http;
+      const requete = client.request(adresse, {
+        method: 'GET',
+        headers: {
+          'User-Agent': USER_AGENT,
+          Accept: 'text/html,application/xhtml+xml,text/plain;q=0.9,*/*;q=0.8',
+          ...entetes,
+          'Accept-Encoding': 'gzip, deflate, br'
+        },
+        lookup: safeLookup,
+        signal
+      }, resolve);
+
+      requete.on('error', reject);
+      requete.end();
+    });
+  },
+
+  /**
+   * Lire le corps décompressé en s'arrêtant dès que la taille maximale est dépassée
+   * (y compris pour une archive compressée de petite taille)
+   */
+  readBody(reponse: http.IncomingMessage, tailleMax: number): Promise<Buffer> {
+    const decompressions: Record<string, () => Transform> = {
+      gzip: zlib.createGunzip,
+      'x-gzip': zlib.createGunzip,
+      deflate: zlib.createInflate,
+      br: zlib.createBrotliDecompress
+    };
+    const encodage = String(reponse.headers['content-encoding'] || '').toLowerCase();
+    const decompression = decompressions[encodage];
+    const flux: Readable = decompression ? reponse.pipe(decompression()) : reponse;
+
+    return new Promise((resolve, reject) => {
+      const morceaux: Buffer[] = [];
+      let taille = 0;
+
+      flux.on('data', (morceau: Buffer) => {
+        taille += morceau.length;
+        if (taille > tailleMax) {
+          reponse.destroy();
+          flux.destroy();
+          reject(new AppError('Contenu distant trop volumineux', 413));
+          return;
+        }
+        morceaux.push(morceau);
+      });
+      flux.on('end', () => resolve(Buffer.concat(morceaux)));
+      flux.on('error', reject);
+      if (flux !== reponse) {
+        reponse.on('error', reject);
+      }
+      // Connexion coupée (ex. délai dépassé) avant la fin du corps
+      reponse.on('close', () => {
+        if (!reponse.complete) {
+          reject(new Error('Réponse interrompue'));
+        }
+      });
+    });
+  },
+
+  /**
+   * Vérifier le statut, le type et la taille annoncée avant de lire le corps
+   */
+  checkResponse(
+    reponse: http.IncomingMessage,
+    typeContenu: string,
+    tailleMax: number,
+    typesAcceptes?: string[]
+  ): void {
+    const statut = reponse.statusCode || 0;
+    if (statut < 200 || statut >= 300) {
+      throw new AppError(`L'adresse distante a répondu avec le statut ${statut}`, 502);
+    }
+
+    if (typesAcceptes && !typesAcceptes.includes(typeContenu)) {
+      throw new AppError(`Type de contenu non pris en charge : ${typeContenu || 'inconnu'}`, 415);
+    }
+
+    const tailleAnnoncee = parseInt(String(reponse.headers['content-length'] || '0'), 10);
+    if (tailleAnnoncee > tailleMax) {
+      throw new AppError('Contenu distant trop volumineux', 413);
+    }
+  }
+};
+
+/**
+ * Récupérer une ressource distante fournie par un utilisateur
+ * Chaque saut de redirection est revalidé, et la récupération est bornée
+ * en durée et en taille.
+ */
+export const safeFetch = async (
+  url: string,
+  options: SafeFetchOptions = {}
+): Promise<SafeFetchResponse> => {
+  const tailleMax = options.tailleMax ?? config.RECUPERATION_TAILLE_MAX;
+  const controller = new AbortController();
+  let delaiDepasse = false;
+
+  const minuterie = setTimeout(() => {
+    delaiDepasse = true;
+    controller.abort();
+  }, options.delaiMs ?? config.RECUPERATION_DELAI_MS);
+  const annuler = (): void => controller.abort();
+  if (options.signal?.aborted) {
+    annuler();
+  }
+  options.signal?.addEventListener('abort', annuler, { once: true });
+
+  try {
+    let adresse = fetchUtils.parseUrl(url);
+
+    for (let redirections = 0; ; redirections++) {
+      const reponse = await fetchUtils.request(adresse, controller.signal, options.entetes);
+      const location = reponse.headers.location;
+      const etag = reponse.headers.etag || null;
+      const derniereModification = reponse.headers['last-modified'] || null;
+
+      if (CODES_REDIRECTION.has(reponse.statusCode || 0) && location) {
+        reponse.resume();
+        if (redirections >= config.RECUPERATION_REDIRECTIONS_MAX) {
+          throw new AppError('Trop de redirections', 502);
+        }
+        adresse = fetchUtils.parseUrl(new URL(location, adresse).toString());
+        continue;
+      }
+
+      // Ressource inchangée depuis la requête conditionnelle précédente
+      if (reponse.statusCode === 304) {
+        reponse.resume();
+        return {
+          url: adresse.toString(),
+          statut: 304,
+          typeContenu: '',
+          charset: null,
+          etag,
+          derniereModification,
+          corps: Buffer.alloc(0)
+        };
+      }
+
+      const [type, ...parametres] = String(reponse.headers['content-type'] || '').split(';');
+      const typeContenu = type.trim().toLowerCase();
+      try {
+        fetchUtils.checkResponse(reponse, typeContenu, tailleMax, options.typesAcceptes);
+      } catch (error) {
+        reponse.destroy();
+        throw error;
+      }
+
+      const charset = parametres
+        .map((parametre) => parametre.trim().split('='))
+        .find(([nom]) => nom.toLowerCase() === 'charset');
+
+      return {
+        url: adresse.toString(),
+        statut: reponse.statusCode as number,
+        typeContenu,
+        charset: charset && charset[1] ? charset[1].replace(/"/g, '').trim().toLowerCase() : null,
+        etag,
+        derniereModification,
+        corps: await fetchUtils.readBody(reponse, tailleMax)
+      };
+    }
+  } catch (error) {
+    if (error instanceof AppError || options.signal?.aborted) {
+      throw error;
+    }
+    if (delaiDepasse) {
+      throw new AppError('Délai de récupération de l\'adresse dépassé', 504);
+    }
+    throw new AppError('Impossible de récupérer le contenu de l\'adresse', 502);
+  } finally {
+    clearTimeout(minuterie);
+    options.signal?.removeEventListener('abort', annuler);
+  }
+};
+
+/**
+ * Décoder un contenu texte selon le charset annoncé (en-tête HTTP, balise meta
+ * ou déclaration XML)
+ */
+export const decodeText = (reponse: SafeFetchResponse): string => {
+  const debut = reponse.corps.subarray(0, 1024).toString('latin1');
+  const declaration = /<meta[^>]+charset=["']?([\w-]+)|<\?xml[^>]+encoding=["']([\w-]+)/i.exec(debut);
+  const charset = reponse.charset
+    || (declaration ? (declaration[1] || declaration[2]).toLowerCase() : 'utf-8');
+
+  try {
+    return new TextDecoder(charset).decode(reponse.corps);
+  } catch {
+    // Charset inconnu : l'UTF-8 reste le plus probable
+    return new TextDecoder('utf-8').decode(reponse.corps);
+  }
+};
+
+/**
+ * Récupérer une ressource distante sous forme de texte
+ */
+export const fetchText = async (
+  url: string,
+  options: SafeFetchOptions = {}
+): Promise<{ url: string; typeContenu: string; texte: string }> => {
+  const reponse = await safeFetch(url, options);
+  return {
+    url: reponse.url,
+    typeContenu: reponse.typeContenu,
+    texte: decodeText(reponse)
+  };
+};
+
+export default {
+  isPublicAddress,
+  safeFetch,
+  decodeText,
+  fetchText
+};
@@ -0,0 +1,68 @@
+import type { Response } from 'express';
+
+// Intervalle des commentaires de maintien de connexion (évite la coupure par les proxys)
+const INTERVALLE_PING_MS = 15000;
+
+/**
+ * Flux Server-Sent Events ouvert sur une réponse HTTP
+ */
+export interface EventStream {
+  // Interrompu lorsque le client se déconnecte avant la fin du flux
+  signal: AbortSignal;
+  send(event: string, data: unknown): void;
+  close(): void;
+}
+
+/**
+ * Ouvre un flux Server-Sent Events sur la réponse
+ */
+export const openEventStream = (
+  res: Response,
+  intervallePing: number = INTERVALLE_PING_MS
+): EventStream => {
+  const controller = new AbortController();
+
+  res.status(200);
+  res.set({
+    'Content-Type': 'text/event-stream; charset=utf-8',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    // Désactive la mise en mémoire tampon de nginx
+    'X-Accel-Buffering': 'no'
+  });
+  res.flushHeaders();
+
+  const ping = setInterval(() => {
+    res.write(': ping\n\n');
+  }, intervallePing);
+
+  // `close` est aussi émis après `end()` : seule une fermeture prématurée interrompt le flux
+  res.on('close', () => {
+    clearInterval(ping);
+    if (!res.writableEnded) {
+      controller.abort();
+    }
+  });
+
+  return {
+    signal: controller.signal,
+
+    send(event: string, data: unknown): void {
+      if (controller.signal.aborted || res.writableEnded) {
+        return;
+      }
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    },
+
+    close(): void {
+      clearInterval(ping);
+      if (!controller.signal.aborted && !res.writableEnded) {
+        res.end();
+      }
+    }
+  };
+};
+
+export default {
+  openEventStream
+};
@@ -0,0 +1,278 @@
+import { ResumeTag, SupportedLanguage, TagType, Theme } from '../types';
+import { LANGUES } from '../config/langues';
+import { splitSentences, tokenize } from './extractive';
+
+// Types d'étiquettes, acceptés dans les filtres
+export const TYPES_TAGS: TagType[] = [
+  'mot_cle', 'personne', 'organisation', 'lieu', 'theme', 'utilisateur'
+];
+
+// Seul le début des très longs documents est analysé
+const CARACTERES_ANALYSES = 100000;
+
+// Nombre de termes les plus fréquents d'un document candidats au statut de mot-clé
+const TERMES_CANDIDATS = 50;
+
+// Longueur maximale d'une étiquette (mot-clé ou nom propre)
+const LONGUEUR_LIBELLE_MAX = 100;
+
+// Nombre minimal de mots d'un thème pour qu'il soit attribué au document
+const OCCURRENCES_THEME_MIN = 3;
+
+// Mots de liaison admis à l'intérieur d'un nom propre (ex. « Banque de France »)
+const CONNECTEURS = new Set([
+  'de', 'du', 'des', 'la', 'le', 'les', 'el', 'del', 'della', 'di', 'da', 'do', 'dos', 'das',
+  'von', 'van', 'of', 'the', 'y'
+]);
+
+// Mot commençant par une majuscule, et sigle (ex. « ONU »)
+const NOM_PROPRE = /^\p{Lu}[\p{L}\p{M}'’.-]*$/u;
+const SIGLE = /^\p{Lu}{2,}$/u;
+
+// Entité nommée repérée dans le texte et indices de sa nature
+interface EntityCandidate {
+  occurrences: number;
+  indices: Record<'personne' | 'organisation' | 'lieu', number>;
+}
+
+/**
+ * Mot débarrassé de la ponctuation qui l'entoure et de l'élision qui le
+ * précède (ex. « l'Union » → « Union », « (Paris), » → « Paris »)
+ */
+const cleanWord = (mot: string): string => mot
+  .replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}.]+$/gu, '')
+  .replace(/^\p{Ll}{1,4}['’](?=\p{Lu})/u, '')
+  .replace(/['’]s$/u, '')
+  .replace(/\.$/u, '');
+
+/**
+ * Un mot suivi d'une ponctuation termine un nom propre
+ */
+const endsGroup = (mot: string): boolean => /[,;:!?)\]»"”]$|\.$/u.test(mot);
+
+/**
+ * Fréquence des mots significatifs d'un texte
+ */
+export const termFrequencies = (text: string, langue: SupportedLanguage): Map<string, number> => {
+  const frequences = new Map<string, number>();
+  tokenize(text.slice(0, CARACTERES_ANALYSES), langue)
+    .filter((mot) => mot.length <= LONGUEUR_LIBELLE_MAX && !/^\p{N}+$/u.test(mot))
+    .forEach((mot) => frequences.set(mot, (frequences.get(mot) || 0) + 1));
+  return frequences;
+};
+
+/**
+ * Termes les plus fréquents d'un document, candidats au statut de mot-clé
+ */
+export const topTerms = (frequences: Map<string, number>): string[] => {
+  return [...frequences]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, TERMES_CANDIDATS)
+    .map(([terme]) => terme);
+};
+
+/**
+ * Mots-clés d'un document par TF-IDF sur le corpus de l'utilisateur
+ * `corpus.frequences` donne, pour chaque terme candidat, le nombre de
+ * documents du corpus (celui-ci compris) qui le contiennent : un terme
+ * fréquent dans le document mais rare dans le corpus le caractérise le mieux.
+ */
+export const scoreKeywords = (
+  frequences: Map<string, number>,
+  corpus: { documents: number; frequences: Map<string, number> },
+  max: number
+): ResumeTag[] => {
+  const total = [...frequences.values()].reduce((somme, frequence) => somme + frequence, 0);
+  if (total === 0) {
+    return [];
+  }
+
+  return topTerms(frequences)
+    .map((terme) => {
+      const documents = Math.max(corpus.frequences.get(terme) || 0, 1);
+      const idf = Math.log((1 + corpus.documents) / (1 + documents)) + 1;
+      const tf = (frequences.get(terme) as number) / total;
+      const score = Math.round(tf * idf * 10000) / 10000;
+      return { libelle: terme, type: 'mot_cle' as const, score };
+    })
+    .sort((a, b) => b.score - a.score || a.libelle.localeCompare(b.libelle))
+    .slice(0, max);
+};
+
+/**
+ * Repérer les entités nommées (personnes, organisations, lieux) d'un texte
+ * Les noms propres sont repérés à leurs majuscules, puis classés d'après les
+ * indices du registre des langues : titre qui précède (« M. », « Dr »), mot
+ * propre aux organisations (« Banque », « Inc ») ou sigle, préposition de lieu
+ * (« à », « in »). Un nom de plusieurs mots sans autre indice est considéré
+ * comme celui d'une personne ; un mot isolé sans indice est ignoré. Les
+ * langues sans majuscules (arabe) n'ont pas d'entités.
+ */
+export const extractEntities = (
+  text: string,
+  langue: SupportedLanguage,
+  max: number
+): ResumeTag[] => {
+  const { entites, motsVides } = LANGUES[langue];
+  const titres = new Set(entites.titres);
+  const organisations = new Set(entites.organisations);
+  const lieux = new Set(entites.lieux);
+  const vides = new Set(motsVides);
+  const extrait = text.slice(0, CARACTERES_ANALYSES);
+
+  // Mots écrits aussi en minuscules : en début de phrase, ce ne sont pas des noms propres
+  const minuscules = new Set(
+    extrait.split(/\s+/).map(cleanWord).filter((mot) => /^\p{Ll}/u.test(mot))
+  );
+  const estCommun = (mot: string): boolean => {
+    const minuscule = mot.toLowerCase();
+    return vides.has(minuscule) || CONNECTEURS.has(minuscule) || lieux.has(minuscule);
+  };
+
+  // Un titre commence un autre nom (ex. « Selon M. Dupont »)
+  const estNom = (mot: string): boolean => (
+    NOM_PROPRE.test(cleanWord(mot)) && !titres.has(cleanWord(mot).toLowerCase())
+  );
+
+  const candidats = new Map<string, EntityCandidate>();
+
+  splitSentences(extrait, langue).forEach((phrase) => {
+    const mots = phrase.split(/\s+/);
+    let i = 0;
+
+    while (i < mots.length) {
+      if (!NOM_PROPRE.test(cleanWord(mots[i]))) {
+        i++;
+        continue;
+      }
+
+      // Mots suivants du nom, éventuellement reliés par un mot de liaison
+      let fin = i;
+      while (fin + 1 < mots.length && !endsGroup(mots[fin])) {
+        if (estNom(mots[fin + 1])) {
+          fin++;
+        } else if (
+          fin + 2 < mots.length
+          && CONNECTEURS.has(cleanWord(mots[fin + 1]))
+          && !endsGroup(mots[fin + 1])
+          && estNom(mots[fin + 2])
+        ) {
+          fin += 2;
+        } else {
+          break;
+        }
+      }
+
+      const noms = mots.slice(i, fin + 1).map(cleanWord);
+      let precedent = i > 0 ? cleanWord(mots[i - 1]).toLowerCase() : '';
+      const debutPhrase = i === 0;
+      i = fin + 1;
+
+      // Mots courants, titres et mots en début de phrase écartés du nom
+      let titre = titres.has(precedent);
+      while (noms.length > 0) {
+        const minuscule = noms[0].toLowerCase();
+        if (titres.has(minuscule)) {
+          titre = true;
+        } else if (!estCommun(noms[0]) && !(debutPhrase && minuscules.has(minuscule))) {
+          break;
+        }
+        precedent = minuscule;
+        noms.shift();
+      }
+      while (noms.length > 0 && CONNECTEURS.has(noms[noms.length - 1].toLowerCase())) {
+        noms.pop();
+      }
+      if (noms.length === 0 || noms.join(' ').length > LONGUEUR_LIBELLE_MAX) {
+        continue;
+      }
+
+      const nom = noms.join(' ');
+      const candidat = candidats.get(nom) || {
+        occurrences: 0,
+        indices: { personne: 0, organisation: 0, lieu: 0 }
+      };
+      candidat.occurrences++;
+
+      const organisation = noms.some((mot) => organisations.has(mot.toLowerCase()));
+      if (organisation || (noms.length === 1 && SIGLE.test(nom))) {
+        candidat.indices.organisation += 2;
+      } else if (titre) {
+        candidat.indices.personne += 2;
+      } else if (lieux.has(precedent)) {
+        candidat.indices.lieu += 2;
+      } else if (noms.filter((mot) => !CONNECTEURS.has(mot)).length > 1) {
+        candidat.indices.personne++;
+      }
+
+      candidats.set(nom, candidat);
+    }
+  });
+
+  const tags = new Map<string, ResumeTag & { score: number }>();
+  candidats.forEach(({ occurrences, indices }, libelle) => {
+    const [type, poids] = (Object.entries(indices) as Array<[TagType, number]>)
+      .sort((a, b) => b[1] - a[1])[0];
+    if (poids > 0) {
+      tags.set(libelle, { libelle, type, score: occurrences });
+    }
+  });
+
+  // Un nom de famille seul désigne la personne déjà nommée en entier (ex. « Biden »)
+  candidats.forEach(({ occurrences }, libelle) => {
+    if (tags.has(libelle) || libelle.includes(' ')) {
+      return;
+    }
+    const personne = [...tags.values()]
+      .find((tag) => tag.type === 'personne' && tag.libelle.endsWith(` ${libelle}`));
+    if (personne) {
+      personne.score += occurrences;
+    }
+  });
+
+  return [...tags.values()]
+    .sort((a, b) => b.score - a.score || a.libelle.localeCompare(b.libelle))
+    .slice(0, max);
+};
+
+/**
+ * Thème principal d'un document, d'après les mots caractéristiques de chaque
+ * thème dans le registre des langues
+ * Le score est la part du thème retenu parmi les mots de tous les thèmes.
+ */
+export const detectTheme = (
+  frequences: Map<string, number>,
+  langue: SupportedLanguage
+): ResumeTag | null => {
+  const themes = LANGUES[langue].themes;
+  const occurrences = (Object.keys(themes) as Theme[]).map((theme) => {
+    let total = 0;
+    frequences.forEach((frequence, mot) => {
+      if (themes[theme].some((racine) => mot.startsWith(racine))) {
+        total += frequence;
+      }
+    });
+    return { theme, total };
+  });
+
+  const total = occurrences.reduce((somme, theme) => somme + theme.total, 0);
+  const [principal] = occurrences.sort((a, b) => b.total - a.total);
+  if (!principal || principal.total < OCCURRENCES_THEME_MIN) {
+    return null;
+  }
+
+  return {
+    libelle: principal.theme,
+    type: 'theme',
+    score: Math.round((principal.total / total) * 100) / 100
+  };
+};
+
+export default {
+  TYPES_TAGS,
+  termFrequencies,
+  topTerms,
+  scoreKeywords,
+  extractEntities,
+  detectTheme
+};
@@ -0,0 +1,197 @@
+import { SupportedLanguage, TranscriptCaption, TranscriptSegment } from '../types';
+import { tokenize } from './extractive';
+
+// Durée des blocs de sous-titres comparés pour repérer les changements de sujet
+const BLOC_SECONDES = 30;
+
+// Nombre de blocs comparés de part et d'autre d'une frontière candidate
+const BLOCS_FENETRE = 2;
+
+// Durée minimale d'un chapitre découpé par sujet
+const DUREE_MIN_CHAPITRE = 60;
+
+/**
+ * Normaliser les sous-titres retournés par youtube-captions-scraper
+ * (début et durée fournis en chaînes de caractères)
+ */
+export const normalizeCaptions = (
+  sousTitres: Array<{ start: string | number; dur: string | number; text: string }>
+): TranscriptCaption[] => {
+  return sousTitres
+    .map((sousTitre) => ({
+      debut: Number(sousTitre.start) || 0,
+      duree: Number(sousTitre.dur) || 0,
+      texte: sousTitre.text.replace(/\s+/g, ' ').trim()
+    }))
+    .filter((sousTitre) => sousTitre.texte.length > 0)
+    .sort((a, b) => a.debut - b.debut);
+};
+
+/**
+ * Horodatage `hh:mm:ss` d'une position en secondes
+ */
+export const formatTimestamp = (secondes: number): string => {
+  const total = Math.max(0, Math.floor(secondes));
+  return [Math.floor(total / 3600), Math.floor((total % 3600) / 60), total % 60]
+    .map((valeur) => String(valeur).padStart(2, '0'))
+    .join(':');
+};
+
+/**
+ * Regrouper des sous-titres consécutifs en segments, coupés avant les indices donnés
+ */
+const buildSegments = (
+  sousTitres: TranscriptCaption[],
+  coupures: number[]
+): TranscriptSegment[] => {
+  const bornes = [0, ...coupures, sousTitres.length];
+  return bornes.slice(0, -1).map((debut, index) => {
+    const groupe = sousTitres.slice(debut, bornes[index + 1]);
+    const dernier = groupe[groupe.length - 1];
+    return {
+      debut: groupe[0].debut,
+      fin: dernier.debut + dernier.duree,
+      texte: groupe.map((sousTitre) => sousTitre.texte).join(' ')
+    };
+  });
+};
+
+/**
+ * Découper une transcription en fenêtres de durée fixe
+ * La fenêtre est élargie si nécessaire pour ne pas dépasser `maxSegments`.
+ */
+export const segmentByDuration = (
+  sousTitres: TranscriptCaption[],
+  dureeSecondes: number,
+  maxSegments: number
+): TranscriptSegment[] => {
+  if (sousTitres.length === 0) {
+    return [];
+  }
+
+  const dernier = sousTitres[sousTitres.length - 1];
+  const fenetre = Math.max(dureeSecondes, Math.ceil((dernier.debut + dernier.duree) / maxSegments));
+  const coupures: number[] = [];
+  sousTitres.forEach((sousTitre, index) => {
+    const numero = Math.floor(sousTitre.debut / fenetre);
+    if (index > 0 && numero > Math.floor(sousTitres[index - 1].debut / fenetre)) {
+      coupures.push(index);
+    }
+  });
+
+  return buildSegments(sousTitres, coupures);
+};
+
+/**
+ * Similarité cosinus entre deux sacs de mots
+ */
+const cosine = (a: Map<string, number>, b: Map<string, number>): number => {
+  let produit = 0;
+  a.forEach((occurrences, mot) => {
+    produit += occurrences * (b.get(mot) || 0);
+  });
+
+  const norme = (sac: Map<string, number>): number => (
+    Math.sqrt([...sac.values()].reduce((total, occurrences) => total + occurrences ** 2, 0))
+  );
+  const normes = norme(a) * norme(b);
+  return normes > 0 ? produit / normes : 0;
+};
+
+/**
+ * Sac de mots de plusieurs blocs
+ */
+const bagOfWords = (blocs: string[][]): Map<string, number> => {
+  const sac = new Map<string, number>();
+  blocs.flat().forEach((mot) => sac.set(mot, (sac.get(mot) || 0) + 1));
+  return sac;
+};
+
+/**
+ * Découper une transcription aux changements de sujet (méthode TextTiling)
+ * Les sous-titres sont regroupés en blocs de `BLOC_SECONDES` ; le vocabulaire
+ * des blocs situés de part et d'autre de chaque frontière est comparé, et les
+ * creux de similarité les plus marqués deviennent des coupures, en respectant
+ * une durée minimale par chapitre et au plus `maxSegments` chapitres.
+ */
+export const segmentByTopic = (
+  sousTitres: TranscriptCaption[],
+  langue: SupportedLanguage,
+  maxSegments: number
+): TranscriptSegment[] => {
+  if (sousTitres.length === 0) {
+    return [];
+  }
+
+  // Blocs : indice du premier sous-titre et mots significatifs
+  const blocs: Array<{ index: number; mots: string[] }> = [];
+  sousTitres.forEach((sousTitre, index) => {
+    const numero = Math.floor(sousTitre.debut / BLOC_SECONDES);
+    const courant = blocs[blocs.length - 1];
+    if (!courant || Math.floor(sousTitres[courant.index].debut / BLOC_SECONDES) !== numero) {
+      blocs.push({ index, mots: [] });
+    }
+    blocs[blocs.length - 1].mots.push(...tokenize(sousTitre.texte, langue));
+  });
+
+  // Similarité à chaque frontière entre deux blocs
+  const similarites = blocs.slice(1).map((_, position) => {
+    const frontiere = position + 1;
+    const avant = blocs.slice(Math.max(0, frontiere - BLOCS_FENETRE), frontiere);
+    const apres = blocs.slice(frontiere, frontiere + BLOCS_FENETRE);
+    return cosine(
+      bagOfWords(avant.map((bloc) => bloc.mots)),
+      bagOfWords(apres.map((bloc) => bloc.mots))
+    );
+  });
+  if (similarites.length === 0) {
+    return buildSegments(sousTitres, []);
+  }
+
+  // Profondeur du creux : écart avec les sommets les plus proches de chaque côté
+  const profondeurs = similarites.map((similarite, position) => {
+    let gauche = similarite;
+    for (let i = position - 1; i >= 0 && similarites[i] >= gauche; i--) {
+      gauche = similarites[i];
+    }
+    let droite = similarite;
+    for (let i = position + 1; i < similarites.length && similarites[i] >= droite; i++) {
+      droite = similarites[i];
+    }
+    return (gauche - similarite) + (droite - similarite);
+  });
+
+  const moyenne = profondeurs.reduce((total, profondeur) => total + profondeur, 0)
+    / profondeurs.length;
+  const ecartType = Math.sqrt(profondeurs.reduce(
+    (total, profondeur) => total + (profondeur - moyenne) ** 2,
+    0
+  ) / profondeurs.length);
+  const seuil = moyenne - ecartType / 2;
+
+  // Les creux les plus profonds d'abord, tant que les chapitres restent assez longs
+  const dernier = sousTitres[sousTitres.length - 1];
+  const bornes = [sousTitres[0].debut, dernier.debut + dernier.duree];
+  const coupures: number[] = [];
+  profondeurs
+    .map((profondeur, position) => ({ profondeur, bloc: blocs[position + 1] }))
+    .filter(({ profondeur }) => profondeur > 0 && profondeur >= seuil)
+    .sort((a, b) => b.profondeur - a.profondeur)
+    .forEach(({ bloc }) => {
+      const debut = sousTitres[bloc.index].debut;
+      const assezLoin = bornes.every((borne) => Math.abs(borne - debut) >= DUREE_MIN_CHAPITRE);
+      if (coupures.length < maxSegments - 1 && assezLoin) {
+        coupures.push(bloc.index);
+        bornes.push(debut);
+      }
+    });
+
+  return buildSegments(sousTitres, coupures.sort((a, b) => a - b));
+};
+
+export default {
+  normalizeCaptions,
+  formatTimestamp,
+  segmentByDuration,
+  segmentByTopic
+};
@@ -0,0 +1,117 @@
+import crypto from 'crypto';
+import config from '../config/config';
+
+// Paramètres du chiffrement authentifié (AES-256-GCM)
+const ALGORITHME = 'aes-256-gcm';
+const LONGUEUR_CLE = 32;
+const LONGUEUR_IV = 12;
+const PREFIXE_VERSION = 'v1';
+
+/**
+ * Formats de stockage possibles pour `mots_de_passe.mot_de_passe_crypte`
+ * - `v1` : chiffré avec la clé propre à l'utilisateur (format actuel)
+ * - `legacy_gcm` : chiffré avec la clé globale des anciennes routes JavaScript
+ * - `bcrypt` : simple hash, le mot de passe d'origine est irrécupérable
+ */
+export type VaultFormat = 'v1' | 'legacy_gcm' | 'bcrypt';
+
+/**
+ * Génère un sel aléatoire pour la dérivation de la clé d'un utilisateur
+ */
+export const generateVaultSalt = (): string => {
+  return crypto.randomBytes(16).toString('hex');
+};
+
+/**
+ * Dérive la clé de chiffrement d'un utilisateur à partir de son code PIN.
+ * Le secret serveur empêche une attaque exhaustive sur les PIN à partir
+ * d'une simple copie de la base de données.
+ */
+export const deriveVaultKey = (codePin: string, sel: string): Promise<Buffer> => {
+  return new Promise((resolve, reject) => {
+    crypto.scrypt(
+      `${codePin}:${config.VAULT_SECRET}`,
+      Buffer.from(sel, 'hex'),
+      LONGUEUR_CLE,
+      (error, cle) => (error ? reject(error) : resolve(cle))
+    );
+  });
+};
+
+/**
+ * Chiffre un secret avec la clé d'un utilisateur
+ * Format : v1:<iv>:<texte chiffré>:<tag>, encodés en base64
+ */
+export const encryptSecret = (texte: string, cle: Buffer): string => {
+  const iv = crypto.randomBytes(LONGUEUR_IV);
+  const cipher = crypto.createCipheriv(ALGORITHME, cle, iv);
+  const chiffre = Buffer.concat([cipher.update(texte, 'utf8'), cipher.final()]);
+  const tag = cipher.getAuthTag();
+
+  return [
+    PREFIXE_VERSION,
+    iv.toString('base64'),
+    chiffre.toString('base64'),
+    tag.toString('base64')
+  ].join(':');
+};
+
+/**
+ * Déchiffre un secret produit par `encryptSecret`
+ * Lève une erreur si la clé est incorrecte ou si la donnée a été altérée
+ */
+export const decryptSecret = (payload: string, cle: Buffer): string => {
+  const [version, ivB64, chiffreB64, tagB64] = payload.split(':');
+  if (version !== PREFIXE_VERSION || !ivB64 || !chiffreB64 || !tagB64) {
+    throw new Error('Format de chiffrement non supporté');
+  }
+
+  const decipher = crypto.createDecipheriv(ALGORITHME, cle, Buffer.from(ivB64, 'base64'));
+  decipher.setAuthTag(Buffer.from(tagB64, 'base64'));
+
+  return Buffer.concat([
+    decipher.update(Buffer.from(chiffreB64, 'base64')),
+    decipher.final()
+  ]).toString('utf8');
+};
+
+/**
+ * Déchiffre un secret stocké par les anciennes routes JavaScript
+ * (clé globale dérivée de JWT_SECRET, format iv:chiffre:tag en hexadécimal)
+ */
+export const decryptLegacySecret = (payload: string): string => {
+  const [ivHex, chiffreHex, tagHex] = payload.split(':');
+  const cle = crypto.scryptSync(config.JWT_SECRET, 'sel', LONGUEUR_CLE);
+  const decipher = crypto.createDecipheriv(ALGORITHME, cle, Buffer.from(ivHex, 'hex'));
+  decipher.setAuthTag(Buffer.from(tagHex, 'hex'));
+
+  return Buffer.concat([
+    decipher.update(Buffer.from(chiffreHex, 'hex')),
+    decipher.final()
+  ]).toString('utf8');
+};
+
+/**
+ * Détermine le format d'une valeur stockée
+ */
+export const detectVaultFormat = (payload: string): VaultFormat => {
+  if (payload.startsWith(`${PREFIXE_VERSION}:`)) {
+    return 'v1';
+  }
+  if (/^\$2[aby]?\$\d{2}\$/.test(payload)) {
+    return 'bcrypt';
+  }
+  if (/^[0-9a-f]+:[0-9a-f]*:[0-9a-f]+$/i.test(payload)) {
+    return 'legacy_gcm';
+  }
+  return 'bcrypt';
+};
+
+export default {
+  generateVaultSalt,
+  deriveVaultKey,
+  encryptSecret,
+  decryptSecret,
+  decryptLegacySecret,
+  detectVaultFormat
+};
@@ -0,0 +1,117 @@
+import { CaptionTrack, SupportedLanguage } from '../types';
+import { LANGUES } from '../config/langues';
+import { fetchText } from './safe-fetch';
+
+// Langue de repli des sous-titres, la plus répandue sur YouTube
+const LANGUE_REPLI = 'en';
+
+interface RawCaptionTrack {
+  languageCode?: string;
+  kind?: string;
+  vssId?: string;
+  name?: { simpleText?: string; runs?: Array<{ text?: string }> };
+}
+
+/**
+ * Extraire le tableau JSON qui suit une clé dans le code de la page
+ * (le tableau peut contenir des tableaux et des chaînes avec des crochets)
+ */
+const extractJsonArray = (page: string, cle: string): string | null => {
+  const debut = page.indexOf(`"${cle}":[`);
+  if (debut < 0) {
+    return null;
+  }
+
+  const ouverture = debut + cle.length + 3;
+  let profondeur = 0;
+  let dansChaine = false;
+  for (let position = ouverture; position < page.length; position++) {
+    const caractere = page[position];
+    if (dansChaine) {
+      if (caractere === '\\') {
+        position++;
+      } else if (caractere === '"') {
+        dansChaine = false;
+      }
+    } else if (caractere === '"') {
+      dansChaine = true;
+    } else if (caractere === '[') {
+      profondeur++;
+    } else if (caractere === ']' && --profondeur === 0) {
+      return page.slice(ouverture, position + 1);
+    }
+  }
+  return null;
+};
+
+/**
+ * Lister les pistes de sous-titres déclarées dans la page d'une vidéo
+ */
+export const parseCaptionTracks = (page: string): CaptionTrack[] => {
+  const json = extractJsonArray(page, 'captionTracks');
+  if (!json) {
+    return [];
+  }
+
+  let pistes: RawCaptionTrack[];
+  try {
+    pistes = JSON.parse(json) as RawCaptionTrack[];
+  } catch {
+    return [];
+  }
+
+  return pistes
+    .filter((piste) => piste.languageCode)
+    .map((piste) => ({
+      langue: piste.languageCode as string,
+      nom: piste.name?.simpleText
+        || piste.name?.runs?.map((run) => run.text || '').join('')
+        || null,
+      automatique: piste.kind === 'asr' || Boolean(piste.vssId?.startsWith('a.'))
+    }));
+};
+
+/**
+ * Choisir la piste de sous-titres à résumer
+ * Ordre de préférence : langue demandée, puis anglais (sous-titres rédigés,
+ * puis générés automatiquement), puis n'importe quelle piste générée
+ * automatiquement, à défaut la première piste disponible.
+ */
+export const selectCaptionTrack = (
+  pistes: CaptionTrack[],
+  langue: SupportedLanguage
+): CaptionTrack | null => {
+  const dansLaLangue = (code: string) => (piste: CaptionTrack): boolean => (
+    piste.langue.toLowerCase().split('-')[0] === code
+  );
+
+  for (const code of [LANGUES[langue].sousTitres, LANGUE_REPLI]) {
+    const candidates = pistes.filter(dansLaLangue(code));
+    const piste = candidates.find(({ automatique }) => !automatique) || candidates[0];
+    if (piste) {
+      return piste;
+    }
+  }
+
+  return pistes.find(({ automatique }) => automatique) || pistes[0] || null;
+};
+
+/**
+ * Récupérer les pistes de sous-titres d'une vidéo (liste vide si elle n'en a aucune)
+ */
+export const fetchCaptionTracks = async (
+  videoId: string,
+  signal?: AbortSignal
+): Promise<CaptionTrack[]> => {
+  const page = await fetchText(`https://www.youtube.com/watch?v=${encodeURIComponent(videoId)}`, {
+    signal,
+    entetes: { 'Accept-Language': 'en' }
+  });
+  return parseCaptionTracks(page.texte);
+};
+
+export default {
+  parseCaptionTracks,
+  selectCaptionTrack,
+  fetchCaptionTracks
+};
@@ -0,0 +1,139 @@
+import zlib from 'zlib';
+import { AppError, ZipArchive } from '../types';
+import config from '../config/config';
+
+// Signatures des structures d'une archive ZIP
+const SIGNATURE_FIN_REPERTOIRE = 0x06054b50;
+const SIGNATURE_REPERTOIRE = 0x02014b50;
+const SIGNATURE_ENTREE = 0x04034b50;
+
+// Méthodes de compression prises en charge
+const METHODE_STOCKEE = 0;
+const METHODE_DEFLATE = 8;
+
+interface ZipEntry {
+  methode: number;
+  chiffree: boolean;
+  tailleCompressee: number;
+  position: number;
+}
+
+const invalide = (): AppError => new AppError('Archive ZIP invalide', 422);
+
+/**
+ * Lire le répertoire central de l'archive (liste des entrées et leur position)
+ */
+const readDirectory = (archive: Buffer): Map<string, ZipEntry> => {
+  // L'enregistrement de fin est suivi d'un commentaire de 65 535 octets au plus
+  const debutRecherche = Math.max(0, archive.length - 22 - 0xffff);
+  let fin = -1;
+  for (let position = archive.length - 22; position >= debutRecherche; position--) {
+    if (archive.readUInt32LE(position) === SIGNATURE_FIN_REPERTOIRE) {
+      fin = position;
+      break;
+    }
+  }
+  if (fin < 0) {
+    throw invalide();
+  }
+
+  const nombre = archive.readUInt16LE(fin + 10);
+  let position = archive.readUInt32LE(fin + 16);
+  const entrees = new Map<string, ZipEntry>();
+
+  for (let index = 0; index < nombre; index++) {
+    const tronquee = position + 46 > archive.length;
+    if (tronquee || archive.readUInt32LE(position) !== SIGNATURE_REPERTOIRE) {
+      throw invalide();
+    }
+
+    const longueurNom = archive.readUInt16LE(position + 28);
+    const nom = archive.toString('utf8', position + 46, position + 46 + longueurNom);
+    entrees.set(nom, {
+      methode: archive.readUInt16LE(position + 10),
+      chiffree: (archive.readUInt16LE(position + 8) & 1) === 1,
+      tailleCompressee: archive.readUInt32LE(position + 20),
+      position: archive.readUInt32LE(position + 42)
+    });
+
+    position += 46 + longueurNom
+      + archive.readUInt16LE(position + 30)
+      + archive.readUInt16LE(position + 32);
+  }
+
+  return entrees;
+};
+
+/**
+ * Ouvrir une archive ZIP en mémoire
+ * Seules les entrées lues sont décompressées, et le volume total décompressé
+ * est borné (`MAX_UNCOMPRESSED_SIZE`) : une archive piégée de petite taille
+ * ne peut pas saturer la mémoire.
+ */
+export const openZip = (
+  archive: Buffer,
+  tailleMax: number = config.MAX_UNCOMPRESSED_SIZE
+): ZipArchive => {
+  const entrees = archive.length >= 22 ? readDirectory(archive) : new Map<string, ZipEntry>();
+  if (entrees.size === 0) {
+    throw invalide();
+  }
+  let decompresse = 0;
+
+  const read = (nom: string): Buffer => {
+    const entree = entrees.get(nom);
+    if (!entree) {
+      throw new AppError(`Entrée absente de l'archive : ${nom}`, 422);
+    }
+    if (entree.chiffree) {
+      throw new AppError('Les archives chiffrées ne sont pas prises en charge', 422);
+    }
+
+    const { position } = entree;
+    if (position + 30 > archive.length || archive.readUInt32LE(position) !== SIGNATURE_ENTREE) {
+      throw invalide();
+    }
+    const debut = position + 30
+      + archive.readUInt16LE(position + 26)
+      + archive.readUInt16LE(position + 28);
+    const donnees = archive.subarray(debut, debut + entree.tailleCompressee);
+
+    const restant = tailleMax - decompresse;
+    let contenu: Buffer;
+    try {
+      if (entree.methode === METHODE_STOCKEE) {
+        contenu = donnees;
+      } else if (entree.methode === METHODE_DEFLATE) {
+        // La taille annoncée n'est pas fiable : la limite s'applique à la décompression
+        contenu = zlib.inflateRawSync(donnees, { maxOutputLength: Math.max(1, restant) });
+      } else {
+        throw new AppError('Méthode de compression non prise en charge', 422);
+      }
+    } catch (error) {
+      if (error instanceof AppError) {
+        throw error;
+      }
+      if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+        throw new AppError('Contenu du fichier trop volumineux', 413);
+      }
+      throw invalide();
+    }
+
+    decompresse += contenu.length;
+    if (decompresse > tailleMax) {
+      throw new AppError('Contenu du fichier trop volumineux', 413);
+    }
+    return contenu;
+  };
+
+  return {
+    entrees: [...entrees.keys()],
+    has: (nom: string): boolean => entrees.has(nom),
+    read,
+    readText: (nom: string): string => read(nom).toString('utf8').replace(/^\uFEFF/, '')
+  };
+};
+
+export default {
+  openZip
+};